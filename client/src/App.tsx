@@ -6,6 +6,7 @@ import { Star, MapPin } from 'lucide-react';
 import { EventBusProvider } from './shared/EventBusContext';
 import { SettingsProvider } from './shared/SettingsContext';
 import { AuthProvider, useAuth } from './shared/AuthContext';
+import { WorldRoomProvider, useWorldRoom } from './shared/WorldRoomContext';
 import { MapDataProvider } from './shared/MapDataContext';
 import { ActionDispatcherProvider } from './shared/ActionDispatcherProvider';
 import { ThemeProvider, useTheme } from './shared/ThemeContext';
@@ -33,7 +34,8 @@ import './App.css';
 
 // Inner App component that uses both auth and settings context
 const AppContent: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
+  const { worldRoomId } = useWorldRoom();
   const [currentVideoRoom, setCurrentVideoRoom] = useState<string>('general');
   const [currentChatRoom, setCurrentChatRoom] = useState<string>(user?.worldRoomId || 'general');
   const [showProfile, setShowProfile] = useState(false);
@@ -198,9 +200,16 @@ const AppContent: React.FC = () => {
                 backgroundColor: 'var(--color-accent)',
                 color: 'var(--color-text-primary)'
               }} />
+            )}
+
+            {user.isGuest && (
+              <Badge count="Guest" style={{
+                backgroundColor: 'var(--color-warning)',
+                color: 'var(--color-text-primary)'
+              }} />
             )}            
 
-            {user.isAdmin && (
+            {hasPermission('editor', worldRoomId) && (
               <Button
                 type="primary"
                 icon={<MapPin size={16} />}
@@ -287,7 +296,7 @@ const AuthenticatedApp: React.FC = () => {
   }
 
   return (
-    <SettingsProvider currentUser={user.username}>
+    <SettingsProvider currentUser={user.username} isAdmin={user.isAdmin}>
       <EventBusProvider>
         <MapDataProvider>
           <ActionDispatcherProvider>
@@ -321,7 +330,7 @@ const App: React.FC = () => {
         element={<SimpleWorldModuleDemo />}
       />
 
-      {/* Map Editor Route - accessible to authenticated admin users */}
+      {/* Map Editor Route - accessible to users with the editor role */}
       <Route
         path="/map-editor"
         element={
@@ -380,7 +389,9 @@ const ThemedApp: React.FC = () => {
       {/* Ant Design App provider enables context-driven components like message, modal, notification */}
       <AntdApp>
         <AuthProvider>
-          <App />
+          <WorldRoomProvider>
+            <App />
+          </WorldRoomProvider>
         </AuthProvider>
       </AntdApp>
     </ConfigProvider>
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Modal, Form, Input, Select, Button, Space, Row, Col, Switch, Divider, Alert, Tag } from 'antd';
 import {
   SaveOutlined, VideoCameraOutlined, BellOutlined, LinkOutlined, FileTextOutlined,
-  StopOutlined, ThunderboltOutlined, SwapOutlined
+  StopOutlined, ThunderboltOutlined, SwapOutlined, ExportOutlined, GlobalOutlined
 } from '@ant-design/icons';
 import {
   InteractiveArea,
@@ -13,9 +13,12 @@ import {
   ModalActionConfig,
   CollectibleActionConfig,
   SwitchActionConfig,
+  TeleportActionConfig,
+  PortalActionConfig,
   sanitizeJitsiRoomName,
   getColorForActionType,
 } from '../shared/MapDataContext';
+import { WORLD_ROOMS, useWorldRoom } from '../shared/WorldRoomContext';
 
 const { TextArea } = Input;
 const { Option } = Select;
@@ -55,6 +58,13 @@ interface FormData {
   switchTargetIds: string;
   switchInitialState: boolean;
   switchToggleMode: 'visibility' | 'collision' | 'both';
+  // Teleport config
+  teleportDestination: string;
+  teleportRoomId: string;
+  // Portal config
+  portalRoomId: string;
+  portalTargetX: number;
+  portalTargetY: number;
 }
 
 /** Action types with their display properties */
@@ -67,6 +77,8 @@ const ACTION_TYPES: { value: InteractiveAreaActionType; label: string; icon: Rea
   { value: 'modal', label: 'Show Modal', icon: <FileTextOutlined />, description: 'Display popup content' },
   { value: 'collectible', label: 'Collectible', icon: <ThunderboltOutlined />, description: 'Pickup with effects' },
   { value: 'switch', label: 'Switch/Toggle', icon: <SwapOutlined />, description: 'Toggle other elements' },
+  { value: 'teleport', label: 'Teleport', icon: <ExportOutlined />, description: 'Move to a named destination' },
+  { value: 'portal', label: 'Portal', icon: <GlobalOutlined />, description: 'Move to another world room' },
 ];
 
 export const AreaFormModal: React.FC<AreaFormModalProps> = ({
@@ -74,6 +86,7 @@ export const AreaFormModal: React.FC<AreaFormModalProps> = ({
 }) => {
   const [form] = Form.useForm<FormData>();
   const [loading, setLoading] = useState(false);
+  const { availableRooms } = useWorldRoom();
   const [actionType, setActionType] = useState<InteractiveAreaActionType>('impassable');
 
   // Reset form when modal opens/closes or editing area changes
@@ -85,6 +98,8 @@ export const AreaFormModal: React.FC<AreaFormModalProps> = ({
       const modalConfig = editingArea?.actionConfig as ModalActionConfig | undefined;
       const collectibleConfig = editingArea?.actionConfig as CollectibleActionConfig | undefined;
       const switchConfig = editingArea?.actionConfig as SwitchActionConfig | undefined;
+      const teleportConfig = editingArea?.actionConfig as TeleportActionConfig | undefined;
+      const portalConfig = editingArea?.actionConfig as PortalActionConfig | undefined;
 
       const currentActionType = editingArea?.actionType || 'impassable';
       setActionType(currentActionType);
@@ -110,6 +125,11 @@ export const AreaFormModal: React.FC<AreaFormModalProps> = ({
         switchTargetIds: switchConfig?.targetIds?.join(', ') || '',
         switchInitialState: switchConfig?.initialState ?? true,
         switchToggleMode: switchConfig?.toggleMode || 'visibility',
+        teleportDestination: teleportConfig?.destinationName || '',
+        teleportRoomId: teleportConfig?.targetRoomId || '',
+        portalRoomId: portalConfig?.targetRoomId || WORLD_ROOMS[0].id,
+        portalTargetX: portalConfig?.targetX ?? 400,
+        portalTargetY: portalConfig?.targetY ?? 300,
       });
     }
   }, [isOpen, editingArea, form]);
@@ -139,6 +159,17 @@ export const AreaFormModal: React.FC<AreaFormModalProps> = ({
           initialState: values.switchInitialState,
           toggleMode: values.switchToggleMode,
         };
+      case 'teleport':
+        return {
+          destinationName: values.teleportDestination.trim(),
+          ...(values.teleportRoomId ? { targetRoomId: values.teleportRoomId } : {}),
+        };
+      case 'portal':
+        return {
+          targetRoomId: values.portalRoomId,
+          targetX: Number(values.portalTargetX) || 0,
+          targetY: Number(values.portalTargetY) || 0,
+        };
       default:
         return null;
     }
@@ -363,6 +394,57 @@ export const AreaFormModal: React.FC<AreaFormModalProps> = ({
           </>
         )}
 
+        {/* Teleport Config */}
+        {actionType === 'teleport' && (
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item
+                name="teleportDestination"
+                label="Destination"
+                rules={[{ required: true, whitespace: true }]}
+                tooltip="Name of a spawn point / teleport destination on the target room's map"
+              >
+                <Input placeholder="Lobby" />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="teleportRoomId" label="Room">
+                <Select>
+                  <Option value="">This room</Option>
+                  {availableRooms.map(room => (
+                    <Option key={room.id} value={room.id}>{room.label}</Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            </Col>
+          </Row>
+        )}
+
+        {/* Portal Config */}
+        {actionType === 'portal' && (
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item name="portalRoomId" label="Target Room" rules={[{ required: true }]}>
+                <Select>
+                  {availableRooms.map(room => (
+                    <Option key={room.id} value={room.id}>{room.label}</Option>
+                  ))}
+                </Select>
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="portalTargetX" label="Target X" rules={[{ required: true }]}>
+                <Input type="number" placeholder="400" />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="portalTargetY" label="Target Y" rules={[{ required: true }]}>
+                <Input type="number" placeholder="300" />
+              </Form.Item>
+            </Col>
+          </Row>
+        )}
+
         {/* Impassable - no extra config needed */}
         {actionType === 'impassable' && (
           <Alert type="warning" showIcon message="This area will block player movement." style={{ marginBottom: 16 }} />
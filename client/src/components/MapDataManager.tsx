@@ -14,10 +14,23 @@
  */
 
 import React, { useState, useCallback } from 'react';
-import { App, Alert, Button, Card, Space, Upload } from 'antd';
+import { App, Alert, Button, Card, Space, Typography, Upload } from 'antd';
 import { UploadOutlined, DownloadOutlined, InboxOutlined, CopyOutlined } from '@ant-design/icons';
 import { useMapStore } from '../stores/useMapStore';
 import { useMapStoreInit } from '../stores/useMapStoreInit';
+import { TiledMapConverter, TiledIssue } from '../shared/TiledMapConverter';
+
+const TILED_MAP_EXTENSIONS = /\.(tmj|tmx|json)$/i;
+
+// Save a URL (object or data URL) as a file
+function downloadUrl(url: string, fileName: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
 
 interface MapDataManagerProps {
   className?: string;
@@ -40,11 +53,15 @@ export const MapDataManager: React.FC<MapDataManagerProps> = ({
     error,
     exportMap,
     importMap,
+    exportTiledMap,
+    importTiledMap,
     clearError
   } = useMapStore();
 
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  // What the last Tiled import/export could not convert
+  const [tiledIssues, setTiledIssues] = useState<TiledIssue[]>([]);
 
   /**
    * Export map data to JSON file
@@ -109,6 +126,62 @@ export const MapDataManager: React.FC<MapDataManagerProps> = ({
     },
   } as const;
 
+  /**
+   * Export the map for Tiled - the .tmj file plus the embedded images it references
+   */
+  const handleExportTiled = useCallback(async () => {
+    try {
+      setIsExporting(true);
+      const { json, images, issues } = await exportTiledMap();
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      downloadUrl(url, `stargety-map-${new Date().toISOString().split('T')[0]}.tmj`);
+      URL.revokeObjectURL(url);
+      images.forEach(image => downloadUrl(image.dataUrl, image.fileName));
+      setTiledIssues(issues);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to export Tiled map';
+      onError?.(errorMessage);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [exportTiledMap, onError]);
+
+  /**
+   * Import a Tiled map (.tmj/.tmx) picked together with the images it references
+   */
+  const handleImportTiled = useCallback(async (files: File[]) => {
+    const mapFile = files.find(file => TILED_MAP_EXTENSIONS.test(file.name));
+    if (!mapFile) {
+      onError?.('Select a Tiled map (.tmj or .tmx) together with its images');
+      return;
+    }
+    try {
+      setIsImporting(true);
+      const text = await mapFile.text();
+      const { issues } = await importTiledMap(text, TiledMapConverter.fileImageResolver(files));
+      setTiledIssues(issues);
+      onMapLoaded?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to import Tiled map';
+      onError?.(errorMessage);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importTiledMap, onMapLoaded, onError]);
+
+  const tiledUploadProps = {
+    accept: '.tmj,.tmx,.json,image/*',
+    multiple: true,
+    showUploadList: false,
+    beforeUpload: async (file: File, fileList: File[]) => {
+      // Called once per picked file - import when the last one arrives
+      if (file === fileList[fileList.length - 1]) {
+        await handleImportTiled(fileList);
+      }
+      return Upload.LIST_IGNORE;
+    },
+  } as const;
+
   /**
    * Trigger file input click
    */
@@ -182,8 +255,41 @@ export const MapDataManager: React.FC<MapDataManagerProps> = ({
         </Space>
       </Card>
 
+      <Card size="small" type="inner" title="Tiled Maps" style={{ marginBottom: 16 }}>
+        <Typography.Paragraph type="secondary" style={{ fontSize: 12 }}>
+          Import a .tmj or .tmx map - select it together with the images it uses.
+        </Typography.Paragraph>
+        <Space wrap>
+          <Button icon={<DownloadOutlined />} loading={isExporting} disabled={isLoading} onClick={handleExportTiled}>
+            Export to Tiled
+          </Button>
+          <Upload {...tiledUploadProps}>
+            <Button icon={<UploadOutlined />} loading={isImporting} disabled={isLoading}>
+              Import from Tiled
+            </Button>
+          </Upload>
+        </Space>
+      </Card>
 
-  
+      {tiledIssues.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          message={`${tiledIssues.length} Tiled feature(s) could not be converted exactly`}
+          description={
+            <ul style={{ margin: 0, paddingLeft: 16 }}>
+              {tiledIssues.map(issue => (
+                <li key={issue.message}>
+                  {issue.kind === 'skipped' ? 'Skipped' : 'Approximated'}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          }
+          closable
+          onClose={() => setTiledIssues([])}
+          style={{ marginBottom: 16 }}
+        />
+      )}
 
       {error && (
         <Alert
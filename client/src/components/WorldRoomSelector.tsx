@@ -1,7 +1,7 @@
 import React from 'react';
 import { Select, Space, Typography } from 'antd';
 import { GlobalOutlined } from '@ant-design/icons';
-import { WORLD_ROOMS, WorldRoomId } from '../shared/WorldRoomContext';
+import { useWorldRoom, WorldRoomId } from '../shared/WorldRoomContext';
 
 interface WorldRoomSelectorProps {
   value: WorldRoomId;
@@ -13,10 +13,7 @@ interface WorldRoomSelectorProps {
 /**
  * WorldRoomSelector - Dropdown for selecting world room
  * 
- * Options:
- * - Stargety-Oasis-1 (default)
- * - Stargety-Oasis-2
- * - Stargety-Oasis-3
+ * Options come from the world room registry (WorldRoomProvider)
  */
 export const WorldRoomSelector: React.FC<WorldRoomSelectorProps> = ({
   value,
@@ -24,9 +21,12 @@ export const WorldRoomSelector: React.FC<WorldRoomSelectorProps> = ({
   disabled = false,
   showLabel = true,
 }) => {
-  const options = WORLD_ROOMS.map(room => ({
+  const { availableRooms } = useWorldRoom();
+  const options = availableRooms.map(room => ({
     value: room.id,
-    label: room.label,
+    label: room.playerCount !== undefined && room.capacity !== undefined
+      ? `${room.label} (${room.playerCount}/${room.capacity})`
+      : room.label,
   }));
 
   return (
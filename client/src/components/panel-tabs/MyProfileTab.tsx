@@ -6,6 +6,8 @@ import { useAuth } from '../../shared/AuthContext';
 import { useSettings } from '../../shared/SettingsContext';
 import { useTheme } from '../../shared/ThemeContext';
 import { ThemeType } from '../../theme/theme-system';
+import { TwoFactorSettings } from '../settings/TwoFactorSettings';
+import { MySessions } from '../settings/MySessions';
 // V2 Character Selector
 import { CharacterSelector as CharacterSelectorV2, MigrationDetector, MigrationModal, CharacterStorage } from '../avatar/v2';
 
@@ -361,6 +363,10 @@ export const MyProfileTab: React.FC = () => {
             </Form>
           </Card>
 
+          <TwoFactorSettings />
+
+          <MySessions />
+
           {/* Account Actions */}
           <Card
             title="Account"
@@ -33,6 +33,7 @@ interface TeamMember {
   timezone?: string;
   lastSeen?: string;
   isAdmin?: boolean;
+  isGuest?: boolean;   // Invited visitor with temporary access
 }
 
 // Mock data for channels
@@ -139,6 +140,14 @@ const mockTeamMembers: TeamMember[] = [
     location: 'Chicago, IL',
     timezone: 'CST',
     isAdmin: false
+  },
+  {
+    id: 'visitor',
+    username: 'Alex',
+    displayName: 'Alex',
+    role: 'Visitor',
+    status: 'online',
+    isGuest: true
   }
 ];
 
@@ -392,6 +401,15 @@ export const PeopleTab: React.FC = () => {
                           }}
                         />
                       )}
+                      {member.isGuest && (
+                        <Badge
+                          count="Guest"
+                          style={{
+                            backgroundColor: 'var(--color-warning)',
+                            fontSize: '10px'
+                          }}
+                        />
+                      )}
                     </Space>
                   }
                   description={
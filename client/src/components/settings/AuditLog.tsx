@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, Table, Select, Input, Button, Space, DatePicker, Typography, message } from 'antd';
+import { AuditOutlined, DownloadOutlined } from '@ant-design/icons';
+import type { Dayjs } from 'dayjs';
+import {
+  AuditApiService,
+  AuditEvent,
+  AuditEventFilters,
+  AuditExportFormat,
+} from '../../services/api/AuditApiService';
+
+const { Text } = Typography;
+
+const PAGE_SIZE = 20;
+
+// Action prefixes - the server matches every action starting with them
+const ACTION_OPTIONS = [
+  { value: 'auth.', label: 'Authentication' },
+  { value: 'role.', label: 'Roles' },
+  { value: 'invite.', label: 'Guest invites' },
+  { value: 'map.', label: 'Maps' },
+  { value: 'asset.', label: 'Assets' },
+  { value: 'character.', label: 'Characters' },
+  { value: 'chat.', label: 'Chat moderation' },
+];
+
+function formatSummary(event: AuditEvent): string {
+  const parts: string[] = [];
+  if (event.before) parts.push(`before: ${JSON.stringify(event.before)}`);
+  if (event.after) parts.push(`after: ${JSON.stringify(event.after)}`);
+  return parts.join(' → ');
+}
+
+/**
+ * Audit log for admins - filterable list of security-relevant actions with CSV/JSON export
+ */
+export const AuditLog: React.FC = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    const response = await AuditApiService.listEvents(filters, page, PAGE_SIZE);
+    setIsLoading(false);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to load audit log');
+      return;
+    }
+    setEvents(response.data.events);
+    setTotal(response.data.total);
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const updateFilter = (changes: Partial<AuditEventFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const handleDateRange = (range: [Dayjs | null, Dayjs | null] | null) => {
+    updateFilter({
+      from: range?.[0]?.startOf('day').toISOString(),
+      to: range?.[1]?.endOf('day').toISOString(),
+    });
+  };
+
+  const handleExport = async (format: AuditExportFormat) => {
+    const response = await AuditApiService.exportEvents(filters, format);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Export failed');
+      return;
+    }
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-events.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card size="small" title={<Space><AuditOutlined />Audit Log</Space>}>
+      <Space wrap style={{ marginBottom: 12 }}>
+        <Select
+          size="small"
+          allowClear
+          placeholder="All actions"
+          style={{ width: 150 }}
+          options={ACTION_OPTIONS}
+          value={filters.action}
+          onChange={(action) => updateFilter({ action })}
+        />
+        <Input.Search
+          size="small"
+          allowClear
+          placeholder="User"
+          style={{ width: 130 }}
+          onSearch={(actorName) => updateFilter({ actorName: actorName.trim() || undefined })}
+        />
+        <Input.Search
+          size="small"
+          allowClear
+          placeholder="Room"
+          style={{ width: 150 }}
+          onSearch={(roomId) => updateFilter({ roomId: roomId.trim() || undefined })}
+        />
+        <DatePicker.RangePicker size="small" onChange={(range) => handleDateRange(range)} />
+        <Button size="small" icon={<DownloadOutlined />} onClick={() => handleExport('csv')}>CSV</Button>
+        <Button size="small" icon={<DownloadOutlined />} onClick={() => handleExport('json')}>JSON</Button>
+      </Space>
+
+      <Table<AuditEvent>
+        size="small"
+        rowKey="id"
+        loading={isLoading}
+        dataSource={events}
+        pagination={{
+          current: page,
+          pageSize: PAGE_SIZE,
+          total,
+          showSizeChanger: false,
+          hideOnSinglePage: true,
+          onChange: setPage,
+        }}
+        expandable={{
+          rowExpandable: (event) => !!(event.before || event.after || event.metadata),
+          expandedRowRender: (event) => (
+            <Space direction="vertical" size={0}>
+              <Text code style={{ fontSize: '11px' }}>{formatSummary(event)}</Text>
+              {event.metadata && <Text type="secondary" style={{ fontSize: '11px' }}>{JSON.stringify(event.metadata)}</Text>}
+            </Space>
+          ),
+        }}
+        columns={[
+          {
+            title: 'Time',
+            dataIndex: 'createdAt',
+            width: 150,
+            render: (createdAt: string) => new Date(createdAt).toLocaleString(),
+          },
+          { title: 'User', dataIndex: 'actorName', render: (name: string | null) => name ?? <Text type="secondary">anonymous</Text> },
+          { title: 'Action', dataIndex: 'action' },
+          {
+            title: 'Target',
+            render: (_value, event) => `${event.targetType}${event.targetId ? ` ${event.targetId}` : ''}`,
+            ellipsis: true,
+          },
+          { title: 'Room', dataIndex: 'roomId', responsive: ['md'] },
+          { title: 'IP', dataIndex: 'ip', responsive: ['lg'] },
+        ]}
+      />
+    </Card>
+  );
+};
+
+export default AuditLog;
@@ -3,6 +3,9 @@ import { Modal, Card, Typography, Space, Button, message, Input } from 'antd';
 import { SaveOutlined, SecurityScanOutlined, LinkOutlined } from '@ant-design/icons';
 import { useAuth } from '../../shared/AuthContext';
 import { useSettings } from '../../shared/SettingsContext';
+import { RoleManagement } from './RoleManagement';
+import { GuestInvites } from './GuestInvites';
+import { AuditLog } from './AuditLog';
 
 const { Text } = Typography;
 
@@ -95,6 +98,12 @@ export const ConsolidatedSettings: React.FC<ConsolidatedSettingsProps> = ({
                   </ul>
                 </Space>
               </Card>
+
+              <RoleManagement />
+
+              <GuestInvites />
+
+              <AuditLog />
             </Space>
           
         ) : (
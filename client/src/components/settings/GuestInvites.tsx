@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, Table, InputNumber, Button, Space, Tag, Typography, message } from 'antd';
+import { UserAddOutlined, DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { useWorldRoom } from '../../shared/WorldRoomContext';
+import {
+  GuestApiService,
+  RoomInvite,
+  getInviteUrl,
+  isInviteActive,
+} from '../../services/api/GuestApiService';
+
+const { Text } = Typography;
+
+const DEFAULT_EXPIRY_HOURS = 24;
+const DEFAULT_MAX_USES = 10;
+
+/**
+ * Guest invites for admins - links that let visitors join the current world
+ * room with just a name. Guests can't edit maps and lose access after a few hours.
+ */
+export const GuestInvites: React.FC = () => {
+  const { worldRoomId, availableRooms } = useWorldRoom();
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expiresInHours, setExpiresInHours] = useState<number>(DEFAULT_EXPIRY_HOURS);
+  const [maxUses, setMaxUses] = useState<number>(DEFAULT_MAX_USES);
+
+  const roomName = availableRooms.find(room => room.id === worldRoomId)?.label ?? worldRoomId;
+
+  const loadInvites = useCallback(async () => {
+    setIsLoading(true);
+    const response = await GuestApiService.listInvites(worldRoomId);
+    setIsLoading(false);
+    if (response.success && response.data) {
+      setInvites(response.data);
+    }
+  }, [worldRoomId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const handleCreate = async () => {
+    const response = await GuestApiService.createInvite(worldRoomId, { expiresInHours, maxUses });
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to create invite');
+      return;
+    }
+    const invite = response.data;
+    setInvites(prev => [invite, ...prev]);
+    navigator.clipboard?.writeText(getInviteUrl(invite.token)).then(
+      () => message.success('Invite link copied to clipboard'),
+      () => message.success('Invite created')
+    );
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    const response = await GuestApiService.revokeInvite(worldRoomId, inviteId);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to revoke invite');
+      return;
+    }
+    setInvites(response.data);
+  };
+
+  const renderStatus = (invite: RoomInvite) => {
+    if (invite.revokedAt) return <Tag>Revoked</Tag>;
+    if (new Date(invite.expiresAt) <= new Date()) return <Tag>Expired</Tag>;
+    if (invite.uses >= invite.maxUses) return <Tag>Used up</Tag>;
+    return <Tag color="green">Active</Tag>;
+  };
+
+  return (
+    <Card size="small" title={<Space><UserAddOutlined />Guest Invites to {roomName}</Space>}>
+      <Space wrap style={{ marginBottom: 12 }}>
+        <Text type="secondary" style={{ fontSize: '12px' }}>Valid for</Text>
+        <InputNumber
+          size="small"
+          min={1}
+          max={720}
+          value={expiresInHours}
+          addonAfter="hours"
+          style={{ width: 130 }}
+          onChange={(value) => setExpiresInHours(value ?? DEFAULT_EXPIRY_HOURS)}
+        />
+        <Text type="secondary" style={{ fontSize: '12px' }}>Max uses</Text>
+        <InputNumber
+          size="small"
+          min={1}
+          max={1000}
+          precision={0}
+          value={maxUses}
+          style={{ width: 80 }}
+          onChange={(value) => setMaxUses(value ?? DEFAULT_MAX_USES)}
+        />
+        <Button size="small" type="primary" icon={<PlusOutlined />} onClick={handleCreate}>
+          Create Invite
+        </Button>
+      </Space>
+
+      <Table<RoomInvite>
+        size="small"
+        rowKey="id"
+        loading={isLoading}
+        dataSource={invites}
+        pagination={{ pageSize: 5, hideOnSinglePage: true }}
+        locale={{ emptyText: 'No invites yet' }}
+        columns={[
+          {
+            title: 'Link',
+            dataIndex: 'token',
+            ellipsis: true,
+            render: (token: string, record) => (
+              <Text
+                copyable={isInviteActive(record) ? { text: getInviteUrl(token) } : false}
+                type={isInviteActive(record) ? undefined : 'secondary'}
+                style={{ fontSize: '12px' }}
+              >
+                {getInviteUrl(token)}
+              </Text>
+            ),
+          },
+          {
+            title: 'Uses',
+            width: 70,
+            render: (_value, record) => `${record.uses}/${record.maxUses}`,
+          },
+          {
+            title: 'Expires',
+            dataIndex: 'expiresAt',
+            width: 150,
+            responsive: ['md'],
+            render: (expiresAt: string) => new Date(expiresAt).toLocaleString(),
+          },
+          {
+            title: 'Status',
+            width: 90,
+            render: (_value, record) => renderStatus(record),
+          },
+          {
+            title: '',
+            width: 48,
+            render: (_value, record) => (
+              <Button
+                size="small"
+                type="text"
+                danger
+                icon={<DeleteOutlined />}
+                title="Revoke invite"
+                disabled={!!record.revokedAt}
+                onClick={() => handleRevoke(record.id)}
+              />
+            ),
+          },
+        ]}
+      />
+      <Text type="secondary" style={{ fontSize: '11px', display: 'block', marginTop: 8 }}>
+        Guests can only visit this room, can't edit maps and lose access 8 hours after joining.
+        Revoking an invite stops new guests from joining.
+      </Text>
+    </Card>
+  );
+};
+
+export default GuestInvites;
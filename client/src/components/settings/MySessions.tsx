@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, List, Button, Space, Tag, Popconfirm, message } from 'antd';
+import { LaptopOutlined, LogoutOutlined } from '@ant-design/icons';
+import { SessionApiService, Session } from '../../services/api/SessionApiService';
+
+/**
+ * Logged-in devices of the signed-in user - each can be logged out individually
+ */
+export const MySessions: React.FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    const response = await SessionApiService.listSessions();
+    setIsLoading(false);
+    if (response.success && response.data) {
+      setSessions(response.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: string) => {
+    const response = await SessionApiService.revokeSession(sessionId);
+    if (!response.success) {
+      message.error(response.error || 'Failed to log out device');
+      return;
+    }
+    setSessions(prev => prev.filter(session => session.id !== sessionId));
+  };
+
+  const handleRevokeOthers = async () => {
+    const response = await SessionApiService.revokeOtherSessions();
+    if (!response.success) {
+      message.error(response.error || 'Failed to log out other devices');
+      return;
+    }
+    message.success(`Logged out ${response.data?.revoked ?? 0} other device(s)`);
+    loadSessions();
+  };
+
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  return (
+    <Card
+      title={<Space><LaptopOutlined />My Sessions</Space>}
+      size="small"
+      style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-light)', width: '100%' }}
+      extra={
+        hasOtherSessions && (
+          <Popconfirm title="Log out all other devices?" onConfirm={handleRevokeOthers}>
+            <Button size="small" danger>Log out others</Button>
+          </Popconfirm>
+        )
+      }
+    >
+      <List
+        size="small"
+        loading={isLoading}
+        dataSource={sessions}
+        locale={{ emptyText: 'No active sessions' }}
+        renderItem={(session) => (
+          <List.Item
+            actions={session.current ? [] : [
+              <Button
+                key="revoke"
+                size="small"
+                type="text"
+                danger
+                icon={<LogoutOutlined />}
+                title="Log out this device"
+                onClick={() => handleRevoke(session.id)}
+              />,
+            ]}
+          >
+            <List.Item.Meta
+              title={
+                <Space>
+                  {session.deviceName}
+                  {session.current && <Tag color="green">This device</Tag>}
+                </Space>
+              }
+              description={`${session.ip ?? 'Unknown IP'} · last active ${new Date(session.lastSeenAt).toLocaleString()}`}
+            />
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+};
+
+export default MySessions;
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, Table, Select, Button, Space, Typography, message } from 'antd';
+import { TeamOutlined, DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { useAuth } from '../../shared/AuthContext';
+import { useWorldRoom } from '../../shared/WorldRoomContext';
+import {
+  RoleApiService,
+  UserRoleData,
+  RoomMember,
+  UserRole,
+  USER_ROLES,
+  hasRole,
+  getEffectiveRole,
+} from '../../services/api/RoleApiService';
+
+const { Text } = Typography;
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  editor: 'Editor',
+  member: 'Member',
+  guest: 'Guest',
+};
+
+/**
+ * Role management for admins - global roles of all users and the roles
+ * granted in the current world room. Nobody can grant a role above their own.
+ */
+export const RoleManagement: React.FC = () => {
+  const { user, refreshPermissions } = useAuth();
+  const { worldRoomId, availableRooms } = useWorldRoom();
+  const [users, setUsers] = useState<UserRoleData[]>([]);
+  const [roomMembers, setRoomMembers] = useState<RoomMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newMemberId, setNewMemberId] = useState<string | undefined>();
+  const [newMemberRole, setNewMemberRole] = useState<UserRole>('editor');
+
+  const globalRole = user?.role ?? 'guest';
+  const roomRole = user ? getEffectiveRole(user, worldRoomId) : 'guest';
+  const roomName = availableRooms.find(room => room.id === worldRoomId)?.label ?? worldRoomId;
+
+  const loadRoles = useCallback(async () => {
+    setIsLoading(true);
+    const [usersResponse, membersResponse] = await Promise.all([
+      RoleApiService.listUsers(),
+      RoleApiService.listRoomMembers(worldRoomId),
+    ]);
+    if (usersResponse.success && usersResponse.data) {
+      setUsers(usersResponse.data);
+    }
+    if (membersResponse.success && membersResponse.data) {
+      setRoomMembers(membersResponse.data);
+    }
+    setIsLoading(false);
+  }, [worldRoomId]);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  const handleUserRoleChange = async (userId: string, role: UserRole) => {
+    const response = await RoleApiService.setUserRole(userId, role);
+    if (!response.success) {
+      message.error(response.error || 'Failed to change role');
+      return;
+    }
+    message.success('Role updated');
+    loadRoles();
+  };
+
+  const handleRoomRoleChange = async (userId: string, role: UserRole | null) => {
+    const response = role
+      ? await RoleApiService.setRoomRole(worldRoomId, userId, role)
+      : await RoleApiService.removeRoomRole(worldRoomId, userId);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to update room role');
+      return;
+    }
+    setRoomMembers(response.data);
+    if (userId === user?.id) {
+      refreshPermissions();
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!newMemberId) return;
+    await handleRoomRoleChange(newMemberId, newMemberRole);
+    setNewMemberId(undefined);
+  };
+
+  // Roles the current user may grant
+  const roleOptions = (ownRole: UserRole) => USER_ROLES
+    .filter(role => hasRole(ownRole, role))
+    .map(role => ({ value: role, label: ROLE_LABELS[role] }));
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <Card size="small" title={<Space><TeamOutlined />User Roles</Space>}>
+        <Table<UserRoleData>
+          size="small"
+          rowKey="id"
+          loading={isLoading}
+          dataSource={users}
+          pagination={{ pageSize: 8, hideOnSinglePage: true }}
+          columns={[
+            { title: 'User', dataIndex: 'username' },
+            { title: 'Email', dataIndex: 'email', responsive: ['md'] },
+            {
+              title: 'Role',
+              dataIndex: 'role',
+              width: 140,
+              render: (role: UserRole, record) => (
+                <Select<UserRole>
+                  size="small"
+                  value={role}
+                  style={{ width: 120 }}
+                  options={roleOptions(globalRole)}
+                  disabled={record.id === user?.id || !hasRole(globalRole, role)}
+                  onChange={(value) => handleUserRoleChange(record.id, value)}
+                />
+              ),
+            },
+          ]}
+        />
+      </Card>
+
+      <Card size="small" title={`Roles in ${roomName}`}>
+        <Table<RoomMember>
+          size="small"
+          rowKey="userId"
+          loading={isLoading}
+          dataSource={roomMembers}
+          pagination={false}
+          locale={{ emptyText: 'No room-specific roles' }}
+          columns={[
+            { title: 'User', dataIndex: 'username' },
+            {
+              title: 'Role',
+              dataIndex: 'role',
+              width: 140,
+              render: (role: UserRole, record) => (
+                <Select<UserRole>
+                  size="small"
+                  value={role}
+                  style={{ width: 120 }}
+                  options={roleOptions(roomRole)}
+                  disabled={!hasRole(roomRole, role)}
+                  onChange={(value) => handleRoomRoleChange(record.userId, value)}
+                />
+              ),
+            },
+            {
+              title: '',
+              width: 48,
+              render: (_value, record) => (
+                <Button
+                  size="small"
+                  type="text"
+                  danger
+                  icon={<DeleteOutlined />}
+                  disabled={!hasRole(roomRole, record.role)}
+                  onClick={() => handleRoomRoleChange(record.userId, null)}
+                />
+              ),
+            },
+          ]}
+        />
+        <Space style={{ marginTop: 12 }}>
+          <Select
+            size="small"
+            showSearch
+            placeholder="Select user"
+            style={{ width: 180 }}
+            value={newMemberId}
+            optionFilterProp="label"
+            options={users
+              .filter(candidate => !roomMembers.some(member => member.userId === candidate.id))
+              .map(candidate => ({ value: candidate.id, label: candidate.username }))}
+            onChange={setNewMemberId}
+          />
+          <Select<UserRole>
+            size="small"
+            style={{ width: 120 }}
+            value={newMemberRole}
+            options={roleOptions(roomRole)}
+            onChange={setNewMemberRole}
+          />
+          <Button size="small" icon={<PlusOutlined />} disabled={!newMemberId} onClick={handleAddMember}>
+            Grant
+          </Button>
+        </Space>
+        <Text type="secondary" style={{ fontSize: '11px', display: 'block', marginTop: 8 }}>
+          A user's role in a room is the higher of their user role and their room role.
+        </Text>
+      </Card>
+    </Space>
+  );
+};
+
+export default RoleManagement;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, List, Select, Button, Input, Space, Typography, Alert, Image, message } from 'antd';
+import { SafetyOutlined, KeyOutlined, DeleteOutlined, MobileOutlined, ReloadOutlined } from '@ant-design/icons';
+import {
+  TwoFactorApiService,
+  TwoFactorMethod,
+  TwoFactorStatus,
+  TotpEnrollment,
+} from '../../services/api/TwoFactorApiService';
+
+const { Text, Paragraph } = Typography;
+
+const METHOD_LABELS: Record<TwoFactorMethod, string> = {
+  ntfy: 'ntfy notification',
+  totp: 'Authenticator app',
+  webauthn: 'Passkey',
+  recovery: 'Recovery code',
+};
+
+/**
+ * Two-factor settings for the signed-in user - authenticator app enrollment,
+ * passkeys, recovery codes and the method logins start with.
+ */
+export const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [totpCode, setTotpCode] = useState('');
+  const [passkeyName, setPasskeyName] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    const response = await TwoFactorApiService.getStatus();
+    if (response.success && response.data) {
+      setStatus(response.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Recovery codes are only returned once - keep them on screen until dismissed
+  const showRecoveryCodes = (codes?: string[]) => {
+    if (codes && codes.length > 0) {
+      setRecoveryCodes(codes);
+    }
+  };
+
+  const handlePreferredChange = async (method: TwoFactorMethod) => {
+    const response = await TwoFactorApiService.setPreferredMethod(method);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to update preferred method');
+      return;
+    }
+    setStatus(response.data);
+  };
+
+  const handleStartTotp = async () => {
+    setIsBusy(true);
+    const response = await TwoFactorApiService.setupTotp();
+    setIsBusy(false);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to start authenticator setup');
+      return;
+    }
+    setEnrollment(response.data);
+    setTotpCode('');
+  };
+
+  const handleConfirmTotp = async () => {
+    setIsBusy(true);
+    const response = await TwoFactorApiService.confirmTotp(totpCode);
+    setIsBusy(false);
+    if (!response.success) {
+      message.error(response.error || 'Invalid verification code');
+      return;
+    }
+    message.success('Authenticator app enabled');
+    setEnrollment(null);
+    showRecoveryCodes(response.data?.recoveryCodes);
+    loadStatus();
+  };
+
+  const handleDisableTotp = async () => {
+    const response = await TwoFactorApiService.disableTotp();
+    if (!response.success) {
+      message.error(response.error || 'Failed to remove authenticator');
+      return;
+    }
+    message.success('Authenticator app removed');
+    loadStatus();
+  };
+
+  const handleAddPasskey = async () => {
+    setIsBusy(true);
+    const response = await TwoFactorApiService.registerPasskey(passkeyName.trim() || 'Passkey');
+    setIsBusy(false);
+    if (!response.success) {
+      message.error(response.error || 'Failed to add passkey');
+      return;
+    }
+    message.success('Passkey added');
+    setPasskeyName('');
+    showRecoveryCodes(response.data?.recoveryCodes);
+    loadStatus();
+  };
+
+  const handleRemovePasskey = async (passkeyId: string) => {
+    const response = await TwoFactorApiService.removePasskey(passkeyId);
+    if (!response.success) {
+      message.error(response.error || 'Failed to remove passkey');
+      return;
+    }
+    loadStatus();
+  };
+
+  const handleRegenerateRecoveryCodes = async () => {
+    const response = await TwoFactorApiService.regenerateRecoveryCodes();
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to generate recovery codes');
+      return;
+    }
+    showRecoveryCodes(response.data.recoveryCodes);
+    loadStatus();
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  const preferredOptions = status.methods
+    .filter(method => method !== 'recovery')
+    .map(method => ({ value: method, label: METHOD_LABELS[method] }));
+
+  return (
+    <Card
+      title={<Space><SafetyOutlined />Two-Factor Authentication</Space>}
+      size="small"
+      style={{ backgroundColor: 'var(--color-bg-secondary)', borderColor: 'var(--color-border-light)', width: '100%' }}
+    >
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Text>Sign in with</Text>
+          <Select<TwoFactorMethod>
+            size="small"
+            style={{ width: 170 }}
+            value={status.preferredMethod}
+            options={preferredOptions}
+            onChange={handlePreferredChange}
+          />
+        </div>
+
+        {recoveryCodes.length > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            closable
+            onClose={() => setRecoveryCodes([])}
+            message="Save your recovery codes"
+            description={
+              <>
+                <Paragraph style={{ marginBottom: 8 }}>
+                  Each code can be used once if you lose access to your other methods. They won't be shown again.
+                </Paragraph>
+                <Paragraph copyable={{ text: recoveryCodes.join('\n') }} code style={{ marginBottom: 0 }}>
+                  {recoveryCodes.join('  ')}
+                </Paragraph>
+              </>
+            }
+          />
+        )}
+
+        {/* Authenticator app */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Space><MobileOutlined /><Text>Authenticator app</Text></Space>
+          {status.totpEnabled ? (
+            <Button size="small" danger onClick={handleDisableTotp}>Remove</Button>
+          ) : (
+            <Button size="small" onClick={handleStartTotp} loading={isBusy && !enrollment}>Set up</Button>
+          )}
+        </div>
+
+        {enrollment && (
+          <Space direction="vertical" style={{ width: '100%', alignItems: 'center' }}>
+            <Text type="secondary">Scan this code with your authenticator app, then enter the code it shows.</Text>
+            <Image src={enrollment.qrCode} alt="Authenticator QR code" width={180} preview={false} />
+            <Text type="secondary" copyable={{ text: enrollment.secret }} style={{ fontSize: '11px' }}>
+              {enrollment.secret}
+            </Text>
+            <Space>
+              <Input
+                size="small"
+                placeholder="000000"
+                value={totpCode}
+                maxLength={6}
+                style={{ width: 100, textAlign: 'center' }}
+                onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, ''))}
+                onPressEnter={handleConfirmTotp}
+              />
+              <Button size="small" type="primary" disabled={totpCode.length !== 6} loading={isBusy} onClick={handleConfirmTotp}>
+                Confirm
+              </Button>
+              <Button size="small" onClick={() => setEnrollment(null)}>Cancel</Button>
+            </Space>
+          </Space>
+        )}
+
+        {/* Passkeys */}
+        <Space><KeyOutlined /><Text>Passkeys</Text></Space>
+        <List
+          size="small"
+          dataSource={status.passkeys}
+          locale={{ emptyText: 'No passkeys' }}
+          renderItem={(passkey) => (
+            <List.Item
+              actions={[
+                <Button
+                  key="remove"
+                  size="small"
+                  type="text"
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => handleRemovePasskey(passkey.id)}
+                />,
+              ]}
+            >
+              <List.Item.Meta
+                title={passkey.name}
+                description={`Added ${new Date(passkey.createdAt).toLocaleDateString()}`}
+              />
+            </List.Item>
+          )}
+        />
+        <Space>
+          <Input
+            size="small"
+            placeholder="Passkey name"
+            value={passkeyName}
+            maxLength={50}
+            onChange={(e) => setPasskeyName(e.target.value)}
+          />
+          <Button size="small" onClick={handleAddPasskey} loading={isBusy && !enrollment}>Add passkey</Button>
+        </Space>
+
+        {/* Recovery codes */}
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Text>Recovery codes: {status.recoveryCodesRemaining} left</Text>
+          <Button size="small" icon={<ReloadOutlined />} onClick={handleRegenerateRecoveryCodes}>
+            New codes
+          </Button>
+        </div>
+      </Space>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
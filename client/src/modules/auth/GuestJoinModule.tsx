@@ -0,0 +1,141 @@
+/**
+ * Guest Join Module
+ * Lets a visitor with an invite link enter its world room with just a name
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Card, Form, Input, Button, Alert, Space, Divider, Typography, Spin } from 'antd';
+import { UserOutlined, LoginOutlined } from '@ant-design/icons';
+import { useAuth } from '../../shared/AuthContext';
+import { GuestApiService, InviteInfo } from '../../services/api/GuestApiService';
+import magicalBg from '../../assets/magical_bg.png';
+
+interface GuestJoinModuleProps {
+  inviteToken: string;
+  onJoined?: () => void;
+  onSwitchToLogin?: () => void;
+}
+
+interface FormData {
+  name: string;
+}
+
+export const GuestJoinModule: React.FC<GuestJoinModuleProps> = ({
+  inviteToken,
+  onJoined,
+  onSwitchToLogin,
+}) => {
+  const { joinAsGuest, isLoading } = useAuth();
+  const [invite, setInvite] = useState<InviteInfo | null>(null);
+  const [isCheckingInvite, setIsCheckingInvite] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    GuestApiService.getInvite(inviteToken).then(response => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setInvite(response.data);
+      } else {
+        setError(response.error || 'Invite is invalid or has expired');
+      }
+      setIsCheckingInvite(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [inviteToken]);
+
+  const handleSubmit = async (values: FormData) => {
+    setError('');
+    const success = await joinAsGuest(inviteToken, values.name.trim());
+    if (success) {
+      onJoined?.();
+    } else {
+      setError('Could not join. The invite may have expired or been used up.');
+    }
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundImage: `linear-gradient(35deg, #667eea 0%, #764ba2 100%), url(${magicalBg})`,
+      backgroundBlendMode: 'overlay',
+      backgroundSize: 'cover, cover',
+      backgroundPosition: 'center, center',
+      backgroundRepeat: 'no-repeat, no-repeat',
+      padding: '0.5rem'
+    }}>
+      <div style={{ width: '100%', maxWidth: 480 }}>
+        <Card
+          style={{
+            width: '100%',
+            boxShadow: '0 20px 40px rgba(0, 0, 0, 0.1)',
+            background: 'rgba(32, 32, 32, 0.27)',
+            backdropFilter: 'blur(25px)'
+          }}
+        >
+          <Space direction="vertical" style={{ width: '100%' }} size="large">
+            <div style={{ textAlign: 'center', marginBottom: '1rem', padding: '1rem 0' }}>
+              <Typography.Title level={3} style={{ textAlign: 'center', marginBottom: '0.5rem' }}>
+                Join as Guest
+              </Typography.Title>
+              <Typography.Text type="secondary" style={{ display: 'block', textAlign: 'center' }}>
+                {invite ? `You're invited to ${invite.roomName}` : 'Stargety Oasis'}
+              </Typography.Text>
+            </div>
+
+            {isCheckingInvite && (
+              <div style={{ textAlign: 'center' }}>
+                <Spin />
+              </div>
+            )}
+
+            {error && <Alert message={error} type="error" showIcon />}
+
+            {invite && (
+              <Form layout="vertical" onFinish={handleSubmit} autoComplete="off">
+                <Form.Item
+                  name="name"
+                  label="Your name"
+                  extra="Shown to others with a guest badge. Guest access ends after a few hours."
+                  rules={[
+                    { required: true, whitespace: true, message: 'Please enter your name' },
+                    { min: 2, message: 'Name must be at least 2 characters' },
+                    { max: 30, message: 'Name must be at most 30 characters' },
+                  ]}
+                >
+                  <Input
+                    prefix={<UserOutlined />}
+                    placeholder="How others will see you"
+                    disabled={isLoading}
+                  />
+                </Form.Item>
+
+                <Button
+                  type="primary"
+                  htmlType="submit"
+                  size="large"
+                  icon={<LoginOutlined />}
+                  loading={isLoading}
+                  style={{ width: '100%' }}
+                >
+                  Enter {invite.roomName}
+                </Button>
+              </Form>
+            )}
+
+            <Divider>Have an account?</Divider>
+
+            <Button onClick={onSwitchToLogin} style={{ width: '100%' }} size="large">
+              Sign In
+            </Button>
+          </Space>
+        </Card>
+      </div>
+    </div>
+  );
+};
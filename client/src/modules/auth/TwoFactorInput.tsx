@@ -1,12 +1,14 @@
 /**
  * Two-Factor Authentication Input Component
- * Displays 6-digit code input with auto-submit and countdown timer
+ * Adapts to the login's 2FA method: ntfy code (with countdown timer),
+ * authenticator app code, recovery code or passkey
  */
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Input, Button, Alert, Space, Statistic, Card, Typography, List } from 'antd';
-import { LockOutlined, ReloadOutlined } from '@ant-design/icons';
+import { LockOutlined, ReloadOutlined, KeyOutlined } from '@ant-design/icons';
 import { logger } from '../../shared/logger';
+import type { TwoFactorMethod } from '../../services/api/TwoFactorApiService';
 
 interface TwoFactorInputProps {
   onSubmit: (code: string) => Promise<void>;
@@ -14,24 +16,58 @@ interface TwoFactorInputProps {
   onResendCode?: () => Promise<void>;
   expirySeconds?: number;
   topicId?: string;
+  method?: TwoFactorMethod;
+  methods?: TwoFactorMethod[];
+  onSelectMethod?: (method: TwoFactorMethod) => Promise<void>;
+  onPasskey?: () => Promise<void>;
 }
 
+const METHOD_LABELS: Record<TwoFactorMethod, string> = {
+  ntfy: 'Send a code to ntfy',
+  totp: 'Use authenticator app',
+  webauthn: 'Use a passkey',
+  recovery: 'Use a recovery code',
+};
+
+const METHOD_DESCRIPTIONS: Record<TwoFactorMethod, string> = {
+  ntfy: 'A 6-digit verification code has been sent to your ntfy.sh topic',
+  totp: 'Enter the 6-digit code shown in your authenticator app',
+  webauthn: 'Confirm it\'s you with your passkey or security key',
+  recovery: 'Enter one of the recovery codes you saved when setting up two-factor authentication',
+};
+
+// Recovery codes are 10 hex characters (shown as xxxxx-xxxxx)
+const RECOVERY_CODE_LENGTH = 10;
+
 export const TwoFactorInput: React.FC<TwoFactorInputProps> = ({
   onSubmit,
   isLoading = false,
   onResendCode,
   expirySeconds = 300, // 5 minutes default
   topicId,
+  method = 'ntfy',
+  methods = [],
+  onSelectMethod,
+  onPasskey,
 }) => {
   const [code, setCode] = useState('');
   const [error, setError] = useState('');
   const [timeLeft, setTimeLeft] = useState(expirySeconds);
   const [isResending, setIsResending] = useState(false);
   const inputRef = useRef<any>(null);
+  const isRecovery = method === 'recovery';
+  const hasTimer = method === 'ntfy';
 
-  // Countdown timer
+  // Start over when switching method
   useEffect(() => {
-    if (timeLeft <= 0) return;
+    setCode('');
+    setError('');
+    setTimeLeft(expirySeconds);
+  }, [method, expirySeconds]);
+
+  // Countdown timer (only ntfy codes expire)
+  useEffect(() => {
+    if (!hasTimer || timeLeft <= 0) return;
 
     const timer = setInterval(() => {
       setTimeLeft(prev => {
@@ -44,9 +80,15 @@ export const TwoFactorInput: React.FC<TwoFactorInputProps> = ({
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [timeLeft]);
+  }, [hasTimer, timeLeft]);
 
   const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (isRecovery) {
+      setCode(e.target.value.toLowerCase().replace(/[^0-9a-f-]/g, '').slice(0, RECOVERY_CODE_LENGTH + 1));
+      setError('');
+      return;
+    }
+
     const value = e.target.value.replace(/\D/g, '').slice(0, 6);
     setCode(value);
     setError('');
@@ -57,9 +99,13 @@ export const TwoFactorInput: React.FC<TwoFactorInputProps> = ({
     }
   };
 
+  const isCodeComplete = (submitCode: string) => isRecovery
+    ? submitCode.replace(/-/g, '').length === RECOVERY_CODE_LENGTH
+    : submitCode.length === 6;
+
   const handleSubmit = async (submitCode: string = code) => {
-    if (submitCode.length !== 6) {
-      setError('Please enter a 6-digit code');
+    if (!isCodeComplete(submitCode)) {
+      setError(isRecovery ? 'Please enter a recovery code (xxxxx-xxxxx)' : 'Please enter a 6-digit code');
       return;
     }
 
@@ -92,9 +138,31 @@ export const TwoFactorInput: React.FC<TwoFactorInputProps> = ({
     }
   };
 
+  const handlePasskey = async () => {
+    if (!onPasskey) return;
+    setError('');
+    try {
+      await onPasskey();
+    } catch (err) {
+      logger.error('Passkey verification error', { error: err });
+      setError('Passkey verification failed. Please try again or use another method.');
+    }
+  };
+
+  const handleSelectMethod = async (nextMethod: TwoFactorMethod) => {
+    if (!onSelectMethod) return;
+    try {
+      await onSelectMethod(nextMethod);
+    } catch (err) {
+      logger.error('2FA method switch error', { error: err });
+      setError('Could not switch verification method. Please try again.');
+    }
+  };
+
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
-  const isExpired = timeLeft === 0;
+  const isExpired = hasTimer && timeLeft === 0;
+  const otherMethods = methods.filter(candidate => candidate !== method);
 
   return (
     <Card>
@@ -103,11 +171,12 @@ export const TwoFactorInput: React.FC<TwoFactorInputProps> = ({
           <LockOutlined style={{ fontSize: 32, marginBottom: 16 }} />
           <Typography.Title level={2} style={{ margin: 0 }}>Two-Factor Authentication</Typography.Title>
           <Typography.Paragraph style={{ marginBottom: 0 }}>
-            A 6-digit verification code has been sent to your ntfy.sh topic
+            {METHOD_DESCRIPTIONS[method]}
           </Typography.Paragraph>
         </div>
 
         {/* Instructions using Alert with List */}
+        {method === 'ntfy' && (
         <Alert
           message="📱 How to get your verification code"
           description={
@@ -165,29 +234,47 @@ export const TwoFactorInput: React.FC<TwoFactorInputProps> = ({
           showIcon
           style={{ marginBottom: 16 }}
         />
+        )}
 
         {/* Tip Alert */}
+        {method === 'ntfy' && (
         <Alert
           message="💡 Tip"
           description="If you don't have your topic ID, you can check the browser console (F12) or contact support. Your topic ID is a unique identifier sent to you during account creation."
           type="warning"
           showIcon
         />
+        )}
 
         {error && <Alert message={error} type="error" showIcon />}
 
-        <Input
-          ref={inputRef}
-          placeholder="000000"
-          value={code}
-          onChange={handleCodeChange}
-          maxLength={6}
-          size="large"
-          style={{ fontSize: 24, letterSpacing: 8, textAlign: 'center' }}
-          disabled={isLoading || isExpired}
-          autoFocus
-        />
+        {method === 'webauthn' ? (
+          <Button
+            type="primary"
+            size="large"
+            icon={<KeyOutlined />}
+            onClick={handlePasskey}
+            loading={isLoading}
+            block
+          >
+            Use passkey
+          </Button>
+        ) : (
+          <Input
+            ref={inputRef}
+            placeholder={isRecovery ? 'xxxxx-xxxxx' : '000000'}
+            value={code}
+            onChange={handleCodeChange}
+            onPressEnter={() => handleSubmit()}
+            maxLength={isRecovery ? RECOVERY_CODE_LENGTH + 1 : 6}
+            size="large"
+            style={{ fontSize: 24, letterSpacing: isRecovery ? 2 : 8, textAlign: 'center' }}
+            disabled={isLoading || isExpired}
+            autoFocus
+          />
+        )}
 
+        {hasTimer && (
         <div style={{ textAlign: 'center' }}>
           <Statistic
             title="Code expires in"
@@ -195,19 +282,22 @@ export const TwoFactorInput: React.FC<TwoFactorInputProps> = ({
             valueStyle={{ color: isExpired ? '#ff4d4f' : '#1890ff' }}
           />
         </div>
+        )}
 
         <Space style={{ width: '100%', justifyContent: 'center' }}>
+          {method !== 'webauthn' && (
           <Button
             type="primary"
             size="large"
             onClick={() => handleSubmit()}
             loading={isLoading}
-            disabled={code.length !== 6 || isExpired}
+            disabled={!isCodeComplete(code) || isExpired}
           >
             Verify
           </Button>
+          )}
 
-          {onResendCode && (
+          {hasTimer && onResendCode && (
             <Button
               icon={<ReloadOutlined />}
               onClick={handleResend}
@@ -218,6 +308,18 @@ export const TwoFactorInput: React.FC<TwoFactorInputProps> = ({
             </Button>
           )}
         </Space>
+
+        {/* Other ways to verify */}
+        {onSelectMethod && otherMethods.length > 0 && (
+          <Space direction="vertical" size={0} style={{ width: '100%', alignItems: 'center' }}>
+            <Typography.Text type="secondary">Other ways to verify</Typography.Text>
+            {otherMethods.map(candidate => (
+              <Button key={candidate} type="link" onClick={() => handleSelectMethod(candidate)} disabled={isLoading}>
+                {METHOD_LABELS[candidate]}
+              </Button>
+            ))}
+          </Space>
+        )}
       </Space>
     </Card>
   );
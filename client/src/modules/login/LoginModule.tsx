@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { Card, Form, Input, Button, Checkbox, Alert, Space, Typography, Divider, Select } from 'antd';
-import { UserOutlined, LockOutlined, RocketOutlined, BulbOutlined, GlobalOutlined } from '@ant-design/icons';
+import { UserOutlined, LockOutlined, RocketOutlined, BulbOutlined, GlobalOutlined, SafetyCertificateOutlined } from '@ant-design/icons';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../shared/AuthContext';
-import { WORLD_ROOMS, WorldRoomId } from '../../shared/WorldRoomContext';
+import { useWorldRoom, WorldRoomId } from '../../shared/WorldRoomContext';
 import { TwoFactorInput } from '../auth/TwoFactorInput';
 import { RegisterModule } from '../auth/RegisterModule';
+import { GuestJoinModule } from '../auth/GuestJoinModule';
+import { INVITE_QUERY_PARAM } from '../../services/api/GuestApiService';
+import {
+  SingleSignOnApiService,
+  SingleSignOnConfig,
+  SSO_CODE_PARAM,
+  SSO_ERROR_PARAM,
+} from '../../services/api/SingleSignOnApiService';
 import appLogo from '../../assets/app-logo.png';
 import magicalBg from '../../assets/magical_bg.png';
 
@@ -20,15 +28,25 @@ interface FormData {
   rememberMe: boolean;
 }
 
-type AuthView = 'login' | 'register' | 'two-factor';
+type AuthView = 'login' | 'register' | 'two-factor' | 'guest';
 
 export const LoginModule: React.FC<LoginModuleProps> = () => {
   const navigate = useNavigate();
-  const { login, verify2FA, isLoading, requires2FA, pendingTopicId, rememberUsername, setRememberUsername, savedUsername } = useAuth();
+  const {
+    login, verify2FA, verifyPasskey, isLoading, requires2FA, pendingTopicId,
+    twoFactorMethod, twoFactorMethods, selectTwoFactorMethod, lockedUntil,
+    rememberUsername, setRememberUsername, savedUsername,
+    startSingleSignOn, completeSingleSignOn,
+  } = useAuth();
   const [form] = Form.useForm();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loginError, setLoginError] = useState<string>('');
-  const [authView, setAuthView] = useState<AuthView>('login');
+  // Invite links (?invite=...) open the guest join view
+  const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get(INVITE_QUERY_PARAM));
+  const [authView, setAuthView] = useState<AuthView>(inviteToken ? 'guest' : 'login');
+  const { availableRooms } = useWorldRoom();
+  const [lockoutSeconds, setLockoutSeconds] = useState(0);
+  const [singleSignOn, setSingleSignOn] = useState<SingleSignOnConfig | null>(null);
 
   // Initialize form with saved username
   useEffect(() => {
@@ -37,6 +55,56 @@ export const LoginModule: React.FC<LoginModuleProps> = () => {
     }
   }, [savedUsername, rememberUsername, form]);
 
+  // Offer single sign-on when the server has an identity provider
+  useEffect(() => {
+    SingleSignOnApiService.getConfig().then(response => {
+      if (response.success && response.data?.enabled) {
+        setSingleSignOn(response.data);
+      }
+    });
+  }, []);
+
+  // Returning from the identity provider with a login code (or an error)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get(SSO_CODE_PARAM);
+    const ssoError = params.get(SSO_ERROR_PARAM);
+    if (!code && !ssoError) return;
+
+    // Codes are single-use - drop them from the address bar first
+    navigate('/', { replace: true });
+    if (!code) {
+      setLoginError(ssoError || 'Single sign-on failed. Please try again.');
+      return;
+    }
+    completeSingleSignOn(code).then(success => {
+      if (!success) {
+        setLoginError('Single sign-on failed. Please try again.');
+      }
+    });
+  }, [completeSingleSignOn, navigate]);
+
+  // Count down a temporary lockout (too many failed attempts)
+  useEffect(() => {
+    const update = () => setLockoutSeconds(lockedUntil ? Math.max(0, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)) : 0);
+    update();
+    if (!lockedUntil) return;
+
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const isLockedOut = lockoutSeconds > 0;
+  const lockoutAlert = isLockedOut && (
+    <Alert
+      message="Too many attempts"
+      description={`For your security, sign-in is paused. Try again in ${Math.floor(lockoutSeconds / 60)}:${(lockoutSeconds % 60).toString().padStart(2, '0')}.`}
+      type="warning"
+      showIcon
+      style={{ marginBottom: '1rem' }}
+    />
+  );
+
   // Auto-switch to 2FA view when 2FA is required
   useEffect(() => {
     if (requires2FA) {
@@ -86,10 +154,36 @@ export const LoginModule: React.FC<LoginModuleProps> = () => {
     }
   };
 
+  // Handle passkey verification
+  const handlePasskey = async () => {
+    const success = await verifyPasskey();
+    if (!success) {
+      throw new Error('Passkey verification failed');
+    }
+  };
+
+  // Handle switching 2FA method (selecting ntfy again resends the code)
+  const handleSelectMethod = async (method: typeof twoFactorMethod) => {
+    const success = await selectTwoFactorMethod(method);
+    if (!success) {
+      throw new Error('Could not switch 2FA method');
+    }
+  };
+
 
 
   // Render different auth views
   const renderAuthView = () => {
+    if (authView === 'guest' && inviteToken) {
+      return (
+        <GuestJoinModule
+          inviteToken={inviteToken}
+          onJoined={() => navigate('/', { replace: true })}
+          onSwitchToLogin={() => setAuthView('login')}
+        />
+      );
+    }
+
     if (authView === 'register') {
       return (
         <RegisterModule
@@ -114,10 +208,16 @@ export const LoginModule: React.FC<LoginModuleProps> = () => {
           padding: '0.5rem'
         }}>
           <div style={{ width: '100%', maxWidth: 480 }}>
+            {lockoutAlert}
             <TwoFactorInput
               onSubmit={handle2FASubmit}
               isLoading={isLoading}
               topicId={pendingTopicId || undefined}
+              method={twoFactorMethod}
+              methods={twoFactorMethods}
+              onSelectMethod={handleSelectMethod}
+              onPasskey={handlePasskey}
+              onResendCode={() => handleSelectMethod('ntfy')}
             />
           </div>
         </div>
@@ -221,8 +321,11 @@ export const LoginModule: React.FC<LoginModuleProps> = () => {
           <div style={{ marginBottom: '1.5rem' }}>
          
 
+            {/* Lockout */}
+            {lockoutAlert}
+
             {/* General Error */}
-            {loginError && (
+            {!isLockedOut && loginError && (
               <Alert
                 message={loginError}
                 type="error"
@@ -294,7 +397,7 @@ export const LoginModule: React.FC<LoginModuleProps> = () => {
                 }
               >
                 <Select
-                  options={WORLD_ROOMS.map(room => ({
+                  options={availableRooms.map(room => ({
                     value: room.id,
                     label: room.label,
                   }))}
@@ -319,6 +422,7 @@ export const LoginModule: React.FC<LoginModuleProps> = () => {
                   type="primary"
                   htmlType="submit"
                   loading={isSubmitting || isLoading}
+                  disabled={isLockedOut}
                   icon={<RocketOutlined />}
                   size="large"
                   style={{ width: '100%' }}
@@ -326,6 +430,20 @@ export const LoginModule: React.FC<LoginModuleProps> = () => {
                   {isSubmitting || isLoading ? 'Signing in...' : 'Sign In'}
                 </Button>
               </Form.Item>
+
+              {singleSignOn && (
+                <Form.Item>
+                  <Button
+                    size="large"
+                    icon={<SafetyCertificateOutlined />}
+                    disabled={isSubmitting || isLoading || isLockedOut}
+                    style={{ width: '100%' }}
+                    onClick={() => startSingleSignOn(form.getFieldValue('worldRoomId'))}
+                  >
+                    Sign in with {singleSignOn.providerName}
+                  </Button>
+                </Form.Item>
+              )}
             </Form>
           </div>
 
@@ -35,6 +35,7 @@ import { useKonvaPersistence } from './hooks/useKonvaPersistence';
 import { useKonvaPreviewMode } from './hooks/useKonvaPreviewMode';
 import { useKonvaKeyboardShortcuts } from './hooks/useKonvaKeyboardShortcuts';
 import { useKonvaVertexEdit } from './hooks/useKonvaVertexEdit';
+import { useMapCollaboration } from './hooks/useMapCollaboration';
 
 // Import refactored hooks
 import { useEditorCoreState } from './hooks/useEditorCoreState';
@@ -53,17 +54,19 @@ import { KonvaLayersPanel } from './components/KonvaLayersPanel';
 // Import refactored components
 import { EditorCanvas } from './components/EditorCanvas';
 import { EditorModals } from './components/EditorModals';
+import { MapConflictDialog } from './components/MapConflictDialog';
 import { EditorSidebar } from './components/EditorSidebar';
 
 // Import types
 import type { Shape, EditorState } from './types';
+import type { SpawnPoint } from '../../shared/MapDataContext';
 import type { EditorTool as KonvaEditorTool } from './types';
 
 // Import utilities
-import { mapDataToShapes, shapeToInteractiveArea, shapeToImpassableArea, shapeToAsset } from './utils/mapDataAdapter';
+import { mapDataToShapes, shapeToInteractiveArea, shapeToImpassableArea, shapeToAsset, shapeToSpawnPoint } from './utils/mapDataAdapter';
 import { calculateZoomToShape } from './utils/zoomToShape';
 import { groupShapes, ungroupShapes } from './utils/shapeFactories';
-import { placeAsset } from './utils/editorHelpers';
+import { placeAsset, placeSpawnPoint } from './utils/editorHelpers';
 
 
 
@@ -96,7 +99,11 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
     addCollisionArea,
     updateCollisionArea,
     removeCollisionArea,
+    addSpawnPoint,
+    updateSpawnPoint,
+    removeSpawnPoint,
     markDirty,
+    isInitializing,
     // saveMap is used by SaveStatusIndicator component
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     saveMap
@@ -386,6 +393,11 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
           const asset = shapeToAsset(mergedShape);
           updateAsset(id, asset);
           markDirty();
+        } else if (mergedShape.category === 'spawn') {
+          // Update spawn point in store
+          const spawnPoint = shapeToSpawnPoint(mergedShape);
+          updateSpawnPoint(id, spawnPoint);
+          markDirty();
         }
       }
 
@@ -426,6 +438,11 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
           const asset = shapeToAsset(mergedShape);
           updateAsset(id, asset);
           markDirty();
+        } else if (mergedShape.category === 'spawn') {
+          // Update spawn point in store
+          const spawnPoint = shapeToSpawnPoint(mergedShape);
+          updateSpawnPoint(id, spawnPoint);
+          markDirty();
         }
       }
 
@@ -437,7 +454,6 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
   });
 
   // Persistence - auto-save and auto-load are enabled, hook manages state internally
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const persistence = useKonvaPersistence({
     currentState: currentEditorState,
     onStateRestore: (state: EditorState) => {
@@ -482,14 +498,24 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
 
   // ===== SYNC SHAPES WITH MAP DATA =====
   useEffect(() => {
-    // Convert MapData to Konva shapes (including assets)
+    // Convert MapData to Konva shapes (including assets and spawn points)
     const konvaShapes = mapDataToShapes(
       mapData.interactiveAreas || [],
       mapData.impassableAreas || [],
-      mapData.assets || []
+      mapData.assets || [],
+      mapData.spawnPoints || []
     );
     setShapes(konvaShapes);
-  }, [mapData.interactiveAreas, mapData.impassableAreas, mapData.assets, setShapes]);
+  }, [mapData.interactiveAreas, mapData.impassableAreas, mapData.assets, mapData.spawnPoints, setShapes]);
+
+  // ===== LIVE EDITING =====
+  // Joins once the map is loaded, so the load doesn't overwrite the session's shapes
+  const collaboration = useMapCollaboration({
+    shapes,
+    setShapes,
+    selectedIds,
+    enabled: !isInitializing,
+  });
 
   // ===== HANDLER HOOKS (REFACTORED) =====
 
@@ -556,6 +582,7 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
     markDirty,
     history,
     removeAsset,
+    removeSpawnPoint,
   });
 
   // Stage event handlers
@@ -573,6 +600,18 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
     collisionRectDrawing,
   });
 
+  // Stage mouse move also reports the cursor to the live session
+  const { updateCursor } = collaboration;
+  const handleStageMouseMove = useCallback((e: any) => {
+    stageEventHandlers.handleStageMouseMove(e);
+    const stage = e.target?.getStage?.();
+    const pointer = stage?.getPointerPosition();
+    if (pointer) {
+      // Other editors see the cursor in world coordinates
+      updateCursor(stage.getAbsoluteTransform().copy().invert().point(pointer));
+    }
+  }, [stageEventHandlers, updateCursor]);
+
   // All old handler functions removed - now using handler hooks above
 
   // Helper function for zoom to shape (used by sidebar)
@@ -688,6 +727,30 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
     });
   }, [viewport, viewportWidth, viewportHeight, setShapes, selection.selectShape, handleZoomToShape, markDirty, addAsset]);
 
+  // Handle spawn point placement from toolbar
+  const handleAddSpawnPoint = useCallback(() => {
+    placeSpawnPoint({
+      name: `Spawn ${(mapData.spawnPoints?.length || 0) + 1}`,
+      viewport,
+      viewportWidth,
+      viewportHeight,
+      onShapeCreated: (shape) => {
+        setShapes(prev => [...prev, shape]);
+        addSpawnPoint(shapeToSpawnPoint(shape));
+        markDirty();
+        history.pushState('Add spawn point');
+      },
+      onSelectShape: selection.selectShape,
+    });
+  }, [mapData.spawnPoints, viewport, viewportWidth, viewportHeight, setShapes, addSpawnPoint, markDirty, history, selection.selectShape]);
+
+  // Handle spawn point edits from PropertiesTab
+  const handleUpdateSpawnPoint = useCallback((id: string, updates: Partial<SpawnPoint>) => {
+    updateSpawnPoint(id, updates);
+    markDirty();
+    history.pushState('Edit spawn point');
+  }, [updateSpawnPoint, markDirty, history]);
+
   // Handle grid config change from SettingsTab
   const handleGridConfigChange = useCallback((newConfig: Partial<import('./types/ui.types').GridConfig>) => {
     // Convert UI grid config (0-100 opacity) to Konva grid config (0-1 opacity)
@@ -722,6 +785,7 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
           onUndo={toolbarHandlers.handleUndo}
           onRedo={toolbarHandlers.handleRedo}
           onTogglePreview={previewMode.togglePreview}
+          onAddSpawnPoint={handleAddSpawnPoint}
         />
       </header>
 
@@ -782,10 +846,12 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
           vertexEdit={vertexEdit}
           onStageClick={stageEventHandlers.handleStageClick}
           onStageMouseDown={stageEventHandlers.handleStageMouseDown}
-          onStageMouseMove={stageEventHandlers.handleStageMouseMove}
+          onStageMouseMove={handleStageMouseMove}
           onStageMouseUp={stageEventHandlers.handleStageMouseUp}
           onStageDoubleClick={stageEventHandlers.handleStageDoubleClick}
           isPreviewMode={previewMode.isPreviewMode}
+          collaborators={collaboration.editors}
+          lockedByOthers={collaboration.lockedByOthers}
         />
 
         {/* Right Sidebar (Properties/Assets/Settings) */}
@@ -801,6 +867,9 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
           onEditCollisionArea={areaHandlers.collision.handleEditCollisionArea}
           onDeleteCollisionArea={areaHandlers.collision.handleDeleteCollisionArea}
           onUpdateArea={areaHandlers.interactive.handleUpdateArea}
+          spawnPoints={mapData.spawnPoints || []}
+          onUpdateSpawnPoint={handleUpdateSpawnPoint}
+          onDeleteSpawnPoint={layersHandlers.handleShapeDelete}
           onPlaceAsset={handlePlaceAsset}
           gridConfig={uiGridConfig}
           onGridConfigChange={handleGridConfigChange}
@@ -845,6 +914,12 @@ export const KonvaMapEditorModule: React.FC<KonvaMapEditorModuleProps> = ({
         onConfirmKeyboardDelete={areaHandlers.handleConfirmKeyboardDelete}
         onCancelKeyboardDelete={areaHandlers.handleCancelKeyboardDelete}
       />
+
+      {/* Save conflict (someone else saved the map since it was loaded) */}
+      <MapConflictDialog
+        conflict={persistence.saveConflict}
+        onResolve={persistence.resolveConflict}
+      />
     </div>
   );
 };
@@ -1,7 +1,8 @@
 /**
  * AnimatedGifImage Component
  * 
- * Renders animated GIF files on the Konva canvas using the gifler library.
+ * Renders animated GIF files on the Konva canvas - from the spritesheet the
+ * server generated for the GIF, or decoded with the gifler library.
  * Supports play/pause, speed control, and performance optimizations.
  */
 
@@ -12,6 +13,8 @@ import gifler from 'gifler';
 import { logger } from '../../../shared/logger';
 import type { Shape, ImageGeometry } from '../types';
 import { SELECTION_STYLE } from '../constants/konvaConstants';
+import { isGifImage, setImageSource } from '../utils/imageProcessing';
+import { loadImageSpritesheet, createSpritesheetAnimator, getSpritesheetFrame } from '../../../shared/spritesheetUtils';
 
 interface AnimatedGifImageProps {
   shape: Shape;
@@ -60,6 +63,7 @@ export const AnimatedGifImage: React.FC<AnimatedGifImageProps> = ({
     }
 
     const canvas = canvasRef.current;
+    let cancelled = false;
     setIsLoading(true);
     setHasError(false);
 
@@ -110,7 +114,7 @@ export const AnimatedGifImage: React.FC<AnimatedGifImageProps> = ({
         return;
       }
 
-      // Check if imageData is a valid data URL
+      // Check if imageData is a GIF (data URL or stored asset URL)
       if (typeof geometry.imageData !== 'string') {
         logger.error('ANIMATED_GIF_LOAD_ERROR', {
           shapeId: shape.id,
@@ -123,11 +127,11 @@ export const AnimatedGifImage: React.FC<AnimatedGifImageProps> = ({
         return;
       }
 
-      if (!geometry.imageData.startsWith('data:image/gif')) {
+      if (!isGifImage(geometry.imageData)) {
         logger.error('ANIMATED_GIF_LOAD_ERROR', {
           shapeId: shape.id,
           fileName: geometry.fileName,
-          error: 'imageData is not a GIF data URL',
+          error: 'imageData is not a GIF',
           imageDataPrefix: geometry.imageData.substring(0, 50)
         });
         setHasError(true);
@@ -141,36 +145,80 @@ export const AnimatedGifImage: React.FC<AnimatedGifImageProps> = ({
         imageDataLength: geometry.imageData.length
       });
 
-      // Start GIF animation
-      const giflerInstance = gifler(geometry.imageData);
+      const imageData = geometry.imageData;
 
-      giflerInstance.get().then((animator: any) => {
-        // Animation ready callback
-        animatorRef.current = animator;
+      // Decode the GIF in the browser (images without a server spritesheet)
+      const startGifler = () => {
+        const giflerInstance = gifler(imageData);
 
-        // Get frame count from animator's internal _frames array
-        const totalFrames = animator._frames ? animator._frames.length : 0;
-        setFrameCount(totalFrames);
+        giflerInstance.get().then((animator: any) => {
+          // Animation ready callback
+          animatorRef.current = animator;
 
-        // Start the animation with custom frame callback
-        animator.onDrawFrame = onDrawFrame;
-        animator.animateInCanvas(canvas, false); // false = don't set canvas dimensions
+          // Get frame count from animator's internal _frames array
+          const totalFrames = animator._frames ? animator._frames.length : 0;
+          setFrameCount(totalFrames);
 
-        setIsLoading(false);
+          // Start the animation with custom frame callback
+          animator.onDrawFrame = onDrawFrame;
+          animator.animateInCanvas(canvas, false); // false = don't set canvas dimensions
 
-        logger.info('ANIMATED_GIF_LOADED', {
-          id: shape.id,
-          fileName: geometry.fileName,
-          frameCount: totalFrames
-        });
-      }).catch((error: any) => {
-        logger.error('ANIMATED_GIF_ANIMATOR_ERROR', {
-          shapeId: shape.id,
-          fileName: geometry.fileName,
-          error: error.message || error
+          setIsLoading(false);
+
+          logger.info('ANIMATED_GIF_LOADED', {
+            id: shape.id,
+            fileName: geometry.fileName,
+            frameCount: totalFrames
+          });
+        }).catch((error: any) => {
+          logger.error('ANIMATED_GIF_ANIMATOR_ERROR', {
+            shapeId: shape.id,
+            fileName: geometry.fileName,
+            error: error.message || error
+          });
+          setHasError(true);
+          setIsLoading(false);
         });
-        setHasError(true);
-        setIsLoading(false);
+      };
+
+      // Play the spritesheet the server generated for the GIF, if it has one
+      loadImageSpritesheet(imageData).then(sheet => {
+        if (cancelled) return;
+        if (!sheet) {
+          startGifler();
+          return;
+        }
+
+        const sheetImage = new window.Image();
+        sheetImage.onload = () => {
+          if (cancelled) return;
+          canvas.width = sheet.frameWidth;
+          canvas.height = sheet.frameHeight;
+          const ctx = canvas.getContext('2d');
+
+          animatorRef.current = createSpritesheetAnimator(sheet, (index) => {
+            const frame = getSpritesheetFrame(sheet, index);
+            ctx?.clearRect(0, 0, frame.width, frame.height);
+            ctx?.drawImage(sheetImage, frame.x, frame.y, frame.width, frame.height, 0, 0, frame.width, frame.height);
+            setCurrentFrame(index);
+            imageRef.current?.getLayer()?.batchDraw();
+          });
+          animatorRef.current.start();
+          setFrameCount(sheet.frameCount);
+          setIsLoading(false);
+
+          logger.info('ANIMATED_GIF_LOADED', {
+            id: shape.id,
+            fileName: geometry.fileName,
+            frameCount: sheet.frameCount,
+            source: 'spritesheet'
+          });
+        };
+        sheetImage.onerror = () => {
+          logger.warn('ANIMATED_GIF_SPRITESHEET_ERROR', { shapeId: shape.id, url: sheet.url });
+          if (!cancelled) startGifler();
+        };
+        setImageSource(sheetImage, sheet.url);
       });
 
     } catch (error) {
@@ -185,6 +233,7 @@ export const AnimatedGifImage: React.FC<AnimatedGifImageProps> = ({
 
     // Cleanup
     return () => {
+      cancelled = true;
       if (animatorRef.current) {
         animatorRef.current.stop();
       }
@@ -0,0 +1,74 @@
+/**
+ * Konva Map Editor - Collaborators Component
+ *
+ * Renders the other editors of a live session on the stage: their selection
+ * (an outline in their colour around each shape they hold) and their cursor
+ * with a name tag. Sizes are divided by the zoom so they stay readable.
+ */
+
+import React from 'react';
+import { Group, Rect, Line, Label, Tag, Text } from 'react-konva';
+import type { Shape } from '../types';
+import type { MapEditor } from '../../../services/MapCollaborationSocketService';
+import { getShapeBounds } from '../utils/zoomToShape';
+
+export interface CollaboratorsLayerProps {
+  /** Other editors in the session */
+  editors: MapEditor[];
+  /** All shapes (to outline selections) */
+  shapes: Shape[];
+  /** Current zoom level */
+  zoom: number;
+}
+
+const OUTLINE_PADDING = 4;
+const CURSOR_POINTS = [0, 0, 0, 16, 4, 12, 8, 20, 11, 19, 7, 11, 12, 11];
+
+export const CollaboratorsLayer: React.FC<CollaboratorsLayerProps> = ({ editors, shapes, zoom }) => {
+  const scale = 1 / (zoom || 1);
+  const shapesById = new Map(shapes.map(shape => [shape.id, shape]));
+
+  return (
+    <Group listening={false}>
+      {editors.map(editor => (
+        <Group key={editor.socketId}>
+          {/* Selection outlines */}
+          {editor.selection.map(shapeId => {
+            const shape = shapesById.get(shapeId);
+            if (!shape) return null;
+            const bounds = getShapeBounds(shape);
+            const padding = OUTLINE_PADDING * scale;
+            return (
+              <Group key={shapeId}>
+                <Rect
+                  x={bounds.left - padding}
+                  y={bounds.top - padding}
+                  width={bounds.width + padding * 2}
+                  height={bounds.height + padding * 2}
+                  stroke={editor.color}
+                  strokeWidth={2 * scale}
+                  dash={[6 * scale, 4 * scale]}
+                />
+                <Label x={bounds.left - padding} y={bounds.top - padding} scaleX={scale} scaleY={scale}>
+                  <Tag fill={editor.color} pointerDirection="down" pointerWidth={6} pointerHeight={4} />
+                  <Text text={editor.name} fontSize={11} padding={3} fill="#ffffff" />
+                </Label>
+              </Group>
+            );
+          })}
+
+          {/* Cursor */}
+          {editor.cursor && (
+            <Group x={editor.cursor.x} y={editor.cursor.y} scaleX={scale} scaleY={scale}>
+              <Line points={CURSOR_POINTS} closed fill={editor.color} stroke="#ffffff" strokeWidth={1} />
+              <Label x={12} y={18}>
+                <Tag fill={editor.color} cornerRadius={3} />
+                <Text text={editor.name} fontSize={11} padding={3} fill="#ffffff" />
+              </Label>
+            </Group>
+          )}
+        </Group>
+      ))}
+    </Group>
+  );
+};
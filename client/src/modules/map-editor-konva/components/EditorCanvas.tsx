@@ -6,6 +6,7 @@
  * - Grid layer
  * - Shapes layer (interactive areas, collision areas, assets)
  * - Selection layer (transformer, selection rect, vertex editor)
+ * - Collaborators layer (other editors' cursors and selections)
  * - UI layer
  *
  * Also renders overlay indicators for preview mode and drawing modes.
@@ -16,6 +17,7 @@ import { Stage, Layer, Line, Image as KonvaImage } from 'react-konva';
 import { Eye, Square, Shield } from 'lucide-react';
 import type { EditorTool } from '../types/konva.types';
 import type { Shape, Viewport, GridConfig } from '../types';
+import type { MapEditor, MapShapeLock } from '../../../services/MapCollaborationSocketService';
 import type {
   UseKonvaBackgroundReturn,
   UseKonvaGridReturn,
@@ -33,6 +35,8 @@ import { TransformablePolygon, TransformableRect, TransformableImage, Transforme
 import { AnimatedGifImage } from './AnimatedGifImage';
 import { SelectionRect } from './SelectionRect';
 import { PolygonEditor } from './PolygonEditor';
+import { CollaboratorsLayer } from './CollaboratorsLayer';
+import { isGifImage } from '../utils/imageProcessing';
 
 interface EditorCanvasProps {
   // Refs
@@ -74,8 +78,15 @@ interface EditorCanvasProps {
 
   // Preview mode
   isPreviewMode: boolean;
+
+  // Live editing - other editors and the shapes they hold
+  collaborators?: MapEditor[];
+  lockedByOthers?: Map<string, MapShapeLock>;
 }
 
+const NO_COLLABORATORS: MapEditor[] = [];
+const NO_LOCKS = new Map<string, MapShapeLock>();
+
 export const EditorCanvas: React.FC<EditorCanvasProps> = ({
   mainRef,
   stageRef,
@@ -105,7 +116,13 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
   onStageMouseUp,
   onStageDoubleClick,
   isPreviewMode,
+  collaborators = NO_COLLABORATORS,
+  lockedByOthers = NO_LOCKS,
 }) => {
+  // Shapes another editor holds can be selected but not moved or transformed
+  const isEditable = (shapeId: string) => selectedIds.includes(shapeId) && !lockedByOthers.has(shapeId);
+  const editableIds = lockedByOthers.size > 0 ? selectedIds.filter(id => !lockedByOthers.has(id)) : selectedIds;
+
   return (
     <main ref={mainRef} className="editor-main" style={{ position: 'relative', cursor: cursorStyle }}>
       {viewportWidth > 0 && viewportHeight > 0 && (
@@ -163,7 +180,7 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
                   <TransformablePolygon
                     key={shape.id}
                     shape={shape}
-                    isSelected={selectedIds.includes(shape.id)}
+                    isSelected={isEditable(shape.id)}
                     onSelect={(e) => selection.handleShapeClick(shape.id, e)}
                     onDragEnd={(e) => transform.handleDragEnd(shape.id, e)}
                     onTransformEnd={(node) => transform.handleTransformEnd(shape.id, node)}
@@ -175,7 +192,7 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
                   <TransformableRect
                     key={shape.id}
                     shape={shape}
-                    isSelected={selectedIds.includes(shape.id)}
+                    isSelected={isEditable(shape.id)}
                     onSelect={(e) => selection.handleShapeClick(shape.id, e)}
                     onDragEnd={(e) => transform.handleDragEnd(shape.id, e)}
                     onTransformEnd={(node) => transform.handleTransformEnd(shape.id, node)}
@@ -183,7 +200,7 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
                 );
               } else if (geom.type === 'image') {
                 // Image geometry - detect if it's a GIF
-                const isGif = geom.imageData?.startsWith('data:image/gif');
+                const isGif = isGifImage(geom.imageData);
 
                 if (isGif) {
                   // Render animated GIF
@@ -191,7 +208,7 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
                     <AnimatedGifImage
                       key={shape.id}
                       shape={shape}
-                      isSelected={selectedIds.includes(shape.id)}
+                      isSelected={isEditable(shape.id)}
                       onSelect={() => selection.selectShape(shape.id)}
                       onDragEnd={(e) => transform.handleDragEnd(shape.id, e)}
                       onTransformEnd={(node) => transform.handleTransformEnd(shape.id, node)}
@@ -203,7 +220,7 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
                     <TransformableImage
                       key={shape.id}
                       shape={shape}
-                      isSelected={selectedIds.includes(shape.id)}
+                      isSelected={isEditable(shape.id)}
                       onSelect={(e) => selection.handleShapeClick(shape.id, e)}
                       onDragEnd={(e) => transform.handleDragEnd(shape.id, e)}
                       onTransformEnd={(node) => transform.handleTransformEnd(shape.id, node)}
@@ -241,7 +258,7 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
           <Layer ref={layerRefs.selectionLayer}>
             {/* Show transformer only when not in vertex edit mode */}
             {currentTool !== 'edit-vertex' && (
-              <TransformerComponent selectedShapeIds={selectedIds} />
+              <TransformerComponent selectedShapeIds={editableIds} />
             )}
             {selection.selectionRect && (
               <SelectionRect rect={selection.selectionRect} />
@@ -263,11 +280,30 @@ export const EditorCanvas: React.FC<EditorCanvasProps> = ({
             )}
           </Layer>
 
+          {/* Collaborators Layer */}
+          {collaborators.length > 0 && (
+            <Layer listening={false}>
+              <CollaboratorsLayer editors={collaborators} shapes={shapes} zoom={viewport.zoom} />
+            </Layer>
+          )}
+
           {/* UI Layer */}
           <Layer ref={layerRefs.uiLayer} />
         </Stage>
       )}
 
+      {/* Other editors in the live session */}
+      {collaborators.length > 0 && (
+        <div className="collaborators-overlay">
+          {collaborators.map(editor => (
+            <span key={editor.socketId} className="collaborator-badge">
+              <span className="collaborator-dot" style={{ background: editor.color }} />
+              {editor.name}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Preview Mode Overlay */}
       {isPreviewMode && (
         <div className="preview-mode-overlay">
@@ -1,9 +1,10 @@
 /**
  * EditorSidebar Component (Right Sidebar)
  *
- * 3-tab structure following Figma/Unity pattern:
+ * 4-tab structure following Figma/Unity pattern:
  * - Properties: Selection-driven editing
  * - Assets: Asset library and upload
+ * - History: Saved map versions with diff and restore
  * - Settings: Grid, preview mode, editor settings
  */
 
@@ -11,10 +12,11 @@ import React from 'react';
 import type { TabId, InteractiveArea } from '../types';
 import type { GridConfig } from '../types/ui.types';
 import type { Shape } from '../types';
-import type { ImpassableArea } from '../../../shared/MapDataContext';
+import type { ImpassableArea, SpawnPoint } from '../../../shared/MapDataContext';
 import { EDITOR_TABS } from '../constants/editorConstants';
 import { PropertiesTab } from './tabs/PropertiesTab';
 import { AssetsTab } from './tabs/AssetsTab';
+import { HistoryTab } from './tabs/HistoryTab';
 import { SettingsTab } from './tabs/SettingsTab';
 
 interface EditorSidebarProps {
@@ -32,6 +34,9 @@ interface EditorSidebarProps {
   onEditCollisionArea: (area: ImpassableArea) => void;
   onDeleteCollisionArea: (area: ImpassableArea) => void;
   onUpdateArea?: (areaId: string, updates: Partial<InteractiveArea>) => void;
+  spawnPoints?: SpawnPoint[];
+  onUpdateSpawnPoint?: (spawnPointId: string, updates: Partial<SpawnPoint>) => void;
+  onDeleteSpawnPoint?: (spawnPointId: string) => void;
 
   // Assets tab
   onPlaceAsset: (fileData: string, fileName: string, width: number, height: number) => void;
@@ -55,6 +60,9 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
   onEditCollisionArea,
   onDeleteCollisionArea,
   onUpdateArea,
+  spawnPoints,
+  onUpdateSpawnPoint,
+  onDeleteSpawnPoint,
   onPlaceAsset,
   gridConfig,
   onGridConfigChange,
@@ -95,17 +103,24 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
               onEditCollisionArea={onEditCollisionArea}
               onDeleteCollisionArea={onDeleteCollisionArea}
               onUpdateArea={onUpdateArea}
+              spawnPoints={spawnPoints}
+              onUpdateSpawnPoint={onUpdateSpawnPoint}
+              onDeleteSpawnPoint={onDeleteSpawnPoint}
             />
           )}
           {activeTab === 'assets' && (
             <AssetsTab onPlaceAsset={onPlaceAsset} />
           )}
+          {activeTab === 'history' && (
+            <HistoryTab />
+          )}
           {activeTab === 'settings' && (
             <SettingsTab
               gridConfig={gridConfig}
               onGridConfigChange={onGridConfigChange}
               previewMode={previewMode}
               onPreviewModeChange={onPreviewModeChange}
+              selectedIds={selectedIds}
             />
           )}
         </div>
@@ -21,7 +21,8 @@ import {
   Shield,
   TreePine,
   Image as ImageIcon,
-  Pentagon
+  Pentagon,
+  MapPin
 } from 'lucide-react';
 import type { Shape, Viewport } from '../types';
 import type { ImpassableArea, InteractiveAreaActionType } from '../../../shared/MapDataContext';
@@ -32,7 +33,7 @@ const { Text } = Typography;
 interface LayerObject {
   id: string;
   name: string;
-  type: 'background' | 'grid' | 'interactive' | 'collision' | 'terrain' | 'asset';
+  type: 'background' | 'grid' | 'interactive' | 'collision' | 'terrain' | 'asset' | 'spawn';
   visible: boolean;
   position?: { x: number; y: number };
   size?: { width: number; height: number };
@@ -83,7 +84,7 @@ export const KonvaLayersPanel: React.FC<KonvaLayersPanelProps> = ({
   onUngroupShapes,
   onMultiSelect
 }) => {
-  const [expandedKeys, setExpandedKeys] = useState<string[]>(['background', 'interactive', 'collision', 'asset']);
+  const [expandedKeys, setExpandedKeys] = useState<string[]>(['background', 'interactive', 'collision', 'asset', 'spawn']);
   const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
   const { token } = theme.useToken();
 
@@ -93,6 +94,7 @@ export const KonvaLayersPanel: React.FC<KonvaLayersPanelProps> = ({
     const collisionObjects: LayerObject[] = [];
     const terrainObjects: LayerObject[] = [];
     const assetObjects: LayerObject[] = [];
+    const spawnObjects: LayerObject[] = [];
 
     shapes.forEach((shape) => {
       let layerObj: LayerObject;
@@ -139,6 +141,15 @@ export const KonvaLayersPanel: React.FC<KonvaLayersPanelProps> = ({
           thumbnail
         };
         assetObjects.push(layerObj);
+      } else if (shape.category === 'spawn') {
+        layerObj = {
+          id: shape.id,
+          name: shape.metadata?.name || `Spawn ${spawnObjects.length + 1}`,
+          type: 'spawn',
+          visible: shape.visible !== false,
+          shape
+        };
+        spawnObjects.push(layerObj);
       } else {
         // Default to terrain for other objects
         layerObj = {
@@ -167,6 +178,13 @@ export const KonvaLayersPanel: React.FC<KonvaLayersPanelProps> = ({
         objects: collisionObjects,
         visible: true
       },
+      {
+        key: 'spawn',
+        title: 'Spawn Points & Destinations',
+        icon: <MapPin size={14} />,
+        objects: spawnObjects,
+        visible: true
+      },
       {
         key: 'assets',
         title: 'Assets',
@@ -392,6 +410,12 @@ export const KonvaLayersPanel: React.FC<KonvaLayersPanelProps> = ({
               ? <Square size={14} style={{ color: token.colorError }} />
               : <Pentagon size={14} style={{ color: token.colorError }} />
           )}
+          {obj.type === 'spawn' && (
+            <MapPin
+              size={14}
+              style={{ color: obj.shape.metadata?.isSpawn === false ? token.colorTextSecondary : token.colorSuccess }}
+            />
+          )}
           {obj.type === 'interactive' && (
             <div
               style={{
@@ -0,0 +1,129 @@
+/**
+ * MapConflictDialog Component
+ *
+ * Shown when a save is rejected because someone else saved the map after it
+ * was loaded. Lists the items both editors changed and lets the user apply the
+ * server's merge, keep their own version or discard their changes.
+ */
+
+import React, { useState } from 'react';
+import { Modal, Button, List, Tag, Typography, Alert, Space } from 'antd';
+import type { MapSaveConflict, MapMergeConflict } from '../../../services/api/MapApiService';
+import type { MapConflictResolution } from '../types';
+
+const { Text, Paragraph } = Typography;
+
+interface MapConflictDialogProps {
+  conflict: MapSaveConflict | null;
+  onResolve: (resolution: MapConflictResolution) => Promise<boolean>;
+}
+
+const SECTION_LABELS: Record<MapMergeConflict['section'], string> = {
+  areas: 'Area',
+  collisions: 'Collision',
+  assets: 'Asset',
+  spawnPoints: 'Spawn point',
+  properties: 'Map setting',
+};
+
+const REASON_LABELS: Record<MapMergeConflict['reason'], string> = {
+  'both-changed': 'changed by both',
+  'removed-by-you': 'you removed it, it was changed',
+  'removed-by-them': 'you changed it, it was removed',
+};
+
+export const MapConflictDialog: React.FC<MapConflictDialogProps> = ({ conflict, onResolve }) => {
+  const [pending, setPending] = useState<MapConflictResolution | null>(null);
+
+  const handleResolve = async (resolution: MapConflictResolution) => {
+    setPending(resolution);
+    await onResolve(resolution);
+    setPending(null);
+  };
+
+  const canMerge = !!conflict?.merged;
+
+  return (
+    <Modal
+      open={!!conflict}
+      title="The map was changed by someone else"
+      closable={false}
+      maskClosable={false}
+      width={520}
+      footer={
+        <Space>
+          <Button danger loading={pending === 'discard'} disabled={!!pending} onClick={() => handleResolve('discard')}>
+            Discard my changes
+          </Button>
+          <Button loading={pending === 'overwrite'} disabled={!!pending} onClick={() => handleResolve('overwrite')}>
+            Keep my version
+          </Button>
+          <Button
+            type="primary"
+            loading={pending === 'merge'}
+            disabled={!!pending || !canMerge}
+            onClick={() => handleResolve('merge')}
+          >
+            Merge changes
+          </Button>
+        </Space>
+      }
+    >
+      {conflict && (
+        <>
+          <Paragraph>
+            You started from version {conflict.baseVersion}, but version {conflict.currentVersion} has
+            been saved since. Your changes have not been saved yet.
+          </Paragraph>
+
+          {!canMerge && (
+            <Alert
+              type="warning"
+              showIcon
+              style={{ marginBottom: 12 }}
+              message="Your changes can't be merged automatically - keep your version or discard it."
+            />
+          )}
+
+          {canMerge && conflict.conflicts.length === 0 && (
+            <Alert
+              type="success"
+              showIcon
+              style={{ marginBottom: 12 }}
+              message="No overlapping edits - merging keeps both sets of changes."
+            />
+          )}
+
+          {conflict.conflicts.length > 0 && (
+            <>
+              <Text type="secondary" style={{ fontSize: '12px' }}>
+                Edited on both sides - merging keeps the other version of these:
+              </Text>
+              <List<MapMergeConflict>
+                size="small"
+                style={{ maxHeight: 240, overflowY: 'auto', marginTop: 4 }}
+                dataSource={conflict.conflicts}
+                rowKey={(item) => `${item.section}-${item.id}`}
+                renderItem={(item) => (
+                  <List.Item>
+                    <Space size={6}>
+                      <Tag>{SECTION_LABELS[item.section]}</Tag>
+                      <Text>{item.name || item.id}</Text>
+                      <Text type="secondary" style={{ fontSize: '12px' }}>{REASON_LABELS[item.reason]}</Text>
+                    </Space>
+                  </List.Item>
+                )}
+              />
+            </>
+          )}
+
+          <Paragraph type="secondary" style={{ fontSize: '12px', marginTop: 12, marginBottom: 0 }}>
+            Keeping your version replaces the other changes; they stay in the version history.
+          </Paragraph>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default MapConflictDialog;
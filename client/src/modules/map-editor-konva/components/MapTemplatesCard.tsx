@@ -0,0 +1,284 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Card,
+  Space,
+  Button,
+  Form,
+  Input,
+  Radio,
+  Select,
+  List,
+  Tag,
+  Popconfirm,
+  Typography,
+  Empty,
+  message
+} from 'antd';
+import { AppstoreAddOutlined, CopyOutlined, DeleteOutlined, ReloadOutlined, SaveOutlined } from '@ant-design/icons';
+import { MapApiService, MapTemplate } from '../../../services/api/MapApiService';
+import { MapCacheManager } from '../../../shared/MapCacheManager';
+import { useMapStore } from '../../../stores/useMapStore';
+import { logger } from '../../../shared/logger';
+
+const { Text } = Typography;
+
+interface MapTemplatesCardProps {
+  roomId?: string;
+  selectedIds: string[];
+}
+
+const DEFAULT_ROOM_ID = 'default';
+
+const describeCounts = (counts: MapTemplate['counts']) =>
+  [
+    counts.interactiveAreas && `${counts.interactiveAreas} areas`,
+    counts.impassableAreas && `${counts.impassableAreas} collisions`,
+    counts.assets && `${counts.assets} assets`,
+    counts.spawnPoints && `${counts.spawnPoints} spawn points`,
+  ].filter(Boolean).join(' · ') || 'Empty';
+
+/**
+ * Map templates - save the map (or the selected shapes) as a template, start
+ * the map from a template or add a template's shapes to it, and copy the map
+ * of another room. The server saves the result as a new map version.
+ */
+export const MapTemplatesCard: React.FC<MapTemplatesCardProps> = ({ roomId = DEFAULT_ROOM_ID, selectedIds }) => {
+  const { loadMap, isDirty } = useMapStore();
+  const [templates, setTemplates] = useState<MapTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [scope, setScope] = useState<'map' | 'selection'>('map');
+  const [isSaving, setIsSaving] = useState(false);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+  const [sourceRooms, setSourceRooms] = useState<string[]>([]);
+  const [sourceRoomId, setSourceRoomId] = useState<string | undefined>();
+  const [isCloning, setIsCloning] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    setIsLoading(true);
+    const response = await MapApiService.listTemplates();
+    setIsLoading(false);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to load map templates');
+      return;
+    }
+    setTemplates(response.data);
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+    MapApiService.listMaps().then(response => {
+      if (response.success && response.data) {
+        setSourceRooms(response.data.map(map => map.roomId).filter(id => id !== roomId));
+      }
+    });
+  }, [loadTemplates, roomId]);
+
+  useEffect(() => {
+    if (selectedIds.length === 0) {
+      setScope('map');
+    }
+  }, [selectedIds.length]);
+
+  // Reload the editor from the server so the changed map replaces the cached one
+  const reloadMap = useCallback(async () => {
+    MapCacheManager.invalidateMapCache(roomId);
+    await loadMap();
+  }, [roomId, loadMap]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const response = await MapApiService.createTemplate({
+      name: name.trim(),
+      description: description.trim(),
+      sourceRoomId: roomId,
+      shapeIds: scope === 'selection' ? selectedIds : undefined,
+    });
+    setIsSaving(false);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to save template');
+      return;
+    }
+    message.success(`Template "${response.data.name}" saved`);
+    setName('');
+    setDescription('');
+    loadTemplates();
+  };
+
+  const handleApply = async (template: MapTemplate, mode: 'replace' | 'append') => {
+    setApplyingId(template.id);
+    const response = await MapApiService.applyTemplate(roomId, template.id, mode);
+    setApplyingId(null);
+    if (!response.success) {
+      message.error(response.error || 'Failed to apply template');
+      return;
+    }
+    message.success(mode === 'append' ? `Added "${template.name}" to the map` : `Map replaced with "${template.name}"`);
+    await reloadMap();
+  };
+
+  const handleDelete = async (template: MapTemplate) => {
+    const response = await MapApiService.deleteTemplate(template.id);
+    if (!response.success) {
+      message.error(response.error || 'Failed to delete template');
+      return;
+    }
+    setTemplates(prev => prev.filter(item => item.id !== template.id));
+  };
+
+  const handleClone = async () => {
+    if (!sourceRoomId) return;
+    setIsCloning(true);
+    const response = await MapApiService.cloneMap(roomId, sourceRoomId);
+    setIsCloning(false);
+    if (!response.success) {
+      logger.warn('MAP CLONE FAILED', { roomId, sourceRoomId, error: response.error });
+      message.error(response.error || 'Failed to copy map');
+      return;
+    }
+    message.success(`Copied the map of room ${sourceRoomId}`);
+    setSourceRoomId(undefined);
+    await reloadMap();
+  };
+
+  const unsavedWarning = isDirty ? 'You have unsaved changes - they will be lost.' : 'It will be saved as a new version.';
+
+  return (
+    <Card
+      title={<Space><AppstoreAddOutlined />Templates</Space>}
+      size="small"
+      extra={
+        <Button size="small" type="text" icon={<ReloadOutlined />} title="Refresh" onClick={loadTemplates} />
+      }
+    >
+      <Form layout="vertical">
+        <Form.Item label="Save as Template" style={{ marginBottom: 8 }}>
+          <Space direction="vertical" style={{ width: '100%' }}>
+            <Input placeholder="Name" value={name} maxLength={100} onChange={(event) => setName(event.target.value)} />
+            <Input.TextArea
+              placeholder="Description (optional)"
+              value={description}
+              maxLength={500}
+              autoSize={{ minRows: 1, maxRows: 3 }}
+              onChange={(event) => setDescription(event.target.value)}
+            />
+            <Radio.Group value={scope} onChange={(event) => setScope(event.target.value)}>
+              <Radio value="map">Whole map</Radio>
+              <Radio value="selection" disabled={selectedIds.length === 0}>
+                Selected shapes ({selectedIds.length})
+              </Radio>
+            </Radio.Group>
+            {isDirty && (
+              <Text type="warning" style={{ fontSize: '12px' }}>
+                Templates are made from the saved map - save your changes first.
+              </Text>
+            )}
+            <Button
+              type="primary"
+              icon={<SaveOutlined />}
+              loading={isSaving}
+              disabled={!name.trim()}
+              onClick={handleSave}
+              block
+            >
+              Save Template
+            </Button>
+          </Space>
+        </Form.Item>
+      </Form>
+
+      {templates.length === 0 && !isLoading ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No templates yet" />
+      ) : (
+        <List<MapTemplate>
+          size="small"
+          loading={isLoading && templates.length === 0}
+          dataSource={templates}
+          rowKey="id"
+          renderItem={template => (
+            <List.Item style={{ display: 'block', padding: '8px 4px' }}>
+              <Space align="start">
+                {template.thumbnailUrl ? (
+                  <img
+                    src={template.thumbnailUrl}
+                    alt={template.name}
+                    style={{ width: 64, height: 48, objectFit: 'cover', borderRadius: 4, border: '1px solid var(--color-border)' }}
+                  />
+                ) : (
+                  <div style={{ width: 64, height: 48, borderRadius: 4, background: 'var(--color-bg-container)' }} />
+                )}
+                <div>
+                  <Space size={4}>
+                    <Text strong>{template.name}</Text>
+                    {template.kind === 'selection' && <Tag>Shapes</Tag>}
+                  </Space>
+                  {template.description && (
+                    <div style={{ fontSize: '12px' }}>{template.description}</div>
+                  )}
+                  <Text type="secondary" style={{ fontSize: '11px' }}>
+                    {describeCounts(template.counts)}
+                    {template.createdByName ? ` · ${template.createdByName}` : ''}
+                  </Text>
+                </div>
+              </Space>
+              <Space size={4} style={{ marginTop: 6 }}>
+                {template.kind === 'map' && (
+                  <Popconfirm
+                    title={`Replace the map with "${template.name}"?`}
+                    description={unsavedWarning}
+                    okText="Replace"
+                    onConfirm={() => handleApply(template, 'replace')}
+                  >
+                    <Button size="small" loading={applyingId === template.id}>Use as Map</Button>
+                  </Popconfirm>
+                )}
+                <Popconfirm
+                  title={`Add the shapes of "${template.name}" to the map?`}
+                  description={unsavedWarning}
+                  okText="Add"
+                  onConfirm={() => handleApply(template, 'append')}
+                >
+                  <Button size="small" loading={applyingId === template.id}>Add to Map</Button>
+                </Popconfirm>
+                <Popconfirm
+                  title={`Delete template "${template.name}"?`}
+                  okText="Delete"
+                  okButtonProps={{ danger: true }}
+                  onConfirm={() => handleDelete(template)}
+                >
+                  <Button size="small" danger type="text" icon={<DeleteOutlined />} title="Delete" />
+                </Popconfirm>
+              </Space>
+            </List.Item>
+          )}
+        />
+      )}
+
+      <Form layout="vertical" style={{ marginTop: 12 }}>
+        <Form.Item label="Copy Map from Room" style={{ marginBottom: 0 }}>
+          <Space.Compact style={{ width: '100%' }}>
+            <Select
+              placeholder="Room"
+              value={sourceRoomId}
+              onChange={setSourceRoomId}
+              options={sourceRooms.map(id => ({ value: id, label: id }))}
+              style={{ width: '100%' }}
+            />
+            <Popconfirm
+              title={`Replace the map with the map of room ${sourceRoomId}?`}
+              description={unsavedWarning}
+              okText="Copy"
+              disabled={!sourceRoomId}
+              onConfirm={handleClone}
+            >
+              <Button icon={<CopyOutlined />} loading={isCloning} disabled={!sourceRoomId}>
+                Copy
+              </Button>
+            </Popconfirm>
+          </Space.Compact>
+        </Form.Item>
+      </Form>
+    </Card>
+  );
+};
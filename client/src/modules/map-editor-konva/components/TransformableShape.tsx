@@ -10,6 +10,7 @@ import Konva from 'konva';
 import type { Shape } from '../types';
 import { SELECTION_STYLE } from '../constants/konvaConstants';
 import { logger } from '../../../shared/logger';
+import { setImageSource } from '../utils/imageProcessing';
 
 // ==========================================================================
 // TRANSFORMABLE RECTANGLE
@@ -50,6 +51,7 @@ export const TransformableRect: React.FC<TransformableRectProps> = ({
       stroke={isSelected ? SELECTION_STYLE.STROKE : shape.style.stroke}
       strokeWidth={isSelected ? SELECTION_STYLE.STROKE_WIDTH : shape.style.strokeWidth}
       opacity={shape.style.opacity}
+      dash={shape.style.dash}
       draggable={isSelected}
       onClick={onSelect}
       onTap={onSelect}
@@ -204,7 +206,7 @@ export const TransformableImage: React.FC<TransformableImageProps> = ({
   const shapeRef = useRef<Konva.Image>(null);
   const [image, setImage] = useState<HTMLImageElement | null>(null);
 
-  // Load image from base64 data - must be before early return
+  // Load image (asset URL or base64 data) - must be before early return
   useEffect(() => {
     if (shape.geometry.type !== 'image') {
       return;
@@ -218,7 +220,7 @@ export const TransformableImage: React.FC<TransformableImageProps> = ({
     img.onerror = () => {
       logger.error('[TransformableImage] Failed to load image', { id: shape.id, fileName: geometry.fileName });
     };
-    img.src = geometry.imageData;
+    setImageSource(img, geometry.imageData);
   }, [shape.geometry, shape.id]);
 
   if (shape.geometry.type !== 'image') {
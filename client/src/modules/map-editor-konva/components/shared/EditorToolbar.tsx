@@ -14,7 +14,8 @@ import {
   RotateCcw,
   Info,
   Pentagon,
-  Magnet
+  Magnet,
+  MapPin
 } from 'lucide-react';
 import { ToolbarState, GridConfig } from '../../types/ui.types';
 import { SaveStatusIndicator } from '../../../../components/SaveStatusIndicator';
@@ -39,6 +40,7 @@ interface EditorToolbarProps {
   onTogglePreview: () => void;
   onToggleBackgroundInfo?: () => void;
   backgroundInfoVisible?: boolean;
+  onAddSpawnPoint?: () => void;
 }
 
 export const EditorToolbar: React.FC<EditorToolbarProps> = ({
@@ -58,6 +60,7 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
   onTogglePreview,
   onToggleBackgroundInfo,
   backgroundInfoVisible = false,
+  onAddSpawnPoint,
 }) => {
   const navigate = useNavigate();
 
@@ -99,6 +102,11 @@ export const EditorToolbar: React.FC<EditorToolbarProps> = ({
             }}
             size="small"
           />
+          {onAddSpawnPoint && (
+            <Tooltip title="Add Spawn Point / Teleport Destination">
+              <Button size="small" icon={<MapPin size={16} />} onClick={onAddSpawnPoint} />
+            </Tooltip>
+          )}
         </Space>
       </Flex>
 
@@ -19,6 +19,7 @@ interface AssetItem {
   uploadedAt: number;
   isFromApi?: boolean; // Track if asset is from API
   url?: string; // API asset URL
+  thumbnailUrl?: string; // Server-generated thumbnail of API assets
 }
 
 interface AssetsTabProps {
@@ -59,13 +60,14 @@ export const AssetsTab: React.FC<AssetsTabProps> = ({ onAssetUpload, onPlaceAsse
         if (result.success && result.data) {
           const apiAssets: AssetItem[] = result.data.map(asset => ({
             id: asset.id,
-            fileName: asset.originalName,
-            imageData: asset.url, // Use URL for API assets
-            width: (asset.metadata as any)?.width || 100,
-            height: (asset.metadata as any)?.height || 100,
-            uploadedAt: new Date(asset.uploadedAt).getTime(),
+            fileName: asset.name,
+            imageData: asset.fileUrl, // Use URL for API assets
+            width: asset.width || 100,
+            height: asset.height || 100,
+            uploadedAt: new Date(asset.createdAt).getTime(),
             isFromApi: true,
-            url: asset.url,
+            url: asset.fileUrl,
+            thumbnailUrl: asset.variants?.thumbnail?.url,
           }));
 
           logger.info('ASSETS LOADED FROM API', { count: apiAssets.length });
@@ -95,8 +97,9 @@ export const AssetsTab: React.FC<AssetsTabProps> = ({ onAssetUpload, onPlaceAsse
     loadAssets();
   }, [roomId]);
 
-  // Save asset to library (API + localStorage fallback)
-  const saveAssetToLibrary = useCallback(async (imageData: string, fileName: string, width: number, height: number) => {
+  // Save asset to library (API + localStorage fallback). Returns the saved item -
+  // its imageData is the stored asset's URL when the upload worked.
+  const saveAssetToLibrary = useCallback(async (imageData: string, fileName: string, width: number, height: number): Promise<AssetItem> => {
     const newAsset: AssetItem = {
       id: `asset_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
       fileName,
@@ -119,7 +122,9 @@ export const AssetsTab: React.FC<AssetsTabProps> = ({ onAssetUpload, onPlaceAsse
       if (result.success && result.data) {
         newAsset.id = result.data.id;
         newAsset.isFromApi = true;
-        newAsset.url = result.data.url;
+        newAsset.url = result.data.fileUrl;
+        newAsset.imageData = result.data.fileUrl;
+        newAsset.thumbnailUrl = result.data.variants?.thumbnail?.url;
         logger.info('ASSET UPLOADED TO API', { id: result.data.id, fileName });
       }
     } catch (error) {
@@ -127,6 +132,10 @@ export const AssetsTab: React.FC<AssetsTabProps> = ({ onAssetUpload, onPlaceAsse
     }
 
     setSavedAssets(prev => {
+      // The same image uploaded again is the same stored asset
+      if (prev.some(a => a.id === newAsset.id)) {
+        return prev;
+      }
       const updatedAssets = [...prev, newAsset];
 
       // Also save to localStorage as backup
@@ -140,6 +149,7 @@ export const AssetsTab: React.FC<AssetsTabProps> = ({ onAssetUpload, onPlaceAsse
 
       return updatedAssets;
     });
+    return newAsset;
   }, [roomId]);
 
   // Delete asset from library
@@ -216,16 +226,16 @@ export const AssetsTab: React.FC<AssetsTabProps> = ({ onAssetUpload, onPlaceAsse
 
           // Load image to get dimensions
           const img = new window.Image();
-          img.onload = () => {
+          img.onload = async () => {
             console.log(`[AssetsTab] Image loaded in beforeUpload: ${file.name} (${img.width}x${img.height})`);
 
-            // Save to library
-            saveAssetToLibrary(data, file.name, img.width, img.height);
+            // Save to library - the map refers to the stored asset by URL
+            const saved = await saveAssetToLibrary(data, file.name, img.width, img.height);
 
             // Place on map if auto-place is enabled
             if (autoPlace) {
               console.log(`[AssetsTab] Auto-placing asset on map from beforeUpload: ${file.name}`);
-              onPlaceAsset?.(data, file.name, img.width, img.height);
+              onPlaceAsset?.(saved.imageData, file.name, img.width, img.height);
               message.success(`Uploaded and placed "${file.name}" on map`);
             } else {
               message.success(`Uploaded "${file.name}" to library`);
@@ -365,7 +375,7 @@ export const AssetsTab: React.FC<AssetsTabProps> = ({ onAssetUpload, onPlaceAsse
                   <div style={{ position: 'relative' }}>
                     <img
                       alt={asset.fileName}
-                      src={asset.imageData}
+                      src={asset.thumbnailUrl ?? asset.imageData}
                       style={{
                         width: '100%',
                         height: 100,
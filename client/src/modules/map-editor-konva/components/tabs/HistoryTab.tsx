@@ -0,0 +1,261 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { Card, List, Tag, Button, Popconfirm, Typography, Space, Spin, Empty, message } from 'antd';
+import { HistoryOutlined, RollbackOutlined, ReloadOutlined } from '@ant-design/icons';
+import {
+  MapApiService,
+  MapRevision,
+  MapDiff,
+  MapCollectionDiff,
+} from '../../../../services/api/MapApiService';
+import { MapCacheManager } from '../../../../shared/MapCacheManager';
+import { useMapStore } from '../../../../stores/useMapStore';
+import { logger } from '../../../../shared/logger';
+
+const { Text } = Typography;
+
+interface HistoryTabProps {
+  roomId?: string;
+}
+
+const DEFAULT_ROOM_ID = 'default';
+const PAGE_SIZE = 20;
+
+const DIFF_SECTIONS: Array<{ key: keyof Pick<MapDiff, 'areas' | 'collisions' | 'assets' | 'spawnPoints'>; label: string }> = [
+  { key: 'areas', label: 'Areas' },
+  { key: 'collisions', label: 'Collisions' },
+  { key: 'assets', label: 'Assets' },
+  { key: 'spawnPoints', label: 'Spawn points' },
+];
+
+const isEmptyDiff = (diff: MapDiff) =>
+  diff.properties.length === 0 &&
+  DIFF_SECTIONS.every(({ key }) => {
+    const section = diff[key];
+    return section.added.length === 0 && section.removed.length === 0 && section.changed.length === 0;
+  });
+
+const DiffSection: React.FC<{ label: string; section: MapCollectionDiff }> = ({ label, section }) => {
+  if (section.added.length === 0 && section.removed.length === 0 && section.changed.length === 0) {
+    return null;
+  }
+  return (
+    <div style={{ marginBottom: 6 }}>
+      <Text strong style={{ fontSize: '12px' }}>{label}</Text>
+      {section.added.map(item => (
+        <div key={`added-${item.id}`} style={{ fontSize: '12px' }}>
+          <Text type="success">+ {item.name || item.id}</Text>
+        </div>
+      ))}
+      {section.removed.map(item => (
+        <div key={`removed-${item.id}`} style={{ fontSize: '12px' }}>
+          <Text type="danger">− {item.name || item.id}</Text>
+        </div>
+      ))}
+      {section.changed.map(item => (
+        <div key={`changed-${item.id}`} style={{ fontSize: '12px' }}>
+          <Text type="warning">~ {item.name || item.id}</Text>
+          <Text type="secondary"> ({item.fields.join(', ')})</Text>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * History tab - saved versions of the map. Selecting a version shows what
+ * changed compared to the version before it; restoring saves the old map
+ * as a new version so nothing is lost.
+ */
+export const HistoryTab: React.FC<HistoryTabProps> = ({ roomId = DEFAULT_ROOM_ID }) => {
+  const { loadMap, isDirty } = useMapStore();
+  const [revisions, setRevisions] = useState<MapRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<MapDiff | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+
+  const loadRevisions = useCallback(async (before?: number) => {
+    setIsLoading(true);
+    const response = await MapApiService.listRevisions(roomId, { limit: PAGE_SIZE, before });
+    setIsLoading(false);
+    if (!response.success || !response.data) {
+      message.error(response.error || 'Failed to load map history');
+      return;
+    }
+    const page = response.data;
+    setRevisions(prev => (before ? [...prev, ...page] : page));
+    setHasMore(page.length === PAGE_SIZE);
+  }, [roomId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const currentVersion = revisions[0]?.version;
+
+  const handleSelect = async (version: number) => {
+    if (selectedVersion === version) {
+      setSelectedVersion(null);
+      setDiff(null);
+      return;
+    }
+    setSelectedVersion(version);
+    setDiff(null);
+    if (version <= 1) {
+      return;
+    }
+    setIsDiffLoading(true);
+    const response = await MapApiService.diffRevision(roomId, version);
+    setIsDiffLoading(false);
+    if (response.success && response.data) {
+      setDiff(response.data);
+    } else {
+      logger.warn('MAP REVISION DIFF FAILED', { roomId, version, error: response.error });
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    setRestoringVersion(version);
+    const response = await MapApiService.restoreRevision(roomId, version);
+    setRestoringVersion(null);
+    if (!response.success) {
+      message.error(response.error || 'Failed to restore version');
+      return;
+    }
+    message.success(`Restored version ${version}`);
+    // Reload the editor from the server so the restored map replaces the cached one
+    MapCacheManager.invalidateMapCache(roomId);
+    await loadMap();
+    setSelectedVersion(null);
+    setDiff(null);
+    loadRevisions();
+  };
+
+  const renderDiff = (version: number) => {
+    if (version <= 1) {
+      return <Text type="secondary" style={{ fontSize: '12px' }}>First saved version</Text>;
+    }
+    if (isDiffLoading) {
+      return <Spin size="small" />;
+    }
+    if (!diff) {
+      return <Text type="secondary" style={{ fontSize: '12px' }}>Changes unavailable</Text>;
+    }
+    if (isEmptyDiff(diff)) {
+      return <Text type="secondary" style={{ fontSize: '12px' }}>No changes from version {diff.fromVersion}</Text>;
+    }
+    return (
+      <div style={{ marginTop: 4 }}>
+        {DIFF_SECTIONS.map(({ key, label }) => (
+          <DiffSection key={key} label={label} section={diff[key]} />
+        ))}
+        {diff.properties.length > 0 && (
+          <div style={{ fontSize: '12px' }}>
+            <Text strong style={{ fontSize: '12px' }}>Map settings</Text>
+            <div><Text type="warning">~ {diff.properties.join(', ')}</Text></div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="editor-tab-content">
+      <Card
+        size="small"
+        title={<Space><HistoryOutlined />Version History</Space>}
+        extra={
+          <Button
+            size="small"
+            type="text"
+            icon={<ReloadOutlined />}
+            title="Refresh"
+            onClick={() => loadRevisions()}
+          />
+        }
+      >
+        {revisions.length === 0 && !isLoading ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No saved versions yet" />
+        ) : (
+          <List<MapRevision>
+            size="small"
+            loading={isLoading && revisions.length === 0}
+            dataSource={revisions}
+            rowKey="version"
+            renderItem={revision => {
+              const isCurrent = revision.version === currentVersion;
+              const isSelected = revision.version === selectedVersion;
+              return (
+                <List.Item
+                  style={{ display: 'block', cursor: 'pointer', padding: '8px 4px' }}
+                  onClick={() => handleSelect(revision.version)}
+                >
+                  <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+                    <Space size={4}>
+                      <Tag color={isCurrent ? 'blue' : undefined}>v{revision.version}</Tag>
+                      {isCurrent && <Text type="secondary" style={{ fontSize: '11px' }}>Current</Text>}
+                    </Space>
+                    {!isCurrent && (
+                      <Popconfirm
+                        title={`Restore version ${revision.version}?`}
+                        description={
+                          isDirty
+                            ? 'You have unsaved changes - they will be lost.'
+                            : 'It will be saved as a new version.'
+                        }
+                        okText="Restore"
+                        onConfirm={(event) => {
+                          event?.stopPropagation();
+                          handleRestore(revision.version);
+                        }}
+                        onCancel={(event) => event?.stopPropagation()}
+                      >
+                        <Button
+                          size="small"
+                          icon={<RollbackOutlined />}
+                          loading={restoringVersion === revision.version}
+                          onClick={(event) => event.stopPropagation()}
+                        >
+                          Restore
+                        </Button>
+                      </Popconfirm>
+                    )}
+                  </Space>
+                  <div style={{ fontSize: '12px', marginTop: 4 }}>
+                    {revision.message || <Text type="secondary" italic>No message</Text>}
+                  </div>
+                  <Text type="secondary" style={{ fontSize: '11px' }}>
+                    {revision.authorName || 'Unknown'} · {new Date(revision.createdAt).toLocaleString()}
+                  </Text>
+                  {isSelected && (
+                    <div
+                      style={{ marginTop: 6, paddingTop: 6, borderTop: '1px solid var(--color-border-light)' }}
+                      onClick={(event) => event.stopPropagation()}
+                    >
+                      {renderDiff(revision.version)}
+                    </div>
+                  )}
+                </List.Item>
+              );
+            }}
+          />
+        )}
+        {hasMore && (
+          <Button
+            block
+            size="small"
+            style={{ marginTop: 8 }}
+            loading={isLoading}
+            onClick={() => loadRevisions(revisions[revisions.length - 1]?.version)}
+          >
+            Load more
+          </Button>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default HistoryTab;
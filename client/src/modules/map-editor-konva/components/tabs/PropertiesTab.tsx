@@ -5,14 +5,15 @@
  * Displays different property editors based on the type of selected object:
  * - Interactive Area: name, description, actionType, actionConfig
  * - Collision Area: name, color
+ * - Spawn Point: name, spawn/destination-only
  * - Asset: name, position, size, rotation
  * - Empty state when nothing selected
  */
 
 import React from 'react';
-import { Empty, Typography, Card, Form, Input, Select, Divider, Space, Button, Tag } from 'antd';
+import { Empty, Typography, Card, Form, Input, Select, Divider, Space, Button, Tag, Switch } from 'antd';
 import { EditOutlined, DeleteOutlined } from '@ant-design/icons';
-import type { InteractiveArea, ImpassableArea, InteractiveAreaActionType } from '../../../../shared/MapDataContext';
+import type { InteractiveArea, ImpassableArea, InteractiveAreaActionType, SpawnPoint } from '../../../../shared/MapDataContext';
 import { getColorForActionType } from '../../../../shared/MapDataContext';
 import type { Shape } from '../../types';
 
@@ -29,6 +30,8 @@ const ACTION_TYPE_OPTIONS: { value: InteractiveAreaActionType; label: string; de
   { value: 'modal', label: 'Modal', description: 'Show popup content' },
   { value: 'collectible', label: 'Collectible', description: 'Pickup item with effects' },
   { value: 'switch', label: 'Switch', description: 'Toggle other objects' },
+  { value: 'teleport', label: 'Teleport', description: 'Move to a named destination' },
+  { value: 'portal', label: 'Portal', description: 'Move to another world room' },
 ];
 
 interface PropertiesTabProps {
@@ -42,6 +45,9 @@ interface PropertiesTabProps {
   onDeleteCollisionArea?: (area: ImpassableArea) => void;
   onUpdateArea?: (areaId: string, updates: Partial<InteractiveArea>) => void;
   onUpdateShape?: (shapeId: string, updates: Partial<Shape>) => void;
+  spawnPoints?: SpawnPoint[];
+  onUpdateSpawnPoint?: (spawnPointId: string, updates: Partial<SpawnPoint>) => void;
+  onDeleteSpawnPoint?: (spawnPointId: string) => void;
 }
 
 export const PropertiesTab: React.FC<PropertiesTabProps> = ({
@@ -54,6 +60,9 @@ export const PropertiesTab: React.FC<PropertiesTabProps> = ({
   onEditCollisionArea,
   onDeleteCollisionArea,
   onUpdateArea,
+  spawnPoints = [],
+  onUpdateSpawnPoint,
+  onDeleteSpawnPoint,
 }) => {
   // Empty state - nothing selected
   if (selectedIds.length === 0) {
@@ -93,6 +102,7 @@ export const PropertiesTab: React.FC<PropertiesTabProps> = ({
   const selectedShape = shapes.find(s => s.id === selectedId);
   const selectedArea = areas.find(a => a.id === selectedId);
   const selectedCollisionArea = impassableAreas.find(a => a.id === selectedId);
+  const selectedSpawnPoint = spawnPoints.find(s => s.id === selectedId);
 
   // Interactive Area selected
   if (selectedArea) {
@@ -219,6 +229,54 @@ export const PropertiesTab: React.FC<PropertiesTabProps> = ({
     );
   }
 
+  // Spawn point / teleport destination selected
+  if (selectedSpawnPoint) {
+    const isDuplicateName = spawnPoints.some(
+      s => s.id !== selectedSpawnPoint.id && s.name.trim() === selectedSpawnPoint.name.trim()
+    );
+    return (
+      <Card size="small" title={<Space><EditOutlined /> Spawn Point</Space>}>
+        <Form layout="vertical" size="small" style={{ marginBottom: 0 }}>
+          {/* Name - teleport areas refer to destinations by name */}
+          <Form.Item
+            label="Name"
+            style={{ marginBottom: 8 }}
+            validateStatus={isDuplicateName ? 'warning' : undefined}
+            help={isDuplicateName ? 'Another destination has this name' : undefined}
+          >
+            <Input
+              value={selectedSpawnPoint.name}
+              onChange={(e) => onUpdateSpawnPoint?.(selectedSpawnPoint.id, { name: e.target.value })}
+              placeholder="Destination name"
+            />
+          </Form.Item>
+
+          <Form.Item label="New players spawn here" style={{ marginBottom: 8 }}>
+            <Switch
+              checked={selectedSpawnPoint.isSpawn}
+              onChange={(checked) => onUpdateSpawnPoint?.(selectedSpawnPoint.id, { isSpawn: checked })}
+            />
+          </Form.Item>
+
+          {/* Position info (read-only) */}
+          <Form.Item label="Position" style={{ marginBottom: 8 }}>
+            <Space>
+              <Tag>X: {selectedSpawnPoint.x}</Tag>
+              <Tag>Y: {selectedSpawnPoint.y}</Tag>
+              <Tag>W: {selectedSpawnPoint.width}</Tag>
+              <Tag>H: {selectedSpawnPoint.height}</Tag>
+            </Space>
+          </Form.Item>
+        </Form>
+
+        <Divider style={{ margin: '8px 0' }} />
+        <Button size="small" danger icon={<DeleteOutlined />} onClick={() => onDeleteSpawnPoint?.(selectedSpawnPoint.id)}>
+          Delete
+        </Button>
+      </Card>
+    );
+  }
+
   // Asset or other shape selected
   if (selectedShape) {
     return (
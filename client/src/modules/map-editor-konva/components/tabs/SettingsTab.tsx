@@ -24,9 +24,11 @@ import { GRID_PATTERNS } from '../../constants/editorConstants';
 import { MapDataManager } from '../../../../components/MapDataManager';
 import { useMapData } from '../../../../shared/MapDataContext';
 import { useMapStore } from '../../../../stores/useMapStore';
+import { MapDataService } from '../../../../stores/MapDataService';
 import { useWorldDimensions } from '../../../../shared/useWorldDimensions';
 import { useAnimatedGifSettings } from '../../hooks/useAnimatedGifSettings';
 import { EnhancedBackgroundUpload } from '../EnhancedBackgroundUpload';
+import { MapTemplatesCard } from '../MapTemplatesCard';
 
 const { Option } = Select;
 
@@ -50,13 +52,15 @@ interface SettingsTabProps {
   previewMode: boolean;
   onGridConfigChange: (config: Partial<GridConfig>) => void;
   onPreviewModeChange: (enabled: boolean) => void;
+  selectedIds?: string[];
 }
 
 export const SettingsTab: React.FC<SettingsTabProps> = ({
   gridConfig,
   previewMode,
   onGridConfigChange,
-  onPreviewModeChange
+  onPreviewModeChange,
+  selectedIds = []
 }) => {
   const { mapData, updateInteractiveAreas } = useMapData();
   // Redux-based map store for persistence operations
@@ -298,8 +302,9 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
               return;
             }
 
-            // Update map data with background image via Redux store
-            setBackgroundImage(imageDataUrl, backgroundValidation.dimensions);
+            // Update map data with background image via Redux store - by the stored image's URL
+            const imageUrl = await MapDataService.storeMapImage(imageDataUrl, file.name);
+            setBackgroundImage(imageUrl, backgroundValidation.dimensions);
 
             logger.info('BACKGROUND IMAGE SAVED TO MAP DATA');
             // Store background dimensions in state for manual controls
@@ -409,6 +414,9 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
         />
       
 
+      {/* Templates and copying maps between rooms */}
+      <MapTemplatesCard selectedIds={selectedIds} />
+
       {/* Map Size Settings */}
       <Card
         title={
@@ -1,5 +1,6 @@
 import React from 'react';
 import {
+  History,
   Palette,
   Settings,
   SlidersHorizontal
@@ -7,14 +8,16 @@ import {
 import { EditorTab, GridConfig, ToolbarState, GridPattern } from '../types/ui.types';
 
 /**
- * Editor Tabs - 3-tab structure (Figma/Unity style)
+ * Editor Tabs - 4-tab structure (Figma/Unity style)
  * - Properties: Selection-driven editing (shows when object selected)
  * - Assets: Asset library and upload
+ * - History: Saved map versions, diff and restore
  * - Settings: Grid, preview mode, and editor settings
  */
 export const EDITOR_TABS: EditorTab[] = [
   { id: 'properties', label: 'Properties', icon: React.createElement(SlidersHorizontal, { size: 16 }) },
   { id: 'assets', label: 'Assets', icon: React.createElement(Palette, { size: 16 }) },
+  { id: 'history', label: 'History', icon: React.createElement(History, { size: 16 }) },
   { id: 'settings', label: 'Settings', icon: React.createElement(Settings, { size: 16 }) }
 ];
 
@@ -127,6 +127,17 @@ export const COLLISION_STYLE: ShapeStyle = {
   opacity: 0.7,
 };
 
+/**
+ * Default styles for spawn point / teleport destination shapes
+ */
+export const SPAWN_STYLE: ShapeStyle = {
+  fill: 'rgba(82, 196, 26, 0.25)',
+  stroke: '#52c41a',
+  strokeWidth: 2,
+  opacity: 0.8,
+  dash: [8, 4],
+};
+
 /**
  * Default styles for interactive shapes
  */
@@ -14,6 +14,7 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type {
   EditorState,
+  MapConflictResolution,
   UseKonvaPersistenceParams,
   UseKonvaPersistenceReturn,
 } from '../types';
@@ -21,6 +22,7 @@ import { PERSISTENCE } from '../constants/konvaConstants';
 import { SettingsApiService, EditorPreferences } from '../../../services/api/SettingsApiService';
 import { logger } from '../../../shared/logger';
 import { useMapStore } from '../../../stores/useMapStore';
+import { MapDataService } from '../../../stores/MapDataService';
 import { mapDataToShapes, shapesToMapData } from '../utils/mapDataAdapter';
 
 /**
@@ -29,6 +31,8 @@ import { mapDataToShapes, shapesToMapData } from '../utils/mapDataAdapter';
  * Provides save/load functionality with PostgreSQL (via Redux store) and API sync.
  * Map data (shapes) are persisted to PostgreSQL through the Redux store.
  * Editor preferences are synced to the UserSettings API.
+ * Saves are based on the loaded map version; if someone else saved first the
+ * save is rejected and `saveConflict` is set until `resolveConflict` is called.
  *
  * @example
  * ```typescript
@@ -60,11 +64,16 @@ export function useKonvaPersistence(
   // Redux store for map data persistence (PostgreSQL)
   const {
     mapData,
+    loadMap,
     saveMap,
+    saveConflict,
+    rebaseMap,
+    clearSaveConflict,
     isDirty,
     setInteractiveAreas,
     setCollisionAreas,
     setAssets,
+    setSpawnPoints,
     markDirty,
   } = useMapStore();
 
@@ -120,23 +129,25 @@ export function useKonvaPersistence(
 
     try {
       // Convert Konva shapes to map data format
-      const { interactiveAreas, impassableAreas, assets } = shapesToMapData(currentState.shapes);
+      const { interactiveAreas, impassableAreas, assets, spawnPoints } = shapesToMapData(currentState.shapes);
 
       // Update Redux store (this marks the store as dirty)
       setInteractiveAreas(interactiveAreas);
       setCollisionAreas(impassableAreas);
       setAssets(assets);
+      setSpawnPoints(spawnPoints);
       markDirty();
 
       logger.debug('SHAPES SYNCED TO REDUX STORE', {
         interactiveCount: interactiveAreas.length,
         collisionCount: impassableAreas.length,
         assetCount: assets.length,
+        spawnPointCount: spawnPoints.length,
       });
     } catch (err) {
       logger.error('FAILED TO SYNC SHAPES TO STORE', { error: err });
     }
-  }, [currentState.shapes, setInteractiveAreas, setCollisionAreas, setAssets, markDirty]);
+  }, [currentState.shapes, setInteractiveAreas, setCollisionAreas, setAssets, setSpawnPoints, markDirty]);
 
   /**
    * Save current state to PostgreSQL (via Redux store)
@@ -173,6 +184,40 @@ export function useKonvaPersistence(
     }
   }, [enabled, syncShapesToStore, saveMap, syncPrefsToApiAsync]);
 
+  /**
+   * Resolve a save rejected because someone else saved the map first.
+   * Nothing is overwritten until the user picks a resolution.
+   */
+  const resolveConflict = useCallback(async (resolution: MapConflictResolution): Promise<boolean> => {
+    if (!saveConflict) return false;
+
+    if (resolution === 'discard') {
+      clearSaveConflict();
+      await loadMap();
+      logger.info('MAP CONFLICT RESOLVED - LOCAL CHANGES DISCARDED', { version: saveConflict.currentVersion });
+      return true;
+    }
+
+    const mergedMap = resolution === 'merge' && saveConflict.merged
+      ? MapDataService.validateAndSanitizeMapData(MapDataService.fromApiMapData(saveConflict.merged))
+      : undefined;
+    rebaseMap(saveConflict.currentVersion, mergedMap);
+
+    setIsSaving(true);
+    try {
+      // Save the store directly - syncing shapes first would undo the merge
+      await saveMap();
+      setLastSaved(Date.now());
+      logger.info('MAP CONFLICT RESOLVED', { resolution, version: saveConflict.currentVersion });
+      return true;
+    } catch (err) {
+      logger.warn('SAVE AFTER CONFLICT FAILED', { resolution, error: err });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [saveConflict, clearSaveConflict, loadMap, rebaseMap, saveMap]);
+
   // ==========================================================================
   // LOAD FUNCTIONALITY
   // ==========================================================================
@@ -199,7 +244,8 @@ export function useKonvaPersistence(
       const shapes = mapDataToShapes(
         mapData.interactiveAreas || [],
         mapData.impassableAreas || [],
-        mapData.assets || []
+        mapData.assets || [],
+        mapData.spawnPoints || []
       );
 
       // Create a partial EditorState with the loaded data
@@ -293,6 +339,10 @@ export function useKonvaPersistence(
     // State
     hasSavedState: canLoad(),
     lastSaveTime: lastSaved,
+
+    // Conflict resolution
+    saveConflict,
+    resolveConflict,
   };
 }
 
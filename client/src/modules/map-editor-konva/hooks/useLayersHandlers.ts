@@ -7,7 +7,7 @@
 
 import { useCallback, RefObject } from 'react';
 import type { EditorTool } from '../types/konva.types';
-import type { Shape, InteractiveArea, Viewport, LayersHandlersReturn } from '../types';
+import type { Shape, InteractiveArea, Viewport, LayersHandlersReturn, TabId } from '../types';
 import type { UseKonvaHistoryReturn } from '../types/hooks.types';
 import { calculateZoomToShape } from '../utils/zoomToShape';
 import { logger } from '../../../shared/logger';
@@ -22,13 +22,13 @@ interface UseLayersHandlersParams {
   setCollisionAreaToDelete: (area: any | null) => void;
   setShowCollisionDeleteConfirm: (show: boolean) => void;
   setViewport: (viewport: Viewport | ((prev: Viewport) => Viewport)) => void;
-  setActiveTab?: (tab: 'properties' | 'assets' | 'settings') => void;
+  setActiveTab?: (tab: TabId) => void;
 
   // State values
   shapes: Shape[];
   areas: InteractiveArea[];
   impassableAreas: any[];
-  activeTab?: 'properties' | 'assets' | 'settings';
+  activeTab?: TabId;
 
   // Refs
   mainRef: RefObject<HTMLDivElement | null>;
@@ -37,6 +37,7 @@ interface UseLayersHandlersParams {
   markDirty: () => void;
   history: UseKonvaHistoryReturn;
   removeAsset?: (id: string) => void; // Optional for asset deletion
+  removeSpawnPoint?: (id: string) => void; // Optional for spawn point deletion
 }
 
 export function useLayersHandlers(params: UseLayersHandlersParams): LayersHandlersReturn {
@@ -53,6 +54,7 @@ export function useLayersHandlers(params: UseLayersHandlersParams): LayersHandle
     shapes,
     areas,
     removeAsset,
+    removeSpawnPoint,
     impassableAreas,
     activeTab,
     mainRef,
@@ -63,8 +65,8 @@ export function useLayersHandlers(params: UseLayersHandlersParams): LayersHandle
   const handleShapeSelect = useCallback((shapeId: string) => {
     setSelectedIds([shapeId]);
     setCurrentTool('select');
-    // Auto-switch to Properties tab when selecting items (unless in Settings tab)
-    if (setActiveTab && activeTab !== 'settings') {
+    // Auto-switch to Properties tab when selecting items (unless in Settings or History tab)
+    if (setActiveTab && activeTab !== 'settings' && activeTab !== 'history') {
       setActiveTab('properties');
     }
   }, [setSelectedIds, setCurrentTool, setActiveTab, activeTab]);
@@ -119,8 +121,18 @@ export function useLayersHandlers(params: UseLayersHandlersParams): LayersHandle
       markDirty();
       history.pushState('Delete asset');
       logger.info('ASSET_DELETED', { id: shapeId, name: shape.name });
+    } else if (shape.category === 'spawn') {
+      // Spawn points hold no content - delete directly like assets
+      setShapes(prev => prev.filter(s => s.id !== shapeId));
+      setSelectedIds(prev => prev.filter(id => id !== shapeId));
+      if (removeSpawnPoint) {
+        removeSpawnPoint(shapeId);
+      }
+      markDirty();
+      history.pushState('Delete spawn point');
+      logger.info('SPAWN_POINT_DELETED', { id: shapeId, name: shape.metadata?.name });
     }
-  }, [shapes, areas, impassableAreas, setShapes, setSelectedIds, setAreaToDelete, setShowDeleteConfirm, setCollisionAreaToDelete, setShowCollisionDeleteConfirm, markDirty, history, removeAsset]);
+  }, [shapes, areas, impassableAreas, setShapes, setSelectedIds, setAreaToDelete, setShowDeleteConfirm, setCollisionAreaToDelete, setShowCollisionDeleteConfirm, markDirty, history, removeAsset, removeSpawnPoint]);
 
   const handleZoomToShape = useCallback((shapeId: string) => {
     const shape = shapes.find(s => s.id === shapeId);
@@ -0,0 +1,192 @@
+/**
+ * Konva Map Editor - Collaboration Hook
+ *
+ * Live editing with other editors of the same map. Local shape edits are sent
+ * as operations, other editors' operations are applied to the shapes, and
+ * everyone's cursor, selection and shape locks are tracked for the stage.
+ */
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { message } from 'antd';
+import type { UseMapCollaborationParams, UseMapCollaborationReturn } from '../types';
+import {
+  MapCollaborationSocketService,
+  MapEditor,
+  MapShapeLock,
+} from '../../../services/MapCollaborationSocketService';
+import {
+  SessionSnapshot,
+  ShapeOperation,
+  createSessionSnapshot,
+  diffSessionSnapshots,
+  applySessionOperations,
+} from '../utils/collaborationOperations';
+import { mapDataToShapes } from '../utils/mapDataAdapter';
+import { useMapStore } from '../../../stores/useMapStore';
+import { logger } from '../../../shared/logger';
+import type { InteractiveArea, ImpassableArea, Asset, SpawnPoint } from '../../../shared/MapDataContext';
+
+const DEFAULT_ROOM_ID = 'default';
+// Local edits are collected for this long before they are sent (drags update shapes often)
+const SEND_DELAY_MS = 50;
+
+/**
+ * Hook for live collaborative editing
+ *
+ * @example
+ * ```typescript
+ * const collaboration = useMapCollaboration({ shapes, setShapes, selectedIds });
+ * // collaboration.editors -> other editors' names, colours, cursors and selections
+ * // collaboration.lockedByOthers.has(shape.id) -> someone else is editing it
+ * ```
+ */
+export function useMapCollaboration(
+  params: UseMapCollaborationParams
+): UseMapCollaborationReturn {
+  const { roomId = DEFAULT_ROOM_ID, shapes, setShapes, selectedIds, enabled = true } = params;
+  const { setMapVersion } = useMapStore();
+
+  const [isLive, setIsLive] = useState(false);
+  const [editors, setEditors] = useState<Map<string, MapEditor>>(new Map());
+  const [locks, setLocks] = useState<MapShapeLock[]>([]);
+  const [socketId, setSocketId] = useState<string | null>(null);
+
+  // Shapes as the session last had them - local edits are the difference
+  const snapshotRef = useRef<SessionSnapshot | null>(null);
+  const sendTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const shapesRef = useRef(shapes);
+  shapesRef.current = shapes;
+  const setMapVersionRef = useRef(setMapVersion);
+  setMapVersionRef.current = setMapVersion;
+
+  const applyOperations = useCallback((ops: ShapeOperation[]) => {
+    const snapshot = snapshotRef.current;
+    if (!snapshot) return;
+    setShapes(prev => applySessionOperations(prev, snapshot, ops));
+  }, [setShapes]);
+
+  // ===== SESSION =====
+  useEffect(() => {
+    if (!enabled) return;
+    const service = MapCollaborationSocketService.getInstance();
+
+    const updateEditor = (id: string, update: Partial<MapEditor>) => {
+      setEditors(prev => {
+        const editor = prev.get(id);
+        if (!editor) return prev;
+        const next = new Map(prev);
+        next.set(id, { ...editor, ...update });
+        return next;
+      });
+    };
+
+    service.join(roomId, {
+      onState: (state) => {
+        const sessionShapes = mapDataToShapes(
+          state.shapes.interactiveAreas as unknown as InteractiveArea[],
+          state.shapes.impassableAreas as unknown as ImpassableArea[],
+          state.shapes.assets as unknown as Asset[],
+          state.shapes.spawnPoints as unknown as SpawnPoint[]
+        );
+        snapshotRef.current = createSessionSnapshot(sessionShapes);
+        setShapes(sessionShapes);
+        setSocketId(state.socketId);
+        setEditors(new Map(state.editors.map(editor => [editor.socketId, editor])));
+        setLocks(state.locks);
+        setIsLive(true);
+        // Whole-map saves are based on the session's version from now on
+        setMapVersionRef.current(state.version);
+        logger.info('LIVE EDITING SESSION JOINED', { roomId, editors: state.editors.length, seq: state.seq });
+      },
+      onOperations: (ops) => applyOperations(ops),
+      onRejected: (rejection) => {
+        if (rejection.reason === 'locked') {
+          message.warning(`${rejection.lockedBy ?? 'Someone else'} is editing this shape`);
+        }
+        // Put the shape back the way the server has it
+        applyOperations([
+          rejection.item
+            ? { collection: rejection.collection, type: 'add', id: rejection.id, item: rejection.item }
+            : { collection: rejection.collection, type: 'remove', id: rejection.id },
+        ]);
+      },
+      onEditorJoined: (editor) => {
+        setEditors(prev => new Map(prev).set(editor.socketId, editor));
+      },
+      onEditorLeft: (id) => {
+        setEditors(prev => {
+          const next = new Map(prev);
+          next.delete(id);
+          return next;
+        });
+      },
+      onCursor: (id, cursor) => updateEditor(id, { cursor }),
+      onSelection: (id, selection) => updateEditor(id, { selection }),
+      onLocks: setLocks,
+      onSaved: (version) => setMapVersionRef.current(version),
+      onEnded: (reason) => {
+        setIsLive(false);
+        snapshotRef.current = null;
+        message.info(`Live editing ended: ${reason}`);
+      },
+      onError: (error) => logger.warn('LIVE EDITING ERROR', { roomId, error }),
+    });
+
+    return () => {
+      if (sendTimerRef.current) {
+        clearTimeout(sendTimerRef.current);
+        sendTimerRef.current = null;
+      }
+      service.leave();
+      snapshotRef.current = null;
+      setIsLive(false);
+      setEditors(new Map());
+      setLocks([]);
+    };
+  }, [enabled, roomId, setShapes, applyOperations]);
+
+  // ===== LOCAL EDITS =====
+  useEffect(() => {
+    if (!isLive || sendTimerRef.current) return;
+    sendTimerRef.current = setTimeout(() => {
+      sendTimerRef.current = null;
+      const snapshot = snapshotRef.current;
+      if (!snapshot) return;
+      const next = createSessionSnapshot(shapesRef.current);
+      const ops = diffSessionSnapshots(snapshot, next);
+      if (ops.length === 0) return;
+      if (MapCollaborationSocketService.getInstance().sendOperations(ops)) {
+        snapshotRef.current = next;
+      }
+    }, SEND_DELAY_MS);
+  }, [isLive, shapes]);
+
+  // ===== PRESENCE =====
+  useEffect(() => {
+    if (!isLive) return;
+    MapCollaborationSocketService.getInstance().updateSelection(selectedIds);
+  }, [isLive, selectedIds]);
+
+  const updateCursor = useCallback((cursor: { x: number; y: number } | null) => {
+    if (isLive) {
+      MapCollaborationSocketService.getInstance().updateCursor(cursor);
+    }
+  }, [isLive]);
+
+  const otherEditors = useMemo(
+    () => Array.from(editors.values()).filter(editor => editor.socketId !== socketId),
+    [editors, socketId]
+  );
+
+  const lockedByOthers = useMemo(
+    () => new Map(locks.filter(lock => lock.socketId !== socketId).map(lock => [lock.shapeId, lock])),
+    [locks, socketId]
+  );
+
+  return {
+    isLive,
+    editors: otherEditors,
+    lockedByOthers,
+    updateCursor,
+  };
+}
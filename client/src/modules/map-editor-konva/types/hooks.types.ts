@@ -21,6 +21,8 @@ import {
   StageRef,
   LayerRef,
 } from './konva.types';
+import type { MapSaveConflict } from '../../../services/api/MapApiService';
+import type { MapEditor, MapShapeLock } from '../../../services/MapCollaborationSocketService';
 
 // ============================================================================
 // ZOOM HOOK
@@ -647,6 +649,14 @@ export interface UseKonvaPersistenceParams {
   autoSaveDelay?: number;
 }
 
+/**
+ * How to resolve a save conflict:
+ * - merge: save the current map plus the non-conflicting local changes
+ * - overwrite: save the local map over the other changes
+ * - discard: drop the local changes and reload the current map
+ */
+export type MapConflictResolution = 'merge' | 'overwrite' | 'discard';
+
 /**
  * Return value from useKonvaPersistence hook
  */
@@ -661,6 +671,10 @@ export interface UseKonvaPersistenceReturn {
   hasSavedState: boolean;
   /** Last save timestamp */
   lastSaveTime: number | null;
+  /** Conflict from saving after someone else did (null when none) */
+  saveConflict: MapSaveConflict | null;
+  /** Resolve the save conflict - resolves false if saving failed again */
+  resolveConflict: (resolution: MapConflictResolution) => Promise<boolean>;
 }
 
 // ============================================================================
@@ -727,6 +741,40 @@ export interface UseKonvaSharedMapReturn {
   lastSyncTime: number | null;
 }
 
+// ============================================================================
+// COLLABORATION HOOK
+// ============================================================================
+
+/**
+ * Parameters for useMapCollaboration hook
+ */
+export interface UseMapCollaborationParams {
+  /** Map room to edit */
+  roomId?: string;
+  /** Current shapes */
+  shapes: Shape[];
+  /** Update shapes (remote edits are applied through this) */
+  setShapes: (shapes: Shape[] | ((prev: Shape[]) => Shape[])) => void;
+  /** Selected shape IDs (reported to the other editors and locked) */
+  selectedIds: string[];
+  /** Whether live editing is enabled */
+  enabled?: boolean;
+}
+
+/**
+ * Return value from useMapCollaboration hook
+ */
+export interface UseMapCollaborationReturn {
+  /** Whether this editor is in the live session */
+  isLive: boolean;
+  /** The other editors in the session */
+  editors: MapEditor[];
+  /** Locks held by other editors, keyed by shape ID */
+  lockedByOthers: Map<string, MapShapeLock>;
+  /** Report the pointer position (world coordinates, null when it left the map) */
+  updateCursor: (cursor: { x: number; y: number } | null) => void;
+}
+
 // ============================================================================
 // ACCESSIBILITY HOOK
 // ============================================================================
@@ -184,6 +184,7 @@ export type {
   // Persistence Hook
   UseKonvaPersistenceParams,
   UseKonvaPersistenceReturn,
+  MapConflictResolution,
 
   // Preview Mode Hook
   UseKonvaPreviewModeParams,
@@ -193,6 +194,10 @@ export type {
   UseKonvaSharedMapParams,
   UseKonvaSharedMapReturn,
 
+  // Collaboration Hook
+  UseMapCollaborationParams,
+  UseMapCollaborationReturn,
+
   // Rectangle Drawing Hook (aliases)
   UseKonvaRectDrawingParams,
   UseKonvaRectDrawingReturn,
@@ -186,7 +186,8 @@ export interface ShapeStyle {
 export type ShapeCategory =
   | 'collision'    // Impassable areas (collision detection)
   | 'interactive'  // Interactive areas (clickable zones)
-  | 'asset';       // Custom uploaded assets (images/sprites)
+  | 'asset'        // Custom uploaded assets (images/sprites)
+  | 'spawn';       // Spawn points and named teleport destinations
 
 // ============================================================================
 // SHAPES - MAIN DEFINITION
@@ -72,7 +72,7 @@ export interface PerformanceMetrics {
   renderTime: number;
 }
 
-export type TabId = 'properties' | 'assets' | 'settings';
+export type TabId = 'properties' | 'assets' | 'history' | 'settings';
 
 export interface EditorTab {
   id: TabId;
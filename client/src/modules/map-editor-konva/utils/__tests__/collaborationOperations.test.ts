@@ -0,0 +1,43 @@
+import {
+  createSessionSnapshot,
+  diffSessionSnapshots,
+  applySessionOperations,
+} from '../collaborationOperations';
+import { impassableAreaToShape, spawnPointToShape } from '../mapDataAdapter';
+
+const wall = { id: 'wall-1', x: 0, y: 0, width: 100, height: 20, name: 'Wall', type: 'rectangle' as const, color: '#ff0000' };
+const spawn = { id: 'spawn-1', name: 'Lobby', x: 10, y: 20, width: 96, height: 96, isSpawn: true };
+
+describe('collaborationOperations', () => {
+  it('finds added, changed and removed shapes', () => {
+    const shapes = [impassableAreaToShape(wall), spawnPointToShape(spawn)];
+    const snapshot = createSessionSnapshot(shapes);
+
+    // Unchanged shapes (even as new objects) produce no operations
+    expect(diffSessionSnapshots(snapshot, createSessionSnapshot([impassableAreaToShape(wall), spawnPointToShape(spawn)]))).toEqual([]);
+
+    const moved = impassableAreaToShape({ ...wall, x: 50 });
+    const added = spawnPointToShape({ ...spawn, id: 'spawn-2', name: 'Plaza' });
+    const ops = diffSessionSnapshots(snapshot, createSessionSnapshot([moved, added]));
+
+    expect(ops).toEqual([
+      expect.objectContaining({ collection: 'collisions', type: 'update', id: 'wall-1', item: expect.objectContaining({ x: 50 }) }),
+      expect.objectContaining({ collection: 'spawnPoints', type: 'add', id: 'spawn-2' }),
+      { collection: 'spawnPoints', type: 'remove', id: 'spawn-1' },
+    ]);
+  });
+
+  it('applies remote operations without echoing them back', () => {
+    const shapes = [impassableAreaToShape(wall), spawnPointToShape(spawn)];
+    const snapshot = createSessionSnapshot(shapes);
+
+    const next = applySessionOperations(shapes, snapshot, [
+      { collection: 'collisions', type: 'update', id: 'wall-1', item: { ...wall, width: 300 } },
+      { collection: 'spawnPoints', type: 'remove', id: 'spawn-1' },
+    ]);
+
+    expect(next.map(shape => shape.id)).toEqual(['wall-1']);
+    expect(next[0].geometry).toMatchObject({ width: 300 });
+    expect(diffSessionSnapshots(snapshot, createSessionSnapshot(next))).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Konva Map Editor - Collaboration Operations
+ *
+ * Converts between editor shapes and the shape operations of a live editing
+ * session: local edits are found by diffing the shapes against what the
+ * session last had, remote operations are applied back onto the shapes.
+ */
+
+import type { Shape, ShapeCategory } from '../types';
+import type {
+  InteractiveArea,
+  ImpassableArea,
+  Asset,
+  SpawnPoint,
+} from '../../../shared/MapDataContext';
+import type {
+  MapOperation,
+  MapOperationCollection,
+} from '../../../services/MapCollaborationSocketService';
+import {
+  shapeToInteractiveArea,
+  shapeToImpassableArea,
+  shapeToAsset,
+  shapeToSpawnPoint,
+  interactiveAreaToShape,
+  impassableAreaToShape,
+  assetToShape,
+  spawnPointToShape,
+} from './mapDataAdapter';
+
+export type ShapeOperation = Omit<MapOperation, 'opId'>;
+
+// Session copy of a shape, as map data
+export interface SessionItem {
+  collection: MapOperationCollection;
+  item: Record<string, unknown>;
+}
+
+// Map data of every shape, keyed by shape ID
+export type SessionSnapshot = Map<string, SessionItem>;
+
+const CATEGORY_COLLECTIONS: Record<ShapeCategory, MapOperationCollection> = {
+  interactive: 'areas',
+  collision: 'collisions',
+  asset: 'assets',
+  spawn: 'spawnPoints',
+};
+
+/**
+ * Convert a shape to its map data item, or null if it can't be converted
+ */
+export function shapeToSessionItem(shape: Shape): SessionItem | null {
+  try {
+    const collection = CATEGORY_COLLECTIONS[shape.category];
+    switch (collection) {
+      case 'areas':
+        return { collection, item: { ...shapeToInteractiveArea(shape) } };
+      case 'collisions':
+        return { collection, item: { ...shapeToImpassableArea(shape) } };
+      case 'assets':
+        return { collection, item: { ...shapeToAsset(shape) } };
+      case 'spawnPoints':
+        return { collection, item: { ...shapeToSpawnPoint(shape) } };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a map data item from the session to a shape
+ */
+export function sessionItemToShape({ collection, item }: SessionItem): Shape | null {
+  try {
+    switch (collection) {
+      case 'areas':
+        return interactiveAreaToShape(item as unknown as InteractiveArea);
+      case 'collisions':
+        return impassableAreaToShape(item as unknown as ImpassableArea);
+      case 'assets':
+        return assetToShape(item as unknown as Asset);
+      case 'spawnPoints':
+        return spawnPointToShape(item as unknown as SpawnPoint);
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+export function createSessionSnapshot(shapes: Shape[]): SessionSnapshot {
+  const snapshot: SessionSnapshot = new Map();
+  for (const shape of shapes) {
+    const sessionItem = shapeToSessionItem(shape);
+    if (sessionItem) {
+      snapshot.set(shape.id, sessionItem);
+    }
+  }
+  return snapshot;
+}
+
+// Field-by-field comparison; nested values (points, action config) are compared as JSON
+function isSameItem(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    const valueA = a[key];
+    const valueB = b[key];
+    if (valueA === valueB) continue;
+    if (typeof valueA !== 'object' || typeof valueB !== 'object' || valueA === null || valueB === null) {
+      return false;
+    }
+    if (JSON.stringify(valueA) !== JSON.stringify(valueB)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Operations that turn the previous snapshot into the next one
+ */
+export function diffSessionSnapshots(previous: SessionSnapshot, next: SessionSnapshot): ShapeOperation[] {
+  const ops: ShapeOperation[] = [];
+  for (const [id, { collection, item }] of next) {
+    const before = previous.get(id);
+    if (!before) {
+      ops.push({ collection, type: 'add', id, item });
+    } else if (before.collection !== collection) {
+      // Category changed - moves to another collection
+      ops.push({ collection: before.collection, type: 'remove', id });
+      ops.push({ collection, type: 'add', id, item });
+    } else if (!isSameItem(before.item, item)) {
+      ops.push({ collection, type: 'update', id, item });
+    }
+  }
+  for (const [id, { collection }] of previous) {
+    if (!next.has(id)) {
+      ops.push({ collection, type: 'remove', id });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Apply operations to the shapes and the session snapshot (updated in place).
+ * Returns the new shapes array.
+ */
+export function applySessionOperations(
+  shapes: Shape[],
+  snapshot: SessionSnapshot,
+  ops: ShapeOperation[]
+): Shape[] {
+  let result = shapes;
+  for (const op of ops) {
+    if (op.type === 'remove') {
+      snapshot.delete(op.id);
+      result = result.filter((shape) => shape.id !== op.id);
+      continue;
+    }
+    if (!op.item) continue;
+    const shape = sessionItemToShape({ collection: op.collection, item: op.item });
+    if (!shape) continue;
+    // Store the item as this editor would send it, so the next diff doesn't echo it back
+    const sessionItem = shapeToSessionItem(shape);
+    if (sessionItem) {
+      snapshot.set(op.id, sessionItem);
+    }
+    const index = result.findIndex((existing) => existing.id === op.id);
+    if (index >= 0) {
+      result = [...result.slice(0, index), { ...shape, visible: result[index].visible }, ...result.slice(index + 1)];
+    } else {
+      result = [...result, shape];
+    }
+  }
+  return result;
+}
@@ -3,11 +3,12 @@
  *
  * Utility functions for the map editor including:
  * - Asset placement
+ * - Spawn point placement
  */
 
 import { logger } from '../../../shared/logger';
 import type { Shape, Viewport } from '../types';
-import { createImageShape } from './shapeFactories';
+import { createImageShape, createRectangleShape } from './shapeFactories';
 import { screenToWorld } from './coordinateTransform';
 
 interface PlaceAssetParams {
@@ -88,3 +89,48 @@ export const placeAsset = ({
     dimensions: { width, height }
   });
 };
+
+// Default size of a newly placed spawn point (room for a few players side by side)
+const SPAWN_POINT_SIZE = 96;
+
+interface PlaceSpawnPointParams {
+  name: string;
+  viewport: Viewport;
+  viewportWidth: number;
+  viewportHeight: number;
+  onShapeCreated: (shape: Shape) => void;
+  onSelectShape: (shapeId: string) => void;
+}
+
+/**
+ * Place a new spawn point / teleport destination at the viewport center
+ */
+export const placeSpawnPoint = ({
+  name,
+  viewport,
+  viewportWidth,
+  viewportHeight,
+  onShapeCreated,
+  onSelectShape,
+}: PlaceSpawnPointParams): void => {
+  const worldCenter = screenToWorld(viewportWidth / 2, viewportHeight / 2, viewport);
+
+  const spawnShape = createRectangleShape({
+    x: Math.round(worldCenter.x - SPAWN_POINT_SIZE / 2),
+    y: Math.round(worldCenter.y - SPAWN_POINT_SIZE / 2),
+    width: SPAWN_POINT_SIZE,
+    height: SPAWN_POINT_SIZE,
+    category: 'spawn',
+    name,
+  });
+  spawnShape.metadata.isSpawn = true;
+
+  onShapeCreated(spawnShape);
+  onSelectShape(spawnShape.id);
+
+  logger.info('SPAWN POINT PLACED ON MAP', {
+    id: spawnShape.id,
+    name,
+    position: { x: worldCenter.x, y: worldCenter.y }
+  });
+};
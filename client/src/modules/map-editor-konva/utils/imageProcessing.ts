@@ -1,7 +1,7 @@
 /**
  * Image Processing Utilities
  *
- * Utilities for processing, validating, and storing uploaded images for map assets.
+ * Utilities for processing and validating uploaded images for map assets.
  */
 
 import { logger } from '../../../shared/logger';
@@ -276,91 +276,24 @@ export async function processImageFile(
 }
 
 // ============================================================================
-// STORAGE (API + localStorage fallback)
+// IMAGE SOURCES
 // ============================================================================
 
-import { MapApiService } from '../../../services/api/MapApiService';
-
-const STORAGE_KEY_PREFIX = 'map_asset_';
-const DEFAULT_ROOM_ID = 'default';
-
 /**
- * Store image via API (with localStorage fallback)
+ * Whether an image - a data URL or a stored asset URL - is a GIF
  */
-export async function storeImage(
-  assetId: string,
-  imageData: string,
-  fileName: string = 'asset.png',
-  roomId: string = DEFAULT_ROOM_ID
-): Promise<boolean> {
-  try {
-    // Convert data URL to File for API upload
-    const blob = await dataUrlToBlob(imageData);
-    const file = new File([blob], fileName, { type: blob.type });
-
-    const result = await MapApiService.uploadAsset(roomId, file, { assetId });
-
-    if (result.success) {
-      logger.info('IMAGE STORED VIA API', { assetId, roomId });
-      return true;
-    }
-    throw new Error(result.error || 'API upload failed');
-  } catch (error) {
-    logger.warn('API UPLOAD FAILED, FALLING BACK TO LOCALSTORAGE', error);
-    return storeImageInLocalStorage(assetId, imageData);
-  }
+export function isGifImage(src: string | undefined | null): boolean {
+  if (!src) return false;
+  return src.startsWith('data:image/gif') || /\.gif(?:[?#]|$)/i.test(src);
 }
 
 /**
- * Store image in localStorage (fallback)
+ * Set an image element's source. Stored assets are served by the API server,
+ * so they are requested with CORS to keep canvases exportable.
  */
-export function storeImageInLocalStorage(
-  assetId: string,
-  imageData: string
-): boolean {
-  try {
-    const key = `${STORAGE_KEY_PREFIX}${assetId}`;
-    localStorage.setItem(key, imageData);
-    logger.info('IMAGE STORED IN LOCALSTORAGE', { assetId, size: imageData.length });
-    return true;
-  } catch (error) {
-    logger.error('LOCALSTORAGE QUOTA EXCEEDED', error);
-    return false;
+export function setImageSource(img: HTMLImageElement, src: string): void {
+  if (!src.startsWith('data:')) {
+    img.crossOrigin = 'anonymous';
   }
+  img.src = src;
 }
-
-/**
- * Retrieve image from localStorage
- */
-export function retrieveImageFromLocalStorage(assetId: string): string | null {
-  try {
-    const key = `${STORAGE_KEY_PREFIX}${assetId}`;
-    return localStorage.getItem(key);
-  } catch (error) {
-    logger.error('FAILED TO RETRIEVE IMAGE FROM LOCALSTORAGE', error);
-    return null;
-  }
-}
-
-/**
- * Remove image from localStorage
- */
-export function removeImageFromLocalStorage(assetId: string): boolean {
-  try {
-    const key = `${STORAGE_KEY_PREFIX}${assetId}`;
-    localStorage.removeItem(key);
-    logger.info('IMAGE REMOVED FROM LOCALSTORAGE', { assetId });
-    return true;
-  } catch (error) {
-    logger.error('FAILED TO REMOVE IMAGE FROM LOCALSTORAGE', error);
-    return false;
-  }
-}
-
-/**
- * Convert data URL to Blob
- */
-function dataUrlToBlob(dataUrl: string): Promise<Blob> {
-  return fetch(dataUrl).then(res => res.blob());
-}
-
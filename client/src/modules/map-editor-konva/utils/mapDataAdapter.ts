@@ -10,11 +10,13 @@ import type {
   InteractiveArea,
   ImpassableArea,
   Asset,
+  SpawnPoint,
   InteractiveAreaActionType,
   InteractiveAreaActionConfig,
 } from '../../../shared/MapDataContext';
 import { getColorForActionType } from '../../../shared/MapDataContext';
 import { isPolygonGeometry, isRectangleGeometry, isImageGeometry } from '../types';
+import { SPAWN_STYLE } from '../constants/konvaConstants';
 
 // ============================================================================
 // SHAPE TO MAPDATA CONVERSION
@@ -162,6 +164,28 @@ export function shapeToAsset(shape: Shape): Asset {
   };
 }
 
+/**
+ * Convert Konva shape to SpawnPoint
+ *
+ * @param shape - Konva shape (must be rectangle geometry)
+ * @returns SpawnPoint for MapDataContext
+ */
+export function shapeToSpawnPoint(shape: Shape): SpawnPoint {
+  if (!isRectangleGeometry(shape.geometry)) {
+    throw new Error('Spawn points must be rectangles');
+  }
+
+  return {
+    id: shape.id,
+    name: shape.metadata.name || 'Spawn',
+    x: shape.geometry.x,
+    y: shape.geometry.y,
+    width: shape.geometry.width,
+    height: shape.geometry.height,
+    isSpawn: shape.metadata.isSpawn !== false,
+  };
+}
+
 /**
  * Convert Konva shape to MapData format based on category
  * 
@@ -186,10 +210,12 @@ export function shapesToMapData(shapes: Shape[]): {
   interactiveAreas: InteractiveArea[];
   impassableAreas: ImpassableArea[];
   assets: Asset[];
+  spawnPoints: SpawnPoint[];
 } {
   const interactiveAreas: InteractiveArea[] = [];
   const impassableAreas: ImpassableArea[] = [];
   const assets: Asset[] = [];
+  const spawnPoints: SpawnPoint[] = [];
 
   shapes.forEach((shape) => {
     try {
@@ -199,13 +225,15 @@ export function shapesToMapData(shapes: Shape[]): {
         impassableAreas.push(shapeToImpassableArea(shape));
       } else if (shape.category === 'asset') {
         assets.push(shapeToAsset(shape));
+      } else if (shape.category === 'spawn') {
+        spawnPoints.push(shapeToSpawnPoint(shape));
       }
     } catch (error) {
       console.error(`Failed to convert shape ${shape.id}:`, error);
     }
   });
 
-  return { interactiveAreas, impassableAreas, assets };
+  return { interactiveAreas, impassableAreas, assets, spawnPoints };
 }
 
 // ============================================================================
@@ -381,18 +409,47 @@ export function assetToShape(asset: Asset): Shape {
   };
 }
 
+/**
+ * Convert SpawnPoint to Konva shape
+ *
+ * @param spawnPoint - SpawnPoint from MapDataContext
+ * @returns Konva shape
+ */
+export function spawnPointToShape(spawnPoint: SpawnPoint): Shape {
+  return {
+    id: spawnPoint.id,
+    category: 'spawn',
+    geometry: {
+      type: 'rectangle',
+      x: spawnPoint.x,
+      y: spawnPoint.y,
+      width: spawnPoint.width,
+      height: spawnPoint.height,
+    },
+    style: { ...SPAWN_STYLE },
+    metadata: {
+      name: spawnPoint.name,
+      isSpawn: spawnPoint.isSpawn,
+      createdAt: new Date(),
+      modifiedAt: new Date(),
+    },
+  };
+}
+
 /**
  * Convert MapData areas to Konva shapes
  *
  * @param interactiveAreas - Array of InteractiveArea
  * @param impassableAreas - Array of ImpassableArea
  * @param assets - Array of Asset (optional for backward compatibility)
+ * @param spawnPoints - Array of SpawnPoint (optional for backward compatibility)
  * @returns Array of Konva shapes
  */
 export function mapDataToShapes(
   interactiveAreas: InteractiveArea[],
   impassableAreas: ImpassableArea[],
-  assets?: Asset[]
+  assets?: Asset[],
+  spawnPoints?: SpawnPoint[]
 ): Shape[] {
   const shapes: Shape[] = [];
 
@@ -423,6 +480,14 @@ export function mapDataToShapes(
     });
   }
 
+  (spawnPoints || []).forEach((spawnPoint) => {
+    try {
+      shapes.push(spawnPointToShape(spawnPoint));
+    } catch (error) {
+      console.error(`Failed to convert spawn point ${spawnPoint.id}:`, error);
+    }
+  });
+
   return shapes;
 }
 
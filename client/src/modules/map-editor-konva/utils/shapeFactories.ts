@@ -19,7 +19,7 @@ import type {
   CreateImageParams,
   CreateShapeParams,
 } from '../types';
-import { COLLISION_STYLE, INTERACTIVE_STYLE } from '../constants/konvaConstants';
+import { COLLISION_STYLE, INTERACTIVE_STYLE, SPAWN_STYLE } from '../constants/konvaConstants';
 
 // ============================================================================
 // STYLE HELPERS
@@ -31,6 +31,8 @@ import { COLLISION_STYLE, INTERACTIVE_STYLE } from '../constants/konvaConstants'
 function getDefaultStyle(category: ShapeCategory): ShapeStyle {
   if (category === 'collision') {
     return { ...COLLISION_STYLE };
+  } else if (category === 'spawn') {
+    return { ...SPAWN_STYLE };
   } else if (category === 'asset') {
     // Assets (images) have minimal styling - mostly transparent
     return {
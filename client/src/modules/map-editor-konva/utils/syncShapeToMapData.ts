@@ -9,12 +9,13 @@
  */
 
 import type { Shape } from '../types';
-import { shapeToInteractiveArea, shapeToImpassableArea, shapeToAsset } from './mapDataAdapter';
+import { shapeToInteractiveArea, shapeToImpassableArea, shapeToAsset, shapeToSpawnPoint } from './mapDataAdapter';
 
 interface MapDataActions {
   updateInteractiveArea: (id: string, area: any) => void;
   updateCollisionArea: (id: string, area: any) => void;
   updateAsset: (id: string, asset: any) => void;
+  updateSpawnPoint: (id: string, spawnPoint: any) => void;
   markDirty: () => void;
 }
 
@@ -25,7 +26,7 @@ interface MapDataActions {
  * @param actions - Map data store actions
  */
 export function syncShapeToMapData(shape: Shape, actions: MapDataActions): void {
-  const { updateInteractiveArea, updateCollisionArea, updateAsset, markDirty } = actions;
+  const { updateInteractiveArea, updateCollisionArea, updateAsset, updateSpawnPoint, markDirty } = actions;
 
   switch (shape.category) {
     case 'interactive': {
@@ -46,6 +47,12 @@ export function syncShapeToMapData(shape: Shape, actions: MapDataActions): void
       markDirty();
       break;
     }
+    case 'spawn': {
+      const spawnPoint = shapeToSpawnPoint(shape);
+      updateSpawnPoint(shape.id, spawnPoint);
+      markDirty();
+      break;
+    }
   }
 }
 
@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { MapData } from '../../shared/MapDataContext';
 import { logger } from '../../shared/logger';
+import type { AreaState } from '../../services/WorldSocketService';
 
 /**
  * CollisionSystem - Handles all collision detection for the game world
@@ -11,6 +12,7 @@ import { logger } from '../../shared/logger';
  * - Impassable area collision detection
  * - Interactive area collision detection
  * - Area entry/exit event handling
+ * - Shared switch / collectible state (hidden areas, disabled collision)
  *
  * REFACTORED (2025-12-15): Removed SharedMapSystem dependency.
  * Now receives mapData via callback from parent component.
@@ -25,6 +27,10 @@ export class CollisionSystem {
   private currentArea: string | null = null;
   private previousArea: string | null = null;
 
+  // Shared switch / collectible state of the room (from the server)
+  private hiddenAreaIds: Set<string> = new Set();
+  private passableAreaIds: Set<string> = new Set();
+
   constructor(
     scene: Phaser.Scene,
     eventBus: any,
@@ -37,6 +43,19 @@ export class CollisionSystem {
     this.getMapData = getMapData;
   }
 
+  /**
+   * Apply the room's switch / collectible state: hidden areas can't be entered,
+   * passable ones no longer block movement
+   */
+  public setAreaState(state: AreaState): void {
+    this.hiddenAreaIds = new Set(Object.keys(state.collectibles));
+    this.passableAreaIds = new Set();
+    Object.entries(state.targets).forEach(([id, target]) => {
+      if (!target.visible) this.hiddenAreaIds.add(id);
+      if (!target.collidable) this.passableAreaIds.add(id);
+    });
+  }
+
   /**
    * Check if a point is inside a polygon using ray casting algorithm
    */
@@ -109,11 +128,13 @@ export class CollisionSystem {
 
     // Get InteractiveAreas with actionType: 'impassable' (new unified approach)
     const impassableInteractiveAreas = (mapData.interactiveAreas || []).filter(
-      area => area.actionType === 'impassable'
+      area => area.actionType === 'impassable' && !this.passableAreaIds.has(area.id)
     );
 
     // Combine with legacy impassableAreas for backward compatibility
-    const legacyImpassableAreas = mapData.impassableAreas || [];
+    const legacyImpassableAreas = (mapData.impassableAreas || []).filter(
+      area => !this.passableAreaIds.has(area.id)
+    );
     const totalImpassableCount = impassableInteractiveAreas.length + legacyImpassableAreas.length;
 
     if (totalImpassableCount === 0) {
@@ -213,6 +234,11 @@ export class CollisionSystem {
 
     // Find which area player is currently in
     areas.forEach(area => {
+      // Switched-off areas and collected collectibles can't be entered
+      if (this.hiddenAreaIds.has(area.id)) {
+        return;
+      }
+
       // Check if player is within area bounds
       const isWithinBounds = player.x >= area.x &&
           player.x <= area.x + area.width &&
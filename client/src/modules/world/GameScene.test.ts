@@ -1,6 +1,7 @@
 import { GameScene } from './GameScene';
 import { WorldSocketService } from '../../services/WorldSocketService';
 import { RemotePlayerManager } from './RemotePlayerManager';
+import { PlayerManager } from './PlayerManager';
 
 // Mock dependencies
 jest.mock('../../services/WorldSocketService');
@@ -216,4 +217,124 @@ describe('GameScene Multiplayer', () => {
         expect(mockRemotePlayerManager.addPlayer).toHaveBeenCalledTimes(1);
         expect(mockRemotePlayerManager.addPlayer).toHaveBeenCalledWith(newRemotePlayer);
     });
+
+    test('Test Case 6: Players entering and leaving the area of interest are added and removed', () => {
+        const nearbyPlayer = { playerId: remotePlayerId, name: remotePlayerId, x: 400, y: 300, avatarData: {} };
+
+        socketCallbacks.onPlayerEnteredInterest(nearbyPlayer);
+        socketCallbacks.onPlayerLeftInterest({ playerId: remotePlayerId });
+
+        expect(mockRemotePlayerManager.addPlayer).toHaveBeenCalledWith(nearbyPlayer);
+        expect(mockRemotePlayerManager.removePlayer).toHaveBeenCalledWith(remotePlayerId);
+    });
+
+    test('Test Case 7: A server position correction snaps the local player back', () => {
+        const container = { x: 300, y: 300 };
+        gameScene.playerManager.getPlayerContainer = jest.fn(() => container);
+        gameScene.playerManager.updateOriginalY = jest.fn();
+
+        socketCallbacks.onPositionCorrected({ playerId: localPlayerId, x: 120, y: 80, reason: 'collision' });
+
+        expect(container).toEqual({ x: 120, y: 80 });
+        expect(gameScene.playerManager.updateOriginalY).toHaveBeenCalledWith(80);
+        // The corrected position must not be echoed back to the server as a new move
+        expect(gameScene.lastPlayerX).toBe(120);
+        expect(gameScene.lastPlayerY).toBe(80);
+    });
+
+    test('Test Case 8: World snapshots are buffered by the remote player manager', () => {
+        const snapshot = { roomId: 'Stargety-Oasis-1', seq: 1, tick: 1, serverTime: 1000, players: [{ id: remotePlayerId, x: 410 }] };
+
+        socketCallbacks.onSnapshot(snapshot);
+
+        expect(mockRemotePlayerManager.applySnapshot).toHaveBeenCalledWith(snapshot);
+    });
+
+    test('Test Case 9: A remote character switch swaps the avatar in place', () => {
+        const avatarData = { spriteSheetImageData: 'data:image/png;base64,AAAA', frameWidth: 64, frameHeight: 64, characterName: 'Knight' };
+
+        socketCallbacks.onPlayerAvatarUpdated({ playerId: remotePlayerId, avatarData });
+
+        expect(mockRemotePlayerManager.updateAvatar).toHaveBeenCalledWith(remotePlayerId, avatarData);
+        expect(mockRemotePlayerManager.removePlayer).not.toHaveBeenCalled();
+        expect(mockRemotePlayerManager.addPlayer).not.toHaveBeenCalled();
+    });
+
+    test('Test Case 10: A restored position also restores the facing direction', () => {
+        const container = { x: 300, y: 300 };
+        gameScene.playerManager.getPlayerContainer = jest.fn(() => container);
+        gameScene.playerManager.updateOriginalY = jest.fn();
+        gameScene.playerManager.setFacing = jest.fn();
+
+        socketCallbacks.onPositionCorrected({ playerId: localPlayerId, x: 640, y: 410, direction: 'left', reason: 'restored' });
+
+        expect(container).toEqual({ x: 640, y: 410 });
+        expect(gameScene.playerManager.setFacing).toHaveBeenCalledWith('left');
+    });
+
+    test('Test Case 11: Teleport areas are resolved by the server and can move the player to another room', () => {
+        const teleportSubscription = eventBus.subscribe.mock.calls.find(([event]: [string]) => event === 'teleport:requested');
+        expect(teleportSubscription).toBeDefined();
+
+        teleportSubscription[1]({ areaId: 'area-portal', areaName: 'Portal', destinationName: 'Lobby', targetRoomId: 'Stargety-Oasis-2' });
+        expect(mockWorldSocketService.emitTeleportToDestination).toHaveBeenCalledWith('area-portal');
+
+        socketCallbacks.onRoomTransfer({ roomId: 'Stargety-Oasis-2', destinationName: 'Lobby' });
+
+        expect(gameScene.worldRoomId).toBe('Stargety-Oasis-2');
+        expect(mockRemotePlayerManager.clear).toHaveBeenCalledTimes(1);
+        expect(eventBus.publish).toHaveBeenCalledWith('world:roomChanged', { roomId: 'Stargety-Oasis-2' });
+    });
+
+    test('Test Case 12: Entering a portal asks the server to move the player', () => {
+        const portalSubscription = eventBus.subscribe.mock.calls.find(([event]: [string]) => event === 'portal:entered');
+        expect(portalSubscription).toBeDefined();
+
+        portalSubscription[1]({ areaId: 'area-gate', areaName: 'Gate', targetRoomId: 'Stargety-Oasis-3' });
+
+        expect(mockWorldSocketService.emitPortal).toHaveBeenCalledWith('area-gate');
+    });
+
+    test('Test Case 13: Switches and collectibles go through the server and its room state is applied', () => {
+        const switchSubscription = eventBus.subscribe.mock.calls.find(([event]: [string]) => event === 'switch:requested');
+        const collectSubscription = eventBus.subscribe.mock.calls.find(([event]: [string]) => event === 'collectible:requested');
+        switchSubscription[1]({ areaId: 'area-lever', areaName: 'Lever' });
+        collectSubscription[1]({ areaId: 'area-coin', areaName: 'Coin' });
+
+        expect(mockWorldSocketService.emitSwitch).toHaveBeenCalledWith('area-lever');
+        expect(mockWorldSocketService.emitCollect).toHaveBeenCalledWith('area-coin');
+
+        gameScene.collisionSystem = { setAreaState: jest.fn(), resetAreaTracking: jest.fn() };
+        gameScene.mapRenderer = { setAreaState: jest.fn(), getMapData: jest.fn(() => null), destroy: jest.fn() };
+        const state = {
+            roomId: 'test-room',
+            targets: { 'area-door': { visible: false, collidable: false } },
+            collectibles: { 'area-coin': { collectedBy: remotePlayerId, collectedAt: 1000, respawnAt: 61000 } },
+        };
+        socketCallbacks.onAreaState(state);
+
+        expect(gameScene.collisionSystem.setAreaState).toHaveBeenCalledWith(state);
+        expect(gameScene.mapRenderer.setAreaState).toHaveBeenCalledWith(state);
+
+        socketCallbacks.onSwitchToggled({ roomId: 'test-room', areaId: 'area-lever', playerId: remotePlayerId, targets: state.targets });
+
+        expect(eventBus.publish).toHaveBeenCalledWith('switch:toggled', expect.objectContaining({
+            areaId: 'area-lever',
+            targetIds: ['area-door'],
+            byLocalPlayer: false,
+        }));
+    });
+});
+
+describe('PlayerManager motion state', () => {
+    test('Facing direction and animation are tracked for multiplayer sync even before the sprite loads', () => {
+        const playerManager = new PlayerManager({} as any, { publish: jest.fn() }, 'localPlayer');
+
+        // No sprite yet - the motion state is still recorded for other players
+        playerManager.playAnimation('left');
+        expect(playerManager.getMotionState()).toEqual({ direction: 'left', animation: 'walk_left' });
+
+        playerManager.playAnimation('idle');
+        expect(playerManager.getMotionState()).toEqual({ direction: 'left', animation: 'idle' });
+    });
 });
@@ -7,10 +7,12 @@ import { MovementController } from './MovementController';
 import { CameraController } from './CameraController';
 import { DebugDiagnostics } from './DebugDiagnostics';
 import { RemotePlayerManager } from './RemotePlayerManager';
+import { buildAnimationSync } from './avatarSync';
 import { WorldSocketService } from '../../services/WorldSocketService';
 import { worldChatIntegration } from '../../services/integration/WorldChatIntegration';
 import { shouldBlockBackgroundInteractions } from '../../shared/ModalStateManager';
 import { logger } from '../../shared/logger';
+import type { InteractiveArea, SwitchActionConfig } from '../../shared/MapDataContext';
 
 /**
  * GameScene - Main Phaser scene for the game world
@@ -53,6 +55,8 @@ export class GameScene extends Phaser.Scene {
   private doubleClickDelay: number = 300;
   private lastClickPosition: { x: number; y: number } = { x: 0, y: 0 };
   private doubleClickTolerance: number = 10;
+  // Same limit as the server's MAX_TELEPORT_DISTANCE - farther teleports get corrected back
+  private maxTeleportDistance: number = 960;
 
   // Cache validation
   private cacheCheckInterval: NodeJS.Timeout | null = null;
@@ -177,7 +181,8 @@ export class GameScene extends Phaser.Scene {
       checkCollision: (x: number, y: number, size: number) => 
         this.collisionSystem.checkCollisionWithImpassableAreas(x, y, size),
       getWorldBounds: () => this.worldBoundsManager.getWorldBounds(),
-      getPlayerSize: () => this.playerManager.playerSize
+      getPlayerSize: () => this.playerManager.playerSize,
+      onAction: (action) => this.worldSocketService?.emitAction(action)
     });
     this.movementController.initialize();
 
@@ -228,10 +233,8 @@ export class GameScene extends Phaser.Scene {
           this.remotePlayerManager.addPlayer(player);
         }
       },
-      onPlayerMoved: (data) => {
-        if (data.playerId !== this.myServerId) {
-          this.remotePlayerManager.updatePlayerPosition(data.playerId, data.x, data.y);
-        }
+      onSnapshot: (snapshot) => {
+        this.remotePlayerManager.applySnapshot(snapshot);
       },
       onPlayerLeft: (data) => {
         logger.debug(`[GameScene] onPlayerLeft callback: ${data.playerId}`);
@@ -262,10 +265,65 @@ export class GameScene extends Phaser.Scene {
             x: p.x,
             y: p.y,
             name: p.name,
-            avatarData: p.avatarData
+            avatarData: p.avatarData,
+            direction: p.direction,
+            animation: p.animation,
+            rotating: p.rotating,
+            isGuest: p.isGuest
           }))
         );
       },
+      onPlayerEnteredInterest: (player) => {
+        if (player.playerId !== this.myServerId) {
+          this.remotePlayerManager.addPlayer(player);
+        }
+      },
+      onPlayerLeftInterest: (data) => {
+        this.remotePlayerManager.removePlayer(data.playerId);
+      },
+      onPlayerAvatarUpdated: (data) => {
+        if (data.playerId !== this.myServerId) {
+          this.remotePlayerManager.updateAvatar(data.playerId, data.avatarData);
+        }
+      },
+      onPositionCorrected: (data) => {
+        this.applyPositionCorrection(data.x, data.y);
+        if (data.reason === 'restored' && data.direction) {
+          this.playerManager?.setFacing(data.direction);
+        }
+      },
+      onRoomTransfer: (data) => {
+        // Players of the previous room are gone; the new room's world-state follows
+        logger.info(`[GameScene] Moved to world room ${data.roomId}`);
+        this.worldRoomId = data.roomId;
+        this.remotePlayerManager.clear();
+        // WorldModule loads the new room's map
+        this.eventBus.publish('world:roomChanged', { roomId: data.roomId });
+      },
+      onAreaState: (state) => {
+        this.collisionSystem?.setAreaState(state);
+        this.mapRenderer?.setAreaState(state);
+      },
+      onSwitchToggled: (data) => {
+        const area = this.getInteractiveArea(data.areaId);
+        this.eventBus.publish('switch:toggled', {
+          areaId: data.areaId,
+          areaName: area?.name ?? data.areaId,
+          targetIds: Object.keys(data.targets),
+          toggleMode: (area?.actionConfig as SwitchActionConfig | null)?.toggleMode,
+          byLocalPlayer: data.playerId === this.myServerId,
+        });
+      },
+      onCollectibleCollected: (data) => {
+        this.eventBus.publish('collectible:collected', {
+          areaId: data.areaId,
+          areaName: this.getInteractiveArea(data.areaId)?.name ?? data.areaId,
+          effectType: data.effectType,
+          effectValue: data.effectValue,
+          effectDuration: data.effectDuration,
+          consumable: data.consumable,
+        });
+      },
       onError: (error) => {
         logger.error(`[GameScene] Socket error: ${error.message}`);
       }
@@ -276,6 +334,42 @@ export class GameScene extends Phaser.Scene {
 
     // Set up character switch listener to emit avatar updates to other players
     this.setupCharacterSwitchListener();
+
+    // Teleport and portal areas are resolved by the server
+    this.setupTeleportListener();
+
+    // Switches and collectibles are shared by everyone in the room
+    this.setupAreaStateListener();
+  }
+
+  /**
+   * Forward switch and collectible area entries to the server, which updates the room's state
+   */
+  private setupAreaStateListener(): void {
+    this.eventBus.subscribe('switch:requested', (data: { areaId: string }) => {
+      this.worldSocketService?.emitSwitch(data.areaId);
+    });
+    this.eventBus.subscribe('collectible:requested', (data: { areaId: string }) => {
+      this.worldSocketService?.emitCollect(data.areaId);
+    });
+  }
+
+  private getInteractiveArea(areaId: string): InteractiveArea | undefined {
+    return this.mapRenderer?.getMapData()?.interactiveAreas.find(area => area.id === areaId);
+  }
+
+  /**
+   * Forward teleport and portal area entries to the server, which moves the player
+   */
+  private setupTeleportListener(): void {
+    this.eventBus.subscribe('teleport:requested', (data: { areaId: string; destinationName: string }) => {
+      logger.debug(`[GameScene] Teleport requested to "${data.destinationName}"`);
+      this.worldSocketService?.emitTeleportToDestination(data.areaId);
+    });
+    this.eventBus.subscribe('portal:entered', (data: { areaId: string; targetRoomId: string }) => {
+      logger.debug(`[GameScene] Portal entered to ${data.targetRoomId}`);
+      this.worldSocketService?.emitPortal(data.areaId);
+    });
   }
 
   /**
@@ -299,7 +393,8 @@ export class GameScene extends Phaser.Scene {
             spriteSheetImageData: character.spriteSheet?.source?.imageData || '',
             frameWidth: character.spriteSheet?.gridLayout?.frameWidth || 32,
             frameHeight: character.spriteSheet?.gridLayout?.frameHeight || 32,
-            characterName: character.name || 'Unknown'
+            characterName: character.name || 'Unknown',
+            animations: buildAnimationSync(character.spriteSheet)
           };
 
           // Emit avatar update through socket to other players
@@ -339,7 +434,8 @@ export class GameScene extends Phaser.Scene {
             spriteSheetImageData: character.cachedTexture || character.spriteSheet?.source?.imageData || '',
             frameWidth: character.spriteSheet?.gridLayout?.frameWidth || 32,
             frameHeight: character.spriteSheet?.gridLayout?.frameHeight || 32,
-            characterName: character.name || ''
+            characterName: character.name || '',
+            animations: buildAnimationSync(character.spriteSheet)
           };
           logger.debug('[GameScene] Found active character for join, attaching avatarData');
         } else {
@@ -349,6 +445,9 @@ export class GameScene extends Phaser.Scene {
         logger.debug('[GameScene] Error loading active character for avatarData on join', error);
       }
 
+      // Send our viewport with the join so the server streams only nearby players
+      this.reportViewport();
+
       this.worldSocketService.joinWorld(
         this.playerId,
         this.worldRoomId,
@@ -426,16 +525,21 @@ export class GameScene extends Phaser.Scene {
         y: player.y,
       });
 
-      // Network: emit position to server for other players
-      this.worldSocketService?.emitMove(player.x, player.y);
-
       this.lastPlayerX = player.x;
       this.lastPlayerY = player.y;
     }
 
+    // Network: queue position and animation state for other players (sent at a fixed rate, only when changed)
+    // While jumping, send the ground position - the arc is purely cosmetic
+    const groundY = this.movementController.isCurrentlyJumping() ? this.playerManager.originalY : player.y;
+    this.worldSocketService?.emitMove(player.x, groundY, this.playerManager.getMotionState());
+
     // Update remote players (smooth interpolation)
     this.remotePlayerManager?.update();
 
+    // Keep the server's area of interest in sync with zoom/resize
+    this.reportViewport();
+
     // Check area collisions
     // Pass the container to area collision checks (signature accepts container now)
     this.collisionSystem.checkAreaCollisions(player as any);
@@ -485,6 +589,11 @@ export class GameScene extends Phaser.Scene {
     const constrainedX = Phaser.Math.Clamp(x, playerSize / 2, worldBounds.width - playerSize / 2);
     const constrainedY = Phaser.Math.Clamp(y, playerSize / 2, worldBounds.height - playerSize / 2);
 
+    if (Phaser.Math.Distance.Between(player.x, player.y, constrainedX, constrainedY) > this.maxTeleportDistance) {
+      logger.warn('Cannot teleport to position - too far away');
+      return;
+    }
+
     // Check collision at target position
     if (!this.collisionSystem.checkCollisionWithImpassableAreas(constrainedX, constrainedY, playerSize)) {
       player.x = constrainedX;
@@ -498,12 +607,43 @@ export class GameScene extends Phaser.Scene {
         y: player.y,
       });
 
+      // Teleports bypass the server's speed check, so send them explicitly
+      this.worldSocketService?.emitTeleport(player.x, player.y);
+      this.lastPlayerX = player.x;
+      this.lastPlayerY = player.y;
+
       logger.debug('Player teleported to:', { x: constrainedX, y: constrainedY });
     } else {
       logger.warn('Cannot teleport to position - collision detected');
     }
   }
 
+  /**
+   * Report the camera's visible world size to the server (deduplicated by WorldSocketService)
+   */
+  private reportViewport(): void {
+    const worldView = this.cameras?.main?.worldView;
+    if (!worldView) return;
+    this.worldSocketService?.setViewport(worldView.width, worldView.height);
+  }
+
+  /**
+   * Snap the local player to the server's authoritative position
+   */
+  private applyPositionCorrection(x: number, y: number): void {
+    const player = this.playerManager?.getPlayerContainer();
+    if (!player) return;
+
+    logger.debug('[GameScene] Applying server position correction:', { x, y });
+    player.x = x;
+    player.y = y;
+    this.playerManager.updateOriginalY(y);
+
+    // Prevent update() from echoing the corrected position back as a new move
+    this.lastPlayerX = x;
+    this.lastPlayerY = y;
+  }
+
   /**
    * Set up resize observer
    */
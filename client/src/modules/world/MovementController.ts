@@ -1,4 +1,6 @@
 import Phaser from 'phaser';
+import { PlayerAction } from '../../services/WorldSocketService';
+import { JumpDirection, PlayerEffects } from './PlayerEffects';
 
 /**
  * MovementController - Handles player movement and input
@@ -26,6 +28,7 @@ export class MovementController {
   private isJumping: boolean = false;
   private isRotating: boolean = false;
   private rotationTween?: Phaser.Tweens.Tween;
+  private effects: PlayerEffects;
 
   // Callbacks
   // Accept either a Sprite or a Container as the movement target (both expose x/y)
@@ -35,6 +38,7 @@ export class MovementController {
   private checkCollision: (x: number, y: number, size: number) => boolean;
   private getWorldBounds: () => { width: number; height: number };
   private getPlayerSize: () => number;
+  private onAction?: (action: PlayerAction) => void;
 
   constructor(
     scene: Phaser.Scene,
@@ -47,6 +51,8 @@ export class MovementController {
       checkCollision: (x: number, y: number, size: number) => boolean;
       getWorldBounds: () => { width: number; height: number };
       getPlayerSize: () => number;
+      // Notified of jump/fire/rotation so they can be shown to other players
+      onAction?: (action: PlayerAction) => void;
     }
   ) {
     this.scene = scene;
@@ -58,6 +64,8 @@ export class MovementController {
     this.checkCollision = callbacks.checkCollision;
     this.getWorldBounds = callbacks.getWorldBounds;
     this.getPlayerSize = callbacks.getPlayerSize;
+    this.onAction = callbacks.onAction;
+    this.effects = new PlayerEffects(scene);
   }
 
   /**
@@ -126,7 +134,7 @@ export class MovementController {
     const horizontalDistance = 120; // Distance to move horizontally during jump
 
     // Determine jump direction based on current input
-    let jumpDirection: 'left' | 'right' | 'none' = 'none';
+    let jumpDirection: JumpDirection = 'none';
     let targetX = player.x;
 
     // Check for directional input during jump
@@ -204,74 +212,22 @@ export class MovementController {
     }
 
     // Add visual effect for jump
-    this.createJumpEffect(jumpDirection);
+    this.effects.createJumpEffect(player.x, originalY, jumpDirection);
+    this.onAction?.({ type: 'jump', direction: jumpDirection });
   }
 
   /**
-   * Create jump visual effect
+   * Perform fire action
    */
-  private createJumpEffect(jumpDirection: 'left' | 'right' | 'none' = 'none'): void {
+  private performFire(): void {
     const player = this.getPlayer();
-    const originalY = this.getOriginalY();
 
-    // Create dust cloud effect at player's feet
-    const dustCloud = this.scene.add.graphics();
-    dustCloud.fillStyle(0xD2B48C, 0.6);
-    dustCloud.fillCircle(player.x, originalY + 16, 20);
-    dustCloud.setDepth(5);
-
-    // Create directional dust particles for directional jumps
-    if (jumpDirection !== 'none') {
-      const particleCount = 5;
-      for (let i = 0; i < particleCount; i++) {
-        const particle = this.scene.add.graphics();
-        particle.fillStyle(0xD2B48C, 0.4);
-        particle.fillCircle(0, 0, 3);
-        particle.setPosition(
-          player.x + (Math.random() - 0.5) * 20,
-          originalY + 16 + (Math.random() - 0.5) * 10
-        );
-        particle.setDepth(5);
-
-        // Animate particles in jump direction
-        const particleTargetX = jumpDirection === 'left' ?
-          particle.x - 30 - Math.random() * 20 :
-          particle.x + 30 + Math.random() * 20;
-
-        this.scene.tweens.add({
-          targets: particle,
-          x: particleTargetX,
-          y: particle.y - 10 - Math.random() * 15,
-          alpha: 0,
-          duration: 300 + Math.random() * 200,
-          ease: 'Power2',
-          onComplete: () => {
-            particle.destroy();
-          }
-        });
-      }
-    }
-
-    // Animate main dust cloud
-    this.scene.tweens.add({
-      targets: dustCloud,
-      scaleX: jumpDirection !== 'none' ? 2.5 : 2,
-      scaleY: jumpDirection !== 'none' ? 2.5 : 2,
-      alpha: 0,
-      duration: 400,
-      ease: 'Power2',
-      onComplete: () => {
-        dustCloud.destroy();
-      }
-    });
-  }
+    // Determine direction based on player's last movement or default to right
+    const direction = player.scaleX < 0 ? -1 : 1;
 
-  /**
-   * Perform fire action
-   */
-  private performFire(): void {
     // Create fire effect
-    this.createFireEffect();
+    this.effects.createFireEffect(player.x, player.y, direction);
+    this.onAction?.({ type: 'fire', facing: direction });
 
     // Add brief cooldown to prevent spam
     this.xKey.enabled = false;
@@ -280,87 +236,6 @@ export class MovementController {
     });
   }
 
-  /**
-   * Create fire visual effect
-   */
-  private createFireEffect(): void {
-    const player = this.getPlayer();
-
-    // Create projectile/fire effect
-    const projectile = this.scene.add.graphics();
-    projectile.fillStyle(0xFF4500, 0.8);
-    projectile.fillCircle(0, 0, 8);
-    projectile.setPosition(player.x, player.y);
-    projectile.setDepth(8);
-
-    // Determine direction based on player's last movement or default to right
-    const direction = player.scaleX < 0 ? -1 : 1;
-    const targetX = player.x + (direction * 150);
-
-    // Animate projectile
-    this.scene.tweens.add({
-      targets: projectile,
-      x: targetX,
-      duration: 500,
-      ease: 'Power2',
-      onComplete: () => {
-        // Create explosion effect
-        this.createExplosionEffect(targetX, player.y);
-        projectile.destroy();
-      }
-    });
-
-    // Add fire trail effect
-    const trail = this.scene.add.graphics();
-    trail.lineStyle(4, 0xFF6347, 0.6);
-    trail.beginPath();
-    trail.moveTo(player.x, player.y);
-    trail.lineTo(targetX, player.y);
-    trail.strokePath();
-    trail.setDepth(7);
-
-    // Fade out trail
-    this.scene.tweens.add({
-      targets: trail,
-      alpha: 0,
-      duration: 600,
-      onComplete: () => {
-        trail.destroy();
-      }
-    });
-  }
-
-  /**
-   * Create explosion visual effect
-   */
-  private createExplosionEffect(x: number, y: number): void {
-    // Create explosion particles
-    for (let i = 0; i < 8; i++) {
-      const particle = this.scene.add.graphics();
-      particle.fillStyle(0xFF4500, 0.8);
-      particle.fillCircle(0, 0, 4);
-      particle.setPosition(x, y);
-      particle.setDepth(9);
-
-      const angle = (i / 8) * Math.PI * 2;
-      const distance = 40 + Math.random() * 20;
-      const targetX = x + Math.cos(angle) * distance;
-      const targetY = y + Math.sin(angle) * distance;
-
-      this.scene.tweens.add({
-        targets: particle,
-        x: targetX,
-        y: targetY,
-        alpha: 0,
-        duration: 300 + Math.random() * 200,
-        ease: 'Power2',
-        onComplete: () => {
-          particle.destroy();
-        }
-      });
-    }
-  }
-
   /**
    * Toggle rotation
    */
@@ -381,6 +256,7 @@ export class MovementController {
         duration: 300,
         ease: 'Power2'
       });
+      this.onAction?.({ type: 'rotate', active: false });
     } else {
       // Start continuous rotation
       this.isRotating = true;
@@ -391,6 +267,7 @@ export class MovementController {
         ease: 'Linear',
         repeat: -1
       });
+      this.onAction?.({ type: 'rotate', active: true });
     }
   }
 
@@ -16,6 +16,8 @@ import Phaser from 'phaser';
 import { InteractiveArea, ImpassableArea, Asset, MapData } from '../../shared/MapDataContext';
 import { shouldBlockBackgroundInteractions } from '../../shared/ModalStateManager';
 import { logger } from '../../shared/logger';
+import { loadImageSpritesheet, getSpritesheetManifestUrl, ImageSpritesheet } from '../../shared/spritesheetUtils';
+import type { AreaState } from '../../services/WorldSocketService';
 
 export interface PhaserMapRendererConfig {
   scene: Phaser.Scene;
@@ -45,6 +47,9 @@ export class PhaserMapRenderer {
   private collisionAreaObjects: Map<string, Phaser.GameObjects.GameObject> = new Map();
   private assetObjects: Map<string, Phaser.GameObjects.GameObject> = new Map();
 
+  // Areas / assets hidden by switches or collected (shared room state from the server)
+  private hiddenElementIds: Set<string> = new Set();
+
   // Event listeners
   private eventListeners: (() => void)[] = [];
 
@@ -119,6 +124,29 @@ export class PhaserMapRenderer {
     }
   }
 
+  /**
+   * Apply the room's switch / collectible state - hides switched-off areas and
+   * assets and collected collectibles
+   */
+  public setAreaState(state: AreaState): void {
+    this.hiddenElementIds = new Set(Object.keys(state.collectibles));
+    Object.entries(state.targets).forEach(([id, target]) => {
+      if (!target.visible) this.hiddenElementIds.add(id);
+    });
+
+    [this.interactiveAreaObjects, this.collisionAreaObjects, this.assetObjects].forEach(objects => {
+      objects.forEach((object, id) => this.applyElementVisibility(id, object));
+    });
+  }
+
+  private applyElementVisibility(id: string, object: Phaser.GameObjects.GameObject): void {
+    const visible = !this.hiddenElementIds.has(id);
+    if (typeof (object as any).setVisible === 'function') {
+      (object as any).setVisible(visible);
+    }
+    object.setActive(visible);
+  }
+
   /**
    * Initialize the renderer and prepare Phaser groups
    * Map data is now provided via constructor or updateMapData() from Redux
@@ -410,6 +438,20 @@ export class PhaserMapRenderer {
             logger.warn('Asset texture not ready', { assetId: asset.id });
           }
         }, 50);
+      } else if (getSpritesheetManifestUrl(asset.imageData)) {
+        // Stored GIF - play its spritesheet (a GIF without one shows its first frame)
+        loadImageSpritesheet(asset.imageData).then(sheet => {
+          if (this.isDestroyed || !this.isSceneValid()) {
+            return;
+          }
+          if (sheet) {
+            this.loadAssetSpritesheet(asset, textureKey, sheet);
+          } else {
+            this.loadAssetImage(asset, textureKey);
+          }
+        });
+      } else if (asset.imageData) {
+        this.loadAssetImage(asset, textureKey);
       } else {
         logger.warn('Asset has no valid image data', { assetId: asset.id });
       }
@@ -419,9 +461,60 @@ export class PhaserMapRenderer {
   }
 
   /**
-   * Create the Phaser image for an asset
+   * Load an asset from its stored URL
+   */
+  private loadAssetImage(asset: Asset, textureKey: string): void {
+    try {
+      this.scene.load.image(textureKey, asset.imageData);
+      this.scene.load.once('filecomplete-image-' + textureKey, () => {
+        // Guard: check if destroyed or scene invalid before proceeding
+        if (this.isDestroyed || !this.isSceneValid()) {
+          return;
+        }
+        this.createAssetImage(asset, textureKey);
+      });
+      this.scene.load.start();
+    } catch (error) {
+      logger.error('Failed to load asset image', { assetId: asset.id, error });
+    }
+  }
+
+  /**
+   * Load an animated asset's spritesheet and play it with the GIF's frame delays
+   */
+  private loadAssetSpritesheet(asset: Asset, textureKey: string, sheet: ImageSpritesheet): void {
+    try {
+      this.scene.load.spritesheet(textureKey, sheet.url, {
+        frameWidth: sheet.frameWidth,
+        frameHeight: sheet.frameHeight,
+        endFrame: sheet.frameCount - 1,
+      });
+      this.scene.load.once('filecomplete-spritesheet-' + textureKey, () => {
+        // Guard: check if destroyed or scene invalid before proceeding
+        if (this.isDestroyed || !this.isSceneValid()) {
+          return;
+        }
+        this.scene.anims.create({
+          key: textureKey,
+          frames: Array.from({ length: sheet.frameCount }, (_, frame) => ({
+            key: textureKey,
+            frame,
+            duration: sheet.delays[frame] || 100,
+          })),
+          repeat: sheet.loop > 0 ? sheet.loop - 1 : -1,
+        });
+        this.createAssetImage(asset, textureKey, textureKey);
+      });
+      this.scene.load.start();
+    } catch (error) {
+      logger.error('Failed to load asset spritesheet', { assetId: asset.id, error });
+    }
+  }
+
+  /**
+   * Create the Phaser image for an asset - a sprite playing the animation if one is given
    */
-  private createAssetImage(asset: Asset, textureKey: string): void {
+  private createAssetImage(asset: Asset, textureKey: string, animationKey?: string): void {
     // Guard: ensure scene.add is available
     if (!this.isSceneValid() || !(this.scene as any).add) {
       logger.warn('[PhaserMapRenderer] createAssetImage: scene.add not available', { assetId: asset.id });
@@ -430,7 +523,9 @@ export class PhaserMapRenderer {
 
     try {
       // Create the image at the asset's position
-      const image = this.scene.add.image(asset.x, asset.y, textureKey);
+      const image = animationKey
+        ? this.scene.add.sprite(asset.x, asset.y, textureKey).play(animationKey)
+        : this.scene.add.image(asset.x, asset.y, textureKey);
 
       // Set origin to top-left to match editor behavior
       image.setOrigin(0, 0);
@@ -457,6 +552,7 @@ export class PhaserMapRenderer {
         this.assetsGroup.add(image);
       }
       this.assetObjects.set(asset.id, image);
+      this.applyElementVisibility(asset.id, image);
 
       logger.debug('Asset image created', {
         assetId: asset.id,
@@ -632,6 +728,7 @@ export class PhaserMapRenderer {
 
     this.interactiveAreasGroup.add(container);
     this.interactiveAreaObjects.set(area.id, container);
+    this.applyElementVisibility(area.id, container);
   }
 
   /**
@@ -749,6 +846,7 @@ export class PhaserMapRenderer {
 
     this.collisionAreasGroup.add(visualObject);
     this.collisionAreaObjects.set(area.id, visualObject);
+    this.applyElementVisibility(area.id, visualObject);
   }
 
   /**
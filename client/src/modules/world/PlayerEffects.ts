@@ -0,0 +1,150 @@
+import Phaser from 'phaser';
+
+export type JumpDirection = 'left' | 'right' | 'none';
+
+/**
+ * PlayerEffects - Visual effects for player actions
+ *
+ * Shared by MovementController (local player) and RemotePlayerManager
+ * (other players) so both look the same.
+ */
+export class PlayerEffects {
+  private scene: Phaser.Scene;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+  }
+
+  /**
+   * Create jump visual effect (dust cloud at the player's feet)
+   */
+  public createJumpEffect(x: number, groundY: number, jumpDirection: JumpDirection = 'none'): void {
+    // Create dust cloud effect at player's feet
+    const dustCloud = this.scene.add.graphics();
+    dustCloud.fillStyle(0xD2B48C, 0.6);
+    dustCloud.fillCircle(x, groundY + 16, 20);
+    dustCloud.setDepth(5);
+
+    // Create directional dust particles for directional jumps
+    if (jumpDirection !== 'none') {
+      const particleCount = 5;
+      for (let i = 0; i < particleCount; i++) {
+        const particle = this.scene.add.graphics();
+        particle.fillStyle(0xD2B48C, 0.4);
+        particle.fillCircle(0, 0, 3);
+        particle.setPosition(
+          x + (Math.random() - 0.5) * 20,
+          groundY + 16 + (Math.random() - 0.5) * 10
+        );
+        particle.setDepth(5);
+
+        // Animate particles in jump direction
+        const particleTargetX = jumpDirection === 'left' ?
+          particle.x - 30 - Math.random() * 20 :
+          particle.x + 30 + Math.random() * 20;
+
+        this.scene.tweens.add({
+          targets: particle,
+          x: particleTargetX,
+          y: particle.y - 10 - Math.random() * 15,
+          alpha: 0,
+          duration: 300 + Math.random() * 200,
+          ease: 'Power2',
+          onComplete: () => {
+            particle.destroy();
+          }
+        });
+      }
+    }
+
+    // Animate main dust cloud
+    this.scene.tweens.add({
+      targets: dustCloud,
+      scaleX: jumpDirection !== 'none' ? 2.5 : 2,
+      scaleY: jumpDirection !== 'none' ? 2.5 : 2,
+      alpha: 0,
+      duration: 400,
+      ease: 'Power2',
+      onComplete: () => {
+        dustCloud.destroy();
+      }
+    });
+  }
+
+  /**
+   * Create fire visual effect (projectile, trail and explosion)
+   */
+  public createFireEffect(x: number, y: number, direction: 1 | -1): void {
+    // Create projectile/fire effect
+    const projectile = this.scene.add.graphics();
+    projectile.fillStyle(0xFF4500, 0.8);
+    projectile.fillCircle(0, 0, 8);
+    projectile.setPosition(x, y);
+    projectile.setDepth(8);
+
+    const targetX = x + (direction * 150);
+
+    // Animate projectile
+    this.scene.tweens.add({
+      targets: projectile,
+      x: targetX,
+      duration: 500,
+      ease: 'Power2',
+      onComplete: () => {
+        // Create explosion effect
+        this.createExplosionEffect(targetX, y);
+        projectile.destroy();
+      }
+    });
+
+    // Add fire trail effect
+    const trail = this.scene.add.graphics();
+    trail.lineStyle(4, 0xFF6347, 0.6);
+    trail.beginPath();
+    trail.moveTo(x, y);
+    trail.lineTo(targetX, y);
+    trail.strokePath();
+    trail.setDepth(7);
+
+    // Fade out trail
+    this.scene.tweens.add({
+      targets: trail,
+      alpha: 0,
+      duration: 600,
+      onComplete: () => {
+        trail.destroy();
+      }
+    });
+  }
+
+  /**
+   * Create explosion visual effect
+   */
+  private createExplosionEffect(x: number, y: number): void {
+    // Create explosion particles
+    for (let i = 0; i < 8; i++) {
+      const particle = this.scene.add.graphics();
+      particle.fillStyle(0xFF4500, 0.8);
+      particle.fillCircle(0, 0, 4);
+      particle.setPosition(x, y);
+      particle.setDepth(9);
+
+      const angle = (i / 8) * Math.PI * 2;
+      const distance = 40 + Math.random() * 20;
+      const targetX = x + Math.cos(angle) * distance;
+      const targetY = y + Math.sin(angle) * distance;
+
+      this.scene.tweens.add({
+        targets: particle,
+        x: targetX,
+        y: targetY,
+        alpha: 0,
+        duration: 300 + Math.random() * 200,
+        ease: 'Power2',
+        onComplete: () => {
+          particle.destroy();
+        }
+      });
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { AvatarRenderer as AvatarRendererV2 } from '../../components/avatar/v2';
 import { CharacterStorage } from '../../components/avatar/v2/CharacterStorage';
 import { AnimationCategory } from '../../components/avatar/AvatarBuilderTypes';
 import { logger } from '../../shared/logger';
+import { FacingDirection, MotionAnimation, PlayerMotionState } from '../../services/WorldSocketService';
 
 /**
  * PlayerManager - Manages player character and avatar rendering
@@ -27,6 +28,10 @@ export class PlayerManager {
    public playerSize: number = 32; // Player sprite size for collision detection and bounds
    public originalY: number = 0; // Original Y position for jump animations
 
+   // Last requested facing/animation (synced to other players even while the avatar is loading)
+   private facing: FacingDirection = 'down';
+   private currentAnimation: MotionAnimation = AnimationCategory.IDLE;
+
   constructor(scene: Phaser.Scene, eventBus: any, playerId: string) {
     logger.debug('🔥🔥🔥 PlayerManager CONSTRUCTOR called for player:', playerId);
     this.scene = scene;
@@ -301,6 +306,13 @@ export class PlayerManager {
    * Play animation based on direction
    */
   public playAnimation(direction: 'up' | 'down' | 'left' | 'right' | 'idle'): void {
+    if (direction === 'idle') {
+      this.currentAnimation = AnimationCategory.IDLE;
+    } else {
+      this.facing = direction;
+      this.currentAnimation = `walk_${direction}`;
+    }
+
     // Verify sprite is valid before attempting animation
     if (!this.verifySpriteValidity()) {
       logger.debug('[PlayerManager] Sprite not valid, cannot play animation');
@@ -406,6 +418,20 @@ export class PlayerManager {
     this.playerContainer.y = y;
   }
 
+  /**
+   * Set the facing direction without playing a walk animation (e.g. a restored position)
+   */
+  public setFacing(direction: FacingDirection): void {
+    this.facing = direction;
+  }
+
+  /**
+   * Get the facing direction and animation to sync to other players
+   */
+  public getMotionState(): PlayerMotionState {
+    return { direction: this.facing, animation: this.currentAnimation };
+  }
+
   /**
    * Update original Y position (for jump animations)
    */
@@ -1,14 +1,47 @@
 import Phaser from 'phaser';
-import { AvatarSyncData, RemotePlayerData } from '../../services/WorldSocketService';
+import {
+  AvatarSyncData,
+  FacingDirection,
+  MotionAnimation,
+  PlayerAction,
+  RemotePlayerData,
+  SnapshotPlayerDelta,
+  WorldSnapshot,
+} from '../../services/WorldSocketService';
 import { logger } from '../../shared/logger';
+import { SnapshotBuffer } from './SnapshotBuffer';
+import { PlayerEffects } from './PlayerEffects';
+
+// Server snapshot rate (WORLD_TICK_RATE) and how far behind the server remote players are rendered.
+// The delay covers two snapshot intervals so one late snapshot doesn't cause a stall.
+const SNAPSHOT_INTERVAL_MS = 1000 / 15;
+const INTERPOLATION_DELAY_MS = 150;
+// Smoothing factor for the server clock offset estimate
+const CLOCK_OFFSET_SMOOTHING = 0.1;
+// Jump arc (matches MovementController)
+const JUMP_HEIGHT = 60;
+const JUMP_DURATION = 600;
 
 // Remote player container with metadata
 interface RemotePlayer {
   container: Phaser.GameObjects.Container;
+  sprite: Phaser.GameObjects.Sprite;
+  nameText: Phaser.GameObjects.Text;
+  statusDot: Phaser.GameObjects.Arc;
+  // Shown above the name for invited visitors
+  guestBadge?: Phaser.GameObjects.Text;
   playerId: string;
-  targetX: number;
-  targetY: number;
+  snapshots: SnapshotBuffer;
   avatarData?: AvatarSyncData;
+  // Loaded avatar spritesheet (undefined while the placeholder is shown)
+  textureKey?: string;
+  animationKeys: string[];
+  direction: FacingDirection;
+  animation: MotionAnimation;
+  rotating: boolean;
+  rotationTween?: Phaser.Tweens.Tween;
+  jumpTween?: Phaser.Tweens.Tween;
+  jumpOffset: number; // Cosmetic height above the ground position while jumping
 }
 
 /**
@@ -16,17 +49,21 @@ interface RemotePlayer {
  *
  * Responsibilities:
  * - Create sprites and nameplates for remote players in a container
- * - Update positions with smooth interpolation
+ * - Buffer server snapshots and interpolate positions on a fixed render delay
+ * - Play avatar spritesheet animations and action effects (jump, fire, rotation)
  * - Destroy containers when players leave
  * - Render V2 avatars or placeholder for remote players
  */
 export class RemotePlayerManager {
   private scene: Phaser.Scene;
   private remotePlayers: Map<string, RemotePlayer> = new Map();
-  private interpolationSpeed: number = 0.15; // Smoothing factor for movement
+  private clockOffset: number | null = null; // Estimated server time minus local time
+  private effects: PlayerEffects;
+  private textureVersion: number = 0;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
+    this.effects = new PlayerEffects(scene);
     logger.info('[RemotePlayerManager] Initialized');
   }
 
@@ -81,11 +118,61 @@ export class RemotePlayerManager {
     });
     nameText.setOrigin(0.5, 1);
     container.add(nameText);
-    
+
+    // 4. Guest Badge
+    let guestBadge: Phaser.GameObjects.Text | undefined;
+    if (data.isGuest) {
+      guestBadge = this.scene.add.text(0, 0, 'GUEST', {
+        fontSize: '9px',
+        color: '#1a1a1a',
+        fontFamily: 'Arial, sans-serif',
+        fontStyle: 'bold',
+        backgroundColor: '#f5a623',
+        padding: { x: 3, y: 1 },
+      });
+      guestBadge.setOrigin(0.5, 1);
+      container.add(guestBadge);
+    }
+
+    const snapshots = new SnapshotBuffer(SNAPSHOT_INTERVAL_MS);
+    snapshots.reset(data.x, data.y);
+
+    const remotePlayer: RemotePlayer = {
+      container,
+      sprite,
+      nameText,
+      statusDot,
+      guestBadge,
+      playerId: data.playerId,
+      snapshots,
+      avatarData: data.avatarData,
+      animationKeys: [],
+      direction: data.direction ?? 'down',
+      animation: data.animation ?? 'idle',
+      rotating: false,
+      jumpOffset: 0,
+    };
+
+    this.layoutNameplate(remotePlayer);
+    this.remotePlayers.set(data.playerId, remotePlayer);
+    this.setRotating(remotePlayer, !!data.rotating);
+
+    if (data.avatarData?.spriteSheetImageData) {
+      logger.info(`[RemotePlayerManager] Avatar data received for: ${data.playerId}`);
+      this.loadAvatar(data.playerId, data.avatarData);
+    }
+  }
+
+  /**
+   * Position the name label, status dot and guest badge above the sprite
+   */
+  private layoutNameplate(remotePlayer: RemotePlayer): void {
+    const { sprite, nameText, statusDot, guestBadge } = remotePlayer;
+
     // Position elements relative to the sprite (which is at 0,0 in the container)
     // Dynamically calculate nameplate Y offset based on sprite height
     const nameplateYOffset = this.getNameLabelYOffset(sprite);
-    
+
     // Position the text centered horizontally
     nameText.y = nameplateYOffset;
 
@@ -94,38 +181,16 @@ export class RemotePlayerManager {
     statusDot.x = -(textWidth / 2) - 8; // 8px spacing
     statusDot.y = nameplateYOffset - nameText.getBounds().height / 2 + 1; // Vertically center with text
 
-    const remotePlayer: RemotePlayer = {
-      container,
-      playerId: data.playerId,
-      targetX: data.x,
-      targetY: data.y,
-      avatarData: data.avatarData,
-    };
-
-    this.remotePlayers.set(data.playerId, remotePlayer);
+    // Stack the guest badge above the name
+    if (guestBadge) {
+      guestBadge.y = nameplateYOffset - nameText.getBounds().height;
+    }
   }
 
   /**
-   * Create sprite for remote player (V2 avatar or placeholder)
+   * Create placeholder sprite for remote player (replaced by the V2 avatar once loaded)
    */
   private createPlayerSprite(data: RemotePlayerData): Phaser.GameObjects.Sprite {
-    // If avatar data exists, try to load it as texture
-    if (data.avatarData?.spriteSheetImageData) {
-      const textureKey = `remote_avatar_${data.playerId}`;
-
-      try {
-        // Create texture from base64 image data
-        const img = new Image();
-        img.src = data.avatarData.spriteSheetImageData;
-
-        // For now, use placeholder until image loads
-        // TODO: Implement async texture loading
-        logger.info(`[RemotePlayerManager] Avatar data received for: ${data.playerId}`);
-      } catch (error) {
-        logger.error(`[RemotePlayerManager] Failed to load avatar: ${error}`);
-      }
-    }
-
     // Create placeholder sprite (colored circle - larger and more visible)
     const size = 48; // Increased from 32
     const radius = 22; // Increased from 14
@@ -140,7 +205,7 @@ export class RemotePlayerManager {
     const textureKey = `remote_placeholder_${data.playerId}_${Date.now()}`;
     graphics.generateTexture(textureKey, size, size);
     graphics.destroy();
-    
+
     // Sprite is positioned at (0,0) relative to its container
     const sprite = this.scene.add.sprite(0, 0, textureKey);
     sprite.setOrigin(0.5, 0.5);
@@ -152,6 +217,116 @@ export class RemotePlayerManager {
     return sprite;
   }
 
+  /**
+   * Replace a player's avatar in place (character switch) - keeps position, state and nameplate
+   */
+  public updateAvatar(playerId: string, avatarData: AvatarSyncData): void {
+    const remotePlayer = this.remotePlayers.get(playerId);
+    if (!remotePlayer || !avatarData?.spriteSheetImageData) return;
+
+    logger.info(`[RemotePlayerManager] Updating avatar for ${playerId}: ${avatarData.characterName}`);
+    remotePlayer.avatarData = avatarData;
+    this.loadAvatar(playerId, avatarData);
+  }
+
+  /**
+   * Load a player's synced spritesheet, register its animations and swap it onto the sprite
+   */
+  private async loadAvatar(playerId: string, avatarData: AvatarSyncData): Promise<void> {
+    const img = await this.loadImage(avatarData.spriteSheetImageData);
+
+    // The player may have left (or sent a newer avatar) while the image was loading
+    const remotePlayer = this.remotePlayers.get(playerId);
+    if (!img || !remotePlayer || remotePlayer.avatarData !== avatarData) {
+      return;
+    }
+
+    try {
+      // Versioned key so the old texture can be released after the swap
+      const textureKey = `remote_avatar_${playerId}_${++this.textureVersion}`;
+      this.scene.textures.addSpriteSheet(textureKey, img, {
+        frameWidth: avatarData.frameWidth,
+        frameHeight: avatarData.frameHeight,
+      });
+
+      const animationKeys: string[] = [];
+      (avatarData.animations ?? []).forEach((animation) => {
+        const animKey = `${textureKey}_${animation.category}`;
+        this.scene.anims.create({
+          key: animKey,
+          frames: this.scene.anims.generateFrameNumbers(textureKey, { frames: animation.frames }),
+          frameRate: animation.frameRate,
+          repeat: animation.loop ? -1 : 0,
+        });
+        animationKeys.push(animKey);
+      });
+
+      const previousTextureKey = remotePlayer.textureKey;
+      const previousAnimationKeys = remotePlayer.animationKeys;
+
+      remotePlayer.sprite.stop();
+      remotePlayer.sprite.setTexture(textureKey, 0);
+      remotePlayer.textureKey = textureKey;
+      remotePlayer.animationKeys = animationKeys;
+      this.layoutNameplate(remotePlayer);
+      this.playMotionAnimation(remotePlayer);
+
+      this.releaseAvatarTexture(previousTextureKey, previousAnimationKeys);
+      logger.debug(`[RemotePlayerManager] Avatar loaded for ${playerId}: ${textureKey} (${animationKeys.length} animations)`);
+    } catch (error) {
+      logger.error(`[RemotePlayerManager] Failed to load avatar: ${error}`);
+    }
+  }
+
+  private loadImage(dataUrl: string): Promise<HTMLImageElement | null> {
+    return new Promise((resolve) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => {
+        logger.error('[RemotePlayerManager] Failed to load avatar image');
+        resolve(null);
+      };
+      img.src = dataUrl;
+    });
+  }
+
+  private releaseAvatarTexture(textureKey: string | undefined, animationKeys: string[]): void {
+    animationKeys.forEach((key) => this.scene.anims.remove(key));
+    if (textureKey && this.scene.textures.exists(textureKey)) {
+      this.scene.textures.remove(textureKey);
+    }
+  }
+
+  /**
+   * Play the animation for the player's current motion state (same categories as PlayerManager)
+   */
+  private playMotionAnimation(remotePlayer: RemotePlayer): void {
+    const { sprite, textureKey } = remotePlayer;
+    if (!textureKey) return; // Placeholder has no animations
+
+    const animKey = `${textureKey}_${remotePlayer.animation}`;
+    const idleKey = `${textureKey}_idle`;
+
+    if (this.scene.anims.exists(animKey)) {
+      if (sprite.anims?.currentAnim?.key !== animKey) {
+        sprite.play(animKey);
+      }
+      return;
+    }
+
+    // No idle animation: stand still facing the last walking direction
+    const facingKey = `${textureKey}_walk_${remotePlayer.direction}`;
+    if (remotePlayer.animation === 'idle' && this.scene.anims.exists(facingKey)) {
+      sprite.stop();
+      sprite.setFrame(this.scene.anims.get(facingKey).frames[0].textureFrame);
+      return;
+    }
+
+    if (this.scene.anims.exists(idleKey) && sprite.anims?.currentAnim?.key !== idleKey) {
+      sprite.play(idleKey);
+    }
+  }
+
   /**
    * Generate consistent color for player based on their ID
    */
@@ -167,14 +342,119 @@ export class RemotePlayerManager {
   }
 
   /**
-   * Update remote player position
+   * Buffer a world snapshot (fields missing from a delta keep their last value)
    */
-  public updatePlayerPosition(playerId: string, x: number, y: number): void {
+  public applySnapshot(snapshot: WorldSnapshot): void {
+    const offsetSample = snapshot.serverTime - Date.now();
+    this.clockOffset = this.clockOffset === null
+      ? offsetSample
+      : this.clockOffset + (offsetSample - this.clockOffset) * CLOCK_OFFSET_SMOOTHING;
+
+    snapshot.players.forEach((delta) => {
+      const remotePlayer = this.remotePlayers.get(delta.id);
+      if (!remotePlayer) return;
+
+      const last = remotePlayer.snapshots.latest();
+      const x = delta.x ?? last?.x ?? remotePlayer.container.x;
+      const y = delta.y ?? last?.y ?? remotePlayer.container.y;
+
+      if (delta.teleport) {
+        // Snap instead of sliding across the map
+        remotePlayer.snapshots.reset(x, y, snapshot.serverTime);
+        remotePlayer.container.x = x;
+        remotePlayer.container.y = y;
+      } else {
+        remotePlayer.snapshots.push(snapshot.serverTime, x, y);
+      }
+
+      // Animation state and actions play when the interpolated position reaches this snapshot
+      if (delta.direction || delta.animation || delta.rotating !== undefined || delta.actions) {
+        this.scene.time.delayedCall(INTERPOLATION_DELAY_MS, () => this.applyPlayerState(delta.id, delta));
+      }
+    });
+  }
+
+  private applyPlayerState(playerId: string, delta: SnapshotPlayerDelta): void {
     const remotePlayer = this.remotePlayers.get(playerId);
     if (!remotePlayer) return;
 
-    remotePlayer.targetX = x;
-    remotePlayer.targetY = y;
+    if (delta.direction) {
+      remotePlayer.direction = delta.direction;
+    }
+    if (delta.animation) {
+      remotePlayer.animation = delta.animation;
+    }
+    if (delta.direction || delta.animation) {
+      this.playMotionAnimation(remotePlayer);
+    }
+    if (delta.rotating !== undefined) {
+      this.setRotating(remotePlayer, delta.rotating);
+    }
+    delta.actions?.forEach((action) => this.playAction(remotePlayer, action));
+  }
+
+  /**
+   * Play a discrete action the same way MovementController does locally
+   */
+  private playAction(remotePlayer: RemotePlayer, action: PlayerAction): void {
+    const { container } = remotePlayer;
+    const groundY = container.y + remotePlayer.jumpOffset;
+
+    switch (action.type) {
+      case 'jump':
+        if (remotePlayer.jumpTween?.isPlaying()) return;
+        // Only the arc is animated here - horizontal movement arrives through snapshots
+        remotePlayer.jumpTween = this.scene.tweens.add({
+          targets: remotePlayer,
+          jumpOffset: JUMP_HEIGHT,
+          duration: JUMP_DURATION / 2,
+          ease: 'Power2',
+          yoyo: true,
+          onComplete: () => {
+            remotePlayer.jumpOffset = 0;
+            remotePlayer.jumpTween = undefined;
+          }
+        });
+        this.effects.createJumpEffect(container.x, groundY, action.direction);
+        break;
+      case 'fire':
+        this.effects.createFireEffect(container.x, groundY, action.facing);
+        break;
+      case 'rotate':
+        this.setRotating(remotePlayer, action.active);
+        break;
+    }
+  }
+
+  /**
+   * Start or stop the continuous rotation (O key)
+   */
+  private setRotating(remotePlayer: RemotePlayer, rotating: boolean): void {
+    if (remotePlayer.rotating === rotating) return;
+    remotePlayer.rotating = rotating;
+
+    if (remotePlayer.rotationTween) {
+      remotePlayer.rotationTween.stop();
+      remotePlayer.rotationTween = undefined;
+    }
+
+    if (rotating) {
+      remotePlayer.rotationTween = this.scene.tweens.add({
+        targets: remotePlayer.container,
+        rotation: Math.PI * 2,
+        duration: 2000,
+        ease: 'Linear',
+        repeat: -1
+      });
+    } else {
+      // Reset rotation smoothly
+      this.scene.tweens.add({
+        targets: remotePlayer.container,
+        rotation: 0,
+        duration: 300,
+        ease: 'Power2'
+      });
+    }
   }
 
   /**
@@ -186,28 +466,30 @@ export class RemotePlayerManager {
 
     logger.info('[RemotePlayerManager] Removing player:', playerId);
 
-    remotePlayer.container.destroy();
+    this.destroyRemotePlayer(remotePlayer);
     this.remotePlayers.delete(playerId);
   }
 
+  private destroyRemotePlayer(remotePlayer: RemotePlayer): void {
+    remotePlayer.rotationTween?.stop();
+    remotePlayer.jumpTween?.stop();
+    remotePlayer.container.destroy();
+    this.releaseAvatarTexture(remotePlayer.textureKey, remotePlayer.animationKeys);
+  }
+
   /**
    * Update all remote players (call in scene update loop)
    */
   public update(): void {
+    // Render in server time, a fixed delay behind the newest snapshots
+    const renderTime = Date.now() + (this.clockOffset ?? 0) - INTERPOLATION_DELAY_MS;
+
     this.remotePlayers.forEach((remotePlayer) => {
-      // Interpolate position smoothly
-      const container = remotePlayer.container;
-      const currentX = container.x;
-      const currentY = container.y;
-
-      const dx = remotePlayer.targetX - currentX;
-      const dy = remotePlayer.targetY - currentY;
-
-      // Only move if the distance is significant to avoid jitter
-      if (Math.abs(dx) > 0.5 || Math.abs(dy) > 0.5) {
-        container.x += dx * this.interpolationSpeed;
-        container.y += dy * this.interpolationSpeed;
-      }
+      const position = remotePlayer.snapshots.sample(renderTime);
+      if (!position) return;
+
+      remotePlayer.container.x = position.x;
+      remotePlayer.container.y = position.y - remotePlayer.jumpOffset;
     });
   }
 
@@ -232,13 +514,20 @@ export class RemotePlayerManager {
   }
 
   /**
-   * Cleanup all remote players
+   * Remove all remote players (e.g. after moving to another room)
    */
-  public destroy(): void {
+  public clear(): void {
     this.remotePlayers.forEach((remotePlayer) => {
-      remotePlayer.container.destroy();
+      this.destroyRemotePlayer(remotePlayer);
     });
     this.remotePlayers.clear();
+  }
+
+  /**
+   * Cleanup all remote players
+   */
+  public destroy(): void {
+    this.clear();
     logger.info('[RemotePlayerManager] Destroyed');
   }
 }
@@ -0,0 +1,79 @@
+// A position at a point in server time
+export interface BufferedState {
+  time: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * SnapshotBuffer - Time-ordered positions of one remote player
+ *
+ * Snapshots are rendered a fixed delay behind the server, so there is almost
+ * always a state on each side of the render time to interpolate between.
+ */
+export class SnapshotBuffer {
+  private states: BufferedState[] = [];
+  private snapshotIntervalMs: number;
+  private maxLength: number;
+
+  constructor(snapshotIntervalMs: number, maxLength: number = 32) {
+    this.snapshotIntervalMs = snapshotIntervalMs;
+    this.maxLength = maxLength;
+  }
+
+  /**
+   * Drop all history and hold at a single position (spawn, teleport)
+   */
+  public reset(x: number, y: number, time: number = 0): void {
+    this.states = [{ time, x, y }];
+  }
+
+  /**
+   * Append a state received from the server
+   */
+  public push(time: number, x: number, y: number): void {
+    const last = this.latest();
+    if (last && time <= last.time) {
+      return; // Out of order or duplicate
+    }
+
+    // After standing still, start moving one snapshot interval before this state
+    // instead of sliding slowly across the whole idle gap
+    if (last && time - last.time > this.snapshotIntervalMs * 1.5) {
+      this.states.push({ time: time - this.snapshotIntervalMs, x: last.x, y: last.y });
+    }
+
+    this.states.push({ time, x, y });
+    if (this.states.length > this.maxLength) {
+      this.states.splice(0, this.states.length - this.maxLength);
+    }
+  }
+
+  public latest(): BufferedState | undefined {
+    return this.states[this.states.length - 1];
+  }
+
+  /**
+   * Get the interpolated position at a render time (holds at the ends, never extrapolates)
+   */
+  public sample(renderTime: number): { x: number; y: number } | null {
+    // Discard states that are fully behind the render time
+    while (this.states.length >= 2 && this.states[1].time <= renderTime) {
+      this.states.shift();
+    }
+
+    const from = this.states[0];
+    if (!from) return null;
+
+    const to = this.states[1];
+    if (!to || renderTime <= from.time) {
+      return { x: from.x, y: from.y };
+    }
+
+    const t = (renderTime - from.time) / (to.time - from.time);
+    return {
+      x: from.x + (to.x - from.x) * t,
+      y: from.y + (to.y - from.y) * t,
+    };
+  }
+}
@@ -33,7 +33,7 @@ export const WorldModule: React.FC<WorldModuleProps> = ({
   const phaserGameRef = useRef<Phaser.Game | null>(null);
   const gameSceneRef = useRef<GameScene | null>(null);
   const { user } = useAuth();
-  const { mapData } = useMapStore();
+  const { mapData, loadWorldRoomMap } = useMapStore();
 
   // Zoom control state
   const [canZoomIn, setCanZoomIn] = useState(true);
@@ -252,6 +252,17 @@ export const WorldModule: React.FC<WorldModuleProps> = ({
     }
   }, [showMapAreas]);
 
+  // Load the new room's map when a portal or teleport moved the player to another world room
+  const loadWorldRoomMapRef = useRef(loadWorldRoomMap);
+  loadWorldRoomMapRef.current = loadWorldRoomMap;
+
+  useEffect(() => {
+    return eventBus.subscribe('world:roomChanged', ({ roomId }) => {
+      logger.info('[WorldModule] Loading map for world room', { roomId });
+      loadWorldRoomMapRef.current(roomId);
+    });
+  }, [eventBus]);
+
   // Pass Redux mapData to GameScene when it changes
   useEffect(() => {
     if (gameSceneRef.current && mapData) {
@@ -0,0 +1,55 @@
+/**
+ * SnapshotBuffer Test Suite
+ *
+ * Covers interpolation between buffered server snapshots:
+ * - Interpolating between two states
+ * - Holding at the ends of the buffer
+ * - Idle gaps and out-of-order snapshots
+ */
+
+import { SnapshotBuffer } from '../SnapshotBuffer';
+
+const INTERVAL = 100;
+
+describe('SnapshotBuffer', () => {
+  let buffer: SnapshotBuffer;
+
+  beforeEach(() => {
+    buffer = new SnapshotBuffer(INTERVAL);
+  });
+
+  it('returns null when empty', () => {
+    expect(buffer.sample(1000)).toBeNull();
+  });
+
+  it('interpolates between the states around the render time', () => {
+    buffer.reset(0, 0, 1000);
+    buffer.push(1100, 100, 50);
+
+    expect(buffer.sample(1050)).toEqual({ x: 50, y: 25 });
+  });
+
+  it('holds at the first state before it and the last state after it', () => {
+    buffer.reset(0, 0, 1000);
+    buffer.push(1100, 100, 0);
+
+    expect(buffer.sample(900)).toEqual({ x: 0, y: 0 });
+    expect(buffer.sample(1500)).toEqual({ x: 100, y: 0 });
+  });
+
+  it('starts moving one interval before a snapshot that follows an idle gap', () => {
+    buffer.reset(0, 0, 0);
+    buffer.push(5000, 100, 0);
+
+    expect(buffer.sample(4800)).toEqual({ x: 0, y: 0 });
+    expect(buffer.sample(4950)).toEqual({ x: 50, y: 0 });
+  });
+
+  it('ignores out-of-order snapshots', () => {
+    buffer.reset(0, 0, 1000);
+    buffer.push(1100, 100, 0);
+    buffer.push(1050, 999, 999);
+
+    expect(buffer.latest()).toEqual({ time: 1100, x: 100, y: 0 });
+  });
+});
@@ -0,0 +1,23 @@
+import { SpriteSheetDefinition } from '../../components/avatar/AvatarBuilderTypes';
+import { AvatarAnimationSync } from '../../services/WorldSocketService';
+
+/**
+ * Convert a sprite sheet's animation mappings (frame IDs) to grid frame indices
+ * so remote clients can register the same animations from the synced image.
+ * Mirrors AvatarRenderer.registerAnimations.
+ */
+export function buildAnimationSync(spriteSheet: SpriteSheetDefinition | undefined): AvatarAnimationSync[] {
+  if (!spriteSheet?.animations) {
+    return [];
+  }
+
+  return spriteSheet.animations.map((animation) => ({
+    category: animation.category,
+    frames: animation.sequence.frameIds.map((frameId) => {
+      const frameIndex = spriteSheet.frames.findIndex((f) => f.id === frameId);
+      return frameIndex >= 0 ? frameIndex : 0;
+    }),
+    frameRate: animation.sequence.frameRate || spriteSheet.defaultSettings.frameRate,
+    loop: animation.sequence.loop,
+  }));
+}
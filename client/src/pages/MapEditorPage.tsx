@@ -2,32 +2,35 @@ import React, { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { KonvaMapEditorModule } from '../modules/map-editor-konva';
 import { useAuth } from '../shared/AuthContext';
+import { useWorldRoom } from '../shared/WorldRoomContext';
 import { MapDataProvider } from '../shared/MapDataContext';
 import { UnsavedChangesWarning } from '../components/UnsavedChangesWarning';
 import './MapEditorPage.css';
 
 export const MapEditorPage: React.FC = () => {
-  const { user } = useAuth();
+  const { hasPermission } = useAuth();
+  const { worldRoomId } = useWorldRoom();
   const navigate = useNavigate();
+  const canEditMap = hasPermission('editor', worldRoomId);
 
   useEffect(() => {
-    // Redirect non-admin users back to main app
-    if (!user?.isAdmin) {
+    // Redirect users without the editor role back to main app
+    if (!canEditMap) {
       navigate('/');
       return;
     }
 
     // Set page title
     document.title = 'Stargety Oasis - Map Editor';
-  }, [user, navigate]);
+  }, [canEditMap, navigate]);
 
-  // Show loading or redirect for non-admin users
-  if (!user?.isAdmin) {
+  // Show loading or redirect for users without the editor role
+  if (!canEditMap) {
     return (
       <div className="map-editor-page">
         <div className="access-denied">
           <h1>Access Denied</h1>
-          <p>You need administrator privileges to access the Map Editor.</p>
+          <p>You need editor permissions in this room to access the Map Editor.</p>
           <p>Redirecting to main application...</p>
         </div>
       </div>
@@ -16,19 +16,26 @@ import {
   selectError,
   selectLastSaved,
   selectIsDirty,
+  selectSaveConflict,
+  selectIsInitializing,
   selectAutoSaveEnabled,
   selectAutoSaveDelay,
 } from '../redux/selectors/mapSelectors';
 import {
   loadMap,
+  loadWorldRoomMap,
   saveMap,
   resetMap,
   importMap,
+  importTiledMap,
   restoreFromBackup,
   uploadBackgroundImage,
   clearError,
   markDirty,
   markClean,
+  clearSaveConflict,
+  rebaseMap,
+  setMapVersion,
   setAutoSaveEnabled,
   setAutoSaveDelay,
   setWorldDimensions,
@@ -45,8 +52,14 @@ import {
   updateAsset,
   removeAsset,
   setAssets,
+  addSpawnPoint,
+  updateSpawnPoint,
+  removeSpawnPoint,
+  setSpawnPoints,
 } from '../redux/slices/mapSlice';
-import { MapDataService } from '../stores/MapDataService';
+import { MapDataService, ExtendedMapData } from '../stores/MapDataService';
+import { WorldRoomId } from '../shared/WorldRoomContext';
+import type { TiledImageResolver } from '../shared/TiledMapConverter';
 
 /**
  * Hook for map store access - provides state and actions for map data management
@@ -59,6 +72,8 @@ export const useMapStoreImpl = () => {
   const error = useAppSelector(selectError);
   const lastSaved = useAppSelector(selectLastSaved);
   const isDirty = useAppSelector(selectIsDirty);
+  const saveConflict = useAppSelector(selectSaveConflict);
+  const isInitializing = useAppSelector(selectIsInitializing);
   const autoSaveEnabled = useAppSelector(selectAutoSaveEnabled);
   const autoSaveDelay = useAppSelector(selectAutoSaveDelay);
 
@@ -67,6 +82,11 @@ export const useMapStoreImpl = () => {
     return MapDataService.exportMapData(mapData);
   }, [mapData]);
 
+  const doExportTiledMap = useCallback(async () => {
+    if (!mapData) throw new Error('No map data to export');
+    return MapDataService.exportTiledMap(mapData);
+  }, [mapData]);
+
   return {
     // State
     mapData,
@@ -74,15 +94,21 @@ export const useMapStoreImpl = () => {
     error,
     lastSaved,
     isDirty,
+    saveConflict,
+    isInitializing,
     autoSaveEnabled,
     autoSaveDelay,
 
     // Ops
     loadMap: () => dispatch(loadMap()),
+    loadWorldRoomMap: (worldRoomId: WorldRoomId) => dispatch(loadWorldRoomMap(worldRoomId)),
     saveMap: () => dispatch(saveMap()).unwrap(),
     resetMap: () => dispatch(resetMap()).unwrap(),
     importMap: (json: string) => dispatch(importMap(json)).unwrap(),
     exportMap: doExportMap,
+    importTiledMap: (source: string, resolveImage: TiledImageResolver) =>
+      dispatch(importTiledMap({ source, resolveImage })).unwrap(),
+    exportTiledMap: doExportTiledMap,
     restoreFromBackup: () => dispatch(restoreFromBackup()).unwrap(),
 
     // Background & dimensions
@@ -107,10 +133,19 @@ export const useMapStoreImpl = () => {
     removeAsset: (id: string) => dispatch(removeAsset(id)),
     setAssets: (assets: any[]) => dispatch(setAssets(assets)),
 
+    // Spawn points / teleport destinations
+    addSpawnPoint: (spawnPoint: any) => dispatch(addSpawnPoint(spawnPoint)),
+    updateSpawnPoint: (id: string, updates: any) => dispatch(updateSpawnPoint({ id, updates })),
+    removeSpawnPoint: (id: string) => dispatch(removeSpawnPoint(id)),
+    setSpawnPoints: (spawnPoints: any[]) => dispatch(setSpawnPoints(spawnPoints)),
+
     // Utility
     clearError: () => dispatch(clearError()),
     markDirty: () => dispatch(markDirty()),
     markClean: () => dispatch(markClean()),
+    clearSaveConflict: () => dispatch(clearSaveConflict()),
+    rebaseMap: (version: number, mapData?: ExtendedMapData) => dispatch(rebaseMap({ version, mapData })),
+    setMapVersion: (version: number) => dispatch(setMapVersion(version)),
     setAutoSaveEnabled: (enabled: boolean) => dispatch(setAutoSaveEnabled(enabled)),
     setAutoSaveDelay: (delay: number) => dispatch(setAutoSaveDelay(delay)),
 
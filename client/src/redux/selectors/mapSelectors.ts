@@ -6,6 +6,7 @@ export const selectIsLoading = (s: RootState) => s.map.isLoading;
 export const selectError = (s: RootState) => s.map.error;
 export const selectLastSaved = (s: RootState) => s.map.lastSaved;
 export const selectIsDirty = (s: RootState) => s.map.isDirty;
+export const selectSaveConflict = (s: RootState) => s.map.saveConflict;
 export const selectIsInitializing = (s: RootState) => s.map.isInitializing;
 export const selectAutoSaveEnabled = (s: RootState) => s.map.autoSaveEnabled;
 export const selectAutoSaveDelay = (s: RootState) => s.map.autoSaveDelay;
@@ -1,4 +1,4 @@
-import reducer, { markDirty, markClean, loadMap } from '../../slices/mapSlice';
+import reducer, { markDirty, markClean, loadMap, saveMap, rebaseMap, addSpawnPoint, updateSpawnPoint, removeSpawnPoint } from '../../slices/mapSlice';
 
 describe('mapSlice reducer', () => {
   it('should return the initial state on @@INIT', () => {
@@ -23,5 +23,39 @@ describe('mapSlice reducer', () => {
     const state2 = reducer(state1, { type: (loadMap as any).pending.type });
     expect(state2.isLoading).toBe(true);
   });
-});
 
+  it('should add, update and remove spawn points', () => {
+    const state1 = reducer(undefined, { type: '@@INIT' } as any);
+    const withMap = { ...state1, isInitializing: false, mapData: { interactiveAreas: [], impassableAreas: [] } } as any;
+    const spawn = { id: 'spawn-1', name: 'Lobby', x: 10, y: 20, width: 96, height: 96, isSpawn: true };
+
+    const state2 = reducer(withMap, addSpawnPoint(spawn));
+    expect(state2.mapData?.spawnPoints).toEqual([spawn]);
+    expect(state2.isDirty).toBe(true);
+
+    const state3 = reducer(state2, updateSpawnPoint({ id: 'spawn-1', updates: { name: 'Plaza', isSpawn: false } }));
+    expect(state3.mapData?.spawnPoints?.[0]).toMatchObject({ name: 'Plaza', isSpawn: false, x: 10 });
+
+    const state4 = reducer(state3, removeSpawnPoint('spawn-1'));
+    expect(state4.mapData?.spawnPoints).toEqual([]);
+  });
+
+  it('should keep the saved version and record save conflicts', () => {
+    const state1 = reducer(undefined, { type: '@@INIT' } as any);
+    const withMap = { ...state1, isInitializing: false, isDirty: true, mapData: { version: 3, interactiveAreas: [], impassableAreas: [] } } as any;
+
+    const saved = reducer(withMap, { type: (saveMap as any).fulfilled.type, payload: { when: new Date(), version: 4 } });
+    expect(saved.mapData?.version).toBe(4);
+    expect(saved.isDirty).toBe(false);
+
+    const conflict = { baseVersion: 3, currentVersion: 5, merged: null, conflicts: [] };
+    const rejected = reducer(withMap, { type: (saveMap as any).rejected.type, payload: conflict, error: {} });
+    expect(rejected.saveConflict).toEqual(conflict);
+    expect(rejected.isDirty).toBe(true);
+
+    const rebased = reducer(rejected, rebaseMap({ version: 5 }));
+    expect(rebased.mapData?.version).toBe(5);
+    expect(rebased.saveConflict).toBeNull();
+    expect(rebased.isDirty).toBe(true);
+  });
+});
@@ -1,6 +1,9 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { MapDataService, ExtendedMapData } from '../../stores/MapDataService';
-import { InteractiveArea, ImpassableArea, Asset } from '../../shared/MapDataContext';
+import { InteractiveArea, ImpassableArea, Asset, SpawnPoint } from '../../shared/MapDataContext';
+import { WorldRoomId } from '../../shared/WorldRoomContext';
+import type { MapSaveConflict } from '../../services/api/MapApiService';
+import type { TiledImageResolver } from '../../shared/TiledMapConverter';
 
 export interface MapState {
   mapData: ExtendedMapData | null;
@@ -8,6 +11,7 @@ export interface MapState {
   error: string | null;
   lastSaved: Date | null;
   isDirty: boolean;
+  saveConflict: MapSaveConflict | null;  // Set when someone else saved the map after it was loaded
   isInitializing: boolean;
   autoSaveEnabled: boolean;
   autoSaveDelay: number;
@@ -26,6 +30,7 @@ const initialState: MapState = {
   error: null,
   lastSaved: null,
   isDirty: false,
+  saveConflict: null,
   isInitializing: true,
   autoSaveEnabled: false,
   autoSaveDelay: 2000,
@@ -47,12 +52,29 @@ export const loadMap = createAsyncThunk('map/load', async () => {
   return data;
 });
 
-export const saveMap = createAsyncThunk('map/save', async (_, { getState }) => {
+// For gameplay: load the map of the world room the player moved to (portal / teleport)
+export const loadWorldRoomMap = createAsyncThunk('map/loadWorldRoom', async (worldRoomId: WorldRoomId) => {
+  let data = await MapDataService.loadMapDataByWorldRoom(worldRoomId, true);
+  if (!data) {
+    data = await MapDataService.createDefaultMap();
+  }
+  return data;
+});
+
+// Saves are based on the loaded version; a stale save is rejected with the conflict as payload
+export const saveMap = createAsyncThunk<
+  { when: Date; version: number },
+  void,
+  { rejectValue: MapSaveConflict }
+>('map/save', async (_, { getState, rejectWithValue }) => {
   const state = getState() as any;
   const mapData: ExtendedMapData | null = state.map?.mapData ?? null;
   if (!mapData) throw new Error('No map data to save');
-  await MapDataService.saveMapData(mapData);
-  return { when: new Date() };
+  const result = await MapDataService.saveMapData(mapData, undefined, mapData.version);
+  if (!result.saved) {
+    return rejectWithValue(result.conflict);
+  }
+  return { when: new Date(), version: result.version };
 });
 
 export const resetMap = createAsyncThunk('map/reset', async () => {
@@ -65,6 +87,13 @@ export const importMap = createAsyncThunk('map/import', async (jsonData: string)
   return data;
 });
 
+export const importTiledMap = createAsyncThunk(
+  'map/importTiled',
+  async ({ source, resolveImage }: { source: string; resolveImage: TiledImageResolver }) => {
+    return MapDataService.importTiledMap(source, resolveImage);
+  }
+);
+
 export const restoreFromBackup = createAsyncThunk('map/restoreFromBackup', async () => {
   const data = await MapDataService.restoreFromBackup();
   if (!data) throw new Error('No backup data available');
@@ -74,7 +103,9 @@ export const restoreFromBackup = createAsyncThunk('map/restoreFromBackup', async
 export const uploadBackgroundImage = createAsyncThunk(
   'map/uploadBackgroundImage',
   async (file: File) => {
-    const { url, dimensions } = await MapDataService.handleBackgroundImageUpload(file);
+    const { url: dataUrl, dimensions } = await MapDataService.handleBackgroundImageUpload(file);
+    // The map refers to the stored image by URL
+    const url = await MapDataService.storeMapImage(dataUrl, file.name);
     return { url, dimensions } as { url: string; dimensions: { width: number; height: number } };
   }
 );
@@ -89,6 +120,24 @@ const mapSlice = createSlice({
       state.isDirty = true;
     },
     markClean(state) { state.isDirty = false; },
+    clearSaveConflict(state) { state.saveConflict = null; },
+    // Base the next save on the current server version, optionally replacing the map (e.g. with a merge)
+    rebaseMap(state, action: PayloadAction<{ version: number; mapData?: ExtendedMapData }>) {
+      if (action.payload.mapData) {
+        state.mapData = action.payload.mapData;
+      }
+      if (state.mapData) {
+        state.mapData.version = action.payload.version;
+      }
+      state.saveConflict = null;
+      state.isDirty = true;
+    },
+    // The live editing session saved the map - later whole-map saves are based on its version
+    setMapVersion(state, action: PayloadAction<number>) {
+      if (state.mapData) {
+        state.mapData.version = action.payload;
+      }
+    },
     setAutoSaveEnabled(state, action: PayloadAction<boolean>) { state.autoSaveEnabled = action.payload; },
     setAutoSaveDelay(state, action: PayloadAction<number>) { state.autoSaveDelay = action.payload; },
 
@@ -203,6 +252,35 @@ const mapSlice = createSlice({
       state.mapData.assets = action.payload;
       state.isDirty = true;
     },
+
+    // Spawn point / teleport destination actions
+    addSpawnPoint(state, action: PayloadAction<SpawnPoint>) {
+      if (state.mapData) {
+        if (!state.mapData.spawnPoints) {
+          state.mapData.spawnPoints = [];
+        }
+        state.mapData.spawnPoints.push(action.payload);
+        state.isDirty = true;
+      }
+    },
+    updateSpawnPoint(state, action: PayloadAction<{ id: string; updates: Partial<SpawnPoint> }>) {
+      if (!state.mapData || !state.mapData.spawnPoints) return;
+      const idx = state.mapData.spawnPoints.findIndex(s => s.id === action.payload.id);
+      if (idx !== -1) {
+        Object.assign(state.mapData.spawnPoints[idx], action.payload.updates);
+        state.isDirty = true;
+      }
+    },
+    removeSpawnPoint(state, action: PayloadAction<string>) {
+      if (!state.mapData || !state.mapData.spawnPoints) return;
+      state.mapData.spawnPoints = state.mapData.spawnPoints.filter(s => s.id !== action.payload);
+      state.isDirty = true;
+    },
+    setSpawnPoints(state, action: PayloadAction<SpawnPoint[]>) {
+      if (!state.mapData) return;
+      state.mapData.spawnPoints = action.payload;
+      state.isDirty = true;
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -214,6 +292,7 @@ const mapSlice = createSlice({
         state.mapData = action.payload;
         state.lastSaved = action.payload?.lastModified ?? new Date();
         state.isDirty = false;
+        state.saveConflict = null;
         state.isLoading = false;
         state.isInitializing = false;
       })
@@ -228,12 +307,21 @@ const mapSlice = createSlice({
       })
       .addCase(saveMap.fulfilled, (state, action) => {
         state.lastSaved = action.payload.when;
+        if (state.mapData) {
+          state.mapData.version = action.payload.version;
+        }
         state.isDirty = false;
+        state.saveConflict = null;
         state.isLoading = false;
       })
       .addCase(saveMap.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.error.message || 'Failed to save map';
+        if (action.payload) {
+          state.saveConflict = action.payload;
+          state.error = 'The map was changed by someone else since you loaded it';
+        } else {
+          state.error = action.error.message || 'Failed to save map';
+        }
       })
 
       .addCase(resetMap.pending, (state) => {
@@ -251,6 +339,21 @@ const mapSlice = createSlice({
         state.error = action.error.message || 'Failed to reset map';
       })
 
+      .addCase(loadWorldRoomMap.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadWorldRoomMap.fulfilled, (state, action) => {
+        state.mapData = action.payload;
+        state.lastSaved = action.payload?.lastModified ?? new Date();
+        state.isDirty = false;
+        state.isLoading = false;
+      })
+      .addCase(loadWorldRoomMap.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.error.message || 'Failed to load room map';
+      })
+
       .addCase(importMap.pending, (state) => {
         state.isLoading = true;
         state.error = null;
@@ -266,6 +369,21 @@ const mapSlice = createSlice({
         state.error = action.error.message || 'Failed to import map';
       })
 
+      .addCase(importTiledMap.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(importTiledMap.fulfilled, (state, action) => {
+        state.mapData = action.payload.mapData;
+        state.lastSaved = action.payload.mapData.lastModified;
+        state.isDirty = false;
+        state.isLoading = false;
+      })
+      .addCase(importTiledMap.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.error.message || 'Failed to import Tiled map';
+      })
+
       .addCase(restoreFromBackup.pending, (state) => {
         state.isLoading = true;
         state.error = null;
@@ -319,6 +437,9 @@ export const {
   clearError,
   markDirty,
   markClean,
+  clearSaveConflict,
+  rebaseMap,
+  setMapVersion,
   setAutoSaveEnabled,
   setAutoSaveDelay,
   setWorldDimensions,
@@ -337,6 +458,10 @@ export const {
   updateAsset,
   removeAsset,
   setAssets,
+  addSpawnPoint,
+  updateSpawnPoint,
+  removeSpawnPoint,
+  setSpawnPoints,
 } = mapSlice.actions;
 
 export default mapSlice.reducer;
@@ -0,0 +1,332 @@
+import { io, Socket } from 'socket.io-client';
+import { API_CONFIG } from '../shared/constants';
+import { logger } from '../shared/logger';
+import { getAccessToken } from './api/authTokens';
+
+export type MapOperationCollection = 'areas' | 'collisions' | 'assets' | 'spawnPoints';
+export type MapOperationType = 'add' | 'update' | 'remove';
+
+// One shape edit - the server orders them and applies them to the map
+export interface MapOperation {
+  opId: string;
+  collection: MapOperationCollection;
+  type: MapOperationType;
+  id: string;
+  item?: Record<string, unknown>;  // Full shape for add/update
+}
+
+// An operation as broadcast by the server, numbered in the order it was applied
+export interface SequencedMapOperation extends MapOperation {
+  seq: number;
+  authorSocketId: string;
+  authorName: string;
+}
+
+export interface MapEditor {
+  socketId: string;
+  userId: string | null;
+  name: string;
+  color: string;
+  cursor: { x: number; y: number } | null;  // World coordinates
+  selection: string[];
+}
+
+// A shape selected by an editor - only they can change it
+export interface MapShapeLock {
+  shapeId: string;
+  socketId: string;
+  name: string;
+  color: string;
+}
+
+export interface MapSessionState {
+  roomId: string;
+  socketId: string;
+  seq: number;
+  version: number;
+  shapes: {
+    interactiveAreas: Record<string, unknown>[];
+    impassableAreas: Record<string, unknown>[];
+    assets: Record<string, unknown>[];
+    spawnPoints: Record<string, unknown>[];
+  };
+  editors: MapEditor[];
+  locks: MapShapeLock[];
+}
+
+// One of our operations the server did not apply; item is the shape as the server has it (null if removed)
+export interface MapOperationRejection {
+  roomId: string;
+  opId: string;
+  collection: MapOperationCollection;
+  id: string;
+  reason: 'locked' | 'missing';
+  lockedBy?: string;
+  item: Record<string, unknown> | null;
+}
+
+// Event callbacks
+export interface MapCollaborationCallbacks {
+  // Full session state - on join and whenever the server's copy was replaced
+  onState: (state: MapSessionState) => void;
+  // Operations from other editors (ours are confirmed silently)
+  onOperations: (ops: SequencedMapOperation[]) => void;
+  onRejected: (rejection: MapOperationRejection) => void;
+  onEditorJoined: (editor: MapEditor) => void;
+  onEditorLeft: (socketId: string) => void;
+  onCursor: (socketId: string, cursor: MapEditor['cursor']) => void;
+  onSelection: (socketId: string, selection: string[]) => void;
+  onLocks: (locks: MapShapeLock[]) => void;
+  onSaved?: (version: number) => void;
+  onEnded?: (reason: string) => void;
+  onError?: (error: string) => void;
+}
+
+/**
+ * MapCollaborationSocketService - Singleton for the live map editing session
+ *
+ * Responsibilities:
+ * - Join the editing session of a map and rejoin after reconnecting
+ * - Send shape operations and match the server's echo of them
+ * - Resync when an operation was missed (sequence gap)
+ * - Send cursor (throttled) and selection
+ */
+export class MapCollaborationSocketService {
+  private static instance: MapCollaborationSocketService;
+  private socket: Socket | null = null;
+  private callbacks: MapCollaborationCallbacks | null = null;
+  private roomId: string | null = null;
+  private lastSeq: number = 0;
+  private awaitingState: boolean = false;
+  private nextOpId: number = 0;
+  // Our operations not yet echoed by the server, and the shapes they touch
+  private pendingOps: Map<string, string> = new Map();
+  private pendingShapes: Map<string, number> = new Map();
+  private cursorRateHz: number = 20;
+  private pendingCursor: MapEditor['cursor'] | undefined = undefined;
+  private cursorTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  public static getInstance(): MapCollaborationSocketService {
+    if (!MapCollaborationSocketService.instance) {
+      MapCollaborationSocketService.instance = new MapCollaborationSocketService();
+    }
+    return MapCollaborationSocketService.instance;
+  }
+
+  /**
+   * Join the editing session of a map (connects on first use)
+   */
+  public join(roomId: string, callbacks: MapCollaborationCallbacks): void {
+    this.callbacks = callbacks;
+    this.roomId = roomId;
+
+    if (!this.socket) {
+      this.socket = io(API_CONFIG.SOCKET_URL, {
+        // Evaluated on every (re)connect so a refreshed access token is used
+        auth: (cb) => {
+          getAccessToken().then((token) => cb({ token }));
+        },
+        transports: ['websocket', 'polling'],
+        reconnection: true,
+        reconnectionAttempts: 10,
+        reconnectionDelay: 1000,
+      });
+      this.setupEventListeners();
+      logger.info('[MapCollaboration] Initialized socket connection');
+    }
+
+    if (this.socket.connected) {
+      this.requestState();
+    }
+  }
+
+  /**
+   * Leave the session and close the connection
+   */
+  public leave(): void {
+    if (this.socket) {
+      this.socket.emit('map:session:leave');
+      this.socket.disconnect();
+      this.socket = null;
+    }
+    if (this.cursorTimer) {
+      clearTimeout(this.cursorTimer);
+      this.cursorTimer = null;
+    }
+    this.callbacks = null;
+    this.roomId = null;
+    this.resetPending();
+    logger.info('[MapCollaboration] Left editing session');
+  }
+
+  private setupEventListeners(): void {
+    if (!this.socket) return;
+
+    this.socket.on('connect', () => {
+      logger.info('[MapCollaboration] Connected to server');
+      // Also rejoins after a reconnect - the server forgot us when we disconnected
+      if (this.roomId) {
+        this.requestState();
+      }
+    });
+
+    this.socket.on('disconnect', () => {
+      logger.warn('[MapCollaboration] Disconnected from server');
+    });
+
+    this.socket.on('map:session:state', (state: MapSessionState) => {
+      logger.debug(`[MapCollaboration] Session state at seq ${state.seq} (${state.editors.length} editors)`);
+      this.lastSeq = state.seq;
+      this.awaitingState = false;
+      // The state already contains everything the server applied
+      this.resetPending();
+      this.callbacks?.onState(state);
+    });
+
+    this.socket.on('map:session:ops', (data: { roomId: string; ops: SequencedMapOperation[] }) => {
+      if (this.awaitingState) {
+        return;
+      }
+      const remote: SequencedMapOperation[] = [];
+      for (const op of data.ops) {
+        if (op.seq !== this.lastSeq + 1) {
+          logger.warn(`[MapCollaboration] Missed operations (expected ${this.lastSeq + 1}, got ${op.seq}) - resyncing`);
+          this.requestState();
+          return;
+        }
+        this.lastSeq = op.seq;
+
+        if (this.pendingOps.has(op.opId)) {
+          this.resolvePending(op.opId);
+        } else if (!this.pendingShapes.has(op.id)) {
+          // A shape we changed since is overwritten by our own operation, which comes later
+          remote.push(op);
+        }
+      }
+      if (remote.length > 0) {
+        this.callbacks?.onOperations(remote);
+      }
+    });
+
+    this.socket.on('map:session:rejected', (rejection: MapOperationRejection) => {
+      logger.debug(`[MapCollaboration] Operation on ${rejection.id} rejected (${rejection.reason})`);
+      this.resolvePending(rejection.opId);
+      this.callbacks?.onRejected(rejection);
+    });
+
+    this.socket.on('map:session:editor-joined', (data: { editor: MapEditor }) => {
+      this.callbacks?.onEditorJoined(data.editor);
+    });
+
+    this.socket.on('map:session:editor-left', (data: { socketId: string }) => {
+      this.callbacks?.onEditorLeft(data.socketId);
+    });
+
+    this.socket.on('map:session:cursor', (data: { socketId: string; cursor: MapEditor['cursor'] }) => {
+      this.callbacks?.onCursor(data.socketId, data.cursor);
+    });
+
+    this.socket.on('map:session:selection', (data: { socketId: string; selection: string[] }) => {
+      this.callbacks?.onSelection(data.socketId, data.selection);
+    });
+
+    this.socket.on('map:session:locks', (data: { locks: MapShapeLock[] }) => {
+      this.callbacks?.onLocks(data.locks);
+    });
+
+    this.socket.on('map:session:saved', (data: { version: number }) => {
+      this.callbacks?.onSaved?.(data.version);
+    });
+
+    this.socket.on('map:session:ended', (data: { reason: string }) => {
+      logger.info(`[MapCollaboration] Session ended: ${data.reason}`);
+      this.callbacks?.onEnded?.(data.reason);
+    });
+
+    this.socket.on('map:session:error', (data: { error: string }) => {
+      logger.warn('[MapCollaboration] Session error:', data.error);
+      this.callbacks?.onError?.(data.error);
+    });
+
+    this.socket.on('map:error', (data: { error: string }) => {
+      logger.warn('[MapCollaboration] Map error:', data.error);
+      this.callbacks?.onError?.(data.error);
+    });
+  }
+
+  // (Re)join - the server answers with the full session state
+  private requestState(): void {
+    this.awaitingState = true;
+    this.socket?.emit('map:session:join', { roomId: this.roomId });
+  }
+
+  /**
+   * Send shape operations; returns false if not in a session
+   */
+  public sendOperations(ops: Array<Omit<MapOperation, 'opId'>>): boolean {
+    if (!this.socket?.connected || !this.roomId || this.awaitingState) {
+      return false;
+    }
+    const withIds = ops.map((op) => {
+      const opId = `${this.socket!.id}-${++this.nextOpId}`;
+      this.pendingOps.set(opId, op.id);
+      this.pendingShapes.set(op.id, (this.pendingShapes.get(op.id) ?? 0) + 1);
+      return { ...op, opId };
+    });
+    this.socket.emit('map:session:ops', { roomId: this.roomId, ops: withIds });
+    return true;
+  }
+
+  /**
+   * Queue our cursor position (world coordinates, null when off the map); sent at cursorRateHz
+   */
+  public updateCursor(cursor: MapEditor['cursor']): void {
+    this.pendingCursor = cursor;
+    if (this.cursorTimer) {
+      return;
+    }
+    this.cursorTimer = setTimeout(() => {
+      this.cursorTimer = null;
+      if (this.pendingCursor !== undefined && this.socket?.connected && this.roomId) {
+        this.socket.volatile.emit('map:session:presence', { roomId: this.roomId, cursor: this.pendingCursor });
+      }
+      this.pendingCursor = undefined;
+    }, 1000 / this.cursorRateHz);
+  }
+
+  /**
+   * Report our selection - the server locks the selected shapes no one else holds
+   */
+  public updateSelection(selection: string[]): void {
+    if (this.socket?.connected && this.roomId) {
+      this.socket.emit('map:session:presence', { roomId: this.roomId, selection });
+    }
+  }
+
+  public getSocketId(): string | null {
+    return this.socket?.id ?? null;
+  }
+
+  private resolvePending(opId: string): void {
+    const shapeId = this.pendingOps.get(opId);
+    if (shapeId === undefined) {
+      return;
+    }
+    this.pendingOps.delete(opId);
+    const remaining = (this.pendingShapes.get(shapeId) ?? 1) - 1;
+    if (remaining > 0) {
+      this.pendingShapes.set(shapeId, remaining);
+    } else {
+      this.pendingShapes.delete(shapeId);
+    }
+  }
+
+  private resetPending(): void {
+    this.pendingOps.clear();
+    this.pendingShapes.clear();
+  }
+}
@@ -1,6 +1,15 @@
 import { io, Socket } from 'socket.io-client';
 import { API_CONFIG } from '../shared/constants';
 import { logger } from '../shared/logger';
+import { getAccessToken, refreshAccessToken } from './api/authTokens';
+
+// Spritesheet animation for synchronization (frame indices into the grid)
+export interface AvatarAnimationSync {
+  category: string;
+  frames: number[];
+  frameRate: number;
+  loop: boolean;
+}
 
 // Avatar data structure for synchronization between players
 export interface AvatarSyncData {
@@ -8,8 +17,24 @@ export interface AvatarSyncData {
   frameWidth: number;
   frameHeight: number;
   characterName: string;
+  animations?: AvatarAnimationSync[];
+}
+
+// Facing direction and basic movement animation (AnimationCategory values)
+export type FacingDirection = 'up' | 'down' | 'left' | 'right';
+export type MotionAnimation = 'idle' | 'walk_up' | 'walk_down' | 'walk_left' | 'walk_right';
+
+export interface PlayerMotionState {
+  direction: FacingDirection;
+  animation: MotionAnimation;
 }
 
+// Discrete player actions (Space / X / O)
+export type PlayerAction =
+  | { type: 'jump'; direction: 'left' | 'right' | 'none' }
+  | { type: 'fire'; facing: 1 | -1 }
+  | { type: 'rotate'; active: boolean };
+
 // Player data received from server
 export interface RemotePlayerData {
   playerId: string;
@@ -17,6 +42,10 @@ export interface RemotePlayerData {
   y: number;
   name: string;
   avatarData?: AvatarSyncData;
+  direction?: FacingDirection;
+  animation?: MotionAnimation;
+  rotating?: boolean;
+  isGuest?: boolean;            // Invited visitor - shown with a guest badge
 }
 
 // Server WorldPlayer format (from world-state event)
@@ -27,14 +56,95 @@ export interface ServerWorldPlayer {
   y: number;
   roomId: string;
   avatarData?: AvatarSyncData;
+  direction?: FacingDirection;
+  animation?: MotionAnimation;
+  rotating?: boolean;
+  isGuest?: boolean;            // Invited visitor - shown with a guest badge
+}
+
+// Authoritative position sent by the server when it rejects or adjusts a move
+export interface PositionCorrection {
+  playerId: string;
+  x: number;
+  y: number;
+  direction?: FacingDirection;
+  // 'restored' - spawned at the last position saved for this user in this room
+  // 'spawn' - placed on one of the map's spawn points, 'teleport' - moved by a teleport area
+  reason: 'out_of_bounds' | 'collision' | 'speed' | 'teleport_cooldown' | 'unreachable' | 'restored' | 'spawn' | 'teleport';
+}
+
+// One player's entry in a world snapshot - only fields that changed since the last one we received
+export interface SnapshotPlayerDelta {
+  id: string;
+  x?: number;
+  y?: number;
+  direction?: FacingDirection;
+  animation?: MotionAnimation;
+  rotating?: boolean;
+  teleport?: boolean;
+  // Actions performed since the previous snapshot (always sent in full)
+  actions?: PlayerAction[];
+}
+
+// Batched, delta-compressed state of the players we can see (sent once per server tick)
+export interface WorldSnapshot {
+  roomId: string;
+  seq: number;
+  tick: number;
+  serverTime: number;
+  players: SnapshotPlayerDelta[];
+}
+
+// Visibility / collision of an area or asset targeted by switches
+export interface AreaTargetState {
+  visible: boolean;
+  collidable: boolean;
+}
+
+// Shared switch and collectible state of a world room (sent on join and on every change)
+export interface AreaState {
+  roomId: string;
+  targets: Record<string, AreaTargetState>;
+  // Consumed collectibles; respawnAt is null when they never come back
+  collectibles: Record<string, { collectedBy: string; collectedAt: number; respawnAt: number | null }>;
+}
+
+// Someone in the room used a switch
+export interface SwitchToggledData {
+  roomId: string;
+  areaId: string;
+  playerId: string;
+  targets: Record<string, AreaTargetState>;
+}
+
+// The server confirmed that we picked up a collectible
+export interface CollectibleCollectedData {
+  roomId: string;
+  areaId: string;
+  effectType: string;
+  effectValue: number;
+  effectDuration: number;
+  consumable: boolean;
 }
 
 // Event callbacks
 export interface WorldSocketCallbacks {
   onPlayerJoined: (player: RemotePlayerData) => void;
-  onPlayerMoved: (data: { playerId: string; x: number; y: number }) => void;
+  onSnapshot: (snapshot: WorldSnapshot) => void;
   onPlayerLeft: (data: { playerId: string }) => void;
   onWorldState: (data: { players: ServerWorldPlayer[]; roomId: string }) => void;
+  onPositionCorrected?: (data: PositionCorrection) => void;
+  // Area of interest: a player came into / went out of our viewport
+  onPlayerEnteredInterest?: (player: RemotePlayerData) => void;
+  onPlayerLeftInterest?: (data: { playerId: string }) => void;
+  // A visible player switched character
+  onPlayerAvatarUpdated?: (data: { playerId: string; avatarData: AvatarSyncData }) => void;
+  // A teleport or portal moved us into another world room (a world-state for that room follows)
+  onRoomTransfer?: (data: { roomId: string; destinationName?: string }) => void;
+  // Switches and collectibles shared by everyone in the room
+  onAreaState?: (state: AreaState) => void;
+  onSwitchToggled?: (data: SwitchToggledData) => void;
+  onCollectibleCollected?: (data: CollectibleCollectedData) => void;
   onError?: (error: { message: string }) => void;
 }
 
@@ -57,10 +167,15 @@ export class WorldSocketService {
   private isConnected: boolean = false;
   private hasJoinedRoom: boolean = false; // Prevent duplicate join events
   private lastEmittedPosition: { x: number; y: number } = { x: 0, y: 0 };
-  private moveThrottleMs: number = 50; // Max 20 updates/second
-  private lastMoveTime: number = 0;
+  private sendRateHz: number = 15; // Position updates sent per second
+  private pendingMove: { x: number; y: number; motion?: PlayerMotionState } | null = null;
+  private lastEmittedMotion: PlayerMotionState | null = null;
+  private sendTimer: ReturnType<typeof setInterval> | null = null;
+  private lastSnapshotSeq: number = 0;
   private serverId: string | null = null;
   private connectionResolvers: Array<() => void> = [];
+  private viewport: { width: number; height: number } | null = null;
+  private viewportGranularity: number = 64; // Round reported viewports to avoid spamming during zoom tweens
 
   private constructor() {
     // Private constructor for singleton
@@ -92,6 +207,10 @@ export class WorldSocketService {
     }
 
     this.socket = io(API_CONFIG.SOCKET_URL, {
+      // Evaluated on every (re)connect so a refreshed access token is used
+      auth: (cb) => {
+        getAccessToken().then((token) => cb({ token }));
+      },
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionAttempts: 10,
@@ -125,10 +244,14 @@ export class WorldSocketService {
       }
     });
 
-    this.socket.on('disconnect', () => {
+    this.socket.on('disconnect', (reason) => {
       this.isConnected = false;
       this.hasJoinedRoom = false; // Reset so we can rejoin on reconnect
       logger.warn('[WorldSocket] Disconnected from server');
+      // The server disconnects sockets of revoked sessions - refreshing logs out if ours was revoked
+      if (reason === 'io server disconnect') {
+        refreshAccessToken();
+      }
     });
 
     // Listen for other players joining
@@ -137,9 +260,14 @@ export class WorldSocketService {
       this.callbacks?.onPlayerJoined(data);
     });
 
-    // Listen for player movement
-    this.socket.on('player-moved', (data: { playerId: string; x: number; y: number }) => {
-      this.callbacks?.onPlayerMoved(data);
+    // Listen for batched movement of visible players (one snapshot per server tick)
+    this.socket.on('world:snapshot', (data: WorldSnapshot) => {
+      if (data.seq <= this.lastSnapshotSeq) {
+        logger.debug(`[WorldSocket] Dropped stale snapshot ${data.seq} (last ${this.lastSnapshotSeq})`);
+        return;
+      }
+      this.lastSnapshotSeq = data.seq;
+      this.callbacks?.onSnapshot(data);
     });
 
     // Listen for players leaving
@@ -148,12 +276,63 @@ export class WorldSocketService {
       this.callbacks?.onPlayerLeft(data);
     });
 
+    // Area of interest: players moving into / out of our viewport
+    this.socket.on('player-entered-interest', (data: RemotePlayerData) => {
+      logger.debug('[WorldSocket] Player entered interest:', data.playerId);
+      this.callbacks?.onPlayerEnteredInterest?.(data);
+    });
+
+    this.socket.on('player-left-interest', (data: { playerId: string }) => {
+      logger.debug('[WorldSocket] Player left interest:', data.playerId);
+      this.callbacks?.onPlayerLeftInterest?.(data);
+    });
+
+    // Listen for visible players switching character
+    this.socket.on('player-avatar-updated', (data: { playerId: string; avatarData: AvatarSyncData }) => {
+      logger.debug('[WorldSocket] Player avatar updated:', data.playerId);
+      this.callbacks?.onPlayerAvatarUpdated?.(data);
+    });
+
+    // A teleport or portal moved us to another world room - the server already switched our socket room
+    this.socket.on('world:room-transfer', (data: { roomId: string; destinationName?: string }) => {
+      logger.info(`[WorldSocket] Transferred to room ${data.roomId}`);
+      this.currentRoomId = data.roomId;
+      this.pendingMove = null;
+      // The server starts a new snapshot stream for the new room
+      this.lastSnapshotSeq = 0;
+      this.callbacks?.onRoomTransfer?.(data);
+    });
+
+    // Switch targets and collected collectibles of the room
+    this.socket.on('area-state', (state: AreaState) => {
+      logger.debug(`[WorldSocket] Area state for ${state.roomId}`);
+      this.callbacks?.onAreaState?.(state);
+    });
+
+    this.socket.on('switch-toggled', (data: SwitchToggledData) => {
+      logger.debug(`[WorldSocket] Switch ${data.areaId} toggled by ${data.playerId}`);
+      this.callbacks?.onSwitchToggled?.(data);
+    });
+
+    this.socket.on('collectible-collected', (data: CollectibleCollectedData) => {
+      logger.debug(`[WorldSocket] Collected ${data.areaId}`);
+      this.callbacks?.onCollectibleCollected?.(data);
+    });
+
     // Receive world state (existing players when joining)
     this.socket.on('world-state', (data: { players: ServerWorldPlayer[]; roomId: string }) => {
       logger.debug(`[WorldSocket] Received world state: ${data.players.length} players`);
       this.callbacks?.onWorldState(data);
     });
 
+    // Server rejected or adjusted our last move - snap to its authoritative position
+    this.socket.on('player-position-corrected', (data: PositionCorrection) => {
+      logger.debug(`[WorldSocket] Position corrected (${data.reason}) to (${data.x}, ${data.y})`);
+      this.lastEmittedPosition = { x: data.x, y: data.y };
+      this.pendingMove = null;
+      this.callbacks?.onPositionCorrected?.(data);
+    });
+
     // Error handling
     this.socket.on('error', (error: { message: string }) => {
       logger.error('[WorldSocket] Error:', error);
@@ -215,7 +394,13 @@ export class WorldSocketService {
     this.currentPlayerName = name || playerId;
     this.currentRoomId = roomId;
     this.lastEmittedPosition = { x, y };
+    this.lastEmittedMotion = null;
+    this.pendingMove = null;
     this.hasJoinedRoom = true;
+    // The server keys world players by the playerId we join with
+    this.serverId = playerId;
+    // The server starts a new snapshot stream for every join
+    this.lastSnapshotSeq = 0;
 
     this.socket.emit('player-joined-world', {
       playerId,
@@ -224,31 +409,166 @@ export class WorldSocketService {
       y,
       roomId,
       avatarData,
+      viewport: this.viewport ?? undefined,
     });
 
     logger.info(`[WorldSocket] Joined world room: ${roomId} as ${this.currentPlayerName} at (${x}, ${y})`);
   }
 
   /**
-   * Emit player movement (throttled)
+   * Queue player movement and animation state; the latest is sent at a fixed rate (sendRateHz)
    */
-  public emitMove(x: number, y: number): void {
+  public emitMove(x: number, y: number, motion?: PlayerMotionState): void {
     if (!this.socket || !this.isConnected || !this.serverId) return;
 
-    const now = Date.now();
-    if (now - this.lastMoveTime < this.moveThrottleMs) return;
+    this.pendingMove = { x, y, motion };
+    if (!this.sendTimer) {
+      this.sendTimer = setInterval(() => this.flushMove(), 1000 / this.sendRateHz);
+    }
+  }
+
+  /**
+   * Send the queued position if it changed since the last send
+   */
+  private flushMove(): void {
+    if (!this.pendingMove || !this.socket || !this.isConnected || !this.serverId) return;
+
+    const { x, y, motion } = this.pendingMove;
+    this.pendingMove = null;
 
-    // Only emit if position actually changed
-    if (x === this.lastEmittedPosition.x && y === this.lastEmittedPosition.y) return;
+    // Only emit if position or animation state actually changed
+    const motionChanged = !!motion && (
+      motion.direction !== this.lastEmittedMotion?.direction ||
+      motion.animation !== this.lastEmittedMotion?.animation
+    );
+    if (x === this.lastEmittedPosition.x && y === this.lastEmittedPosition.y && !motionChanged) return;
 
-    this.lastMoveTime = now;
     this.lastEmittedPosition = { x, y };
+    if (motion) {
+      this.lastEmittedMotion = { ...motion };
+    }
 
     this.socket.emit('player-moved', {
       playerId: this.serverId,
       x,
       y,
       roomId: this.currentRoomId,
+      direction: motion?.direction,
+      animation: motion?.animation,
+    });
+  }
+
+  /**
+   * Emit a player action (jump / fire / rotation toggle) for other players to see
+   */
+  public emitAction(action: PlayerAction): void {
+    if (!this.socket || !this.isConnected || !this.serverId) return;
+
+    // Send the queued position first so the action plays at the right spot
+    this.flushMove();
+
+    this.socket.emit('player-action', {
+      playerId: this.serverId,
+      roomId: this.currentRoomId,
+      action,
+    });
+  }
+
+  /**
+   * Report the camera viewport size (world units) so the server can scope our area of interest
+   */
+  public setViewport(width: number, height: number): void {
+    const step = this.viewportGranularity;
+    const rounded = {
+      width: Math.ceil(width / step) * step,
+      height: Math.ceil(height / step) * step,
+    };
+    if (!(rounded.width > 0) || !(rounded.height > 0)) return;
+    if (this.viewport && this.viewport.width === rounded.width && this.viewport.height === rounded.height) return;
+
+    this.viewport = rounded;
+
+    // Before joining, the viewport is sent with the join payload instead
+    if (!this.socket || !this.isConnected || !this.serverId || !this.hasJoinedRoom) return;
+
+    this.socket.emit('player-viewport', {
+      playerId: this.serverId,
+      roomId: this.currentRoomId,
+      width: rounded.width,
+      height: rounded.height,
+    });
+  }
+
+  /**
+   * Emit an explicit teleport (double-click); the server validates the target is walkable
+   */
+  public emitTeleport(x: number, y: number): void {
+    if (!this.socket || !this.isConnected || !this.serverId) return;
+
+    this.lastEmittedPosition = { x, y };
+    this.pendingMove = null;
+
+    this.socket.emit('player-teleport', {
+      playerId: this.serverId,
+      x,
+      y,
+      roomId: this.currentRoomId,
+    });
+  }
+
+  /**
+   * Ask the server to teleport us through a teleport area; it resolves the destination
+   */
+  public emitTeleportToDestination(areaId: string): void {
+    if (!this.socket || !this.isConnected || !this.serverId) return;
+
+    this.pendingMove = null;
+
+    this.socket.emit('player-teleport-destination', {
+      playerId: this.serverId,
+      roomId: this.currentRoomId,
+      areaId,
+    });
+  }
+
+  /**
+   * Ask the server to move us through a portal area into its target room
+   */
+  public emitPortal(areaId: string): void {
+    if (!this.socket || !this.isConnected || !this.serverId) return;
+
+    this.pendingMove = null;
+
+    this.socket.emit('player-portal', {
+      playerId: this.serverId,
+      roomId: this.currentRoomId,
+      areaId,
+    });
+  }
+
+  /**
+   * Ask the server to toggle a switch area for the whole room
+   */
+  public emitSwitch(areaId: string): void {
+    if (!this.socket || !this.isConnected || !this.serverId) return;
+
+    this.socket.emit('player-switch', {
+      playerId: this.serverId,
+      roomId: this.currentRoomId,
+      areaId,
+    });
+  }
+
+  /**
+   * Ask the server to let us pick up a collectible (it confirms with collectible-collected)
+   */
+  public emitCollect(areaId: string): void {
+    if (!this.socket || !this.isConnected || !this.serverId) return;
+
+    this.socket.emit('player-collect', {
+      playerId: this.serverId,
+      roomId: this.currentRoomId,
+      areaId,
     });
   }
 
@@ -271,6 +591,7 @@ export class WorldSocketService {
    * Leave current world room
    */
   public leaveWorld(): void {
+    this.stopSendLoop();
     this.currentPlayerId = '';
     this.currentRoomId = '';
     logger.info('[WorldSocket] Left world room');
@@ -280,6 +601,7 @@ export class WorldSocketService {
    * Disconnect socket entirely
    */
   public disconnect(): void {
+    this.stopSendLoop();
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
@@ -288,6 +610,14 @@ export class WorldSocketService {
     }
   }
 
+  private stopSendLoop(): void {
+    if (this.sendTimer) {
+      clearInterval(this.sendTimer);
+      this.sendTimer = null;
+    }
+    this.pendingMove = null;
+  }
+
   /**
    * Check if connected
    */
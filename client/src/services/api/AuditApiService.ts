@@ -0,0 +1,86 @@
+/**
+ * Audit API Service
+ *
+ * Provides API methods for the audit log (admin only): listing and exporting
+ * who logged in, edited maps, deleted assets or moderated chat.
+ */
+
+import { apiFetch, apiConfig, ApiResponse } from './apiClient';
+import { getAccessToken } from './authTokens';
+
+export interface AuditEvent {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  action: string;          // e.g. 'auth.login', 'map.update', 'chat.message.delete'
+  targetType: string;
+  targetId: string | null;
+  roomId: string | null;
+  ip: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  action?: string;       // Exact action, or a prefix ending in '.' (e.g. 'map.')
+  actorName?: string;
+  targetType?: string;
+  targetId?: string;
+  roomId?: string;
+  from?: string;         // ISO date
+  to?: string;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type AuditExportFormat = 'csv' | 'json';
+
+function toQuery(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  });
+  return query.toString();
+}
+
+/**
+ * Audit API Service - handles audit log calls
+ */
+export const AuditApiService = {
+  /**
+   * List audit events, newest first
+   */
+  async listEvents(filters: AuditEventFilters, page: number = 1, pageSize: number = 50): Promise<ApiResponse<AuditEventPage>> {
+    return apiFetch<AuditEventPage>(`/api/admin/audit-events?${toQuery({ ...filters, page, pageSize })}`);
+  },
+
+  /**
+   * Download matching audit events as a CSV or JSON file
+   */
+  async exportEvents(filters: AuditEventFilters, format: AuditExportFormat): Promise<ApiResponse<Blob>> {
+    try {
+      const token = await getAccessToken();
+      const response = await fetch(`${apiConfig.baseUrl}/api/admin/audit-events/export?${toQuery({ ...filters, format })}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) {
+        return { success: false, error: `HTTP ${response.status}` };
+      }
+      return { success: true, data: await response.blob() };
+    } catch (error) {
+      return { success: false, error: 'Export failed' };
+    }
+  },
+};
+
+// Default export for convenience
+export default AuditApiService;
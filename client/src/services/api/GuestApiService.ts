@@ -0,0 +1,91 @@
+/**
+ * Guest API Service
+ *
+ * Provides API methods for guest invites: room admins create invite links to
+ * a world room; visitors look them up before joining as a guest.
+ */
+
+import { apiFetch, ApiResponse } from './apiClient';
+
+export interface RoomInvite {
+  id: string;
+  token: string;
+  roomId: string;
+  createdByName: string | null;
+  maxUses: number;
+  uses: number;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface RoomInviteInput {
+  expiresInHours?: number;
+  maxUses?: number;
+}
+
+// What a visitor sees before joining
+export interface InviteInfo {
+  roomId: string;
+  roomName: string;
+  expiresAt: string;
+}
+
+// Query parameter carrying the invite token in invite links
+export const INVITE_QUERY_PARAM = 'invite';
+
+/**
+ * Link visitors open to join with an invite
+ */
+export function getInviteUrl(token: string): string {
+  return `${window.location.origin}/?${INVITE_QUERY_PARAM}=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Check if an invite can still be redeemed
+ */
+export function isInviteActive(invite: RoomInvite): boolean {
+  return !invite.revokedAt && new Date(invite.expiresAt) > new Date() && invite.uses < invite.maxUses;
+}
+
+/**
+ * Guest API Service - handles invite calls
+ */
+export const GuestApiService = {
+  /**
+   * List a world room's invites, newest first (room admin)
+   */
+  async listInvites(roomId: string): Promise<ApiResponse<RoomInvite[]>> {
+    return apiFetch<RoomInvite[]>(`/api/world-rooms/${encodeURIComponent(roomId)}/invites`);
+  },
+
+  /**
+   * Create an invite link to a world room (room admin)
+   */
+  async createInvite(roomId: string, input: RoomInviteInput): Promise<ApiResponse<RoomInvite>> {
+    return apiFetch<RoomInvite>(`/api/world-rooms/${encodeURIComponent(roomId)}/invites`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  },
+
+  /**
+   * Revoke an invite; returns the room's remaining invites (room admin)
+   */
+  async revokeInvite(roomId: string, inviteId: string): Promise<ApiResponse<RoomInvite[]>> {
+    return apiFetch<RoomInvite[]>(
+      `/api/world-rooms/${encodeURIComponent(roomId)}/invites/${encodeURIComponent(inviteId)}`,
+      { method: 'DELETE' }
+    );
+  },
+
+  /**
+   * Look up an invite before joining (no login needed)
+   */
+  async getInvite(token: string): Promise<ApiResponse<InviteInfo>> {
+    return apiFetch<InviteInfo>(`/api/auth/invites/${encodeURIComponent(token)}`);
+  },
+};
+
+// Default export for convenience
+export default GuestApiService;
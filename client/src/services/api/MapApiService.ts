@@ -16,19 +16,47 @@ import type {
   UrlActionConfig,
   ModalActionConfig,
   JitsiActionConfig,
+  SpawnPoint,
 } from '../../shared/MapDataContext';
 
 // Types matching server schema
+// A variant the server generated from a stored image (WebP full size, thumbnail, downscaled)
+export interface MapAssetVariant {
+  file: string;
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  fileSize: number;
+}
+
+// Spritesheet of an animated image - frames in a grid of `columns`, delays in ms
+export interface MapAssetAnimation {
+  frameCount: number;
+  frameWidth: number;
+  frameHeight: number;
+  columns: number;
+  delays: number[];
+  loop: number;
+  spritesheet: string;
+  spritesheetUrl: string;
+}
+
+// A stored map image - files are named by content hash, so an image is stored once per map
 export interface MapAsset {
   id: string;
-  filename: string;
-  originalName: string;
-  path: string;
-  url: string;
-  size: number;
+  mapId: string;
+  name: string;
+  filePath: string;
+  fileUrl: string;  // What map data refers to the image by
+  fileSize: number;
   mimeType: string;
+  width?: number;
+  height?: number;
+  variants: Record<string, MapAssetVariant>;  // 'full', 'thumbnail', 'scaled-<size>'
+  animation: MapAssetAnimation | null;
   metadata?: Record<string, unknown>;
-  uploadedAt: string;
+  createdAt: string;
 }
 
 export type {
@@ -66,6 +94,7 @@ export interface MapData {
   interactiveAreas: InteractiveArea[];
   impassableAreas: ImpassableArea[];
   assets?: MapAsset[];
+  spawnPoints?: SpawnPoint[];
   metadata?: {
     name?: string;
     description?: string;
@@ -79,6 +108,88 @@ export interface MapWithMeta extends MapData {
   assets: MapAsset[];
 }
 
+// A saved version of a map (newest first in the history)
+export interface MapRevision {
+  version: number;
+  kind: 'full' | 'delta';     // Stored as the complete map or as changes to the version before
+  authorId: string | null;
+  authorName: string | null;
+  message: string | null;
+  createdAt: string;
+}
+
+export interface MapRevisionWithData extends MapRevision {
+  data: MapData;
+}
+
+export interface MapItemRef {
+  id: string;
+  name?: string;
+}
+
+export interface MapCollectionDiff {
+  added: MapItemRef[];
+  removed: MapItemRef[];
+  changed: Array<MapItemRef & { fields: string[] }>;
+}
+
+// Structured diff between two versions of a map
+export interface MapDiff {
+  fromVersion: number;
+  toVersion: number;
+  areas: MapCollectionDiff;
+  collisions: MapCollectionDiff;
+  assets: MapCollectionDiff;
+  spawnPoints: MapCollectionDiff;
+  properties: string[];       // Other changed fields, e.g. worldDimensions, backgroundImage
+}
+
+export type MapMergeSection = 'areas' | 'collisions' | 'assets' | 'spawnPoints' | 'properties';
+
+// An item (or map field, for 'properties') changed both in your save and by someone else
+export interface MapMergeConflict extends MapItemRef {
+  section: MapMergeSection;
+  reason: 'both-changed' | 'removed-by-you' | 'removed-by-them';
+}
+
+// Sent with a 409 when the map was saved by someone else after it was loaded
+export interface MapSaveConflict {
+  baseVersion: number;
+  currentVersion: number;
+  merged: MapData | null;      // Current map plus your non-conflicting changes (null if it can't be merged)
+  conflicts: MapMergeConflict[];
+}
+
+export interface MapSaveResponse extends ApiResponse<MapData> {
+  conflict?: MapSaveConflict;
+}
+
+// A saved map ('map') or some of its shapes ('selection') new maps can start from
+export interface MapTemplate {
+  id: string;
+  name: string;
+  description: string;
+  kind: 'map' | 'selection';
+  thumbnailUrl: string | null;
+  sourceRoomId: string | null;
+  createdByName: string | null;
+  counts: { interactiveAreas: number; impassableAreas: number; assets: number; spawnPoints: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MapTemplateWithData extends MapTemplate {
+  data: MapData;
+}
+
+export interface CreateMapTemplateInput {
+  name: string;
+  description?: string;
+  sourceRoomId?: string;   // Saves this room's current map unless data is given
+  data?: Partial<MapData>;
+  shapeIds?: string[];     // Only these areas, collisions, assets and spawn points
+}
+
 /**
  * Map API Service - handles all map-related API calls
  */
@@ -115,10 +226,12 @@ export const MapApiService = {
   },
 
   /**
-   * Update existing map (auto-increments version)
+   * Update existing map (auto-increments version).
+   * With a base version the save is rejected with a conflict if someone else saved since.
    */
-  async saveMap(roomId: string, data: Partial<MapData>): Promise<ApiResponse<MapData>> {
-    return apiFetch<MapData>(`/api/maps/${roomId}`, {
+  async saveMap(roomId: string, data: Partial<MapData>, baseVersion?: number): Promise<MapSaveResponse> {
+    const query = baseVersion !== undefined ? `?baseVersion=${baseVersion}` : '';
+    return apiFetch<MapData>(`/api/maps/${roomId}${query}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
@@ -141,7 +254,7 @@ export const MapApiService = {
   },
 
   /**
-   * Upload a map asset (image, etc.)
+   * Upload a map asset (image, etc.) - uploading an image the map already has returns the existing asset
    */
   async uploadAsset(
     roomId: string,
@@ -160,6 +273,88 @@ export const MapApiService = {
     });
   },
 
+  /**
+   * List a map's saved versions, newest first (pass the oldest loaded version as `before` for more)
+   */
+  async listRevisions(roomId: string, options: { limit?: number; before?: number } = {}): Promise<ApiResponse<MapRevision[]>> {
+    const params = new URLSearchParams();
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.before) params.set('before', String(options.before));
+    const query = params.toString();
+    return apiFetch<MapRevision[]>(`/api/maps/${roomId}/revisions${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Get one saved version with its map data
+   */
+  async getRevision(roomId: string, version: number): Promise<ApiResponse<MapRevisionWithData>> {
+    return apiFetch<MapRevisionWithData>(`/api/maps/${roomId}/revisions/${version}`);
+  },
+
+  /**
+   * Diff a version against another (defaults to the version before it)
+   */
+  async diffRevision(roomId: string, version: number, fromVersion?: number): Promise<ApiResponse<MapDiff>> {
+    const query = fromVersion !== undefined ? `?from=${fromVersion}` : '';
+    return apiFetch<MapDiff>(`/api/maps/${roomId}/revisions/${version}/diff${query}`);
+  },
+
+  /**
+   * Restore an earlier version - saved as a new version
+   */
+  async restoreRevision(roomId: string, version: number): Promise<ApiResponse<MapData>> {
+    return apiFetch<MapData>(`/api/maps/${roomId}/revisions/${version}/restore`, {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * List map templates, newest first
+   */
+  async listTemplates(): Promise<ApiResponse<MapTemplate[]>> {
+    return apiFetch<MapTemplate[]>('/api/map-templates');
+  },
+
+  /**
+   * Save a map or some of its shapes as a template (the server renders its thumbnail)
+   */
+  async createTemplate(input: CreateMapTemplateInput): Promise<ApiResponse<MapTemplateWithData>> {
+    return apiFetch<MapTemplateWithData>('/api/map-templates', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  },
+
+  /**
+   * Delete a map template
+   */
+  async deleteTemplate(templateId: string): Promise<ApiResponse<void>> {
+    return apiFetch<void>(`/api/map-templates/${templateId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Put a template into a room's map - replace the map, or append the template's shapes
+   * (the default for selections). Saved as a new version.
+   */
+  async applyTemplate(roomId: string, templateId: string, mode?: 'replace' | 'append'): Promise<ApiResponse<MapData>> {
+    return apiFetch<MapData>(`/api/maps/${roomId}/from-template`, {
+      method: 'POST',
+      body: JSON.stringify({ templateId, mode }),
+    });
+  },
+
+  /**
+   * Replace a room's map with a copy of another room's map, including its assets
+   */
+  async cloneMap(roomId: string, sourceRoomId: string): Promise<ApiResponse<MapData>> {
+    return apiFetch<MapData>(`/api/maps/${roomId}/clone`, {
+      method: 'POST',
+      body: JSON.stringify({ sourceRoomId }),
+    });
+  },
+
   /**
    * Export map as JSON string (client-side utility)
    */
@@ -0,0 +1,104 @@
+/**
+ * Role API Service
+ *
+ * Provides API methods for roles: the caller's permissions and, for admins,
+ * granting global and per-room roles.
+ */
+
+import { apiFetch, ApiResponse } from './apiClient';
+
+// Lowest to highest - each role can do everything the roles before it can
+export const USER_ROLES = ['guest', 'member', 'editor', 'admin', 'owner'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Global role plus roles in individual world rooms (keyed by world room ID)
+export interface UserPermissions {
+  role: UserRole;
+  roomRoles: Record<string, UserRole>;
+}
+
+export interface UserRoleData extends UserPermissions {
+  id: string;
+  username: string;
+  email: string;
+}
+
+export interface RoomMember {
+  userId: string;
+  username: string;
+  role: UserRole;
+}
+
+/**
+ * Check if a role grants at least the required role
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * Get a user's effective role, in a world room if given (the higher of the global and room role)
+ */
+export function getEffectiveRole(permissions: UserPermissions, worldRoomId?: string): UserRole {
+  const roomRole = worldRoomId ? permissions.roomRoles[worldRoomId] : undefined;
+  return roomRole && hasRole(roomRole, permissions.role) ? roomRole : permissions.role;
+}
+
+/**
+ * Role API Service - handles role calls
+ */
+export const RoleApiService = {
+  /**
+   * Get the current user's roles
+   */
+  async getMyPermissions(): Promise<ApiResponse<UserPermissions>> {
+    return apiFetch<UserPermissions>('/api/me/permissions');
+  },
+
+  /**
+   * List users with their roles (admin only)
+   */
+  async listUsers(): Promise<ApiResponse<UserRoleData[]>> {
+    return apiFetch<UserRoleData[]>('/api/admin/users');
+  },
+
+  /**
+   * Change a user's global role (admin only)
+   */
+  async setUserRole(userId: string, role: UserRole): Promise<ApiResponse<UserPermissions>> {
+    return apiFetch<UserPermissions>(`/api/admin/users/${encodeURIComponent(userId)}/role`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  },
+
+  /**
+   * List users with a role in a world room (room admins)
+   */
+  async listRoomMembers(roomId: string): Promise<ApiResponse<RoomMember[]>> {
+    return apiFetch<RoomMember[]>(`/api/world-rooms/${encodeURIComponent(roomId)}/members`);
+  },
+
+  /**
+   * Grant a user a role in a world room (room admins)
+   */
+  async setRoomRole(roomId: string, userId: string, role: UserRole): Promise<ApiResponse<RoomMember[]>> {
+    return apiFetch<RoomMember[]>(`/api/world-rooms/${encodeURIComponent(roomId)}/members/${encodeURIComponent(userId)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  },
+
+  /**
+   * Remove a user's role in a world room (room admins)
+   */
+  async removeRoomRole(roomId: string, userId: string): Promise<ApiResponse<RoomMember[]>> {
+    return apiFetch<RoomMember[]>(`/api/world-rooms/${encodeURIComponent(roomId)}/members/${encodeURIComponent(userId)}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+// Default export for convenience
+export default RoleApiService;
@@ -0,0 +1,53 @@
+/**
+ * Session API Service
+ *
+ * Provides API methods for the signed-in user's active sessions (logged-in
+ * devices): listing them and logging devices out.
+ */
+
+import { apiFetch, ApiResponse } from './apiClient';
+
+export interface Session {
+  id: string;
+  deviceName: string;   // e.g. 'Firefox on macOS'
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;     // The session this device is using
+}
+
+/**
+ * Session API Service - handles session management calls
+ */
+export const SessionApiService = {
+  /**
+   * List active sessions, most recently seen first
+   */
+  async listSessions(): Promise<ApiResponse<Session[]>> {
+    return apiFetch<Session[]>('/api/auth/sessions');
+  },
+
+  /**
+   * Log out one device
+   */
+  async revokeSession(sessionId: string): Promise<ApiResponse<void>> {
+    return apiFetch<void>(`/api/auth/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+  },
+
+  /**
+   * Log out every device except this one
+   */
+  async revokeOtherSessions(): Promise<ApiResponse<{ revoked: number }>> {
+    return apiFetch<{ revoked: number }>('/api/auth/sessions/revoke-others', { method: 'POST' });
+  },
+
+  /**
+   * End this device's session on the server
+   */
+  async logout(): Promise<ApiResponse<void>> {
+    return apiFetch<void>('/api/auth/logout', { method: 'POST' });
+  },
+};
+
+// Default export for convenience
+export default SessionApiService;
@@ -0,0 +1,41 @@
+/**
+ * Single Sign-On API Service
+ *
+ * Provides API methods for logging in with the organization's identity
+ * provider (OpenID Connect). The login itself is a browser redirect; the
+ * server sends the browser back with a one-time code that AuthContext
+ * exchanges for a session.
+ */
+
+import { apiFetch, apiConfig, ApiResponse } from './apiClient';
+
+export interface SingleSignOnConfig {
+  enabled: boolean;
+  providerName: string | null;  // Shown on the login button
+}
+
+// Query parameters the server redirects back to the client with
+export const SSO_CODE_PARAM = 'sso_code';
+export const SSO_ERROR_PARAM = 'sso_error';
+
+/**
+ * Single Sign-On API Service - handles identity provider login calls
+ */
+export const SingleSignOnApiService = {
+  /**
+   * Whether single sign-on is configured on the server
+   */
+  async getConfig(): Promise<ApiResponse<SingleSignOnConfig>> {
+    return apiFetch<SingleSignOnConfig>('/api/auth/oidc/config');
+  },
+
+  /**
+   * URL that starts a login at the identity provider (navigate the browser there)
+   */
+  getLoginUrl(): string {
+    return `${apiConfig.baseUrl}/api/auth/oidc/login`;
+  },
+};
+
+// Default export for convenience
+export default SingleSignOnApiService;
@@ -0,0 +1,123 @@
+/**
+ * Two-Factor API Service
+ *
+ * Provides API methods for managing the signed-in user's second factors:
+ * authenticator apps (TOTP), passkeys (WebAuthn) and recovery codes.
+ */
+
+import { startRegistration, PublicKeyCredentialCreationOptionsJSON } from '@simplewebauthn/browser';
+import { apiFetch, ApiResponse } from './apiClient';
+
+export type TwoFactorMethod = 'ntfy' | 'totp' | 'webauthn' | 'recovery';
+
+export interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface TwoFactorStatus {
+  preferredMethod: TwoFactorMethod;
+  methods: TwoFactorMethod[];
+  ntfyTopicId: string | null;
+  totpEnabled: boolean;
+  passkeys: Passkey[];
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // QR code image (data URL) of otpauthUrl
+}
+
+// Recovery codes are only returned when they are (re)generated; empty if the user already had some
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
+
+/**
+ * Two-Factor API Service - handles 2FA settings calls
+ */
+export const TwoFactorApiService = {
+  /**
+   * Get the current user's second-factor methods
+   */
+  async getStatus(): Promise<ApiResponse<TwoFactorStatus>> {
+    return apiFetch<TwoFactorStatus>('/api/auth/2fa');
+  },
+
+  /**
+   * Choose the method logins start with
+   */
+  async setPreferredMethod(method: TwoFactorMethod): Promise<ApiResponse<TwoFactorStatus>> {
+    return apiFetch<TwoFactorStatus>('/api/auth/2fa/preferred', {
+      method: 'PUT',
+      body: JSON.stringify({ method }),
+    });
+  },
+
+  /**
+   * Start authenticator app enrollment
+   */
+  async setupTotp(): Promise<ApiResponse<TotpEnrollment>> {
+    return apiFetch<TotpEnrollment>('/api/auth/2fa/totp/setup', { method: 'POST' });
+  },
+
+  /**
+   * Confirm authenticator app enrollment with a code from the app
+   */
+  async confirmTotp(code: string): Promise<ApiResponse<RecoveryCodes>> {
+    return apiFetch<RecoveryCodes>('/api/auth/2fa/totp/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  },
+
+  /**
+   * Remove the authenticator app
+   */
+  async disableTotp(): Promise<ApiResponse<void>> {
+    return apiFetch<void>('/api/auth/2fa/totp', { method: 'DELETE' });
+  },
+
+  /**
+   * Register a passkey on this device (prompts the browser)
+   */
+  async registerPasskey(name: string): Promise<ApiResponse<RecoveryCodes>> {
+    const options = await apiFetch<PublicKeyCredentialCreationOptionsJSON>('/api/auth/2fa/webauthn/register/options', { method: 'POST' });
+    if (!options.success || !options.data) {
+      return { success: false, error: options.error };
+    }
+
+    let credential;
+    try {
+      credential = await startRegistration({ optionsJSON: options.data });
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Passkey registration was cancelled' };
+    }
+
+    return apiFetch<RecoveryCodes>('/api/auth/2fa/webauthn/register/verify', {
+      method: 'POST',
+      body: JSON.stringify({ credential, name }),
+    });
+  },
+
+  /**
+   * Remove a passkey
+   */
+  async removePasskey(passkeyId: string): Promise<ApiResponse<void>> {
+    return apiFetch<void>(`/api/auth/2fa/webauthn/${encodeURIComponent(passkeyId)}`, { method: 'DELETE' });
+  },
+
+  /**
+   * Replace the recovery codes
+   */
+  async regenerateRecoveryCodes(): Promise<ApiResponse<RecoveryCodes>> {
+    return apiFetch<RecoveryCodes>('/api/auth/2fa/recovery-codes', { method: 'POST' });
+  },
+};
+
+// Default export for convenience
+export default TwoFactorApiService;
@@ -0,0 +1,93 @@
+/**
+ * World Room API Service
+ *
+ * Provides API methods for the world room registry.
+ * Each world room (office floor) is backed by a map stored under its mapRoomId.
+ */
+
+import { apiFetch, ApiResponse } from './apiClient';
+
+export type WorldRoomVisibility = 'public' | 'private';
+
+// World room structure matching server schema
+export interface WorldRoom {
+  id: string;
+  roomId: string;      // World room ID used by sockets (e.g. 'Stargety-Oasis-1')
+  mapRoomId: string;   // Database room ID of the room's map (e.g. 'room_001')
+  name: string;
+  description: string;
+  capacity: number;
+  visibility: WorldRoomVisibility;
+  sortOrder: number;
+  archivedAt: string | null;
+  playerCount?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface WorldRoomSettings {
+  name: string;
+  description?: string;
+  capacity?: number;
+  visibility?: WorldRoomVisibility;
+}
+
+/**
+ * World Room API Service - handles world room registry calls
+ */
+export const WorldRoomApiService = {
+  /**
+   * List world rooms (public, non-archived by default)
+   */
+  async listRooms(options: { includePrivate?: boolean; includeArchived?: boolean } = {}): Promise<ApiResponse<WorldRoom[]>> {
+    const params = new URLSearchParams();
+    if (options.includePrivate) params.set('includePrivate', 'true');
+    if (options.includeArchived) params.set('includeArchived', 'true');
+    const query = params.toString();
+    return apiFetch<WorldRoom[]>(`/api/world-rooms${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Get a world room by ID (also private and archived rooms)
+   */
+  async getRoom(roomId: string): Promise<ApiResponse<WorldRoom>> {
+    return apiFetch<WorldRoom>(`/api/world-rooms/${encodeURIComponent(roomId)}`);
+  },
+
+  /**
+   * Create a world room
+   */
+  async createRoom(settings: WorldRoomSettings): Promise<ApiResponse<WorldRoom>> {
+    return apiFetch<WorldRoom>('/api/world-rooms', {
+      method: 'POST',
+      body: JSON.stringify(settings),
+    });
+  },
+
+  /**
+   * Update a world room (rename, capacity, visibility)
+   */
+  async updateRoom(roomId: string, settings: Partial<WorldRoomSettings>): Promise<ApiResponse<WorldRoom>> {
+    return apiFetch<WorldRoom>(`/api/world-rooms/${encodeURIComponent(roomId)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(settings),
+    });
+  },
+
+  /**
+   * Archive a world room (it can no longer be joined)
+   */
+  async archiveRoom(roomId: string): Promise<ApiResponse<WorldRoom>> {
+    return apiFetch<WorldRoom>(`/api/world-rooms/${encodeURIComponent(roomId)}/archive`, { method: 'POST' });
+  },
+
+  /**
+   * Restore an archived world room
+   */
+  async restoreRoom(roomId: string): Promise<ApiResponse<WorldRoom>> {
+    return apiFetch<WorldRoom>(`/api/world-rooms/${encodeURIComponent(roomId)}/restore`, { method: 'POST' });
+  },
+};
+
+// Default export for convenience
+export default WorldRoomApiService;
@@ -6,6 +6,7 @@
 
 import { API_CONFIG } from '../../shared/constants';
 import { logger } from '../../shared/logger';
+import { getAccessToken, refreshAccessToken } from './authTokens';
 
 // Base API response type
 export interface ApiResponse<T> {
@@ -21,13 +22,24 @@ export const apiConfig = {
 };
 
 /**
- * Generic fetch wrapper with error handling and timeout
+ * Authorization header for the current session (empty when logged out)
+ */
+function authHeader(token: string | null): Record<string, string> {
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Generic fetch wrapper with error handling and timeout.
+ * Sends the session's access token; on a 401 the token is refreshed and the request retried once.
  */
 export async function apiFetch<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  token?: string | null
 ): Promise<ApiResponse<T>> {
   const url = `${apiConfig.baseUrl}${endpoint}`;
+  const isRetry = token !== undefined;
+  const accessToken = isRetry ? token : await getAccessToken();
   
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), apiConfig.timeout);
@@ -38,17 +50,26 @@ export async function apiFetch<T>(
       signal: controller.signal,
       headers: {
         'Content-Type': 'application/json',
+        ...authHeader(accessToken),
         ...options.headers,
       },
     });
     
     clearTimeout(timeoutId);
+
+    if (response.status === 401 && accessToken && !isRetry) {
+      const refreshedToken = await refreshAccessToken();
+      if (refreshedToken) {
+        return apiFetch<T>(endpoint, options, refreshedToken);
+      }
+    }
     
     const data = await response.json();
     
     if (!response.ok) {
       logger.error(`API error: ${endpoint}`, { status: response.status, data });
-      return { success: false, error: data.error || `HTTP ${response.status}` };
+      // Keep extra fields of the error body (e.g. a map save conflict)
+      return { ...data, success: false, error: data.error || `HTTP ${response.status}` };
     }
     
     return data as ApiResponse<T>;
@@ -89,6 +110,7 @@ export async function apiUpload<T>(
       method: 'POST',
       body: formData,
       // Don't set Content-Type - browser will set it with boundary
+      headers: authHeader(await getAccessToken()),
     });
     
     const data = await response.json();
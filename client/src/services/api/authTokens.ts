@@ -0,0 +1,120 @@
+/**
+ * Auth Tokens - Storage and refresh of the session's access / refresh tokens
+ *
+ * Access tokens are short-lived; they are refreshed shortly before they expire
+ * (or after a 401). When the refresh token is rejected the session is over and
+ * an 'authSessionExpired' window event is dispatched so AuthContext can log out.
+ */
+
+import { API_CONFIG } from '../../shared/constants';
+import { logger } from '../../shared/logger';
+
+const TOKEN_STORAGE_KEY = 'stargetyOasisTokens';
+// Refresh this long before the access token expires
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+export const AUTH_SESSION_EXPIRED_EVENT = 'authSessionExpired';
+
+interface StoredTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // ms timestamp
+}
+
+// Token pair as returned by /api/auth/verify-2fa and /api/auth/refresh
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // seconds
+}
+
+let refreshPromise: Promise<string | null> | null = null;
+
+function loadTokens(): StoredTokens | null {
+  try {
+    const saved = sessionStorage.getItem(TOKEN_STORAGE_KEY);
+    return saved ? JSON.parse(saved) as StoredTokens : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a new token pair
+ */
+export function setAuthTokens(tokens: SessionTokens): void {
+  const stored: StoredTokens = {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresAt: Date.now() + tokens.expiresIn * 1000,
+  };
+  sessionStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(stored));
+}
+
+/**
+ * Forget the session's tokens (logout)
+ */
+export function clearAuthTokens(): void {
+  sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+/**
+ * Check if a session (refresh token) is stored
+ */
+export function hasAuthTokens(): boolean {
+  return loadTokens() !== null;
+}
+
+/**
+ * Exchange the refresh token for a new token pair. Concurrent callers share one request.
+ * Returns the new access token, or null if the session has ended.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+async function requestRefresh(): Promise<string | null> {
+  const tokens = loadTokens();
+  if (!tokens) return null;
+
+  try {
+    const response = await fetch(`${API_CONFIG.BASE_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken: tokens.refreshToken }),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      logger.warn('Session expired, refresh token rejected', { error: data.error });
+      clearAuthTokens();
+      window.dispatchEvent(new Event(AUTH_SESSION_EXPIRED_EVENT));
+      return null;
+    }
+
+    setAuthTokens(data.data);
+    return data.data.accessToken;
+  } catch (error) {
+    // Network problem - keep the session, the next request tries again
+    logger.error('Token refresh failed', { error });
+    return null;
+  }
+}
+
+/**
+ * Get an access token for a request, refreshing it first if it is about to expire
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const tokens = loadTokens();
+  if (!tokens) return null;
+
+  if (Date.now() < tokens.expiresAt - EXPIRY_MARGIN_MS) {
+    return tokens.accessToken;
+  }
+  return (await refreshAccessToken()) ?? loadTokens()?.accessToken ?? null;
+}
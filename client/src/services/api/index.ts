@@ -13,10 +13,18 @@
 
 // Re-export base utilities from apiClient
 export { apiFetch, apiUpload, apiConfig, type ApiResponse } from './apiClient';
+export { getAccessToken, setAuthTokens, clearAuthTokens, type SessionTokens } from './authTokens';
 
 // Re-export all services
 export * from './MapApiService';
 export * from './CharacterApiService';
 export * from './SettingsApiService';
 export * from './AssetApiService';
+export * from './WorldRoomApiService';
+export * from './RoleApiService';
 
+export * from './TwoFactorApiService';
+export * from './AuditApiService';
+export * from './SessionApiService';
+export * from './GuestApiService';
+export * from './SingleSignOnApiService';
@@ -3,6 +3,7 @@
 import { io, Socket } from 'socket.io-client';
 import { store } from '../../redux/store';
 import { logger } from '../../shared/logger';
+import { getAccessToken } from '../api/authTokens';
 import {
   setError,
   addMessage,
@@ -56,9 +57,12 @@ class ChatSocketService {
     try {
       // Connect to the main socket namespace (not /chat - backend uses main namespace)
       this.socket = io(process.env.REACT_APP_WS_URL || 'http://localhost:3001', {
-        auth: {
-          userId: userId || 'anonymous',
-          username: username || 'Anonymous',
+        auth: (cb) => {
+          getAccessToken().then((token) => cb({
+            token,
+            userId: userId || 'anonymous',
+            username: username || 'Anonymous',
+          }));
         },
         transports: ['websocket', 'polling'],
         timeout: 10000,
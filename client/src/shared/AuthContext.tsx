@@ -1,6 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { logger } from './logger';
 import { API_CONFIG } from './constants';
+import { setAuthTokens, clearAuthTokens, hasAuthTokens, AUTH_SESSION_EXPIRED_EVENT } from '../services/api/authTokens';
+import { RoleApiService, UserRole, hasRole, getEffectiveRole } from '../services/api/RoleApiService';
+import { SessionApiService } from '../services/api/SessionApiService';
+import { SingleSignOnApiService } from '../services/api/SingleSignOnApiService';
+import type { TwoFactorMethod } from '../services/api/TwoFactorApiService';
+import { startAuthentication, PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/browser';
 
 export interface User {
   id: string;
@@ -9,7 +15,10 @@ export interface User {
   displayName: string;
   roomId: string;       // Legacy chat room ID
   worldRoomId: string;  // World room ID for multiplayer (e.g., 'Stargety-Oasis-1')
+  role: UserRole;                       // Global role reported by the server
+  roomRoles: Record<string, UserRole>;  // Roles in individual world rooms
   isAdmin: boolean;
+  isGuest?: boolean;    // Joined with an invite link - limited to worldRoomId
   loginTime: Date;
 }
 
@@ -20,9 +29,19 @@ interface AuthContextType {
   requires2FA: boolean;
   pendingUserId: string | null;
   pendingTopicId: string | null;
+  twoFactorMethod: TwoFactorMethod;       // Method of the pending login's current challenge
+  twoFactorMethods: TwoFactorMethod[];    // Methods the pending login can switch to
+  lockedUntil: Date | null;               // Set while the server is refusing attempts (too many failures)
   login: (username: string, password: string, worldRoomId?: string) => Promise<boolean>;
+  selectTwoFactorMethod: (method: TwoFactorMethod) => Promise<boolean>;
   verify2FA: (code: string) => Promise<boolean>;
+  verifyPasskey: () => Promise<boolean>;
+  joinAsGuest: (inviteToken: string, name: string) => Promise<boolean>;
+  startSingleSignOn: (worldRoomId?: string) => void;
+  completeSingleSignOn: (code: string) => Promise<boolean>;
   logout: () => void;
+  hasPermission: (required: UserRole, worldRoomId?: string) => boolean;
+  refreshPermissions: () => Promise<void>;
   register: (username: string, email: string, password: string) => Promise<boolean>;
   requestPasswordReset: (email: string) => Promise<{ success: boolean; error?: string }>;
   resetPassword: (token: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
@@ -55,14 +74,37 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [requires2FA, setRequires2FA] = useState(false);
   const [pendingUserId, setPendingUserId] = useState<string | null>(null);
   const [pendingTopicId, setPendingTopicId] = useState<string | null>(null);
+  const [twoFactorMethod, setTwoFactorMethod] = useState<TwoFactorMethod>('ntfy');
+  const [twoFactorMethods, setTwoFactorMethods] = useState<TwoFactorMethod[]>(['ntfy']);
+  const [passkeyOptions, setPasskeyOptions] = useState<PublicKeyCredentialRequestOptionsJSON | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
   const [rememberUsername, setRememberUsername] = useState(false);
   const [savedUsername, setSavedUsername] = useState<string | null>(null);
 
-  // Check if user is admin based on username
-  const isAdminUser = useCallback((username: string): boolean => {
-    return username.toLowerCase().includes('admin') ||
-           username.toLowerCase() === 'administrator' ||
-           username.toLowerCase() === 'root';
+  // Reload the user's roles from the server (roles can change during a session)
+  const refreshPermissions = useCallback(async (): Promise<void> => {
+    const response = await RoleApiService.getMyPermissions();
+    if (!response.success || !response.data) {
+      logger.warn('Failed to load permissions', { error: response.error });
+      return;
+    }
+    const { role, roomRoles } = response.data;
+    setUser(prev => {
+      if (!prev) return prev;
+      const updated = { ...prev, role, roomRoles, isAdmin: hasRole(role, 'admin') };
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
+  // Remember a temporary lockout (429) so the login screen can show when to retry
+  const trackLockout = useCallback((response: Response, data: { retryAfter?: number }) => {
+    if (response.status === 429) {
+      const retryAfter = data.retryAfter ?? Number(response.headers.get('Retry-After') ?? 60);
+      setLockedUntil(new Date(Date.now() + retryAfter * 1000));
+    } else if (response.ok) {
+      setLockedUntil(null);
+    }
   }, []);
 
   // Load saved authentication state on mount
@@ -70,12 +112,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       // Check for existing session
       const savedAuth = sessionStorage.getItem(SESSION_STORAGE_KEY);
-      if (savedAuth) {
+      if (savedAuth && !hasAuthTokens()) {
+        // Saved without session tokens (e.g. before tokens existed) - log in again
+        sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      } else if (savedAuth) {
         const authData = JSON.parse(savedAuth);
         setUser({
+          role: 'member',
+          roomRoles: {},
           ...authData,
           loginTime: new Date(authData.loginTime),
         });
+        refreshPermissions();
       }
 
       // Load remembered username
@@ -89,7 +137,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [refreshPermissions]);
 
   // Login function - initiates 2FA flow
   const login = useCallback(async (username: string, password: string, worldRoomId: string = 'Stargety-Oasis-1'): Promise<boolean> => {
@@ -103,6 +151,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       });
 
       const data = await response.json();
+      trackLockout(response, data);
 
       if (!response.ok || !data.success) {
         logger.error('Login failed', { error: data.error });
@@ -112,6 +161,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Store pending user for 2FA verification
       setPendingUserId(data.data.userId);
       setPendingTopicId(data.data.ntfy_topic_id || null);
+      setTwoFactorMethod(data.data.method || 'ntfy');
+      setTwoFactorMethods(data.data.methods || ['ntfy']);
+      setPasskeyOptions(data.data.challenge?.options ?? null);
       setRequires2FA(true);
       sessionStorage.setItem(PENDING_USER_KEY, JSON.stringify({
         userId: data.data.userId,
@@ -120,7 +172,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         topicId: data.data.ntfy_topic_id,
       }));
 
-      logger.info('Login initiated, awaiting 2FA verification', { topicId: data.data.ntfy_topic_id });
+      logger.info('Login initiated, awaiting 2FA verification', { method: data.data.method, topicId: data.data.ntfy_topic_id });
       return true;
     } catch (error) {
       logger.error('Login error', { error });
@@ -128,10 +180,41 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [trackLockout]);
+
+  // Switch the pending login to another 2FA method (also resends the ntfy code)
+  const selectTwoFactorMethod = useCallback(async (method: TwoFactorMethod): Promise<boolean> => {
+    if (!pendingUserId) {
+      logger.error('No pending user for 2FA verification');
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${API_CONFIG.BASE_URL}/api/auth/2fa/challenge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: pendingUserId, method }),
+      });
 
-  // Verify 2FA code
-  const verify2FA = useCallback(async (code: string): Promise<boolean> => {
+      const data = await response.json();
+      trackLockout(response, data);
+
+      if (!response.ok || !data.success) {
+        logger.error('Failed to start 2FA challenge', { method, error: data.error });
+        return false;
+      }
+
+      setTwoFactorMethod(method);
+      setPasskeyOptions(data.data.challenge?.options ?? null);
+      return true;
+    } catch (error) {
+      logger.error('2FA challenge error', { error });
+      return false;
+    }
+  }, [pendingUserId, trackLockout]);
+
+  // Verify the second factor - a code, or a passkey assertion
+  const submitVerification = useCallback(async (verification: { code?: string; credential?: unknown }): Promise<boolean> => {
     setIsLoading(true);
 
     try {
@@ -143,10 +226,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       const response = await fetch(`${API_CONFIG.BASE_URL}/api/auth/verify-2fa`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId: pendingUserId, code }),
+        body: JSON.stringify({ userId: pendingUserId, method: twoFactorMethod, ...verification }),
       });
 
       const data = await response.json();
+      trackLockout(response, data);
 
       if (!response.ok || !data.success) {
         logger.error('2FA verification failed', { error: data.error });
@@ -165,13 +249,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         displayName: data.data.username,
         roomId: 'general',
         worldRoomId: worldRoomId || 'Stargety-Oasis-1',
-        isAdmin: isAdminUser(data.data.username),
+        role: data.data.role,
+        roomRoles: data.data.roomRoles || {},
+        isAdmin: hasRole(data.data.role, 'admin'),
         loginTime: new Date(),
       };
 
+      setAuthTokens({
+        accessToken: data.data.accessToken,
+        refreshToken: data.data.refreshToken,
+        expiresIn: data.data.expiresIn,
+      });
       setUser(newUser);
       setRequires2FA(false);
       setPendingUserId(null);
+      setPasskeyOptions(null);
       sessionStorage.removeItem(PENDING_USER_KEY);
       sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newUser));
 
@@ -183,7 +275,139 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, [pendingUserId, isAdminUser]);
+  }, [pendingUserId, twoFactorMethod, trackLockout]);
+
+  // Verify 2FA code (ntfy, authenticator app or recovery code)
+  const verify2FA = useCallback((code: string): Promise<boolean> => {
+    return submitVerification({ code });
+  }, [submitVerification]);
+
+  // Verify with a passkey (prompts the browser)
+  const verifyPasskey = useCallback(async (): Promise<boolean> => {
+    if (!passkeyOptions) {
+      logger.error('No passkey challenge for 2FA verification');
+      return false;
+    }
+
+    let credential;
+    try {
+      credential = await startAuthentication({ optionsJSON: passkeyOptions });
+    } catch (error) {
+      logger.warn('Passkey verification cancelled', { error });
+      return false;
+    }
+    return submitVerification({ credential });
+  }, [passkeyOptions, submitVerification]);
+
+  // Join a world room as a guest with an invite link (no password or 2FA)
+  const joinAsGuest = useCallback(async (inviteToken: string, name: string): Promise<boolean> => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`${API_CONFIG.BASE_URL}/api/auth/guest`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: inviteToken, name }),
+      });
+
+      const data = await response.json();
+      trackLockout(response, data);
+
+      if (!response.ok || !data.success) {
+        logger.error('Guest join failed', { error: data.error });
+        return false;
+      }
+
+      const newUser: User = {
+        id: data.data.userId,
+        username: data.data.username,
+        displayName: data.data.username,
+        roomId: 'general',
+        worldRoomId: data.data.worldRoomId,
+        role: 'guest',
+        roomRoles: {},
+        isAdmin: false,
+        isGuest: true,
+        loginTime: new Date(),
+      };
+
+      setAuthTokens({
+        accessToken: data.data.accessToken,
+        refreshToken: data.data.refreshToken,
+        expiresIn: data.data.expiresIn,
+      });
+      setUser(newUser);
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newUser));
+
+      logger.info('Joined as guest', { worldRoomId: newUser.worldRoomId });
+      return true;
+    } catch (error) {
+      logger.error('Guest join error', { error });
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [trackLockout]);
+
+  // Log in with the identity provider - leaves the app, which returns with a login code
+  const startSingleSignOn = useCallback((worldRoomId: string = 'Stargety-Oasis-1') => {
+    sessionStorage.setItem(PENDING_USER_KEY, JSON.stringify({ worldRoomId }));
+    window.location.assign(SingleSignOnApiService.getLoginUrl());
+  }, []);
+
+  // Exchange the login code from the identity provider for a session (no 2FA - the provider handles it)
+  const completeSingleSignOn = useCallback(async (code: string): Promise<boolean> => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`${API_CONFIG.BASE_URL}/api/auth/oidc/exchange`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+
+      const data = await response.json();
+      trackLockout(response, data);
+
+      if (!response.ok || !data.success) {
+        logger.error('Single sign-on failed', { error: data.error });
+        return false;
+      }
+
+      const pendingData = sessionStorage.getItem(PENDING_USER_KEY);
+      const { worldRoomId } = pendingData ? JSON.parse(pendingData) : { worldRoomId: 'Stargety-Oasis-1' };
+
+      const newUser: User = {
+        id: data.data.userId,
+        username: data.data.username,
+        email: data.data.email,
+        displayName: data.data.username,
+        roomId: 'general',
+        worldRoomId: worldRoomId || 'Stargety-Oasis-1',
+        role: data.data.role,
+        roomRoles: data.data.roomRoles || {},
+        isAdmin: hasRole(data.data.role, 'admin'),
+        loginTime: new Date(),
+      };
+
+      setAuthTokens({
+        accessToken: data.data.accessToken,
+        refreshToken: data.data.refreshToken,
+        expiresIn: data.data.expiresIn,
+      });
+      setUser(newUser);
+      sessionStorage.removeItem(PENDING_USER_KEY);
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newUser));
+
+      logger.info('User authenticated with single sign-on');
+      return true;
+    } catch (error) {
+      logger.error('Single sign-on error', { error });
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [trackLockout]);
 
   // Register function
   const register = useCallback(async (username: string, email: string, password: string): Promise<boolean> => {
@@ -267,10 +491,30 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setRequires2FA(false);
     setPendingUserId(null);
     setPendingTopicId(null);
+    setPasskeyOptions(null);
     sessionStorage.removeItem(SESSION_STORAGE_KEY);
     sessionStorage.removeItem(PENDING_USER_KEY);
+    // End the session on the server too; the tokens are forgotten even if that fails
+    if (hasAuthTokens()) {
+      SessionApiService.logout().finally(clearAuthTokens);
+    }
   }, []);
 
+  // Log out when the session can no longer be refreshed
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      logger.warn('Session expired, logging out');
+      logout();
+    };
+    window.addEventListener(AUTH_SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(AUTH_SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, [logout]);
+
+  // Check if the user has at least a role (in a world room if given)
+  const hasPermission = useCallback((required: UserRole, worldRoomId?: string): boolean => {
+    return !!user && hasRole(getEffectiveRole(user, worldRoomId), required);
+  }, [user]);
+
   const contextValue: AuthContextType = {
     user,
     isAuthenticated: user !== null,
@@ -278,9 +522,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     requires2FA,
     pendingUserId,
     pendingTopicId,
+    twoFactorMethod,
+    twoFactorMethods,
+    lockedUntil,
     login,
+    selectTwoFactorMethod,
     verify2FA,
+    verifyPasskey,
+    joinAsGuest,
+    startSingleSignOn,
+    completeSingleSignOn,
     logout,
+    hasPermission,
+    refreshPermissions,
     register,
     requestPasswordReset,
     resetPassword,
@@ -20,7 +20,8 @@ export interface EventMap {
   // Jitsi-specific events (dispatched by InteractiveAreaActionDispatcher)
   'jitsi:join': { roomName: string; areaName: string };
   'jitsi:leave': { areaName: string };
-  // Collectible events (dispatched by InteractiveAreaActionDispatcher)
+  // Collectible events (requested by InteractiveAreaActionDispatcher, confirmed by the server)
+  'collectible:requested': { areaId: string; areaName: string };
   'collectible:collected': {
     areaId: string;
     areaName: string;
@@ -29,13 +30,30 @@ export interface EventMap {
     effectDuration?: number;
     consumable?: boolean;
   };
-  // Switch events (dispatched by InteractiveAreaActionDispatcher)
+  // Switch events (requested by InteractiveAreaActionDispatcher, toggled by the server for the whole room)
+  'switch:requested': { areaId: string; areaName: string };
   'switch:toggled': {
     areaId: string;
     areaName: string;
     targetIds: string[];
     toggleMode?: string;
+    byLocalPlayer: boolean;
   };
+  // Teleport events (dispatched by InteractiveAreaActionDispatcher, resolved by the server)
+  'teleport:requested': {
+    areaId: string;
+    areaName: string;
+    destinationName: string;
+    targetRoomId?: string;
+  };
+  // Portal events (dispatched by InteractiveAreaActionDispatcher, resolved by the server)
+  'portal:entered': {
+    areaId: string;
+    areaName: string;
+    targetRoomId: string;
+  };
+  // The local player moved to another world room (teleport or portal)
+  'world:roomChanged': { roomId: string };
   'app:moduleLoaded': { module: string };
   'app:error': { error: string; module?: string };
 }
@@ -2,7 +2,7 @@
  * Interactive Area Action Dispatcher
  *
  * Handles dispatching actions when players enter/exit interactive areas.
- * Supports action types: jitsi, alert, url, modal, collectible, switch, impassable.
+ * Supports action types: jitsi, alert, url, modal, collectible, switch, teleport, portal, impassable.
  */
 
 import { message, Modal } from 'antd';
@@ -14,9 +14,11 @@ import {
   ModalActionConfig,
   CollectibleActionConfig,
   SwitchActionConfig,
+  TeleportActionConfig,
+  PortalActionConfig,
   getJitsiRoomNameForArea,
 } from './MapDataContext';
-import { EventBus } from './EventBusContext';
+import { EventBus, EventMap } from './EventBusContext';
 import { logger } from './logger';
 
 export interface ActionDispatcherConfig {
@@ -28,6 +30,8 @@ export class InteractiveAreaActionDispatcher {
   private config: ActionDispatcherConfig;
   private unsubscribeEntered?: () => void;
   private unsubscribeExited?: () => void;
+  private unsubscribeCollected?: () => void;
+  private unsubscribeToggled?: () => void;
   private currentJitsiArea: InteractiveArea | null = null;
 
   constructor(config: ActionDispatcherConfig) {
@@ -38,6 +42,8 @@ export class InteractiveAreaActionDispatcher {
   start(): void {
     this.unsubscribeEntered = this.config.eventBus.subscribe('area-entered', this.handleAreaEntered);
     this.unsubscribeExited = this.config.eventBus.subscribe('area-exited', this.handleAreaExited);
+    this.unsubscribeCollected = this.config.eventBus.subscribe('collectible:collected', this.handleCollected);
+    this.unsubscribeToggled = this.config.eventBus.subscribe('switch:toggled', this.handleSwitchToggled);
     logger.info('[ActionDispatcher] Started listening to area events');
   }
 
@@ -45,6 +51,8 @@ export class InteractiveAreaActionDispatcher {
   stop(): void {
     this.unsubscribeEntered?.();
     this.unsubscribeExited?.();
+    this.unsubscribeCollected?.();
+    this.unsubscribeToggled?.();
     logger.info('[ActionDispatcher] Stopped listening to area events');
   }
 
@@ -97,6 +105,12 @@ export class InteractiveAreaActionDispatcher {
       case 'switch':
         if (trigger === 'enter') this.handleSwitchAction(area);
         break;
+      case 'teleport':
+        if (trigger === 'enter') this.handleTeleportAction(area);
+        break;
+      case 'portal':
+        if (trigger === 'enter') this.handlePortalAction(area);
+        break;
       case 'impassable':
         // Impassable areas are handled by physics collision, no action needed here
         break;
@@ -174,45 +188,95 @@ export class InteractiveAreaActionDispatcher {
     const config = area.actionConfig as CollectibleActionConfig | null;
     if (!config) return;
 
-    // Emit collectible event for game systems to handle
-    this.config.eventBus.publish('collectible:collected', {
+    // The server checks the collectible is still there and confirms with collectible:collected
+    this.config.eventBus.publish('collectible:requested', {
       areaId: area.id,
       areaName: area.name,
-      effectType: config.effectType,
-      effectValue: config.effectValue,
-      effectDuration: config.effectDuration,
-      consumable: config.consumable,
     });
 
-    logger.info('[ActionDispatcher] Collectible collected', {
+    logger.info('[ActionDispatcher] Collectible requested', {
       name: area.name,
       effectType: config.effectType,
       effectValue: config.effectValue,
     });
-
-    // Show feedback to player
-    message.success(`Collected ${area.name}! ${config.effectType.replace('_', ' ')} +${config.effectValue}%`);
   }
 
   private handleSwitchAction(area: InteractiveArea): void {
     const config = area.actionConfig as SwitchActionConfig | null;
     if (!config?.targetIds?.length) return;
 
-    // Emit switch event for game systems to handle
-    this.config.eventBus.publish('switch:toggled', {
+    // The server toggles the targets for everyone in the room and broadcasts switch:toggled
+    this.config.eventBus.publish('switch:requested', {
       areaId: area.id,
       areaName: area.name,
+    });
+
+    logger.info('[ActionDispatcher] Switch requested', {
+      name: area.name,
       targetIds: config.targetIds,
       toggleMode: config.toggleMode,
     });
+  }
 
+  private handleCollected = (data: EventMap['collectible:collected']): void => {
+    logger.info('[ActionDispatcher] Collectible collected', {
+      name: data.areaName,
+      effectType: data.effectType,
+      effectValue: data.effectValue,
+    });
+
+    // Show feedback to player
+    message.success(`Collected ${data.areaName}! ${data.effectType.replace('_', ' ')} +${data.effectValue}%`);
+  };
+
+  private handleSwitchToggled = (data: EventMap['switch:toggled']): void => {
     logger.info('[ActionDispatcher] Switch toggled', {
+      name: data.areaName,
+      targetIds: data.targetIds,
+      byLocalPlayer: data.byLocalPlayer,
+    });
+
+    if (data.byLocalPlayer) {
+      message.info(`${data.areaName} activated`);
+    }
+  };
+
+  private handleTeleportAction(area: InteractiveArea): void {
+    const config = area.actionConfig as TeleportActionConfig | null;
+    if (!config?.destinationName) return;
+
+    // The server validates the area and resolves the destination from its own copy of the map
+    this.config.eventBus.publish('teleport:requested', {
+      areaId: area.id,
+      areaName: area.name,
+      destinationName: config.destinationName,
+      targetRoomId: config.targetRoomId,
+    });
+
+    logger.info('[ActionDispatcher] Teleport requested', {
       name: area.name,
-      targetIds: config.targetIds,
-      toggleMode: config.toggleMode,
+      destinationName: config.destinationName,
+      targetRoomId: config.targetRoomId,
+    });
+  }
+
+  private handlePortalAction(area: InteractiveArea): void {
+    const config = area.actionConfig as PortalActionConfig | null;
+    if (!config?.targetRoomId) return;
+
+    // The server moves the player to the portal's target room and position
+    this.config.eventBus.publish('portal:entered', {
+      areaId: area.id,
+      areaName: area.name,
+      targetRoomId: config.targetRoomId,
+    });
+
+    logger.info('[ActionDispatcher] Portal entered', {
+      name: area.name,
+      targetRoomId: config.targetRoomId,
     });
 
-    message.info(`${area.name} activated`);
+    message.loading(`Travelling to ${config.targetRoomId}...`, 1);
   }
 }
 
@@ -15,7 +15,9 @@ export type InteractiveAreaActionType =
   | 'modal'       // Show custom modal content
   | 'jitsi'       // Join Jitsi video conference
   | 'collectible' // Collision-activated effect (e.g., speed boost)
-  | 'switch';     // Toggle visibility of other areas/assets
+  | 'switch'      // Toggle visibility of other areas/assets
+  | 'teleport'    // Move the player to a named destination (optionally in another room)
+  | 'portal';     // Move the player to a position in another world room
 
 // ============================================================================
 // ACTION TYPE COLORS (Auto-derived)
@@ -31,6 +33,8 @@ export const ACTION_TYPE_COLORS: Record<InteractiveAreaActionType, string> = {
   modal: '#722ed1',       // Purple
   collectible: '#40a9ff', // Blue
   switch: '#fadb14',      // Yellow
+  teleport: '#eb2f96',    // Magenta
+  portal: '#2f54eb',      // Geek blue
 };
 
 /** Get the color for an action type */
@@ -87,6 +91,19 @@ export interface SwitchActionConfig {
   toggleMode: 'visibility' | 'collision' | 'both';
 }
 
+/** Configuration for teleport action - destination is a spawn point name */
+export interface TeleportActionConfig {
+  destinationName: string;  // Name of the spawn point / teleport destination
+  targetRoomId?: string;    // World room of the destination (empty = this room)
+}
+
+/** Configuration for portal action - moves the player between world rooms */
+export interface PortalActionConfig {
+  targetRoomId: string;     // World room to move to (e.g. 'Stargety-Oasis-2')
+  targetX: number;          // Arrival position on the target room's map
+  targetY: number;
+}
+
 /** Union type for all action configs */
 export type InteractiveAreaActionConfig =
   | AlertActionConfig
@@ -95,6 +112,8 @@ export type InteractiveAreaActionConfig =
   | JitsiActionConfig
   | CollectibleActionConfig
   | SwitchActionConfig
+  | TeleportActionConfig
+  | PortalActionConfig
   | null;
 
 // ============================================================================
@@ -182,10 +201,25 @@ export interface Asset {
   scaleY?: number; // Vertical scale (default: 1)
 }
 
+/**
+ * Spawn point / named teleport destination
+ * The server places joining players (and teleported players) on a free spot inside the area.
+ */
+export interface SpawnPoint {
+  id: string;
+  name: string; // Unique per map - referenced by teleport actions
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isSpawn: boolean; // New players may spawn here (otherwise only a teleport destination)
+}
+
 export interface MapData {
   interactiveAreas: InteractiveArea[];
   impassableAreas: ImpassableArea[];
   assets?: Asset[];
+  spawnPoints?: SpawnPoint[];
   worldDimensions: {
     width: number;
     height: number;
@@ -291,6 +325,7 @@ export const MapDataProvider: React.FC<{ children: ReactNode }> = ({ children })
         interactiveAreas: storeMapData.interactiveAreas || [],
         impassableAreas: storeMapData.impassableAreas || [],
         assets: storeMapData.assets || [],
+        spawnPoints: storeMapData.spawnPoints || [],
         worldDimensions: storeMapData.worldDimensions || { width: 800, height: 600 },
         backgroundImage: storeMapData.backgroundImage,
         backgroundImageDimensions: storeMapData.backgroundImageDimensions
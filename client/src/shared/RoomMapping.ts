@@ -4,34 +4,87 @@
  * Maps world room IDs (UI) to database room IDs (backend).
  * This allows the frontend to use user-friendly names while the backend
  * uses consistent database identifiers.
+ *
+ * The mapping comes from the server's world room registry at runtime
+ * (see registerWorldRooms). The built-in rooms are known up front so
+ * gameplay works before the registry has loaded.
  */
 
-import { WorldRoomId } from './WorldRoomContext';
+import type { WorldRoom } from '../services/api/WorldRoomApiService';
+import type { WorldRoomId } from './WorldRoomContext';
 
 /**
  * Database room ID type - consistent naming convention
  * Format: room_{number} (e.g., room_001, room_002, room_003)
  */
-export type DatabaseRoomId = 'room_001' | 'room_002' | 'room_003';
+export type DatabaseRoomId = string;
 
 /**
- * Room mapping configuration
- * Maps world room IDs to database room IDs
+ * Room metadata - additional information about each room
  */
-export const ROOM_MAPPING: Record<WorldRoomId, DatabaseRoomId> = {
-  'Stargety-Oasis-1': 'room_001',
-  'Stargety-Oasis-2': 'room_002',
-  'Stargety-Oasis-3': 'room_003',
-} as const;
+export interface RoomMetadata {
+  databaseId: DatabaseRoomId;
+  worldId: WorldRoomId;
+  displayName: string;
+  description: string;
+  capacity: number;
+  visibility: 'public' | 'private';
+}
+
+/**
+ * Built-in rooms (also seeded into the server registry)
+ */
+const DEFAULT_ROOM_METADATA: RoomMetadata[] = [
+  {
+    databaseId: 'room_001',
+    worldId: 'Stargety-Oasis-1',
+    displayName: 'Stargety Oasis 1',
+    description: 'Main gathering space with meeting rooms and lounges',
+    capacity: 100,
+    visibility: 'public',
+  },
+  {
+    databaseId: 'room_002',
+    worldId: 'Stargety-Oasis-2',
+    displayName: 'Stargety Oasis 2',
+    description: 'Secondary world space for collaborative work',
+    capacity: 100,
+    visibility: 'public',
+  },
+  {
+    databaseId: 'room_003',
+    worldId: 'Stargety-Oasis-3',
+    displayName: 'Stargety Oasis 3',
+    description: 'Tertiary world space for events and gatherings',
+    capacity: 100,
+    visibility: 'public',
+  },
+];
+
+// Runtime registry, keyed both ways
+const metadataByWorldId = new Map<WorldRoomId, RoomMetadata>();
+const metadataByDatabaseId = new Map<DatabaseRoomId, RoomMetadata>();
+
+function registerMetadata(metadata: RoomMetadata): void {
+  metadataByWorldId.set(metadata.worldId, metadata);
+  metadataByDatabaseId.set(metadata.databaseId, metadata);
+}
+
+DEFAULT_ROOM_METADATA.forEach(registerMetadata);
 
 /**
- * Reverse mapping for database room ID to world room ID
+ * Add (or update) rooms from the server's world room registry
  */
-export const REVERSE_ROOM_MAPPING: Record<DatabaseRoomId, WorldRoomId> = {
-  'room_001': 'Stargety-Oasis-1',
-  'room_002': 'Stargety-Oasis-2',
-  'room_003': 'Stargety-Oasis-3',
-} as const;
+export function registerWorldRooms(rooms: WorldRoom[]): void {
+  rooms.forEach(room => registerMetadata({
+    databaseId: room.mapRoomId,
+    worldId: room.roomId,
+    displayName: room.name,
+    description: room.description,
+    capacity: room.capacity,
+    visibility: room.visibility,
+  }));
+}
 
 /**
  * Get database room ID from world room ID
@@ -39,11 +92,11 @@ export const REVERSE_ROOM_MAPPING: Record<DatabaseRoomId, WorldRoomId> = {
  * @returns The database room ID (e.g., 'room_001')
  */
 export function getDatabaseRoomId(worldRoomId: WorldRoomId): DatabaseRoomId {
-  const dbRoomId = ROOM_MAPPING[worldRoomId];
-  if (!dbRoomId) {
+  const metadata = metadataByWorldId.get(worldRoomId);
+  if (!metadata) {
     throw new Error(`Unknown world room ID: ${worldRoomId}`);
   }
-  return dbRoomId;
+  return metadata.databaseId;
 }
 
 /**
@@ -52,77 +105,41 @@ export function getDatabaseRoomId(worldRoomId: WorldRoomId): DatabaseRoomId {
  * @returns The world room ID (e.g., 'Stargety-Oasis-1')
  */
 export function getWorldRoomId(databaseRoomId: DatabaseRoomId): WorldRoomId {
-  const worldRoomId = REVERSE_ROOM_MAPPING[databaseRoomId];
-  if (!worldRoomId) {
+  const metadata = metadataByDatabaseId.get(databaseRoomId);
+  if (!metadata) {
     throw new Error(`Unknown database room ID: ${databaseRoomId}`);
   }
-  return worldRoomId;
+  return metadata.worldId;
 }
 
 /**
- * Validate if a string is a valid database room ID
+ * Validate if a string is a known database room ID
  */
 export function isValidDatabaseRoomId(roomId: string): roomId is DatabaseRoomId {
-  return roomId === 'room_001' || roomId === 'room_002' || roomId === 'room_003';
+  return metadataByDatabaseId.has(roomId);
 }
 
 /**
- * Get all available database room IDs
+ * Validate if a string is a known world room ID
  */
-export function getAllDatabaseRoomIds(): DatabaseRoomId[] {
-  return ['room_001', 'room_002', 'room_003'];
+export function isValidWorldRoomId(roomId: string): roomId is WorldRoomId {
+  return metadataByWorldId.has(roomId);
 }
 
 /**
- * Room metadata - additional information about each room
+ * Get all known database room IDs
  */
-export interface RoomMetadata {
-  databaseId: DatabaseRoomId;
-  worldId: WorldRoomId;
-  displayName: string;
-  description: string;
-  capacity: number;
-  features: string[];
+export function getAllDatabaseRoomIds(): DatabaseRoomId[] {
+  return Array.from(metadataByDatabaseId.keys());
 }
 
-/**
- * Room metadata configuration
- */
-export const ROOM_METADATA: Record<DatabaseRoomId, RoomMetadata> = {
-  'room_001': {
-    databaseId: 'room_001',
-    worldId: 'Stargety-Oasis-1',
-    displayName: 'Stargety Oasis 1',
-    description: 'Main gathering space with meeting rooms and lounges',
-    capacity: 100,
-    features: ['meetings', 'lounges', 'coffee-corner', 'game-zone'],
-  },
-  'room_002': {
-    databaseId: 'room_002',
-    worldId: 'Stargety-Oasis-2',
-    displayName: 'Stargety Oasis 2',
-    description: 'Secondary world space for collaborative work',
-    capacity: 100,
-    features: ['meetings', 'workspaces', 'lounges'],
-  },
-  'room_003': {
-    databaseId: 'room_003',
-    worldId: 'Stargety-Oasis-3',
-    displayName: 'Stargety Oasis 3',
-    description: 'Tertiary world space for events and gatherings',
-    capacity: 100,
-    features: ['meetings', 'event-space', 'lounges'],
-  },
-};
-
 /**
  * Get room metadata by database room ID
  */
 export function getRoomMetadata(databaseRoomId: DatabaseRoomId): RoomMetadata {
-  const metadata = ROOM_METADATA[databaseRoomId];
+  const metadata = metadataByDatabaseId.get(databaseRoomId);
   if (!metadata) {
     throw new Error(`No metadata found for room: ${databaseRoomId}`);
   }
   return metadata;
 }
-
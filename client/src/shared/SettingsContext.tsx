@@ -13,7 +13,7 @@ interface SettingsContextType {
   settings: AppSettings;
   updateTheme: (theme: ThemeType) => void;
   updateJitsiServerUrl: (url: string) => void;
-  isAdmin: (username: string) => boolean;
+  isAdmin: boolean;
   saveSettings: () => void;
   resetSettings: () => void;
   isLoading: boolean;
@@ -40,20 +40,14 @@ export const useSettings = (): SettingsContextType => {
 interface SettingsProviderProps {
   children: React.ReactNode;
   currentUser: string;
+  isAdmin: boolean; // Server-reported role of the current user is admin or owner
 }
 
-export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children, currentUser }) => {
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children, currentUser, isAdmin }) => {
   const [settings, setSettings] = useState<AppSettings>(defaultSettings);
   const [isLoading, setIsLoading] = useState(true);
   const hasLoadedFromApi = useRef(false);
 
-  // Check if user is admin
-  const isAdmin = useCallback((username: string): boolean => {
-    return username.toLowerCase().includes('admin') ||
-           username.toLowerCase() === 'administrator' ||
-           username.toLowerCase() === 'root';
-  }, []);
-
   // Load settings from API first, fallback to localStorage
   useEffect(() => {
     const loadSettings = async () => {
@@ -67,7 +61,7 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children, cu
           setSettings({
             theme: (result.data.theme || 'dark') as ThemeType,
             jitsiServerUrl: result.data.jitsiServerUrl,
-            adminMode: isAdmin(currentUser),
+            adminMode: isAdmin,
           });
           logger.info('SETTINGS LOADED FROM API', { userId: currentUser });
           setIsLoading(false);
@@ -85,7 +79,7 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children, cu
           setSettings(prev => ({
             ...prev,
             ...parsed,
-            adminMode: isAdmin(currentUser),
+            adminMode: isAdmin,
           }));
         } else {
           // If no saved settings, try to get theme from ThemeContext's localStorage
@@ -101,7 +95,7 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children, cu
 
           setSettings(prev => ({
             ...prev,
-            adminMode: isAdmin(currentUser),
+            adminMode: isAdmin,
             theme: initialTheme,
           }));
         }
@@ -109,7 +103,7 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children, cu
         logger.error('FAILED TO LOAD SETTINGS FROM LOCALSTORAGE', { error });
         setSettings(prev => ({
           ...prev,
-          adminMode: isAdmin(currentUser),
+          adminMode: isAdmin,
         }));
       }
 
@@ -206,13 +200,13 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children, cu
   const resetSettings = useCallback(() => {
     const resetSettingsData = {
       ...defaultSettings,
-      adminMode: isAdmin(currentUser),
+      adminMode: isAdmin,
     };
     setSettings(resetSettingsData);
     localStorage.removeItem(STORAGE_KEY);
     // Sync reset to API
     saveToApiAsync({ theme: defaultSettings.theme, jitsiServerUrl: undefined });
-  }, [currentUser, isAdmin, saveToApiAsync]);
+  }, [isAdmin, saveToApiAsync]);
 
   const contextValue: SettingsContextType = {
     settings,
@@ -0,0 +1,911 @@
+/**
+ * Tiled Map Converter - Import and export of Tiled maps (TMJ/JSON and TMX)
+ *
+ * Object layers become interactive areas, collision areas and spawn points,
+ * tile objects become assets and the first image layer becomes the background.
+ * Custom properties map onto actionType / actionConfig. Features without an
+ * equivalent (tile layers, polylines, text, ...) are reported as issues rather
+ * than dropped silently. Exported maps keep our IDs in a `stargetyId` property
+ * so they import back unchanged.
+ */
+
+import type {
+  MapData,
+  InteractiveArea,
+  ImpassableArea,
+  Asset,
+  SpawnPoint,
+  InteractiveAreaActionType,
+  InteractiveAreaActionConfig,
+} from './MapDataContext';
+
+// ============================================================================
+// TILED FORMAT (the parts we read and write)
+// ============================================================================
+
+export interface TiledPoint {
+  x: number;
+  y: number;
+}
+
+export interface TiledProperty {
+  name: string;
+  type?: string;
+  value: unknown;
+}
+
+export interface TiledObject {
+  id: number;
+  name?: string;
+  type?: string;      // Tiled < 1.9
+  class?: string;     // Tiled >= 1.9
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number;  // Degrees, clockwise
+  visible?: boolean;
+  gid?: number;       // Tile objects
+  polygon?: TiledPoint[];
+  polyline?: TiledPoint[];
+  ellipse?: boolean;
+  point?: boolean;
+  text?: unknown;
+  properties?: TiledProperty[];
+}
+
+export interface TiledLayer {
+  id?: number;
+  name: string;
+  type: 'objectgroup' | 'imagelayer' | 'tilelayer' | 'group';
+  class?: string;
+  visible?: boolean;
+  opacity?: number;
+  offsetx?: number;
+  offsety?: number;
+  x?: number;
+  y?: number;
+  objects?: TiledObject[];
+  layers?: TiledLayer[];
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  properties?: TiledProperty[];
+}
+
+export interface TiledTile {
+  id: number;
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+}
+
+export interface TiledTileset {
+  firstgid: number;
+  source?: string;    // External tileset (.tsx / .tsj)
+  name?: string;
+  image?: string;     // Single image (spritesheet) tileset
+  imagewidth?: number;
+  imageheight?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  tilecount?: number;
+  columns?: number;
+  margin?: number;
+  spacing?: number;
+  tiles?: TiledTile[]; // Image collection tileset
+}
+
+export interface TiledMap {
+  type?: string;
+  version?: string;
+  tiledversion?: string;
+  orientation?: string;
+  renderorder?: string;
+  infinite?: boolean;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  nextlayerid?: number;
+  nextobjectid?: number;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+}
+
+// ============================================================================
+// CONVERSION TYPES
+// ============================================================================
+
+/** Something in the map that could not be converted (skipped) or only approximately */
+export interface TiledIssue {
+  kind: 'skipped' | 'approximated';
+  message: string;
+}
+
+/** An image the Tiled map references; crop is set for a tile of a spritesheet tileset */
+export interface TiledImageRequest {
+  source: string;
+  crop?: { x: number; y: number; width: number; height: number };
+}
+
+/** Returns the image as a data URL, or null if it isn't available */
+export type TiledImageResolver = (request: TiledImageRequest) => Promise<string | null>;
+
+export interface TiledImportResult {
+  mapData: MapData;
+  issues: TiledIssue[];
+}
+
+export interface TiledExportResult {
+  json: string;
+  /** Embedded images, to be saved next to the map under these names */
+  images: Array<{ fileName: string; dataUrl: string }>;
+  issues: TiledIssue[];
+}
+
+// Our ID of an exported object
+const ID_PROPERTY = 'stargetyId';
+// Properties that are not part of an area's actionConfig
+const RESERVED_PROPERTIES = new Set([ID_PROPERTY, 'actionType', 'actionConfig', 'description', 'color', 'isSpawn']);
+// Type-only import of MapDataContext (it imports the stores) - the action types are listed here
+const ACTION_TYPE_NAMES: Record<InteractiveAreaActionType, true> = {
+  none: true, impassable: true, alert: true, url: true, modal: true,
+  jitsi: true, collectible: true, switch: true, teleport: true, portal: true,
+};
+const ACTION_TYPES = new Set(Object.keys(ACTION_TYPE_NAMES));
+// Tile object GIDs carry flip flags in the top bits
+const GID_MASK = 0x0fffffff;
+const EXPORT_TILE_SIZE = 32;
+
+type ObjectKind = 'interactive' | 'collision' | 'spawn';
+
+interface ImportContext {
+  map: TiledMap;
+  mapData: MapData;
+  issues: TiledIssue[];
+  resolveImage: TiledImageResolver;
+  hasBackground: boolean;
+}
+
+function basename(path: string): string {
+  return path.split(/[\\/]/).pop() || path;
+}
+
+// Tiled writes colors as #AARRGGBB
+function toCssColor(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  return /^#[0-9a-f]{8}$/i.test(value) ? `#${value.slice(3)}` : value;
+}
+
+// Kind of objects from a class or layer name
+function kindFromName(name: string | undefined): ObjectKind | null {
+  const lower = (name || '').toLowerCase();
+  if (/collision|impassable/.test(lower)) return 'collision';
+  if (/spawn/.test(lower)) return 'spawn';
+  return null;
+}
+
+function rotatePoint(point: TiledPoint, origin: TiledPoint, degrees: number): TiledPoint {
+  const radians = (degrees * Math.PI) / 180;
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  return {
+    x: origin.x + dx * Math.cos(radians) - dy * Math.sin(radians),
+    y: origin.y + dx * Math.sin(radians) + dy * Math.cos(radians),
+  };
+}
+
+function boundsOf(points: TiledPoint[]) {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+export class TiledMapConverter {
+  // ==========================================================================
+  // PARSING
+  // ==========================================================================
+
+  /**
+   * Parse a Tiled map saved as JSON (.tmj / .json) or XML (.tmx)
+   */
+  static parse(source: string): TiledMap {
+    const map = source.trimStart().startsWith('<') ? this.parseTmx(source) : JSON.parse(source);
+    if (!map || !Array.isArray(map.layers) || typeof map.tilewidth !== 'number') {
+      throw new Error('Not a Tiled map');
+    }
+    return { ...map, tilesets: Array.isArray(map.tilesets) ? map.tilesets : [] };
+  }
+
+  private static parseTmx(source: string): TiledMap {
+    const doc = new DOMParser().parseFromString(source, 'application/xml');
+    const root = doc.documentElement;
+    if (!root || root.nodeName !== 'map' || doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Not a Tiled map (TMX)');
+    }
+
+    const num = (el: Element, name: string): number | undefined =>
+      el.hasAttribute(name) ? Number(el.getAttribute(name)) : undefined;
+    const str = (el: Element, name: string): string | undefined => el.getAttribute(name) ?? undefined;
+    const children = (el: Element, name?: string) =>
+      Array.from(el.children).filter(child => !name || child.nodeName === name);
+
+    const parsePoints = (value: string | null): TiledPoint[] =>
+      (value || '').trim().split(/\s+/).filter(Boolean).map(pair => {
+        const [x, y] = pair.split(',').map(Number);
+        return { x, y };
+      });
+
+    const parseProperties = (el: Element): TiledProperty[] | undefined => {
+      const container = children(el, 'properties')[0];
+      if (!container) return undefined;
+      return children(container, 'property').map(property => {
+        const type = str(property, 'type') || 'string';
+        const raw = property.getAttribute('value') ?? property.textContent ?? '';
+        let value: unknown = raw;
+        if (type === 'int' || type === 'float') value = Number(raw);
+        else if (type === 'bool') value = raw === 'true';
+        return { name: str(property, 'name') || '', type, value };
+      });
+    };
+
+    const parseObject = (el: Element): TiledObject => {
+      const object: TiledObject = {
+        id: num(el, 'id') ?? 0,
+        name: str(el, 'name'),
+        type: str(el, 'type'),
+        class: str(el, 'class'),
+        x: num(el, 'x') ?? 0,
+        y: num(el, 'y') ?? 0,
+        width: num(el, 'width'),
+        height: num(el, 'height'),
+        rotation: num(el, 'rotation'),
+        visible: el.getAttribute('visible') !== '0',
+        gid: num(el, 'gid'),
+        properties: parseProperties(el),
+      };
+      const polygon = children(el, 'polygon')[0];
+      const polyline = children(el, 'polyline')[0];
+      if (polygon) object.polygon = parsePoints(polygon.getAttribute('points'));
+      if (polyline) object.polyline = parsePoints(polyline.getAttribute('points'));
+      if (children(el, 'ellipse').length) object.ellipse = true;
+      if (children(el, 'point').length) object.point = true;
+      if (children(el, 'text').length) object.text = children(el, 'text')[0].textContent;
+      return object;
+    };
+
+    const parseLayers = (el: Element): TiledLayer[] => {
+      const layers: TiledLayer[] = [];
+      for (const child of children(el)) {
+        const common = {
+          id: num(child, 'id'),
+          name: str(child, 'name') || '',
+          class: str(child, 'class'),
+          visible: child.getAttribute('visible') !== '0',
+          offsetx: num(child, 'offsetx'),
+          offsety: num(child, 'offsety'),
+          properties: parseProperties(child),
+        };
+        if (child.nodeName === 'objectgroup') {
+          layers.push({ ...common, type: 'objectgroup', objects: children(child, 'object').map(parseObject) });
+        } else if (child.nodeName === 'imagelayer') {
+          const image = children(child, 'image')[0];
+          layers.push({
+            ...common,
+            type: 'imagelayer',
+            image: image ? str(image, 'source') : undefined,
+            imagewidth: image ? num(image, 'width') : undefined,
+            imageheight: image ? num(image, 'height') : undefined,
+          });
+        } else if (child.nodeName === 'layer') {
+          layers.push({ ...common, type: 'tilelayer' });
+        } else if (child.nodeName === 'group') {
+          layers.push({ ...common, type: 'group', layers: parseLayers(child) });
+        }
+      }
+      return layers;
+    };
+
+    const tilesets: TiledTileset[] = children(root, 'tileset').map(el => {
+      const image = children(el, 'image')[0];
+      return {
+        firstgid: num(el, 'firstgid') ?? 1,
+        source: str(el, 'source'),
+        name: str(el, 'name'),
+        tilewidth: num(el, 'tilewidth'),
+        tileheight: num(el, 'tileheight'),
+        tilecount: num(el, 'tilecount'),
+        columns: num(el, 'columns'),
+        margin: num(el, 'margin'),
+        spacing: num(el, 'spacing'),
+        image: image ? str(image, 'source') : undefined,
+        imagewidth: image ? num(image, 'width') : undefined,
+        imageheight: image ? num(image, 'height') : undefined,
+        tiles: children(el, 'tile').map(tile => {
+          const tileImage = children(tile, 'image')[0];
+          return {
+            id: num(tile, 'id') ?? 0,
+            image: tileImage ? str(tileImage, 'source') : undefined,
+            imagewidth: tileImage ? num(tileImage, 'width') : undefined,
+            imageheight: tileImage ? num(tileImage, 'height') : undefined,
+          };
+        }),
+      };
+    });
+
+    return {
+      type: 'map',
+      version: str(root, 'version'),
+      tiledversion: str(root, 'tiledversion'),
+      orientation: str(root, 'orientation'),
+      renderorder: str(root, 'renderorder'),
+      infinite: root.getAttribute('infinite') === '1',
+      width: num(root, 'width') ?? 0,
+      height: num(root, 'height') ?? 0,
+      tilewidth: num(root, 'tilewidth') ?? 0,
+      tileheight: num(root, 'tileheight') ?? 0,
+      layers: parseLayers(root),
+      tilesets,
+      properties: parseProperties(root),
+    };
+  }
+
+  /**
+   * Custom properties by name. Strings holding JSON arrays/objects (how we export
+   * nested values) are parsed back.
+   */
+  private static propertyValues(properties: TiledProperty[] | undefined): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const { name, value } of properties || []) {
+      if (typeof value === 'string' && /^\s*[[{]/.test(value)) {
+        try {
+          values[name] = JSON.parse(value);
+          continue;
+        } catch {
+          // Not JSON - keep the string
+        }
+      }
+      values[name] = value;
+    }
+    return values;
+  }
+
+  // ==========================================================================
+  // IMPORT
+  // ==========================================================================
+
+  /**
+   * Convert a Tiled map to map data. Images are read through resolveImage.
+   */
+  static async importMap(source: string, resolveImage: TiledImageResolver): Promise<TiledImportResult> {
+    const map = this.parse(source);
+    const mapProperties = this.propertyValues(map.properties);
+    const context: ImportContext = {
+      map,
+      issues: [],
+      resolveImage,
+      hasBackground: false,
+      mapData: {
+        interactiveAreas: [],
+        impassableAreas: [],
+        assets: [],
+        spawnPoints: [],
+        worldDimensions: {
+          // Exported maps remember the exact size (the tile grid rounds it up)
+          width: Number(mapProperties.worldWidth) || map.width * map.tilewidth,
+          height: Number(mapProperties.worldHeight) || map.height * map.tileheight,
+        },
+      },
+    };
+
+    if (map.orientation && map.orientation !== 'orthogonal') {
+      this.addIssue(context, 'approximated', `${map.orientation} map - object positions are used as orthogonal coordinates`);
+    }
+    if (map.infinite) {
+      this.addIssue(context, 'approximated', 'Infinite map - the world size is taken from the map width and height');
+    }
+
+    await this.importLayers(context, map.layers, { x: 0, y: 0 });
+    return { mapData: context.mapData, issues: context.issues };
+  }
+
+  private static addIssue(context: { issues: TiledIssue[] }, kind: TiledIssue['kind'], message: string): void {
+    // The same problem on many objects is reported once
+    if (!context.issues.some(issue => issue.message === message)) {
+      context.issues.push({ kind, message });
+    }
+  }
+
+  private static async importLayers(context: ImportContext, layers: TiledLayer[], parentOffset: TiledPoint): Promise<void> {
+    for (const layer of layers) {
+      const offset = { x: parentOffset.x + (layer.offsetx || 0), y: parentOffset.y + (layer.offsety || 0) };
+      switch (layer.type) {
+        case 'group':
+          await this.importLayers(context, layer.layers || [], offset);
+          break;
+        case 'tilelayer':
+          this.addIssue(context, 'skipped', `Tile layer "${layer.name}" - tile layers are not supported, export it as an image layer`);
+          break;
+        case 'imagelayer':
+          await this.importImageLayer(context, layer, offset);
+          break;
+        case 'objectgroup':
+          for (const object of layer.objects || []) {
+            await this.importObject(context, layer, object, offset);
+          }
+          break;
+        default:
+          this.addIssue(context, 'skipped', `Layer "${(layer as TiledLayer).name}" - unknown layer type`);
+      }
+    }
+  }
+
+  private static async importImageLayer(context: ImportContext, layer: TiledLayer, offset: TiledPoint): Promise<void> {
+    if (!layer.image) return;
+    if (context.hasBackground) {
+      this.addIssue(context, 'skipped', `Image layer "${layer.name}" - only the first image layer becomes the background`);
+      return;
+    }
+    const dataUrl = await context.resolveImage({ source: layer.image });
+    if (!dataUrl) {
+      this.addIssue(context, 'skipped', `Image layer "${layer.name}" - image "${basename(layer.image)}" was not provided`);
+      return;
+    }
+    if (offset.x !== 0 || offset.y !== 0) {
+      this.addIssue(context, 'approximated', `Image layer "${layer.name}" - the offset is ignored, the background starts at the top-left corner`);
+    }
+    context.hasBackground = true;
+    context.mapData.backgroundImage = dataUrl;
+    context.mapData.backgroundImageDimensions = layer.imagewidth && layer.imageheight
+      ? { width: layer.imagewidth, height: layer.imageheight }
+      : { ...context.mapData.worldDimensions };
+  }
+
+  private static async importObject(context: ImportContext, layer: TiledLayer, object: TiledObject, offset: TiledPoint): Promise<void> {
+    const label = `Object "${object.name || object.id}" in "${layer.name}"`;
+    const properties = this.propertyValues(object.properties);
+    const id = typeof properties[ID_PROPERTY] === 'string' ? properties[ID_PROPERTY] as string : `tiled-${object.id}`;
+    const x = object.x + offset.x;
+    const y = object.y + offset.y;
+    const rotation = object.rotation || 0;
+
+    if (object.gid) {
+      await this.importTileObject(context, label, object, id, { x, y });
+      return;
+    }
+    if (object.text !== undefined) {
+      this.addIssue(context, 'skipped', `${label} - text objects are not supported`);
+      return;
+    }
+    if (object.polyline) {
+      this.addIssue(context, 'skipped', `${label} - polylines are not supported, close the shape into a polygon`);
+      return;
+    }
+    if (object.point) {
+      this.addIssue(context, 'skipped', `${label} - point objects have no area`);
+      return;
+    }
+
+    // Geometry - polygons (and rotated rectangles) as absolute points
+    let points: TiledPoint[] | null = null;
+    if (object.polygon) {
+      if (object.polygon.length < 3) {
+        this.addIssue(context, 'skipped', `${label} - polygon needs at least 3 points`);
+        return;
+      }
+      points = object.polygon.map(p => rotatePoint({ x: x + p.x, y: y + p.y }, { x, y }, rotation));
+    } else {
+      const width = object.width || 0;
+      const height = object.height || 0;
+      if (width <= 0 || height <= 0) {
+        this.addIssue(context, 'skipped', `${label} - has no size`);
+        return;
+      }
+      if (object.ellipse) {
+        this.addIssue(context, 'approximated', `${label} - ellipse imported as its bounding rectangle`);
+      }
+      if (rotation !== 0) {
+        points = [
+          { x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height },
+        ].map(p => rotatePoint(p, { x, y }, rotation));
+      }
+    }
+    const bounds = points ? boundsOf(points) : { x, y, width: object.width || 0, height: object.height || 0 };
+
+    const objectClass = object.class || object.type || '';
+    const kind = kindFromName(objectClass) ?? kindFromName(layer.class || layer.name) ?? 'interactive';
+    const name = object.name || undefined;
+
+    if (kind === 'collision') {
+      const area: ImpassableArea = {
+        id,
+        name,
+        ...bounds,
+        type: points ? 'polygon' : 'rectangle',
+        color: toCssColor(properties.color),
+      };
+      if (points) area.points = points;
+      context.mapData.impassableAreas.push(area);
+      return;
+    }
+
+    if (kind === 'spawn') {
+      if (points) {
+        this.addIssue(context, 'approximated', `${label} - spawn points are rectangles, imported as the bounding box`);
+      }
+      const spawnPoint: SpawnPoint = {
+        id,
+        name: name || 'Spawn',
+        ...bounds,
+        isSpawn: properties.isSpawn !== false,
+      };
+      context.mapData.spawnPoints!.push(spawnPoint);
+      return;
+    }
+
+    // Interactive area - the action type comes from the actionType property or the class
+    let actionType: InteractiveAreaActionType = 'none';
+    const requested = typeof properties.actionType === 'string' ? properties.actionType : objectClass;
+    if (ACTION_TYPES.has(requested)) {
+      actionType = requested as InteractiveAreaActionType;
+    } else if (typeof properties.actionType === 'string') {
+      this.addIssue(context, 'approximated', `${label} - unknown action type "${properties.actionType}", imported without an action`);
+    }
+
+    const area: InteractiveArea = {
+      id,
+      name: name || 'Unnamed Area',
+      ...bounds,
+      color: toCssColor(properties.color),
+      description: typeof properties.description === 'string' ? properties.description : '',
+      actionType,
+      actionConfig: actionType === 'none' ? null : this.actionConfigFrom(properties),
+      shapeType: points ? 'polygon' : 'rectangle',
+    };
+    if (points) area.points = points;
+    context.mapData.interactiveAreas.push(area);
+  }
+
+  // The actionConfig property (JSON) or the remaining custom properties
+  private static actionConfigFrom(properties: Record<string, unknown>): InteractiveAreaActionConfig {
+    if (properties.actionConfig && typeof properties.actionConfig === 'object') {
+      return properties.actionConfig as InteractiveAreaActionConfig;
+    }
+    const config = Object.fromEntries(Object.entries(properties).filter(([name]) => !RESERVED_PROPERTIES.has(name)));
+    return Object.keys(config).length > 0 ? config as unknown as InteractiveAreaActionConfig : null;
+  }
+
+  private static async importTileObject(
+    context: ImportContext,
+    label: string,
+    object: TiledObject,
+    id: string,
+    position: TiledPoint
+  ): Promise<void> {
+    const gid = (object.gid as number) & GID_MASK;
+    if (gid !== object.gid) {
+      this.addIssue(context, 'approximated', `${label} - flipped tiles are imported unflipped`);
+    }
+    const tileset = [...context.map.tilesets]
+      .sort((a, b) => b.firstgid - a.firstgid)
+      .find(candidate => candidate.firstgid <= gid);
+    if (!tileset) {
+      this.addIssue(context, 'skipped', `${label} - refers to a tile of no tileset`);
+      return;
+    }
+    if (tileset.source) {
+      this.addIssue(context, 'skipped', `Tileset "${basename(tileset.source)}" is external - embed it in the map to import its tiles`);
+      return;
+    }
+
+    // Image collection tilesets have an image per tile, spritesheets are cropped
+    const tileId = gid - tileset.firstgid;
+    const tile = tileset.tiles?.find(candidate => candidate.id === tileId);
+    let request: TiledImageRequest | null = null;
+    let tileSize = { width: tileset.tilewidth || 0, height: tileset.tileheight || 0 };
+    if (tile?.image) {
+      request = { source: tile.image };
+      tileSize = { width: tile.imagewidth || tileSize.width, height: tile.imageheight || tileSize.height };
+    } else if (tileset.image && tileset.columns) {
+      const margin = tileset.margin || 0;
+      const spacing = tileset.spacing || 0;
+      request = {
+        source: tileset.image,
+        crop: {
+          x: margin + (tileId % tileset.columns) * (tileSize.width + spacing),
+          y: margin + Math.floor(tileId / tileset.columns) * (tileSize.height + spacing),
+          ...tileSize,
+        },
+      };
+    }
+    if (!request) {
+      this.addIssue(context, 'skipped', `${label} - tile ${tileId} of "${tileset.name}" has no image`);
+      return;
+    }
+
+    const imageData = await context.resolveImage(request);
+    if (!imageData) {
+      this.addIssue(context, 'skipped', `${label} - image "${basename(request.source)}" was not provided`);
+      return;
+    }
+
+    // Tile objects are positioned (and rotated) by their bottom-left corner, assets by the top-left
+    const width = object.width || tileSize.width;
+    const height = object.height || tileSize.height;
+    const rotation = object.rotation || 0;
+    const radians = (rotation * Math.PI) / 180;
+    const asset: Asset = {
+      id,
+      x: position.x + height * Math.sin(radians),
+      y: position.y - height * Math.cos(radians),
+      width,
+      height,
+      imageData,
+      fileName: basename(request.source),
+      rotation,
+      scaleX: 1,
+      scaleY: 1,
+    };
+    context.mapData.assets!.push(asset);
+  }
+
+  // ==========================================================================
+  // EXPORT
+  // ==========================================================================
+
+  /**
+   * Convert map data to a Tiled map (TMJ). Embedded (data URL) images are
+   * returned separately and referenced by file name.
+   */
+  static exportMap(mapData: MapData): TiledExportResult {
+    const issues: TiledIssue[] = [];
+    const images: TiledExportResult['images'] = [];
+    const usedFileNames = new Set<string>();
+    let nextObjectId = 1;
+    let nextLayerId = 1;
+
+    // Data URLs become files next to the map
+    const imageReference = (data: string, name: string): string => {
+      const match = /^data:image\/([a-z0-9+.-]+);/i.exec(data);
+      if (!match) return data;
+      const extension = match[1].toLowerCase() === 'jpeg' ? 'jpg' : match[1].toLowerCase().replace('svg+xml', 'svg');
+      const stem = name.replace(/\.[^.]+$/, '').replace(/[^a-z0-9_-]+/gi, '-') || 'image';
+      let fileName = `${stem}.${extension}`;
+      for (let n = 2; usedFileNames.has(fileName); n++) {
+        fileName = `${stem}-${n}.${extension}`;
+      }
+      usedFileNames.add(fileName);
+      images.push({ fileName, dataUrl: data });
+      return fileName;
+    };
+
+    const { width: worldWidth, height: worldHeight } = mapData.worldDimensions;
+    const layers: TiledLayer[] = [];
+
+    if (mapData.backgroundImage) {
+      const dimensions = mapData.backgroundImageDimensions || mapData.worldDimensions;
+      layers.push({
+        id: nextLayerId++,
+        name: 'Background',
+        type: 'imagelayer',
+        image: imageReference(mapData.backgroundImage, 'background'),
+        imagewidth: dimensions.width,
+        imageheight: dimensions.height,
+        x: 0,
+        y: 0,
+        offsetx: 0,
+        offsety: 0,
+        opacity: 1,
+        visible: true,
+      });
+    }
+
+    const polygonObject = (points: TiledPoint[]) => {
+      const origin = points[0];
+      return {
+        x: origin.x,
+        y: origin.y,
+        width: 0,
+        height: 0,
+        polygon: points.map(p => ({ x: p.x - origin.x, y: p.y - origin.y })),
+      };
+    };
+
+    const objectLayer = (name: string, objects: TiledObject[]): TiledLayer => ({
+      id: nextLayerId++,
+      name,
+      type: 'objectgroup',
+      objects,
+      x: 0,
+      y: 0,
+      opacity: 1,
+      visible: true,
+    });
+
+    layers.push(objectLayer('Interactive Areas', mapData.interactiveAreas.map(area => {
+      const config = area.actionConfig && typeof area.actionConfig === 'object' ? area.actionConfig : {};
+      return {
+        id: nextObjectId++,
+        name: area.name,
+        class: area.actionType,
+        rotation: 0,
+        visible: true,
+        ...(area.shapeType === 'polygon' && area.points?.length
+          ? polygonObject(area.points)
+          : { x: area.x, y: area.y, width: area.width, height: area.height }),
+        properties: this.toProperties({
+          [ID_PROPERTY]: area.id,
+          actionType: area.actionType,
+          description: area.description || undefined,
+          color: area.color,
+          ...config,
+        }),
+      };
+    })));
+
+    layers.push(objectLayer('Collisions', mapData.impassableAreas.map(area => ({
+      id: nextObjectId++,
+      name: area.name || '',
+      class: 'collision',
+      rotation: 0,
+      visible: true,
+      ...(area.type === 'polygon' && area.points?.length
+        ? polygonObject(area.points)
+        : { x: area.x, y: area.y, width: area.width, height: area.height }),
+      properties: this.toProperties({ [ID_PROPERTY]: area.id, color: area.color }),
+    }))));
+
+    layers.push(objectLayer('Spawn Points', (mapData.spawnPoints || []).map(spawnPoint => ({
+      id: nextObjectId++,
+      name: spawnPoint.name,
+      class: 'spawn',
+      x: spawnPoint.x,
+      y: spawnPoint.y,
+      width: spawnPoint.width,
+      height: spawnPoint.height,
+      rotation: 0,
+      visible: true,
+      properties: this.toProperties({ [ID_PROPERTY]: spawnPoint.id, isSpawn: spawnPoint.isSpawn }),
+    }))));
+
+    // Assets are tile objects of an image collection tileset (one tile per distinct image)
+    const tiles: TiledTile[] = [];
+    const tileIds = new Map<string, number>();
+    const assetObjects: TiledObject[] = (mapData.assets || []).map(asset => {
+      let tileId = tileIds.get(asset.imageData);
+      if (tileId === undefined) {
+        tileId = tiles.length;
+        tileIds.set(asset.imageData, tileId);
+        tiles.push({
+          id: tileId,
+          image: imageReference(asset.imageData, asset.fileName || asset.id),
+          imagewidth: asset.width,
+          imageheight: asset.height,
+        });
+      }
+      const scaleX = asset.scaleX ?? 1;
+      const scaleY = asset.scaleY ?? 1;
+      if (scaleX < 0 || scaleY < 0) {
+        this.addIssue({ issues }, 'approximated', `Asset "${asset.fileName || asset.id}" - flipped assets are exported unflipped`);
+      }
+      const width = asset.width * Math.abs(scaleX);
+      const height = asset.height * Math.abs(scaleY);
+      const rotation = asset.rotation || 0;
+      const radians = (rotation * Math.PI) / 180;
+      return {
+        id: nextObjectId++,
+        name: asset.fileName || '',
+        gid: 1 + tileId,
+        x: asset.x - height * Math.sin(radians),
+        y: asset.y + height * Math.cos(radians),
+        width,
+        height,
+        rotation,
+        visible: true,
+        properties: this.toProperties({ [ID_PROPERTY]: asset.id }),
+      };
+    });
+    layers.push(objectLayer('Assets', assetObjects));
+
+    const tilesets: TiledTileset[] = tiles.length > 0
+      ? [{
+        firstgid: 1,
+        name: 'Assets',
+        tilewidth: Math.max(...tiles.map(tile => tile.imagewidth || 0)),
+        tileheight: Math.max(...tiles.map(tile => tile.imageheight || 0)),
+        tilecount: tiles.length,
+        columns: 0,
+        margin: 0,
+        spacing: 0,
+        tiles,
+      }]
+      : [];
+
+    const map: TiledMap & Record<string, unknown> = {
+      type: 'map',
+      version: '1.10',
+      tiledversion: '1.10.2',
+      orientation: 'orthogonal',
+      renderorder: 'right-down',
+      infinite: false,
+      compressionlevel: -1,
+      width: Math.ceil(worldWidth / EXPORT_TILE_SIZE),
+      height: Math.ceil(worldHeight / EXPORT_TILE_SIZE),
+      tilewidth: EXPORT_TILE_SIZE,
+      tileheight: EXPORT_TILE_SIZE,
+      nextlayerid: nextLayerId,
+      nextobjectid: nextObjectId,
+      // The tile grid rounds the size up - keep the exact one for importing back
+      properties: this.toProperties({ worldWidth, worldHeight }),
+      layers,
+      tilesets,
+    };
+
+    return { json: JSON.stringify(map, null, 2), images, issues };
+  }
+
+  // Values as typed Tiled properties; arrays and objects are stored as JSON strings
+  private static toProperties(values: Record<string, unknown>): TiledProperty[] {
+    const properties: TiledProperty[] = [];
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined || value === null) continue;
+      if (typeof value === 'boolean') {
+        properties.push({ name, type: 'bool', value });
+      } else if (typeof value === 'number') {
+        properties.push({ name, type: Number.isInteger(value) ? 'int' : 'float', value });
+      } else if (typeof value === 'string') {
+        properties.push({ name, type: 'string', value });
+      } else {
+        properties.push({ name, type: 'string', value: JSON.stringify(value) });
+      }
+    }
+    return properties;
+  }
+
+  // ==========================================================================
+  // IMAGE FILES
+  // ==========================================================================
+
+  /**
+   * Resolve images from files picked together with the map (matched by file name)
+   */
+  static fileImageResolver(files: File[]): TiledImageResolver {
+    const byName = new Map(files.map(file => [file.name.toLowerCase(), file]));
+
+    const readDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+
+    const crop = (dataUrl: string, rect: NonNullable<TiledImageRequest['crop']>) => new Promise<string>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = rect.width;
+        canvas.height = rect.height;
+        canvas.getContext('2d')?.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+        resolve(canvas.toDataURL('image/png'));
+      };
+      image.onerror = () => reject(new Error('Failed to load image'));
+      image.src = dataUrl;
+    });
+
+    const cache = new Map<string, Promise<string>>();
+    return async ({ source, crop: rect }) => {
+      const file = byName.get(basename(source).toLowerCase());
+      if (!file) return null;
+      let dataUrl = cache.get(file.name);
+      if (!dataUrl) {
+        dataUrl = readDataUrl(file);
+        cache.set(file.name, dataUrl);
+      }
+      return rect ? crop(await dataUrl, rect) : dataUrl;
+    };
+  }
+}
@@ -1,13 +1,25 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import { WorldRoomApiService, WorldRoom } from '../services/api/WorldRoomApiService';
+import { registerWorldRooms, isValidWorldRoomId } from './RoomMapping';
+import { logger } from './logger';
 
-// Available world rooms
-export const WORLD_ROOMS = [
+// World room IDs come from the server's world room registry
+export type WorldRoomId = string;
+
+export interface WorldRoomOption {
+  id: WorldRoomId;
+  label: string;
+  description?: string;
+  capacity?: number;
+  playerCount?: number;
+}
+
+// Built-in world rooms, used until the registry has loaded (or if it can't be reached)
+export const WORLD_ROOMS: WorldRoomOption[] = [
   { id: 'Stargety-Oasis-1', label: 'Stargety Oasis 1' },
   { id: 'Stargety-Oasis-2', label: 'Stargety Oasis 2' },
   { id: 'Stargety-Oasis-3', label: 'Stargety Oasis 3' },
-] as const;
-
-export type WorldRoomId = typeof WORLD_ROOMS[number]['id'];
+];
 
 const DEFAULT_WORLD_ROOM: WorldRoomId = 'Stargety-Oasis-1';
 const STORAGE_KEY = 'stargetyOasis_worldRoomId';
@@ -15,7 +27,8 @@ const STORAGE_KEY = 'stargetyOasis_worldRoomId';
 interface WorldRoomContextType {
   worldRoomId: WorldRoomId;
   setWorldRoomId: (roomId: WorldRoomId) => void;
-  availableRooms: typeof WORLD_ROOMS;
+  availableRooms: WorldRoomOption[];
+  refreshRooms: () => Promise<void>;
 }
 
 const WorldRoomContext = createContext<WorldRoomContextType | undefined>(undefined);
@@ -28,27 +41,44 @@ export const useWorldRoom = (): WorldRoomContextType => {
   return context;
 };
 
+const toWorldRoomOption = (room: WorldRoom): WorldRoomOption => ({
+  id: room.roomId,
+  label: room.name,
+  description: room.description,
+  capacity: room.capacity,
+  playerCount: room.playerCount,
+});
+
 interface WorldRoomProviderProps {
   children: React.ReactNode;
 }
 
 export const WorldRoomProvider: React.FC<WorldRoomProviderProps> = ({ children }) => {
-  const [worldRoomId, setWorldRoomIdState] = useState<WorldRoomId>(() => {
-    // Load from sessionStorage on mount
-    const savedRoomId = sessionStorage.getItem(STORAGE_KEY);
-    if (savedRoomId && WORLD_ROOMS.some(room => room.id === savedRoomId)) {
-      return savedRoomId as WorldRoomId;
-    }
-    return DEFAULT_WORLD_ROOM;
-  });
+  const [availableRooms, setAvailableRooms] = useState<WorldRoomOption[]>(WORLD_ROOMS);
+  const [worldRoomId, setWorldRoomIdState] = useState<WorldRoomId>(getCurrentWorldRoomId);
 
   // Persist to sessionStorage when changed
   useEffect(() => {
     sessionStorage.setItem(STORAGE_KEY, worldRoomId);
   }, [worldRoomId]);
 
+  const refreshRooms = useCallback(async () => {
+    const response = await WorldRoomApiService.listRooms();
+    if (!response.success || !response.data) {
+      logger.warn('[WorldRoomContext] Failed to load world rooms, using built-in rooms', { error: response.error });
+      return;
+    }
+    registerWorldRooms(response.data);
+    setAvailableRooms(response.data.map(toWorldRoomOption));
+  }, []);
+
+  // Load the world room registry on mount
+  useEffect(() => {
+    refreshRooms();
+  }, [refreshRooms]);
+
   const setWorldRoomId = useCallback((roomId: WorldRoomId) => {
-    if (WORLD_ROOMS.some(room => room.id === roomId)) {
+    if (isValidWorldRoomId(roomId)) {
       setWorldRoomIdState(roomId);
     }
   }, []);
@@ -56,7 +86,8 @@ export const WorldRoomProvider: React.FC<WorldRoomProviderProps> = ({ children }
   const contextValue: WorldRoomContextType = {
     worldRoomId,
     setWorldRoomId,
-    availableRooms: WORLD_ROOMS,
+    availableRooms,
+    refreshRooms,
   };
 
   return (
@@ -67,11 +98,10 @@ export const WorldRoomProvider: React.FC<WorldRoomProviderProps> = ({ children }
 };
 
 // Utility function to get current world room ID (for use outside React)
-export const getCurrentWorldRoomId = (): WorldRoomId => {
+export function getCurrentWorldRoomId(): WorldRoomId {
   const savedRoomId = sessionStorage.getItem(STORAGE_KEY);
-  if (savedRoomId && WORLD_ROOMS.some(room => room.id === savedRoomId)) {
-    return savedRoomId as WorldRoomId;
+  if (savedRoomId && isValidWorldRoomId(savedRoomId)) {
+    return savedRoomId;
   }
   return DEFAULT_WORLD_ROOM;
-};
-
+}
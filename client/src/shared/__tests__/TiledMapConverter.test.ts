@@ -0,0 +1,100 @@
+import { TiledMapConverter, TiledImageResolver } from '../TiledMapConverter';
+import type { MapData } from '../MapDataContext';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgo=';
+
+const mapData: MapData = {
+  worldDimensions: { width: 1000, height: 700 },
+  backgroundImage: PIXEL,
+  backgroundImageDimensions: { width: 1000, height: 700 },
+  interactiveAreas: [
+    {
+      id: 'area-1', name: 'Docs', x: 10, y: 20, width: 100, height: 50, color: '#4A90E2',
+      description: 'Read me', actionType: 'url',
+      actionConfig: { url: 'https://example.com', openMode: 'newTab' }, shapeType: 'rectangle',
+    },
+    {
+      id: 'area-2', name: 'Lights', x: 0, y: 0, width: 40, height: 40, description: '', actionType: 'switch',
+      actionConfig: { targetIds: ['a', 'b'] } as never, shapeType: 'polygon',
+      points: [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 0, y: 40 }],
+    },
+  ],
+  impassableAreas: [
+    { id: 'wall-1', name: 'Wall', x: 200, y: 200, width: 300, height: 20, type: 'rectangle' },
+  ],
+  assets: [
+    { id: 'tree-1', x: 300, y: 100, width: 64, height: 96, imageData: PIXEL, fileName: 'tree.png', rotation: 0, scaleX: 1, scaleY: 1 },
+  ],
+  spawnPoints: [
+    { id: 'spawn-1', name: 'Lobby', x: 50, y: 500, width: 96, height: 96, isSpawn: true },
+  ],
+};
+
+// Resolves the images an export produced by file name
+const resolverFor = (images: Array<{ fileName: string; dataUrl: string }>): TiledImageResolver =>
+  async ({ source }) => images.find(image => image.fileName === source)?.dataUrl ?? null;
+
+describe('TiledMapConverter', () => {
+  it('round-trips map data through a Tiled export', async () => {
+    const { json, images, issues } = TiledMapConverter.exportMap(mapData);
+    expect(issues).toEqual([]);
+    expect(images.map(image => image.fileName)).toEqual(['background.png', 'tree.png']);
+
+    const result = await TiledMapConverter.importMap(json, resolverFor(images));
+
+    expect(result.issues).toEqual([]);
+    expect(result.mapData.worldDimensions).toEqual({ width: 1000, height: 700 });
+    expect(result.mapData.backgroundImage).toBe(PIXEL);
+    expect(result.mapData.interactiveAreas).toEqual([
+      expect.objectContaining({ ...mapData.interactiveAreas[0] }),
+      expect.objectContaining({ ...mapData.interactiveAreas[1] }),
+    ]);
+    expect(result.mapData.impassableAreas).toEqual([expect.objectContaining(mapData.impassableAreas[0])]);
+    expect(result.mapData.assets).toEqual(mapData.assets);
+    expect(result.mapData.spawnPoints).toEqual(mapData.spawnPoints);
+  });
+
+  it('imports TMX and reports what it cannot convert', async () => {
+    const tmx = `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.10" orientation="orthogonal" width="10" height="8" tilewidth="32" tileheight="32" infinite="0">
+  <tileset firstgid="1" source="terrain.tsx"/>
+  <layer id="1" name="Ground" width="10" height="8"><data encoding="csv">1,1</data></layer>
+  <objectgroup id="2" name="Collisions">
+    <object id="1" x="0" y="0"><polygon points="0,0 32,0 32,32"/></object>
+  </objectgroup>
+  <objectgroup id="3" name="Areas">
+    <object id="2" name="Meeting" type="jitsi" x="64" y="32" width="128" height="64">
+      <properties>
+        <property name="roomName" value="standup"/>
+        <property name="capacity" type="int" value="8"/>
+      </properties>
+    </object>
+    <object id="3" name="Path" x="0" y="0"><polyline points="0,0 10,10"/></object>
+    <object id="4" name="Rock" gid="3" x="0" y="64" width="32" height="32"/>
+  </objectgroup>
+</map>`;
+
+    const result = await TiledMapConverter.importMap(tmx, async () => null);
+
+    expect(result.mapData.worldDimensions).toEqual({ width: 320, height: 256 });
+    expect(result.mapData.impassableAreas).toEqual([
+      expect.objectContaining({ id: 'tiled-1', type: 'polygon', x: 0, y: 0, width: 32, height: 32 }),
+    ]);
+    expect(result.mapData.interactiveAreas).toEqual([
+      expect.objectContaining({
+        id: 'tiled-2', name: 'Meeting', actionType: 'jitsi', x: 64, y: 32,
+        actionConfig: { roomName: 'standup', capacity: 8 },
+      }),
+    ]);
+    expect(result.issues.map(issue => issue.kind)).toEqual(['skipped', 'skipped', 'skipped']);
+    expect(result.issues.map(issue => issue.message)).toEqual([
+      expect.stringContaining('Tile layer "Ground"'),
+      expect.stringContaining('polylines'),
+      expect.stringContaining('terrain.tsx'),
+    ]);
+  });
+
+  it('rejects files that are not Tiled maps', async () => {
+    await expect(TiledMapConverter.importMap('{"hello": 1}', async () => null)).rejects.toThrow('Not a Tiled map');
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  getSpritesheetManifestUrl,
+  loadImageSpritesheet,
+  getSpritesheetFrame,
+  createSpritesheetAnimator,
+  ImageSpritesheet,
+} from '../spritesheetUtils';
+
+const sheet: ImageSpritesheet = {
+  url: 'http://localhost:3001/uploads/maps/default/abc.sheet.png',
+  frameCount: 3,
+  frameWidth: 20,
+  frameHeight: 10,
+  columns: 2,
+  delays: [100, 200, 50],
+  loop: 2,
+};
+
+describe('spritesheetUtils', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    jest.useRealTimers();
+    global.fetch = originalFetch;
+  });
+
+  it('finds the manifest of stored GIFs only', () => {
+    expect(getSpritesheetManifestUrl('http://localhost:3001/uploads/maps/default/abc.gif'))
+      .toBe('http://localhost:3001/uploads/maps/default/abc.sheet.json');
+    expect(getSpritesheetManifestUrl('/uploads/maps/default/abc.GIF?v=2')).toBe('/uploads/maps/default/abc.sheet.json');
+    expect(getSpritesheetManifestUrl('http://localhost:3001/uploads/maps/default/abc.png')).toBeNull();
+    expect(getSpritesheetManifestUrl('data:image/gif;base64,R0lGODlh')).toBeNull();
+    expect(getSpritesheetManifestUrl(undefined)).toBeNull();
+  });
+
+  it('loads the manifest and resolves the spritesheet next to it', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        frameCount: 3, frameWidth: 20, frameHeight: 10, columns: 2, delays: [100, 200, 50], loop: 2,
+        spritesheet: 'abc.sheet.png',
+      }),
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const loaded = await loadImageSpritesheet('http://localhost:3001/uploads/maps/default/abc.gif');
+    await loadImageSpritesheet('http://localhost:3001/uploads/maps/default/abc.gif');
+
+    expect(loaded).toEqual(sheet);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves to null for GIFs without a spritesheet', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false }) as unknown as typeof fetch;
+    await expect(loadImageSpritesheet('http://localhost:3001/uploads/maps/default/old.gif')).resolves.toBeNull();
+  });
+
+  it('locates frames in the grid', () => {
+    expect(getSpritesheetFrame(sheet, 0)).toEqual({ x: 0, y: 0, width: 20, height: 10 });
+    expect(getSpritesheetFrame(sheet, 2)).toEqual({ x: 0, y: 10, width: 20, height: 10 });
+  });
+
+  it('plays frames with their delays for the loop count', () => {
+    jest.useFakeTimers();
+    const frames: number[] = [];
+    const animator = createSpritesheetAnimator(sheet, index => frames.push(index));
+
+    animator.start();
+    jest.advanceTimersByTime(100 + 200 + 50);
+    expect(frames).toEqual([0, 1, 2, 0]);
+
+    jest.advanceTimersByTime(10000);
+    expect(frames).toEqual([0, 1, 2, 0, 1, 2]);
+    expect(animator.frameIndex).toBe(2);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Spritesheet Utilities
+ *
+ * Animated map images stored on the server come with a spritesheet of their
+ * frames: next to `<hash>.gif` the server writes `<hash>.sheet.png` and the
+ * manifest `<hash>.sheet.json` (frame size, grid columns, frame delays).
+ * Renderers play the spritesheet instead of decoding the GIF in the browser;
+ * images without a manifest (data URLs, older uploads) fall back to decoding.
+ */
+
+import { logger } from './logger';
+
+/**
+ * A spritesheet: frames left to right, top to bottom in a grid of `columns`
+ */
+export interface ImageSpritesheet {
+  url: string;
+  frameCount: number;
+  frameWidth: number;
+  frameHeight: number;
+  columns: number;
+  delays: number[];  // Milliseconds per frame
+  loop: number;      // Iterations, 0 = forever
+}
+
+export interface SpritesheetAnimator {
+  start(): void;
+  stop(): void;
+  readonly frameIndex: number;
+}
+
+const manifestRequests = new Map<string, Promise<ImageSpritesheet | null>>();
+
+/**
+ * URL of the spritesheet manifest of a stored GIF; null for data URLs and other images
+ */
+export function getSpritesheetManifestUrl(src: string | undefined | null): string | null {
+  if (!src || src.startsWith('data:')) return null;
+  const match = /^([^?#]+)\.gif([?#].*)?$/i.exec(src);
+  return match ? `${match[1]}.sheet.json` : null;
+}
+
+/**
+ * Load the spritesheet of an image (cached per URL). Resolves to null if the
+ * image has none - decode it instead.
+ */
+export function loadImageSpritesheet(src: string | undefined | null): Promise<ImageSpritesheet | null> {
+  const manifestUrl = getSpritesheetManifestUrl(src);
+  if (!manifestUrl) return Promise.resolve(null);
+
+  let request = manifestRequests.get(manifestUrl);
+  if (!request) {
+    request = fetch(manifestUrl)
+      .then(async response => {
+        if (!response.ok) return null;
+        const manifest = await response.json();
+        if (typeof manifest.spritesheet !== 'string' || !(manifest.frameCount > 0)) return null;
+        return {
+          url: new URL(manifest.spritesheet, manifestUrl).toString(),
+          frameCount: manifest.frameCount,
+          frameWidth: manifest.frameWidth,
+          frameHeight: manifest.frameHeight,
+          columns: manifest.columns,
+          delays: manifest.delays ?? [],
+          loop: manifest.loop ?? 0,
+        };
+      })
+      .catch(error => {
+        logger.warn('SPRITESHEET MANIFEST LOAD FAILED', { manifestUrl, error });
+        return null;
+      });
+    manifestRequests.set(manifestUrl, request);
+  }
+  return request;
+}
+
+/**
+ * Source rectangle of a frame in the spritesheet
+ */
+export function getSpritesheetFrame(sheet: ImageSpritesheet, index: number): { x: number; y: number; width: number; height: number } {
+  return {
+    x: (index % sheet.columns) * sheet.frameWidth,
+    y: Math.floor(index / sheet.columns) * sheet.frameHeight,
+    width: sheet.frameWidth,
+    height: sheet.frameHeight,
+  };
+}
+
+/**
+ * Step through the frames with their delays, calling `onFrame` for each.
+ * Stops on the last frame once the loop count is played.
+ */
+export function createSpritesheetAnimator(sheet: ImageSpritesheet, onFrame: (index: number) => void): SpritesheetAnimator {
+  let frameIndex = 0;
+  let iteration = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = () => {
+    timer = setTimeout(() => {
+      if (frameIndex === sheet.frameCount - 1) {
+        iteration++;
+        if (sheet.loop > 0 && iteration >= sheet.loop) {
+          timer = null;
+          return;
+        }
+      }
+      frameIndex = (frameIndex + 1) % sheet.frameCount;
+      onFrame(frameIndex);
+      schedule();
+    }, sheet.delays[frameIndex] || 100);
+  };
+
+  return {
+    start() {
+      if (timer) return;
+      // Played out - start over
+      if (sheet.loop > 0 && iteration >= sheet.loop) {
+        iteration = 0;
+        frameIndex = 0;
+      }
+      onFrame(frameIndex);
+      schedule();
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    get frameIndex() {
+      return frameIndex;
+    },
+  };
+}
@@ -14,13 +14,15 @@
  * - No singleton pattern - stateless service functions
  */
 
-import { MapData, InteractiveArea, ImpassableArea, Asset } from '../shared/MapDataContext';
-import { MapApiService } from '../services/api/MapApiService';
+import { MapData, InteractiveArea, ImpassableArea, Asset, SpawnPoint } from '../shared/MapDataContext';
+import { MapApiService, MapData as ApiMapData, MapSaveConflict } from '../services/api/MapApiService';
 import { logger } from '../shared/logger';
 import { MapCacheManager, MapCacheData } from '../shared/MapCacheManager';
 import { MapCacheValidator } from '../shared/MapCacheValidator';
-import { getDatabaseRoomId } from '../shared/RoomMapping';
+import { WorldRoomApiService } from '../services/api/WorldRoomApiService';
+import { getDatabaseRoomId, isValidWorldRoomId, registerWorldRooms } from '../shared/RoomMapping';
 import { WorldRoomId } from '../shared/WorldRoomContext';
+import { TiledMapConverter, TiledImageResolver, TiledIssue, TiledExportResult } from '../shared/TiledMapConverter';
 
 // Extended map data structure for the new system
 export interface ExtendedMapData extends MapData {
@@ -33,6 +35,11 @@ export interface ExtendedMapData extends MapData {
   };
 }
 
+// Outcome of a save - the new version, or the conflict with someone else's save
+export type MapSaveResult =
+  | { saved: true; version: number }
+  | { saved: false; conflict: MapSaveConflict };
+
 // Storage keys for localStorage (maintained for fallback)
 const STORAGE_KEYS = {
   MAP_DATA: 'stargety_shared_map_data',
@@ -50,9 +57,15 @@ const eventListeners: Map<string, MapEventCallback[]> = new Map();
 
 export class MapDataService {
   /**
-   * Save map data to PostgreSQL (with localStorage fallback)
+   * Save map data to PostgreSQL (with localStorage fallback).
+   * With a base version (the version the editor loaded) the save is not written if
+   * someone else saved the map since - the conflict is returned instead.
    */
-  static async saveMapData(data: ExtendedMapData, roomId: string = DEFAULT_ROOM_ID): Promise<void> {
+  static async saveMapData(
+    data: ExtendedMapData,
+    roomId: string = DEFAULT_ROOM_ID,
+    baseVersion?: number
+  ): Promise<MapSaveResult> {
     try {
       // Update metadata
       const dataToSave = {
@@ -60,6 +73,8 @@ export class MapDataService {
         lastModified: new Date(),
         version: data.version + 1
       };
+      // Stays at the loaded version if only saved locally, so the next save is still based on the server's
+      let savedVersion = data.version;
 
       // Try to save to API first
       try {
@@ -71,13 +86,19 @@ export class MapDataService {
           interactiveAreas: dataToSave.interactiveAreas as any,
           impassableAreas: dataToSave.impassableAreas as any,
           assets: dataToSave.assets as any,
+          spawnPoints: dataToSave.spawnPoints || [],
           metadata: dataToSave.metadata,
         };
 
-        const result = await MapApiService.saveMap(roomId, apiData as any);
+        const result = await MapApiService.saveMap(roomId, apiData as any, baseVersion);
 
+        if (result.conflict) {
+          logger.warn('MAP SAVE CONFLICT', { roomId, baseVersion, currentVersion: result.conflict.currentVersion });
+          return { saved: false, conflict: result.conflict };
+        }
         if (result.success) {
-          logger.info('MAP SAVED TO DATABASE', { roomId, version: dataToSave.version });
+          savedVersion = result.data?.version ?? dataToSave.version;
+          logger.info('MAP SAVED TO DATABASE', { roomId, version: savedVersion });
         } else {
           throw new Error(result.error || 'API save failed');
         }
@@ -93,7 +114,8 @@ export class MapDataService {
       logger.info('MAP_CACHE_INVALIDATED_ON_EDIT', { roomId });
 
       // Emit save event
-      this.emit('map:saved', dataToSave);
+      this.emit('map:saved', { ...dataToSave, version: savedVersion });
+      return { saved: true, version: savedVersion };
 
     } catch (error) {
       logger.error('FAILED TO SAVE MAP DATA', error);
@@ -107,6 +129,16 @@ export class MapDataService {
    */
   static async loadMapDataByWorldRoom(worldRoomId: WorldRoomId, forGameplay: boolean = true): Promise<ExtendedMapData | null> {
     try {
+      // Rooms not known yet (e.g. private rooms) are resolved through the world room registry
+      if (!isValidWorldRoomId(worldRoomId)) {
+        const response = await WorldRoomApiService.getRoom(worldRoomId);
+        if (!response.success || !response.data) {
+          logger.warn('UNKNOWN_WORLD_ROOM', { worldRoomId, error: response.error });
+          return null;
+        }
+        registerWorldRooms([response.data]);
+      }
+
       const databaseRoomId = getDatabaseRoomId(worldRoomId);
       logger.info('LOADING_MAP_FOR_WORLD_ROOM', { worldRoomId, databaseRoomId });
       return this.loadMapData(databaseRoomId, forGameplay);
@@ -146,24 +178,7 @@ export class MapDataService {
         if (result.success && result.data) {
           logger.info('MAP LOADED FROM DATABASE', { roomId });
 
-          // Convert API response to ExtendedMapData
-          const mapData: ExtendedMapData = {
-            interactiveAreas: (result.data.interactiveAreas || []) as InteractiveArea[],
-            impassableAreas: (result.data.impassableAreas || []) as ImpassableArea[],
-            assets: (result.data.assets || []) as unknown as Asset[],
-            worldDimensions: result.data.worldDimensions || { width: 7603, height: 3679 },
-            backgroundImage: result.data.backgroundImage || undefined,
-            backgroundImageDimensions: result.data.backgroundImageDimensions,
-            version: result.data.version || 1,
-            lastModified: result.data.updatedAt ? new Date(result.data.updatedAt) : new Date(),
-            metadata: result.data.metadata as ExtendedMapData['metadata'] || {
-              name: 'Stargety Oasis',
-              description: '',
-              tags: [],
-            },
-          };
-
-          const validatedData = this.validateAndSanitizeMapData(mapData);
+          const validatedData = this.validateAndSanitizeMapData(this.fromApiMapData(result.data));
 
           // Update cache with fresh data
           if (forGameplay) {
@@ -205,6 +220,28 @@ export class MapDataService {
     }
   }
 
+  /**
+   * Convert map data from the API to ExtendedMapData format
+   */
+  static fromApiMapData(data: ApiMapData): ExtendedMapData {
+    return {
+      interactiveAreas: (data.interactiveAreas || []) as InteractiveArea[],
+      impassableAreas: (data.impassableAreas || []) as ImpassableArea[],
+      assets: (data.assets || []) as unknown as Asset[],
+      spawnPoints: (data.spawnPoints || []) as SpawnPoint[],
+      worldDimensions: data.worldDimensions || { width: 7603, height: 3679 },
+      backgroundImage: data.backgroundImage || undefined,
+      backgroundImageDimensions: data.backgroundImageDimensions,
+      version: data.version || 1,
+      lastModified: data.updatedAt ? new Date(data.updatedAt) : new Date(),
+      metadata: data.metadata as ExtendedMapData['metadata'] || {
+        name: 'Stargety Oasis',
+        description: '',
+        tags: [],
+      },
+    };
+  }
+
   /**
    * Convert cached map data to ExtendedMapData format
    */
@@ -213,6 +250,7 @@ export class MapDataService {
       interactiveAreas: cacheData.mapData.interactiveAreas || [],
       impassableAreas: cacheData.mapData.impassableAreas || [],
       assets: cacheData.assets || [],
+      spawnPoints: cacheData.mapData.spawnPoints || [],
       worldDimensions: cacheData.mapData.worldDimensions || { width: 1920, height: 1080 },
       backgroundImage: cacheData.mapData.backgroundImage,
       backgroundImageDimensions: cacheData.mapData.backgroundImageDimensions,
@@ -349,9 +387,9 @@ export class MapDataService {
     };
 
     // Save the default map
-    await this.saveMapData(defaultMap, roomId);
+    const result = await this.saveMapData(defaultMap, roomId);
 
-    return defaultMap;
+    return result.saved ? { ...defaultMap, version: result.version } : defaultMap;
   }
 
   /**
@@ -378,7 +416,8 @@ export class MapDataService {
       },
       interactiveAreas: Array.isArray(data.interactiveAreas) ? data.interactiveAreas : [],
       impassableAreas: Array.isArray(data.impassableAreas) ? data.impassableAreas : [],
-      assets: Array.isArray(data.assets) ? data.assets : [] // Include assets
+      assets: Array.isArray(data.assets) ? data.assets : [], // Include assets
+      spawnPoints: Array.isArray(data.spawnPoints) ? data.spawnPoints : []
     };
 
     return sanitized;
@@ -418,16 +457,114 @@ export class MapDataService {
   static async importMapData(jsonData: string, roomId: string = DEFAULT_ROOM_ID): Promise<ExtendedMapData> {
     try {
       const parsedData = JSON.parse(jsonData);
-      const validatedData = this.validateAndSanitizeMapData(parsedData);
+      const validatedData = await this.storeEmbeddedImages(this.validateAndSanitizeMapData(parsedData), roomId);
 
-      await this.saveMapData(validatedData, roomId);
-      return validatedData;
+      const result = await this.saveMapData(validatedData, roomId);
+      return result.saved ? { ...validatedData, version: result.version } : validatedData;
     } catch (error) {
       logger.error('FAILED TO IMPORT MAP DATA', error);
       throw new Error('Invalid map data format');
     }
   }
 
+  /**
+   * Export map data as a Tiled map (TMJ) plus the images it references
+   * (stored assets are downloaded, Tiled needs them as files)
+   */
+  static async exportTiledMap(data: ExtendedMapData): Promise<TiledExportResult> {
+    const dataUrls = new Map<string, string>();
+    const toDataUrl = async (src: string | undefined) => {
+      if (!src || src.startsWith('data:')) return src;
+      if (!dataUrls.has(src)) {
+        try {
+          const blob = await fetch(src).then(response => response.blob());
+          dataUrls.set(src, await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+          }));
+        } catch (error) {
+          // Exported as a reference to the URL
+          logger.warn('FAILED TO DOWNLOAD MAP IMAGE FOR EXPORT', { src, error });
+          dataUrls.set(src, src);
+        }
+      }
+      return dataUrls.get(src);
+    };
+
+    const withImages: ExtendedMapData = {
+      ...data,
+      backgroundImage: await toDataUrl(data.backgroundImage),
+      assets: await Promise.all((data.assets || []).map(async asset => ({
+        ...asset,
+        imageData: (await toDataUrl(asset.imageData)) ?? asset.imageData,
+      }))),
+    };
+    return TiledMapConverter.exportMap(withImages);
+  }
+
+  /**
+   * Import a Tiled map (TMJ/JSON or TMX). Referenced images are read through
+   * resolveImage; whatever could not be converted is returned as issues.
+   */
+  static async importTiledMap(
+    source: string,
+    resolveImage: TiledImageResolver,
+    roomId: string = DEFAULT_ROOM_ID
+  ): Promise<{ mapData: ExtendedMapData; issues: TiledIssue[] }> {
+    let converted;
+    try {
+      converted = await TiledMapConverter.importMap(source, resolveImage);
+    } catch (error) {
+      logger.error('FAILED TO IMPORT TILED MAP', error);
+      throw new Error(`Invalid Tiled map: ${error instanceof Error ? error.message : 'unreadable file'}`);
+    }
+
+    const validatedData = await this.storeEmbeddedImages(this.validateAndSanitizeMapData(converted.mapData), roomId);
+    const result = await this.saveMapData(validatedData, roomId);
+    const mapData = result.saved ? { ...validatedData, version: result.version } : validatedData;
+    return { mapData, issues: converted.issues };
+  }
+
+  /**
+   * Store an image as a map asset and return its URL, which map data refers to
+   * it by. Without the server the data URL is returned - the server extracts
+   * it when the map is saved.
+   */
+  static async storeMapImage(dataUrl: string, fileName: string, roomId: string = DEFAULT_ROOM_ID): Promise<string> {
+    if (!dataUrl.startsWith('data:')) {
+      return dataUrl;
+    }
+    try {
+      const blob = await fetch(dataUrl).then(response => response.blob());
+      const result = await MapApiService.uploadAsset(roomId, new File([blob], fileName, { type: blob.type }));
+      if (result.success && result.data) {
+        return result.data.fileUrl;
+      }
+      throw new Error(result.error || 'Upload failed');
+    } catch (error) {
+      logger.warn('FAILED TO STORE MAP IMAGE, KEEPING IT EMBEDDED', { fileName, error });
+      return dataUrl;
+    }
+  }
+
+  /**
+   * Store the images embedded in map data (imports) as assets
+   */
+  private static async storeEmbeddedImages(data: ExtendedMapData, roomId: string): Promise<ExtendedMapData> {
+    return {
+      ...data,
+      backgroundImage: data.backgroundImage
+        ? await this.storeMapImage(data.backgroundImage, 'background', roomId)
+        : data.backgroundImage,
+      assets: await Promise.all((data.assets || []).map(async asset => ({
+        ...asset,
+        imageData: await this.storeMapImage(asset.imageData, asset.fileName || asset.id, roomId),
+      }))),
+    };
+  }
+
   /**
    * Simple event system for notifications
    */
@@ -659,8 +796,8 @@ export class MapDataService {
         throw new Error('No backup data available');
       }
 
-      await this.saveMapData(backupData, roomId);
-      return backupData;
+      const result = await this.saveMapData(backupData, roomId);
+      return result.saved ? { ...backupData, version: result.version } : backupData;
     } catch (error) {
       logger.error('FAILED TO RESTORE FROM BACKUP', error);
       throw error;
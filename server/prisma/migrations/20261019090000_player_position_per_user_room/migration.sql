@@ -0,0 +1,19 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[userId,roomId]` on the table `player_positions` will be added. Older duplicate rows are removed first.
+
+*/
+-- AlterTable
+ALTER TABLE "player_positions" ALTER COLUMN "sessionId" DROP NOT NULL;
+
+-- Keep only the most recent position per user and room
+DELETE FROM "player_positions" a
+USING "player_positions" b
+WHERE a."userId" IS NOT NULL
+  AND a."userId" = b."userId"
+  AND a."roomId" = b."roomId"
+  AND (a."updatedAt" < b."updatedAt" OR (a."updatedAt" = b."updatedAt" AND a."id" < b."id"));
+
+-- CreateIndex
+CREATE UNIQUE INDEX "player_positions_userId_roomId_key" ON "player_positions"("userId", "roomId");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "world_rooms" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "mapRoomId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "capacity" INTEGER NOT NULL DEFAULT 100,
+    "visibility" TEXT NOT NULL DEFAULT 'public',
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "world_rooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "world_rooms_roomId_key" ON "world_rooms"("roomId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "world_rooms_mapRoomId_key" ON "world_rooms"("mapRoomId");
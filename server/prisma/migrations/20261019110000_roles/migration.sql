@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'member';
+
+-- CreateTable
+CREATE TABLE "room_roles" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "room_roles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "room_roles_roomId_idx" ON "room_roles"("roomId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "room_roles_userId_roomId_key" ON "room_roles"("userId", "roomId");
+
+-- AddForeignKey
+ALTER TABLE "room_roles" ADD CONSTRAINT "room_roles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "two_fa_method" TEXT NOT NULL DEFAULT 'ntfy',
+ADD COLUMN "two_fa_login_expires_at" TIMESTAMP(3),
+ADD COLUMN "totp_secret" TEXT,
+ADD COLUMN "totp_pending_secret" TEXT,
+ADD COLUMN "totp_last_step" INTEGER,
+ADD COLUMN "recovery_code_hashes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "webauthn_challenge" TEXT;
+
+-- CreateTable
+CREATE TABLE "webauthn_credentials" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "credentialId" TEXT NOT NULL,
+    "publicKey" BYTEA NOT NULL,
+    "counter" INTEGER NOT NULL DEFAULT 0,
+    "transports" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "name" TEXT NOT NULL DEFAULT 'Passkey',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "webauthn_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webauthn_credentials_credentialId_key" ON "webauthn_credentials"("credentialId");
+
+-- CreateIndex
+CREATE INDEX "webauthn_credentials_userId_idx" ON "webauthn_credentials"("userId");
+
+-- AddForeignKey
+ALTER TABLE "webauthn_credentials" ADD CONSTRAINT "webauthn_credentials_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT,
+    "action" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT,
+    "roomId" TEXT,
+    "ip" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_createdAt_idx" ON "audit_events"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_actorId_idx" ON "audit_events"("actorId");
+
+-- CreateIndex
+CREATE INDEX "audit_events_action_idx" ON "audit_events"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_events_roomId_idx" ON "audit_events"("roomId");
+
+-- CreateIndex
+CREATE INDEX "audit_events_targetType_targetId_idx" ON "audit_events"("targetType", "targetId");
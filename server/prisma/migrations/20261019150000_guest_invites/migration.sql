@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "guestRoomId" TEXT,
+ADD COLUMN "guestExpiresAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "room_invites" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdByName" TEXT,
+    "maxUses" INTEGER NOT NULL,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "room_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "room_invites_token_key" ON "room_invites"("token");
+
+-- CreateIndex
+CREATE INDEX "room_invites_roomId_idx" ON "room_invites"("roomId");
+
+-- CreateIndex
+CREATE INDEX "users_guestExpiresAt_idx" ON "users"("guestExpiresAt");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "map_revisions" (
+    "id" TEXT NOT NULL,
+    "mapId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "authorId" TEXT,
+    "authorName" TEXT,
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "map_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "map_revisions_mapId_version_key" ON "map_revisions"("mapId", "version");
+
+-- AddForeignKey
+ALTER TABLE "map_revisions" ADD CONSTRAINT "map_revisions_mapId_fkey" FOREIGN KEY ("mapId") REFERENCES "maps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "map_assets" ADD COLUMN "contentHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "map_assets_mapId_contentHash_key" ON "map_assets"("mapId", "contentHash");
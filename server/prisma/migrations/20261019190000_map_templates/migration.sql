@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "map_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "kind" TEXT NOT NULL DEFAULT 'map',
+    "data" JSONB NOT NULL,
+    "thumbnailPath" TEXT,
+    "sourceRoomId" TEXT,
+    "createdById" TEXT,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "map_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "map_templates_createdAt_idx" ON "map_templates"("createdAt");
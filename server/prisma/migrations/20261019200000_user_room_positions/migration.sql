@@ -0,0 +1,37 @@
+/*
+  Warnings:
+
+  - Per-user world positions move from `player_positions` to the new `user_room_positions` table.
+  - The unique constraint covering the columns `[userId,roomId]` on the table `player_positions` is dropped.
+  - `player_positions.sessionId` is required again.
+
+*/
+-- CreateTable
+CREATE TABLE "user_room_positions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "x" INTEGER NOT NULL,
+    "y" INTEGER NOT NULL,
+    "direction" TEXT NOT NULL DEFAULT 'down',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_room_positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_room_positions_userId_roomId_key" ON "user_room_positions"("userId", "roomId");
+
+-- Move the saved world positions (rows without a session)
+INSERT INTO "user_room_positions" ("id", "userId", "roomId", "x", "y", "direction", "updatedAt")
+SELECT "id", "userId", "roomId", "x", "y", "direction", "updatedAt"
+FROM "player_positions"
+WHERE "sessionId" IS NULL AND "userId" IS NOT NULL;
+
+DELETE FROM "player_positions" WHERE "sessionId" IS NULL;
+
+-- DropIndex
+DROP INDEX "player_positions_userId_roomId_key";
+
+-- AlterTable
+ALTER TABLE "player_positions" ALTER COLUMN "sessionId" SET NOT NULL;
@@ -0,0 +1,62 @@
+import { prisma } from '../src/utils/prisma';
+import { logger } from '../src/utils/logger';
+import { mapAssetStorage } from '../src/map/mapAssetStorage';
+
+/**
+ * Move images embedded in map data (base64 data URLs) into map asset files.
+ *
+ * Maps saved before images were stored as assets carry their background and
+ * placed asset images inline. This replaces them with asset URLs in every map
+ * and in its saved revisions - the map version is not changed, the content
+ * stays the same. Safe to run again: stored images are reused.
+ *
+ * Usage: npm run db:extract-map-images
+ */
+async function extractMapImages(): Promise<void> {
+  await prisma.$connect();
+  logger.info('🔌 Database connected');
+
+  const maps = await prisma.map.findMany({ select: { id: true, roomId: true } });
+  let totalImages = 0;
+
+  for (const { id, roomId } of maps) {
+    const map = await prisma.map.findUnique({ where: { id }, select: { data: true } });
+    if (!map) {
+      continue;
+    }
+
+    const current = await mapAssetStorage.extractEmbeddedImages(id, roomId, map.data);
+    if (current.extracted > 0) {
+      await prisma.map.update({ where: { id }, data: { data: current.data as object } });
+    }
+
+    // Revisions one at a time - each may hold a full copy of the images
+    let revisionImages = 0;
+    const revisions = await prisma.mapRevision.findMany({ where: { mapId: id }, select: { id: true } });
+    for (const revision of revisions) {
+      const row = await prisma.mapRevision.findUnique({ where: { id: revision.id }, select: { data: true } });
+      if (!row) {
+        continue;
+      }
+      const extracted = await mapAssetStorage.extractEmbeddedImages(id, roomId, row.data);
+      if (extracted.extracted > 0) {
+        await prisma.mapRevision.update({ where: { id: revision.id }, data: { data: extracted.data as object } });
+        revisionImages += extracted.extracted;
+      }
+    }
+
+    if (current.extracted > 0 || revisionImages > 0) {
+      logger.info(`🖼️  ${roomId}: ${current.extracted} image(s) in the map, ${revisionImages} in ${revisions.length} revision(s)`);
+    }
+    totalImages += current.extracted + revisionImages;
+  }
+
+  logger.info(`✅ Checked ${maps.length} map(s), extracted ${totalImages} embedded image(s)`);
+}
+
+extractMapImages()
+  .catch((error) => {
+    logger.error('❌ Extracting map images failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,42 @@
+import { prisma } from '../src/utils/prisma';
+import { logger } from '../src/utils/logger';
+import { mapAssetStorage } from '../src/map/mapAssetStorage';
+
+/**
+ * Generate the variants (WebP, thumbnail, downscaled copies) and spritesheets
+ * of map assets uploaded before images were processed on the server.
+ *
+ * The asset files themselves are not changed - map data keeps referring to
+ * them. Safe to run again: assets that have variants are skipped.
+ *
+ * Usage: npm run db:process-map-assets
+ */
+async function processMapAssets(): Promise<void> {
+  await prisma.$connect();
+  logger.info('🔌 Database connected');
+
+  const assets = await prisma.mapAsset.findMany();
+  let processed = 0;
+  let failed = 0;
+
+  for (const asset of assets) {
+    try {
+      if (await mapAssetStorage.generateMissingVariants(asset)) {
+        processed++;
+        logger.info(`🖼️  ${asset.fileName}: variants generated`);
+      }
+    } catch (error) {
+      failed++;
+      logger.warn(`⚠️  ${asset.fileName} (${asset.filePath}) could not be processed:`, error);
+    }
+  }
+
+  logger.info(`✅ Checked ${assets.length} asset(s), processed ${processed}, failed ${failed}`);
+}
+
+processMapAssets()
+  .catch((error) => {
+    logger.error('❌ Processing map assets failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
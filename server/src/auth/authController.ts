@@ -1,8 +1,9 @@
 /**
  * Authentication Controller
- * Handles auth endpoints: register, login, verify-2fa, password recovery
+ * Handles auth endpoints: register, login, verify-2fa, single sign-on (OIDC), guest invites, token refresh, sessions, 2FA enrollment, password recovery
  */
 
+import crypto from 'crypto';
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
@@ -10,31 +11,108 @@ import {
   hashPassword,
   comparePassword,
   generateNtfyTopicId,
-  generate2FACode,
-  hash2FACode,
-  verify2FACode,
   generatePasswordResetToken,
-  calculate2FAExpiration,
+  calculate2FALoginExpiration,
   calculatePasswordResetExpiration,
   is2FACodeExpired,
   isPasswordResetTokenExpired,
-  generateSessionToken,
+  verifySessionToken,
 } from '../services/authService';
 import {
-  send2FANotification,
   sendPasswordResetNotification,
   sendAccountCreatedNotification,
 } from '../services/ntfyService';
+import { roleService } from './roleService';
+import { requireAuth } from './authMiddleware';
+import {
+  findTwoFactorUser,
+  getAvailableMethods,
+  getDefaultMethod,
+  getTwoFactorProvider,
+  getTwoFactorStatus,
+  isTwoFactorMethod,
+  isLastMethod,
+  PREFERRED_METHODS,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTotp,
+  startWebAuthnRegistration,
+  finishWebAuthnRegistration,
+  removeWebAuthnCredential,
+} from './twoFactor';
+import { rateLimiter, RATE_LIMIT_POLICIES, RateLimitResult, getClientIp } from './rateLimiter';
+import { auditService } from '../services/auditService';
+import { sessionService, SessionClient } from './sessionService';
+import { guestService, normalizeGuestName } from './guestService';
+import { roomRegistry } from '../world/roomRegistry';
+import { oidcService, OidcClaims, MOCK_PROVIDER_ENABLED, OIDC_STATE_COOKIE, OIDC_STATE_MAX_AGE_MS } from './oidcService';
+import { mockOidcRouter } from './mockOidcProvider';
 
 const router = Router();
 
-// Rate limiting state (in production, use Redis)
-const loginAttempts = new Map<string, { count: number; resetTime: number }>();
-const twoFAAttempts = new Map<string, { count: number; resetTime: number }>();
+// The SSO state cookie is only sent to the SSO routes
+const OIDC_COOKIE_PATH = '/api/auth/oidc';
+
+// Audit every lockout
+rateLimiter.onLockout((event) => {
+  logger.warn('Temporary lockout', { ...event });
+  auditService.record(event.scope === 'ip' ? { ip: event.subject } : undefined, {
+    action: 'auth.lockout',
+    targetType: event.scope === 'ip' ? 'ip' : 'user',
+    targetId: event.subject,
+    after: { lockedUntil: event.lockedUntil.toISOString(), lockouts: event.lockouts },
+    metadata: { policy: event.policy },
+  });
+});
+
+/**
+ * Device and IP a request comes from (for the session record)
+ */
+function sessionClient(req: Request): SessionClient {
+  return { userAgent: req.get('user-agent'), ip: getClientIp(req) };
+}
+
+/**
+ * Record an audit event about a user's account (the user is also the actor)
+ */
+function auditAuth(req: Request, action: string, user: { id: string; username: string } | null, metadata?: Record<string, unknown>) {
+  return auditService.record(
+    { userId: user?.id, username: user?.username, ip: getClientIp(req) },
+    { action, targetType: 'user', targetId: user?.id, metadata },
+  );
+}
+
+/**
+ * A cookie of the request (there is no cookie parser - only the SSO flow uses cookies)
+ */
+function getCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0 && part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
 
-const MAX_LOGIN_ATTEMPTS = 5;
-const MAX_2FA_ATTEMPTS = 3;
-const ATTEMPT_RESET_MINUTES = 15;
+/**
+ * Send 429 for a locked-out IP or account
+ */
+function sendRateLimited(res: Response, result: RateLimitResult) {
+  const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+  const wait = retryAfter < 60 ? `${retryAfter} seconds` : `${Math.ceil(retryAfter / 60)} minutes`;
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    success: false,
+    error: `Too many attempts. Try again in ${wait}.`,
+    retryAfter,
+  });
+}
 
 /**
  * Get default blob character sprite sheet for new users
@@ -133,6 +211,75 @@ function getDefaultBlobCharacterSpriteSheet(): any {
   };
 }
 
+/**
+ * Initialize 5 character slots for a new user
+ * Slot 1 gets the default blob character and is active, others are empty
+ */
+async function initializeCharacterSlots(userId: string): Promise<void> {
+  const defaultBlobCharacterSpriteSheet = getDefaultBlobCharacterSpriteSheet();
+
+  for (let slotNumber = 1; slotNumber <= 5; slotNumber++) {
+    await prisma.character.create({
+      data: {
+        userId,
+        slotNumber,
+        name: slotNumber === 1 ? 'Blob Character' : `Character ${slotNumber}`,
+        spriteSheet: slotNumber === 1 ? defaultBlobCharacterSpriteSheet : { layers: [] },
+        isEmpty: slotNumber !== 1,
+        thumbnailPath: null,
+        texturePath: null,
+      },
+    });
+  }
+
+  await prisma.activeCharacter.create({
+    data: {
+      userId,
+      activeSlotNumber: 1,
+    },
+  });
+}
+
+/**
+ * Create a user for a provider identity that matches no account (single sign-on).
+ * Returns an error message if the account can't be created.
+ */
+async function createSingleSignOnUser(req: Request, claims: OidcClaims): Promise<{ id: string; username: string; email: string } | { error: string }> {
+  if (!oidcService.canSignUp()) {
+    return { error: 'No account is linked to this identity. Ask an administrator for access.' };
+  }
+  if (!claims.email) {
+    return { error: 'The identity provider did not share an email address' };
+  }
+  // An unverified email must not take over (or block) an existing account
+  const emailTaken = await prisma.user.findFirst({
+    where: { email: { equals: claims.email, mode: 'insensitive' } },
+    select: { id: true },
+  });
+  if (emailTaken) {
+    return { error: 'An account with this email already exists. Verify your email with the identity provider to link it.' };
+  }
+
+  const ntfyTopicId = generateNtfyTopicId(claims.email);
+  const user = await prisma.user.create({
+    data: {
+      username: await oidcService.getAvailableUsername(claims),
+      email: claims.email,
+      // Signs in through the provider - a password can be set with password recovery
+      password: await hashPassword(crypto.randomBytes(32).toString('hex')),
+      ntfy_topic_id: ntfyTopicId,
+      two_fa_enabled: true,
+      role: await roleService.getRoleForNewUser(),
+    },
+  });
+  await oidcService.linkIdentity(user.id, claims);
+  await initializeCharacterSlots(user.id);
+
+  logger.info('User registered with single sign-on', { userId: user.id, username: user.username });
+  await auditAuth(req, 'auth.register', user, { role: user.role, method: 'oidc', issuer: claims.issuer });
+  return user;
+}
+
 /**
  * POST /api/auth/register
  * Register a new user
@@ -184,39 +331,17 @@ router.post('/register', async (req: Request, res: Response) => {
         password: hashedPassword,
         ntfy_topic_id: ntfyTopicId,
         two_fa_enabled: true,
+        role: await roleService.getRoleForNewUser(),
       },
     });
 
-    // Initialize 5 character slots for new user
-    // Slot 1 gets the default blob character, others are empty
-    const defaultBlobCharacterSpriteSheet = getDefaultBlobCharacterSpriteSheet();
-
-    for (let slotNumber = 1; slotNumber <= 5; slotNumber++) {
-      await prisma.character.create({
-        data: {
-          userId: user.id,
-          slotNumber,
-          name: slotNumber === 1 ? 'Blob Character' : `Character ${slotNumber}`,
-          spriteSheet: slotNumber === 1 ? defaultBlobCharacterSpriteSheet : { layers: [] },
-          isEmpty: slotNumber !== 1,
-          thumbnailPath: null,
-          texturePath: null,
-        },
-      });
-    }
-
-    // Set active character to slot 1
-    await prisma.activeCharacter.create({
-      data: {
-        userId: user.id,
-        activeSlotNumber: 1,
-      },
-    });
+    await initializeCharacterSlots(user.id);
 
     // Send welcome notification
     await sendAccountCreatedNotification(ntfyTopicId);
 
     logger.info('User registered successfully', { userId: user.id, username });
+    await auditAuth(req, 'auth.register', user, { role: user.role });
 
     return res.status(201).json({
       success: true,
@@ -252,45 +377,26 @@ router.post('/login', async (req: Request, res: Response) => {
       });
     }
 
-    // Check rate limiting
-    const now = Date.now();
-    const attempts = loginAttempts.get(username) || { count: 0, resetTime: now };
-    if (attempts.count >= MAX_LOGIN_ATTEMPTS && now < attempts.resetTime) {
-      return res.status(429).json({
-        success: false,
-        error: 'Too many login attempts. Try again later.',
-      });
-    }
-
-    // Reset attempts if window expired
-    if (now >= attempts.resetTime) {
-      loginAttempts.delete(username);
-    }
-
     // Find user
     const user = await prisma.user.findUnique({
       where: { username },
     });
 
-    if (!user) {
-      // Track failed attempt
-      loginAttempts.set(username, {
-        count: (attempts.count || 0) + 1,
-        resetTime: now + ATTEMPT_RESET_MINUTES * 60 * 1000,
-      });
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid username or password',
-      });
+    // Check rate limiting (unknown usernames are limited too)
+    const subject = { ip: getClientIp(req), accountId: user?.id ?? `username:${username}` };
+    const limit = await rateLimiter.check(subject);
+    if (!limit.allowed) {
+      return sendRateLimited(res, limit);
     }
 
     // Verify password
-    const passwordValid = await comparePassword(password, user.password);
-    if (!passwordValid) {
-      loginAttempts.set(username, {
-        count: (attempts.count || 0) + 1,
-        resetTime: now + ATTEMPT_RESET_MINUTES * 60 * 1000,
-      });
+    const passwordValid = user ? await comparePassword(password, user.password) : false;
+    if (!user || !passwordValid) {
+      await auditAuth(req, 'auth.login.failed', user, { username, reason: user ? 'password' : 'unknown_user' });
+      const failure = await rateLimiter.recordFailure(RATE_LIMIT_POLICIES.login, subject);
+      if (!failure.allowed) {
+        return sendRateLimited(res, failure);
+      }
       return res.status(401).json({
         success: false,
         error: 'Invalid username or password',
@@ -298,44 +404,23 @@ router.post('/login', async (req: Request, res: Response) => {
     }
 
     // Clear login attempts on success
-    loginAttempts.delete(username);
+    await rateLimiter.recordSuccess(RATE_LIMIT_POLICIES.login, subject);
 
-    // Generate 2FA code
-    const code = generate2FACode();
-    const codeHash = await hash2FACode(code);
-    const expiresAt = calculate2FAExpiration();
-
-    // Store code hash
+    // Password checked - the second factor must now be completed within the login window
     await prisma.user.update({
       where: { id: user.id },
       data: {
-        two_fa_code_hash: codeHash,
-        two_fa_code_expires_at: expiresAt,
+        two_fa_login_expires_at: calculate2FALoginExpiration(),
         two_fa_attempts: 0,
       },
     });
 
-    // Send 2FA code via ntfy
-    if (process.env.NODE_ENV === 'development') {
-      logger.debug('User ntfy_topic_id check', {
-        userId: user.id,
-        hasTopicId: !!user.ntfy_topic_id,
-        topicIdLength: user.ntfy_topic_id?.length || 0
-      });
-    }
-
-    if (user.ntfy_topic_id) {
-      await send2FANotification(user.ntfy_topic_id, code);
-    } else {
-      logger.warn('No ntfy topic ID for user', { userId: user.id });
-    }
-
-    // Log code for development (remove in production)
-    if (process.env.NODE_ENV === 'development') {
-      logger.debug('2FA code generated', { userId: user.id, code });
-    }
+    // Start the user's preferred second factor
+    const twoFactorUser = (await findTwoFactorUser(user.id))!;
+    const method = getDefaultMethod(twoFactorUser);
+    const challenge = await getTwoFactorProvider(method).startChallenge(twoFactorUser);
 
-    logger.info('Login initiated, 2FA code sent', { userId: user.id });
+    logger.info('Login initiated, 2FA challenge started', { userId: user.id, method });
 
     return res.status(200).json({
       success: true,
@@ -343,6 +428,9 @@ router.post('/login', async (req: Request, res: Response) => {
         requiresTwoFactor: true,
         userId: user.id,
         ntfy_topic_id: user.ntfy_topic_id,
+        method,
+        methods: getAvailableMethods(twoFactorUser),
+        challenge,
       },
     });
   } catch (error) {
@@ -356,25 +444,84 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/auth/2fa/challenge
+ * Switch a pending login to another second-factor method (or resend the ntfy code)
+ */
+router.post('/2fa/challenge', async (req: Request, res: Response) => {
+  try {
+    const { userId, method } = req.body;
+
+    if (!userId || !isTwoFactorMethod(method)) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID and a valid method are required',
+      });
+    }
+
+    // Locked-out accounts can't request new codes
+    const limit = await rateLimiter.check({ ip: getClientIp(req), accountId: userId });
+    if (!limit.allowed) {
+      return sendRateLimited(res, limit);
+    }
+
+    const user = await findTwoFactorUser(userId);
+    if (!user || is2FACodeExpired(user.two_fa_login_expires_at)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Login has expired. Please sign in again.',
+      });
+    }
+
+    if (!getAvailableMethods(user).includes(method)) {
+      return res.status(400).json({
+        success: false,
+        error: 'This verification method is not set up for your account',
+      });
+    }
+
+    const challenge = await getTwoFactorProvider(method).startChallenge(user);
+
+    return res.status(200).json({
+      success: true,
+      data: { method, challenge },
+    });
+  } catch (error) {
+    logger.error('2FA challenge error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to start verification',
+    });
+  }
+});
+
 /**
  * POST /api/auth/verify-2fa
- * Verify 2FA code and create session
+ * Verify the second factor (code or WebAuthn assertion) and create session
  */
 router.post('/verify-2fa', async (req: Request, res: Response) => {
   try {
-    const { userId, code } = req.body;
+    const { userId, code, credential } = req.body;
+    const method = req.body.method ?? 'ntfy';
 
-    if (!userId || !code) {
+    if (!userId || (!code && !credential)) {
       return res.status(400).json({
         success: false,
         error: 'User ID and code are required',
       });
     }
 
+    if (!isTwoFactorMethod(method)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid verification method',
+      });
+    }
+
     // Find user
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-    });
+    const user = await findTwoFactorUser(userId);
 
     if (!user) {
       return res.status(404).json({
@@ -384,60 +531,55 @@ router.post('/verify-2fa', async (req: Request, res: Response) => {
     }
 
     // Check rate limiting
-    const now = Date.now();
-    const attempts = twoFAAttempts.get(userId) || { count: 0, resetTime: now };
-    if (attempts.count >= MAX_2FA_ATTEMPTS && now < attempts.resetTime) {
-      return res.status(429).json({
-        success: false,
-        error: 'Too many verification attempts. Try again later.',
-      });
-    }
-
-    // Reset attempts if window expired
-    if (now >= attempts.resetTime) {
-      twoFAAttempts.delete(userId);
+    const subject = { ip: getClientIp(req), accountId: user.id };
+    const limit = await rateLimiter.check(subject);
+    if (!limit.allowed) {
+      return sendRateLimited(res, limit);
     }
 
-    // Check if code is expired
-    if (is2FACodeExpired(user.two_fa_code_expires_at)) {
+    // The password must have been checked recently
+    if (is2FACodeExpired(user.two_fa_login_expires_at)) {
       return res.status(400).json({
         success: false,
         error: 'Verification code has expired',
       });
     }
 
-    // Verify code
-    const codeValid = user.two_fa_code_hash
-      ? await verify2FACode(code, user.two_fa_code_hash)
-      : false;
+    // Verify with the chosen method
+    const codeValid = getAvailableMethods(user).includes(method)
+      && await getTwoFactorProvider(method).verify(user, { code: typeof code === 'string' ? code : undefined, credential });
 
     if (!codeValid) {
-      twoFAAttempts.set(userId, {
-        count: (attempts.count || 0) + 1,
-        resetTime: now + ATTEMPT_RESET_MINUTES * 60 * 1000,
-      });
+      await auditAuth(req, 'auth.2fa.failed', user, { method });
+      const failure = await rateLimiter.recordFailure(RATE_LIMIT_POLICIES.twoFactor, subject);
+      if (!failure.allowed) {
+        return sendRateLimited(res, failure);
+      }
       return res.status(401).json({
         success: false,
         error: 'Invalid verification code',
       });
     }
 
-    // Clear 2FA code and attempts
+    // Clear the pending login and attempts
     await prisma.user.update({
       where: { id: user.id },
       data: {
         two_fa_code_hash: null,
         two_fa_code_expires_at: null,
+        two_fa_login_expires_at: null,
         two_fa_attempts: 0,
       },
     });
 
-    twoFAAttempts.delete(userId);
+    await rateLimiter.recordSuccess(RATE_LIMIT_POLICIES.twoFactor, subject);
 
-    // Generate session token
-    const token = generateSessionToken(user.id, user.username, user.email);
+    // Start a session and issue its signed access + refresh tokens
+    const { sessionId, ...tokens } = await sessionService.startSession(user, sessionClient(req));
+    const permissions = await roleService.getPermissions(user.id);
 
-    logger.info('2FA verification successful', { userId });
+    logger.info('2FA verification successful', { userId, method });
+    await auditAuth(req, 'auth.login', user, { method, sessionId });
 
     return res.status(200).json({
       success: true,
@@ -445,7 +587,8 @@ router.post('/verify-2fa', async (req: Request, res: Response) => {
         userId: user.id,
         username: user.username,
         email: user.email,
-        token,
+        ...permissions,
+        ...tokens,
       },
     });
   } catch (error) {
@@ -460,133 +603,873 @@ router.post('/verify-2fa', async (req: Request, res: Response) => {
 });
 
 /**
- * POST /api/auth/request-password-reset
- * Request password reset token
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access + refresh token pair
  */
-router.post('/request-password-reset', async (req: Request, res: Response) => {
+router.post('/refresh', async (req: Request, res: Response) => {
   try {
-    const { email } = req.body;
+    const { refreshToken } = req.body;
 
-    if (!email) {
+    if (!refreshToken || typeof refreshToken !== 'string') {
       return res.status(400).json({
         success: false,
-        error: 'Email is required',
+        error: 'Refresh token is required',
       });
     }
 
-    // Find user by email
-    const user = await prisma.user.findUnique({
-      where: { email },
-    });
-
-    // Verify user exists
-    if (!user) {
-      logger.warn('Password reset requested for non-existent email', { email });
-      return res.status(400).json({
+    const payload = verifySessionToken(refreshToken, 'refresh');
+    if (!payload) {
+      return res.status(401).json({
         success: false,
-        error: 'Email not found. Please check and try again.',
+        error: 'Invalid or expired refresh token',
       });
     }
 
-    // Generate reset token
-    const resetToken = generatePasswordResetToken();
-    const expiresAt = calculatePasswordResetExpiration();
-
-    // Store token in database
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        password_reset_token: resetToken,
-        password_reset_expires_at: expiresAt,
-      },
+    // The account may have been deleted (or renamed) since the token was issued
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
     });
 
-    // Send reset token via ntfy if user has ntfy topic configured
-    if (user.ntfy_topic_id) {
-      await sendPasswordResetNotification(user.ntfy_topic_id, resetToken);
-      logger.info('Password reset token sent via ntfy', { userId: user.id, email });
-    } else {
-      logger.warn('User has no ntfy topic configured', { userId: user.id, email });
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token',
+      });
     }
 
-    // Log token for development (remove in production)
-    if (process.env.NODE_ENV === 'development') {
-      logger.debug('Password reset token generated', { userId: user.id, token: resetToken });
+    // The session may have been revoked (logout, password reset) or expired; guest sessions end with their access
+    const tokens = await sessionService.refreshSession(payload.sessionId, user, sessionClient(req), user.guestExpiresAt ?? undefined);
+    if (!tokens) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session has been revoked or expired',
+      });
     }
 
-    logger.info('Password reset requested successfully', { userId: user.id, email });
-
     return res.status(200).json({
       success: true,
-      message: 'Password reset token has been sent to your email',
+      data: tokens,
     });
   } catch (error) {
-    logger.error('Password reset request error', {
+    logger.error('Token refresh error', {
       error: error instanceof Error ? error.message : String(error),
     });
     return res.status(500).json({
       success: false,
-      error: 'Password reset request failed',
+      error: 'Token refresh failed',
     });
   }
 });
 
 /**
- * POST /api/auth/reset-password
- * Reset password with token
+ * GET /api/auth/oidc/config
+ * Whether single sign-on is available, and the provider name for the login button
  */
-router.post('/reset-password', async (req: Request, res: Response) => {
-  try {
-    const { token, newPassword } = req.body;
+router.get('/oidc/config', (_req: Request, res: Response) => {
+  return res.status(200).json({
+    success: true,
+    data: {
+      enabled: oidcService.isEnabled(),
+      providerName: oidcService.getProviderName(),
+    },
+  });
+});
 
-    if (!token || !newPassword) {
-      return res.status(400).json({
+/**
+ * GET /api/auth/oidc/login
+ * Start single sign-on - redirects the browser to the identity provider
+ */
+router.get('/oidc/login', async (req: Request, res: Response) => {
+  try {
+    if (!oidcService.isEnabled()) {
+      return res.status(404).json({
         success: false,
-        error: 'Token and new password are required',
+        error: 'Single sign-on is not configured',
       });
     }
 
-    if (newPassword.length < 8) {
-      return res.status(400).json({
-        success: false,
-        error: 'Password must be at least 8 characters',
-      });
+    const limit = await rateLimiter.check({ ip: getClientIp(req) });
+    if (!limit.allowed) {
+      return sendRateLimited(res, limit);
     }
 
-    // Find user with token
-    const user = await prisma.user.findFirst({
-      where: { password_reset_token: token },
+    const { url, state } = await oidcService.createAuthorizationUrl();
+    res.cookie(OIDC_STATE_COOKIE, state, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      maxAge: OIDC_STATE_MAX_AGE_MS,
+      path: OIDC_COOKIE_PATH,
+    });
+    return res.redirect(url);
+  } catch (error) {
+    logger.error('Single sign-on start error', {
+      error: error instanceof Error ? error.message : String(error),
     });
+    return res.redirect(oidcService.getClientRedirect({ error: 'The identity provider is not available' }));
+  }
+});
 
-    if (!user) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid or expired reset token',
-      });
+/**
+ * GET /api/auth/oidc/callback
+ * The identity provider redirects back here; the browser is sent on to the client
+ * with a one-time login code (or an error)
+ */
+router.get('/oidc/callback', async (req: Request, res: Response) => {
+  try {
+    const { code, state, error } = req.query;
+    const browserState = getCookie(req, OIDC_STATE_COOKIE);
+    res.clearCookie(OIDC_STATE_COOKIE, { path: OIDC_COOKIE_PATH });
+
+    if (error || typeof code !== 'string' || typeof state !== 'string') {
+      return res.redirect(oidcService.getClientRedirect({ error: 'Sign-in was cancelled or denied' }));
     }
 
-    // Check if token is expired
-    if (isPasswordResetTokenExpired(user.password_reset_expires_at)) {
+    const claims = await oidcService.handleCallback(code, state, browserState);
+    if (!claims) {
+      return res.redirect(oidcService.getClientRedirect({ error: 'Single sign-on failed. Please try again.' }));
+    }
+
+    const found = await oidcService.findUser(claims);
+    let user: { id: string; username: string; email: string };
+    if (found) {
+      user = found.user;
+      if (found.linked) {
+        await auditAuth(req, 'auth.sso.link', user, { issuer: claims.issuer });
+      }
+    } else {
+      const created = await createSingleSignOnUser(req, claims);
+      if ('error' in created) {
+        await auditAuth(req, 'auth.sso.failed', null, { issuer: claims.issuer, email: claims.email });
+        return res.redirect(oidcService.getClientRedirect({ error: created.error }));
+      }
+      user = created;
+    }
+
+    return res.redirect(oidcService.getClientRedirect({ code: oidcService.issueLoginCode(user.id) }));
+  } catch (error) {
+    logger.error('Single sign-on callback error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.redirect(oidcService.getClientRedirect({ error: 'Single sign-on failed. Please try again.' }));
+  }
+});
+
+/**
+ * POST /api/auth/oidc/exchange
+ * Exchange the one-time login code from the callback for a session
+ */
+router.post('/oidc/exchange', async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    const subject = { ip: getClientIp(req) };
+
+    const limit = await rateLimiter.check(subject);
+    if (!limit.allowed) {
+      return sendRateLimited(res, limit);
+    }
+
+    const userId = typeof code === 'string' ? oidcService.redeemLoginCode(code) : null;
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+
+    if (!user) {
+      const failure = await rateLimiter.recordFailure(RATE_LIMIT_POLICIES.login, subject);
+      if (!failure.allowed) {
+        return sendRateLimited(res, failure);
+      }
       return res.status(401).json({
         success: false,
-        error: 'Reset token has expired',
+        error: 'Sign-in link is invalid or has expired',
       });
     }
 
-    // Hash new password
-    const hashedPassword = await hashPassword(newPassword);
+    // The identity provider handles the second factor
+    const { sessionId, ...tokens } = await sessionService.startSession(user, sessionClient(req));
+    const permissions = await roleService.getPermissions(user.id);
 
-    // Update password and clear token
-    await prisma.user.update({
-      where: { id: user.id },
+    logger.info('Single sign-on successful', { userId: user.id });
+    await auditAuth(req, 'auth.login', user, { method: 'oidc', sessionId });
+
+    return res.status(200).json({
+      success: true,
       data: {
-        password: hashedPassword,
-        password_reset_token: null,
-        password_reset_expires_at: null,
+        userId: user.id,
+        username: user.username,
+        email: user.email,
+        ...permissions,
+        ...tokens,
       },
     });
+  } catch (error) {
+    logger.error('Single sign-on exchange error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Single sign-on failed',
+    });
+  }
+});
+
+// Local test provider (OIDC_MOCK_PROVIDER=true, never in production)
+if (MOCK_PROVIDER_ENABLED) {
+  router.use('/oidc/mock', mockOidcRouter);
+  logger.warn('Mock OIDC provider enabled - anyone can sign in as any email');
+}
+
+/**
+ * GET /api/auth/invites/:token
+ * Look up a guest invite (the world room it leads to)
+ */
+router.get('/invites/:token', async (req: Request, res: Response) => {
+  try {
+    const invite = await guestService.getValidInvite(req.params.token as string);
+
+    if (!invite) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invite is invalid or has expired',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        roomId: invite.roomId,
+        roomName: roomRegistry.getCachedRoom(invite.roomId)?.name ?? invite.roomId,
+        expiresAt: invite.expiresAt,
+      },
+    });
+  } catch (error) {
+    logger.error('Invite lookup error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to load invite',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/guest
+ * Join a world room as a guest with an invite - no password or 2FA, just a name
+ */
+router.post('/guest', async (req: Request, res: Response) => {
+  try {
+    const { token, name } = req.body;
+    const subject = { ip: getClientIp(req) };
+
+    const limit = await rateLimiter.check(subject);
+    if (!limit.allowed) {
+      return sendRateLimited(res, limit);
+    }
+
+    const guestName = normalizeGuestName(name);
+    if (!token || typeof token !== 'string' || !guestName) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invite and a name of 2-30 characters are required',
+      });
+    }
+
+    const guest = await guestService.redeemInvite(token, guestName);
+    if (!guest) {
+      // Count failures so invite tokens can't be guessed
+      const failure = await rateLimiter.recordFailure(RATE_LIMIT_POLICIES.guestInvite, subject);
+      if (!failure.allowed) {
+        return sendRateLimited(res, failure);
+      }
+      return res.status(404).json({
+        success: false,
+        error: 'Invite is invalid or has expired',
+      });
+    }
+
+    // The session ends when the guest's access does
+    const { sessionId, ...tokens } = await sessionService.startSession(guest, sessionClient(req), guest.expiresAt);
+
+    await auditAuth(req, 'auth.guest.join', guest, { inviteId: guest.inviteId, roomId: guest.roomId, sessionId });
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        userId: guest.id,
+        username: guest.username,
+        email: guest.email,
+        role: 'guest',
+        roomRoles: {},
+        worldRoomId: guest.roomId,
+        guestExpiresAt: guest.expiresAt,
+        ...tokens,
+      },
+    });
+  } catch (error) {
+    logger.error('Guest join error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to join as guest',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', requireAuth, async (req: Request, res: Response) => {
+  try {
+    await sessionService.revokeSession(req.user!.id, req.user!.sessionId);
+    await auditAuth(req, 'auth.logout', req.user!, { sessionId: req.user!.sessionId });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Logged out',
+    });
+  } catch (error) {
+    logger.error('Logout error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Logout failed',
+    });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * Active sessions (logged-in devices) of the signed-in user
+ */
+router.get('/sessions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const sessions = await sessionService.listSessions(req.user!.id, req.user!.sessionId);
+
+    return res.status(200).json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    logger.error('Session list error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to load sessions',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/sessions/revoke-others
+ * Log out every other device
+ */
+router.post('/sessions/revoke-others', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const revoked = await sessionService.revokeAllSessions(req.user!.id, req.user!.sessionId);
+    await auditAuth(req, 'auth.session.revoke', req.user!, { sessionsRevoked: revoked });
+
+    return res.status(200).json({
+      success: true,
+      data: { revoked },
+    });
+  } catch (error) {
+    logger.error('Session revoke error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to revoke sessions',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ * Log out one device
+ */
+router.delete('/sessions/:sessionId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string;
+
+    if (!(await sessionService.revokeSession(req.user!.id, sessionId))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+    await auditAuth(req, 'auth.session.revoke', req.user!, { sessionId });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    logger.error('Session revoke error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session',
+    });
+  }
+});
+
+/**
+ * Load the signed-in user for a 2FA settings route, or send 404
+ */
+async function loadTwoFactorUser(req: Request, res: Response) {
+  const user = await findTwoFactorUser(req.user!.id);
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      error: 'User not found',
+    });
+  }
+  return user;
+}
+
+/**
+ * GET /api/auth/2fa
+ * Second-factor methods of the signed-in user
+ */
+router.get('/2fa', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await loadTwoFactorUser(req, res);
+    if (!user) return;
+
+    return res.status(200).json({
+      success: true,
+      data: getTwoFactorStatus(user),
+    });
+  } catch (error) {
+    logger.error('2FA status error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to load two-factor settings',
+    });
+  }
+});
+
+/**
+ * PUT /api/auth/2fa/preferred
+ * Choose the method logins start with
+ */
+router.put('/2fa/preferred', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { method } = req.body;
+    const user = await loadTwoFactorUser(req, res);
+    if (!user) return;
+
+    if (!PREFERRED_METHODS.includes(method) || !getAvailableMethods(user).includes(method)) {
+      return res.status(400).json({
+        success: false,
+        error: 'This verification method is not set up for your account',
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { two_fa_method: method },
+    });
+    await auditAuth(req, 'auth.2fa.preferred', user, { method });
+
+    return res.status(200).json({
+      success: true,
+      data: getTwoFactorStatus({ ...user, two_fa_method: method }),
+    });
+  } catch (error) {
+    logger.error('2FA preferred method error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update preferred method',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/totp/setup
+ * Start authenticator app enrollment - returns the secret and a QR code to scan
+ */
+router.post('/2fa/totp/setup', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await loadTwoFactorUser(req, res);
+    if (!user) return;
+
+    const enrollment = await startTotpEnrollment(user);
+
+    return res.status(200).json({
+      success: true,
+      data: enrollment,
+    });
+  } catch (error) {
+    logger.error('TOTP setup error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to start authenticator setup',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/totp/confirm
+ * Finish authenticator app enrollment with a code from the app
+ */
+router.post('/2fa/totp/confirm', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    const user = await loadTwoFactorUser(req, res);
+    if (!user) return;
+
+    const recoveryCodes = typeof code === 'string' ? await confirmTotpEnrollment(user, code) : null;
+    if (!recoveryCodes) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid verification code',
+      });
+    }
+
+    logger.info('TOTP enabled', { userId: user.id });
+    await auditAuth(req, 'auth.2fa.totp.enable', user);
+
+    return res.status(200).json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    logger.error('TOTP confirm error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to enable authenticator',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/2fa/totp
+ * Remove the authenticator app
+ */
+router.delete('/2fa/totp', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await loadTwoFactorUser(req, res);
+    if (!user) return;
+
+    if (isLastMethod(user, 'totp')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Set up another verification method first',
+      });
+    }
+
+    await disableTotp(user.id);
+    logger.info('TOTP disabled', { userId: user.id });
+    await auditAuth(req, 'auth.2fa.totp.disable', user);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Authenticator removed',
+    });
+  } catch (error) {
+    logger.error('TOTP disable error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove authenticator',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/webauthn/register/options
+ * Start passkey registration
+ */
+router.post('/2fa/webauthn/register/options', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await loadTwoFactorUser(req, res);
+    if (!user) return;
+
+    const options = await startWebAuthnRegistration(user);
+
+    return res.status(200).json({
+      success: true,
+      data: options,
+    });
+  } catch (error) {
+    logger.error('WebAuthn registration options error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to start passkey registration',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/webauthn/register/verify
+ * Finish passkey registration with the browser's response
+ */
+router.post('/2fa/webauthn/register/verify', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { credential, name } = req.body;
+    const user = await loadTwoFactorUser(req, res);
+    if (!user) return;
+
+    const recoveryCodes = credential
+      ? await finishWebAuthnRegistration(user, credential, typeof name === 'string' ? name : '')
+      : null;
+    if (!recoveryCodes) {
+      return res.status(400).json({
+        success: false,
+        error: 'Passkey could not be verified',
+      });
+    }
+
+    logger.info('Passkey registered', { userId: user.id });
+    await auditAuth(req, 'auth.2fa.passkey.add', user);
+
+    return res.status(200).json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    logger.error('WebAuthn registration error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to register passkey',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/2fa/webauthn/:credentialId
+ * Remove a passkey
+ */
+router.delete('/2fa/webauthn/:credentialId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { credentialId } = req.params;
+    const user = await loadTwoFactorUser(req, res);
+    if (!user) return;
+
+    if (user.webAuthnCredentials.length === 1 && isLastMethod(user, 'webauthn')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Set up another verification method first',
+      });
+    }
+
+    if (!(await removeWebAuthnCredential(user.id, credentialId as string))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Passkey not found',
+      });
+    }
+    await auditAuth(req, 'auth.2fa.passkey.remove', user, { credentialId });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Passkey removed',
+    });
+  } catch (error) {
+    logger.error('WebAuthn remove error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove passkey',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Replace the recovery codes (the old ones stop working)
+ */
+router.post('/2fa/recovery-codes', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const recoveryCodes = await regenerateRecoveryCodes(req.user!.id);
+    await auditAuth(req, 'auth.2fa.recovery_codes', req.user!);
+
+    return res.status(200).json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    logger.error('Recovery code error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to generate recovery codes',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/request-password-reset
+ * Request password reset token
+ */
+router.post('/request-password-reset', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required',
+      });
+    }
+
+    // Find user by email
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    // Every reset request counts towards the limit, so notifications can't be flooded
+    const subject = { ip: getClientIp(req), accountId: user?.id ?? `email:${email}` };
+    const limit = await rateLimiter.check(subject);
+    if (!limit.allowed) {
+      return sendRateLimited(res, limit);
+    }
+    await rateLimiter.recordFailure(RATE_LIMIT_POLICIES.passwordReset, subject);
+
+    // Verify user exists
+    if (!user) {
+      logger.warn('Password reset requested for non-existent email', { email });
+      return res.status(400).json({
+        success: false,
+        error: 'Email not found. Please check and try again.',
+      });
+    }
+
+    // Generate reset token
+    const resetToken = generatePasswordResetToken();
+    const expiresAt = calculatePasswordResetExpiration();
+
+    // Store token in database
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password_reset_token: resetToken,
+        password_reset_expires_at: expiresAt,
+      },
+    });
+
+    // Send reset token via ntfy if user has ntfy topic configured
+    if (user.ntfy_topic_id) {
+      await sendPasswordResetNotification(user.ntfy_topic_id, resetToken);
+      logger.info('Password reset token sent via ntfy', { userId: user.id, email });
+    } else {
+      logger.warn('User has no ntfy topic configured', { userId: user.id, email });
+    }
+
+    // Log token for development (remove in production)
+    if (process.env.NODE_ENV === 'development') {
+      logger.debug('Password reset token generated', { userId: user.id, token: resetToken });
+    }
+
+    logger.info('Password reset requested successfully', { userId: user.id, email });
+    await auditAuth(req, 'auth.password_reset.request', user);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Password reset token has been sent to your email',
+    });
+  } catch (error) {
+    logger.error('Password reset request error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return res.status(500).json({
+      success: false,
+      error: 'Password reset request failed',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Reset password with token
+ */
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, newPassword } = req.body;
+
+    if (!token || !newPassword) {
+      return res.status(400).json({
+        success: false,
+        error: 'Token and new password are required',
+      });
+    }
+
+    if (newPassword.length < 8) {
+      return res.status(400).json({
+        success: false,
+        error: 'Password must be at least 8 characters',
+      });
+    }
+
+    // Check rate limiting (reset tokens are guessed per IP)
+    const ip = getClientIp(req);
+    const limit = await rateLimiter.check({ ip });
+    if (!limit.allowed) {
+      return sendRateLimited(res, limit);
+    }
+
+    // Find user with token
+    const user = await prisma.user.findFirst({
+      where: { password_reset_token: token },
+    });
+
+    if (!user) {
+      const failure = await rateLimiter.recordFailure(RATE_LIMIT_POLICIES.passwordReset, { ip });
+      if (!failure.allowed) {
+        return sendRateLimited(res, failure);
+      }
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired reset token',
+      });
+    }
+
+    // Check if token is expired
+    if (isPasswordResetTokenExpired(user.password_reset_expires_at)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Reset token has expired',
+      });
+    }
+
+    // Hash new password
+    const hashedPassword = await hashPassword(newPassword);
+
+    // Update password and clear token
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: hashedPassword,
+        password_reset_token: null,
+        password_reset_expires_at: null,
+      },
+    });
+
+    // A changed password logs out every device
+    const sessionsRevoked = await sessionService.revokeAllSessions(user.id);
 
-    logger.info('Password reset successfully', { userId: user.id });
+    logger.info('Password reset successfully', { userId: user.id, sessionsRevoked });
+    await auditAuth(req, 'auth.password_reset', user, { sessionsRevoked });
 
     return res.status(200).json({
       success: true,
@@ -0,0 +1,138 @@
+/**
+ * Authentication Middleware
+ * Verifies access tokens on REST requests and Socket.IO handshakes
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Socket } from 'socket.io';
+import { logger } from '../utils/logger';
+import { verifySessionToken } from '../services/authService';
+import { roleService, hasRole, Role } from './roleService';
+import { sessionService } from './sessionService';
+
+/**
+ * Verified user attached to authenticated requests and sockets
+ */
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+  email: string;
+  sessionId: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+/**
+ * Read a bearer token from an Authorization header value
+ */
+function getBearerToken(header: string | string[] | undefined): string | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Valid token of a session that has not been revoked
+async function authenticate(token: string | null, ip?: string): Promise<AuthenticatedUser | null> {
+  const payload = token ? verifySessionToken(token, 'access') : null;
+  if (!payload || !(await sessionService.isActive(payload.sessionId, ip))) {
+    return null;
+  }
+  return { id: payload.userId, username: payload.username, email: payload.email, sessionId: payload.sessionId };
+}
+
+/**
+ * Check if a user owns a resource keyed by user ID (resources are keyed by User.id or username)
+ */
+export function isOwner(user: AuthenticatedUser | undefined, userId: string | undefined): boolean {
+  return !!user && !!userId && (userId === user.id || userId === user.username);
+}
+
+/**
+ * Require a valid access token (Authorization: Bearer <token>) and attach the user to the request
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const user = await authenticate(getBearerToken(req.headers.authorization), req.ip);
+  if (!user) {
+    res.status(401).json({ success: false, error: 'Authentication required' });
+    return;
+  }
+  req.user = user;
+  next();
+}
+
+/**
+ * Require the authenticated user to own the resource named by a route parameter (default :userId)
+ */
+export function requireOwner(param: string = 'userId') {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const userId = req.params[param];
+    if (!isOwner(req.user, typeof userId === 'string' ? userId : undefined)) {
+      logger.warn('Rejected access to another user\'s resource', { userId: req.user?.id, target: userId, path: req.path });
+      res.status(403).json({ success: false, error: 'Access denied' });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Require the authenticated user to have at least a role - in the room named by
+ * a route parameter if `roomParam` is given, otherwise globally
+ */
+export function requireRole(role: Role, roomParam?: string) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const roomId = roomParam ? req.params[roomParam] : undefined;
+    const userRole = req.user
+      ? await roleService.getEffectiveRole(req.user.id, typeof roomId === 'string' ? roomId : undefined)
+      : 'guest';
+    if (!hasRole(userRole, role)) {
+      logger.warn('Rejected request without the required role', { userId: req.user?.id, role: userRole, required: role, path: req.path });
+      res.status(403).json({ success: false, error: 'Insufficient permissions' });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Socket.IO handshake middleware - requires an access token in `auth.token`
+ * (or an Authorization header) and attaches the user to `socket.data.user`.
+ * The socket joins `session:<sessionId>` so it can be disconnected when the session is revoked.
+ */
+export async function socketAuthMiddleware(socket: Socket, next: (err?: Error) => void): Promise<void> {
+  const authToken = socket.handshake.auth?.token;
+  const token = typeof authToken === 'string' ? authToken : getBearerToken(socket.handshake.headers.authorization);
+  const user = await authenticate(token, socket.handshake.address);
+  if (!user) {
+    logger.warn(`Rejected socket ${socket.id}: missing or invalid token`);
+    next(new Error('Unauthorized'));
+    return;
+  }
+  socket.data.user = user;
+  socket.join(`session:${user.sessionId}`);
+  next();
+}
+
+/**
+ * Get the verified user of a socket
+ */
+export function getSocketUser(socket: Socket): AuthenticatedUser | undefined {
+  return socket.data.user as AuthenticatedUser | undefined;
+}
+
+/**
+ * Check if a socket's user has at least a role (in a room if given)
+ */
+export async function socketHasRole(socket: Socket, role: Role, roomId?: string): Promise<boolean> {
+  const user = getSocketUser(socket);
+  if (!user) {
+    return false;
+  }
+  return hasRole(await roleService.getEffectiveRole(user.id, roomId), role);
+}
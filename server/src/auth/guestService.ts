@@ -0,0 +1,295 @@
+/**
+ * Guest Service
+ * Invite links to one world room and the short-lived guest accounts visitors get from them
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { hashPassword } from '../services/authService';
+import { roomRegistry } from '../world/roomRegistry';
+import { sessionService } from './sessionService';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface RoomInviteInput {
+  expiresInHours?: number;
+  maxUses?: number;
+}
+
+export interface RoomInviteData {
+  id: string;
+  token: string;
+  roomId: string;
+  createdByName: string | null;
+  maxUses: number;
+  uses: number;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Guest account created by redeeming an invite
+ */
+export interface GuestAccount {
+  id: string;
+  username: string;
+  email: string;
+  roomId: string;
+  expiresAt: Date;
+  inviteId: string;
+}
+
+/**
+ * Restrictions of a guest account
+ */
+export interface GuestInfo {
+  roomId: string;
+  expiresAt: Date;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DEFAULT_INVITE_HOURS = 24;
+const MAX_INVITE_HOURS = 30 * 24;
+const DEFAULT_MAX_USES = 10;
+const MAX_INVITE_USES = 1000;
+const MIN_GUEST_NAME_LENGTH = 2;
+const MAX_GUEST_NAME_LENGTH = 30;
+
+// Guests keep access for a visit (like chat messages), however long the invite is valid
+export const GUEST_ACCESS_MS = 8 * HOUR;
+
+// Guests have no real email address; `.invalid` can never be delivered to
+const GUEST_EMAIL_DOMAIN = 'guest.invalid';
+
+/**
+ * Validate invite settings from a request body. Returns an error message, or null if valid.
+ */
+export function validateRoomInviteInput(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Invalid invite settings';
+  }
+  const { expiresInHours, maxUses } = input as Record<string, unknown>;
+
+  if (expiresInHours !== undefined && (typeof expiresInHours !== 'number' || !(expiresInHours > 0) || expiresInHours > MAX_INVITE_HOURS)) {
+    return `Expiry must be between 1 hour and ${MAX_INVITE_HOURS / 24} days`;
+  }
+  if (maxUses !== undefined && (!Number.isInteger(maxUses) || (maxUses as number) < 1 || (maxUses as number) > MAX_INVITE_USES)) {
+    return `Max uses must be a whole number between 1 and ${MAX_INVITE_USES}`;
+  }
+  return null;
+}
+
+/**
+ * Clean up a visitor's chosen name. Returns null if it is not usable.
+ */
+export function normalizeGuestName(name: unknown): string | null {
+  if (typeof name !== 'string') {
+    return null;
+  }
+  const normalized = name.replace(/[\u0000-\u001f\u007f]/g, '').replace(/\s+/g, ' ').trim();
+  if (normalized.length < MIN_GUEST_NAME_LENGTH || normalized.length > MAX_GUEST_NAME_LENGTH) {
+    return null;
+  }
+  return normalized;
+}
+
+// ============================================================================
+// GUEST SERVICE
+// ============================================================================
+
+/**
+ * GuestService - Creates and redeems room invites, cleans up expired guests
+ *
+ * Redeeming an invite creates a guest account (role 'guest', no password or
+ * 2FA) limited to the invite's world room. Guest accounts are deleted with
+ * their characters, settings and positions once their access expires.
+ */
+export class GuestService {
+  /**
+   * Create an invite link to a world room
+   */
+  async createInvite(roomId: string, input: RoomInviteInput, creator: { id: string; username: string }): Promise<RoomInviteData> {
+    const invite = await prisma.roomInvite.create({
+      data: {
+        token: crypto.randomBytes(24).toString('base64url'),
+        roomId,
+        createdById: creator.id,
+        createdByName: creator.username,
+        maxUses: input.maxUses ?? DEFAULT_MAX_USES,
+        expiresAt: new Date(Date.now() + (input.expiresInHours ?? DEFAULT_INVITE_HOURS) * HOUR),
+      },
+    });
+    logger.info(`[GuestService] ${creator.username} created invite ${invite.id} to ${roomId}`);
+    return this.toInviteData(invite);
+  }
+
+  /**
+   * List a world room's invites, newest first
+   */
+  async listInvites(roomId: string): Promise<RoomInviteData[]> {
+    const invites = await prisma.roomInvite.findMany({
+      where: { roomId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return invites.map((invite) => this.toInviteData(invite));
+  }
+
+  /**
+   * Revoke an invite so it can't be redeemed any more (existing guests keep their access)
+   */
+  async revokeInvite(roomId: string, inviteId: string): Promise<boolean> {
+    const result = await prisma.roomInvite.updateMany({
+      where: { id: inviteId, roomId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Get an invite that can still be redeemed, or null
+   */
+  async getValidInvite(token: string): Promise<RoomInviteData | null> {
+    const invite = await prisma.roomInvite.findUnique({ where: { token } });
+    if (!invite || !this.isRedeemable(invite)) {
+      return null;
+    }
+    return this.toInviteData(invite);
+  }
+
+  /**
+   * Redeem an invite - creates a guest account named after the visitor.
+   * Returns null if the invite is unknown, revoked, expired or used up.
+   */
+  async redeemInvite(token: string, name: string): Promise<GuestAccount | null> {
+    const invite = await prisma.roomInvite.findUnique({ where: { token } });
+    if (!invite || !this.isRedeemable(invite)) {
+      return null;
+    }
+
+    // Claim a use - the conditions are checked again in the update so concurrent
+    // visitors can't exceed maxUses
+    const claimed = await prisma.roomInvite.updateMany({
+      where: {
+        id: invite.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+        uses: { lt: prisma.roomInvite.fields.maxUses },
+      },
+      data: { uses: { increment: 1 } },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const expiresAt = new Date(Date.now() + GUEST_ACCESS_MS);
+    const user = await prisma.user.create({
+      data: {
+        username: await this.getAvailableUsername(name),
+        email: `${crypto.randomUUID()}@${GUEST_EMAIL_DOMAIN}`,
+        // Guests can't log in with a password - they only have the session started here
+        password: await hashPassword(crypto.randomBytes(32).toString('hex')),
+        role: 'guest',
+        two_fa_enabled: false,
+        guestRoomId: invite.roomId,
+        guestExpiresAt: expiresAt,
+      },
+    });
+
+    logger.info(`[GuestService] Guest ${user.username} joined ${invite.roomId} with invite ${invite.id}`);
+    return {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      roomId: invite.roomId,
+      expiresAt,
+      inviteId: invite.id,
+    };
+  }
+
+  /**
+   * Get the restrictions of a guest account, or null for registered users
+   */
+  async getGuest(userId: string): Promise<GuestInfo | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { guestRoomId: true, guestExpiresAt: true },
+    });
+    if (!user?.guestRoomId || !user.guestExpiresAt) {
+      return null;
+    }
+    return { roomId: user.guestRoomId, expiresAt: user.guestExpiresAt };
+  }
+
+  /**
+   * Delete expired guest accounts with their sessions, characters, settings and positions.
+   * Returns the number of guests removed.
+   */
+  async cleanupExpiredGuests(): Promise<number> {
+    try {
+      const guests = await prisma.user.findMany({
+        where: { guestExpiresAt: { lte: new Date() } },
+        select: { id: true, username: true },
+      });
+      if (guests.length === 0) {
+        return 0;
+      }
+
+      // Ends their sockets too
+      for (const guest of guests) {
+        await sessionService.revokeAllSessions(guest.id);
+      }
+
+      // Characters and settings are keyed by user ID or username
+      const userIds = guests.map((guest) => guest.id);
+      const userKeys = [...userIds, ...guests.map((guest) => guest.username)];
+      await prisma.character.deleteMany({ where: { userId: { in: userKeys } } });
+      await prisma.activeCharacter.deleteMany({ where: { userId: { in: userKeys } } });
+      await prisma.userSettings.deleteMany({ where: { userId: { in: userKeys } } });
+      await prisma.playerPosition.deleteMany({ where: { userId: { in: userIds } } });
+      await prisma.userRoomPosition.deleteMany({ where: { userId: { in: userIds } } });
+      await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+
+      logger.info(`[GuestService] Removed ${guests.length} expired guests`);
+      return guests.length;
+    } catch (error) {
+      logger.error('[GuestService] Error cleaning up expired guests:', error);
+      return 0;
+    }
+  }
+
+  private isRedeemable(invite: { roomId: string; revokedAt: Date | null; expiresAt: Date; uses: number; maxUses: number }): boolean {
+    return !invite.revokedAt
+      && invite.expiresAt > new Date()
+      && invite.uses < invite.maxUses
+      && roomRegistry.isJoinable(invite.roomId);
+  }
+
+  // Visitors keep their chosen name unless a user already has it
+  private async getAvailableUsername(name: string): Promise<string> {
+    let username = name;
+    while (await prisma.user.findUnique({ where: { username }, select: { id: true } })) {
+      username = `${name}-${crypto.randomBytes(2).toString('hex')}`;
+    }
+    return username;
+  }
+
+  private toInviteData(invite: RoomInviteData): RoomInviteData {
+    return {
+      id: invite.id,
+      token: invite.token,
+      roomId: invite.roomId,
+      createdByName: invite.createdByName,
+      maxUses: invite.maxUses,
+      uses: invite.uses,
+      expiresAt: invite.expiresAt,
+      revokedAt: invite.revokedAt,
+      createdAt: invite.createdAt,
+    };
+  }
+}
+
+export const guestService = new GuestService();
@@ -0,0 +1,163 @@
+/**
+ * Mock OIDC Provider
+ * Minimal OpenID Connect provider for local testing of single sign-on without
+ * network access. Enabled with OIDC_MOCK_PROVIDER=true (never in production).
+ *
+ * The authorize page asks for any email and name and signs the user in
+ * immediately; `login_hint` skips the page. Codes and keys live in memory.
+ */
+
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { logger } from '../utils/logger';
+import { MOCK_PROVIDER_PATH, pkceChallenge } from './oidcService';
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string | null;
+  nonce: string | null;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_EXPIRES_IN = '5m';
+const KEY_ID = 'mock-oidc-key';
+
+const SERVER_URL = (process.env.SERVER_URL || 'http://localhost:3001').replace(/\/$/, '');
+const ISSUER = `${SERVER_URL}${MOCK_PROVIDER_PATH}`;
+const DEFAULT_EMAIL = process.env.OIDC_MOCK_EMAIL || 'sso.user@example.com';
+
+// A new signing key per server start
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const codes = new Map<string, IssuedCode>();
+
+// Subjects are stable per email, like a real provider's user IDs
+function subjectFor(email: string): string {
+  return crypto.createHash('sha256').update(`mock-oidc:${email}`).digest('hex').slice(0, 24);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function queryString(req: Request, name: string): string {
+  const value = req.query[name];
+  return typeof value === 'string' ? value : '';
+}
+
+function renderLoginPage(req: Request): string {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method', 'response_type', 'scope']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(queryString(req, name))}">`)
+    .join('');
+  return `<!DOCTYPE html>
+<html><head><title>Mock SSO</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 4rem auto;">
+  <h2>Mock SSO</h2>
+  <p>Local test provider - sign in as any user.</p>
+  <form method="get">
+    ${hidden}
+    <p><label>Email<br><input name="login_hint" type="email" value="${escapeHtml(DEFAULT_EMAIL)}" required style="width: 100%;"></label></p>
+    <p><label>Name<br><input name="name" value="" style="width: 100%;"></label></p>
+    <p><label><input type="checkbox" name="email_verified" value="true" checked> Email verified</label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body></html>`;
+}
+
+export const mockOidcRouter = Router();
+
+mockOidcRouter.get('/.well-known/openid-configuration', (_req: Request, res: Response) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+});
+
+mockOidcRouter.get('/jwks', (_req: Request, res: Response) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+mockOidcRouter.get('/authorize', (req: Request, res: Response) => {
+  const redirectUri = queryString(req, 'redirect_uri');
+  const email = queryString(req, 'login_hint').trim().toLowerCase();
+  if (!redirectUri || queryString(req, 'response_type') !== 'code') {
+    return res.status(400).send('redirect_uri and response_type=code are required');
+  }
+  if (!email) {
+    return res.send(renderLoginPage(req));
+  }
+
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, {
+    clientId: queryString(req, 'client_id'),
+    redirectUri,
+    codeChallenge: queryString(req, 'code_challenge') || null,
+    nonce: queryString(req, 'nonce') || null,
+    email,
+    // The login page submits the checkbox only when checked; a bare login_hint counts as verified
+    emailVerified: req.query.name === undefined || queryString(req, 'email_verified') === 'true',
+    name: queryString(req, 'name').trim() || email.split('@')[0],
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const url = new URL(redirectUri);
+  url.searchParams.set('code', code);
+  if (queryString(req, 'state')) {
+    url.searchParams.set('state', queryString(req, 'state'));
+  }
+  return res.redirect(url.toString());
+});
+
+mockOidcRouter.post('/token', (req: Request, res: Response) => {
+  const { grant_type: grantType, code, redirect_uri: redirectUri, code_verifier: codeVerifier } = req.body ?? {};
+  const issued = typeof code === 'string' ? codes.get(code) : undefined;
+  if (typeof code === 'string') {
+    codes.delete(code);
+  }
+
+  if (grantType !== 'authorization_code' || !issued || issued.expiresAt < Date.now() || issued.redirectUri !== redirectUri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  if (issued.codeChallenge && (typeof codeVerifier !== 'string' || pkceChallenge(codeVerifier) !== issued.codeChallenge)) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const idToken = jwt.sign(
+    {
+      email: issued.email,
+      email_verified: issued.emailVerified,
+      name: issued.name,
+      preferred_username: issued.email.split('@')[0],
+      ...(issued.nonce ? { nonce: issued.nonce } : {}),
+    },
+    privateKey,
+    {
+      algorithm: 'RS256',
+      keyid: KEY_ID,
+      issuer: ISSUER,
+      audience: issued.clientId,
+      subject: subjectFor(issued.email),
+      expiresIn: ID_TOKEN_EXPIRES_IN,
+    },
+  );
+
+  logger.debug(`[MockOidcProvider] Issued ID token for ${issued.email}`);
+  return res.json({
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  });
+});
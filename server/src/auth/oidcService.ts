@@ -0,0 +1,453 @@
+/**
+ * OIDC Service
+ * Single sign-on with an OpenID Connect identity provider - authorization code flow
+ * with PKCE, ID token verification and linking provider identities to users
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;  // Omitted for public clients (PKCE only)
+  scopes: string;
+  redirectUri: string;    // This server's callback, registered with the provider
+  providerName: string;   // Shown on the login button
+  allowSignup: boolean;   // Create users for identities that match no account
+}
+
+/**
+ * Identity asserted by the provider's ID token
+ */
+export interface OidcClaims {
+  issuer: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  preferredUsername: string | null;
+}
+
+export interface OidcUser {
+  id: string;
+  username: string;
+  email: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+interface PendingLogin {
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+interface LoginCode {
+  userId: string;
+  expiresAt: number;
+}
+
+const MINUTE = 60 * 1000;
+// Time the user has to log in at the provider
+const PENDING_LOGIN_MS = 10 * MINUTE;
+// Time the client has to exchange the login code for tokens
+const LOGIN_CODE_MS = MINUTE;
+const METADATA_CACHE_MS = 60 * MINUTE;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+const SERVER_URL = (process.env.SERVER_URL || 'http://localhost:3001').replace(/\/$/, '');
+const CLIENT_URL = (process.env.CLIENT_URL || 'http://localhost:3000').split(',')[0].trim();
+
+// Query parameters the client is redirected back with
+export const SSO_CODE_PARAM = 'sso_code';
+export const SSO_ERROR_PARAM = 'sso_error';
+
+// Built-in provider for local testing without network access (never in production)
+export const MOCK_PROVIDER_PATH = '/api/auth/oidc/mock';
+export const MOCK_PROVIDER_ENABLED = process.env.OIDC_MOCK_PROVIDER === 'true' && process.env.NODE_ENV !== 'production';
+export const MOCK_CLIENT_ID = 'stargety-oasis-local';
+
+/**
+ * Read the provider settings from the environment. Returns null if single sign-on is not configured.
+ */
+function loadConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER || (MOCK_PROVIDER_ENABLED ? `${SERVER_URL}${MOCK_PROVIDER_PATH}` : '');
+  const clientId = process.env.OIDC_CLIENT_ID || (MOCK_PROVIDER_ENABLED ? MOCK_CLIENT_ID : '');
+  if (!issuer || !clientId) {
+    return null;
+  }
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${SERVER_URL}/api/auth/oidc/callback`,
+    providerName: process.env.OIDC_PROVIDER_NAME || (MOCK_PROVIDER_ENABLED && !process.env.OIDC_ISSUER ? 'Mock SSO' : 'Single Sign-On'),
+    allowSignup: process.env.OIDC_ALLOW_SIGNUP !== 'false',
+  };
+}
+
+/**
+ * Cookie that ties a login's state to the browser that started it (login CSRF)
+ */
+export const OIDC_STATE_COOKIE = 'oidc_state';
+export const OIDC_STATE_MAX_AGE_MS = PENDING_LOGIN_MS;
+
+function randomToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * PKCE code challenge (S256) of a code verifier
+ */
+export function pkceChallenge(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+// ============================================================================
+// OIDC SERVICE
+// ============================================================================
+
+/**
+ * OidcService - Runs the single sign-on flow
+ *
+ * The browser is sent to the provider with a random state, nonce and PKCE
+ * challenge (kept in memory until the callback; the state also in a cookie,
+ * so only the browser that started a login can finish it). The callback exchanges the
+ * code, verifies the ID token against the provider's JWKS and resolves the
+ * user: by a linked identity, else by verified email (the identity is linked
+ * then). The client finally swaps a one-time login code for session tokens,
+ * so tokens never appear in URLs.
+ */
+export class OidcService {
+  private config = loadConfig();
+  private metadata: { value: ProviderMetadata; fetchedAt: number } | null = null;
+  private keys = new Map<string, crypto.KeyObject>();
+  private pendingLogins = new Map<string, PendingLogin>();
+  private loginCodes = new Map<string, LoginCode>();
+
+  isEnabled(): boolean {
+    return this.config !== null;
+  }
+
+  getProviderName(): string | null {
+    return this.config?.providerName ?? null;
+  }
+
+  canSignUp(): boolean {
+    return !!this.config?.allowSignup;
+  }
+
+  /**
+   * Start a login - returns the provider URL to send the browser to, and the
+   * state to keep in the browser's OIDC_STATE_COOKIE for the callback
+   */
+  async createAuthorizationUrl(): Promise<{ url: string; state: string }> {
+    const config = this.requireConfig();
+    const metadata = await this.getMetadata();
+    this.prune();
+
+    const state = randomToken();
+    const pending: PendingLogin = {
+      codeVerifier: randomToken(48),
+      nonce: randomToken(),
+      expiresAt: Date.now() + PENDING_LOGIN_MS,
+    };
+    this.pendingLogins.set(state, pending);
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', config.redirectUri);
+    url.searchParams.set('scope', config.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', pending.nonce);
+    url.searchParams.set('code_challenge', pkceChallenge(pending.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Finish a login at the callback - exchanges the code and verifies the ID token.
+   * `browserState` is the state from the browser's cookie: it must match, so a
+   * callback URL started by someone else can't sign this browser in.
+   * Returns null if the state is unknown or the provider's response is not valid.
+   */
+  async handleCallback(code: string, state: string, browserState: string | undefined): Promise<OidcClaims | null> {
+    const pending = this.pendingLogins.get(state);
+    this.pendingLogins.delete(state);
+    if (!pending || pending.expiresAt < Date.now()) {
+      logger.warn('[OidcService] Callback with unknown or expired state');
+      return null;
+    }
+    if (!browserState || !safeEqual(browserState, state)) {
+      logger.warn('[OidcService] Callback state does not belong to this browser');
+      return null;
+    }
+
+    try {
+      const config = this.requireConfig();
+      const metadata = await this.getMetadata();
+      const tokens = await this.exchangeCode(metadata, code, pending.codeVerifier);
+      if (typeof tokens.id_token !== 'string') {
+        logger.warn('[OidcService] Token response has no ID token');
+        return null;
+      }
+
+      const payload = await this.verifyIdToken(tokens.id_token, metadata);
+      if (!payload || payload.nonce !== pending.nonce || typeof payload.sub !== 'string') {
+        logger.warn('[OidcService] ID token rejected');
+        return null;
+      }
+
+      // Some providers only return the email from the userinfo endpoint
+      let profile: Record<string, unknown> = payload;
+      if (typeof payload.email !== 'string' && metadata.userinfo_endpoint && typeof tokens.access_token === 'string') {
+        const userinfo = await this.fetchUserinfo(metadata.userinfo_endpoint, tokens.access_token);
+        if (userinfo?.sub === payload.sub) {
+          profile = { ...payload, ...userinfo };
+        }
+      }
+
+      return {
+        issuer: config.issuer,
+        subject: payload.sub,
+        email: typeof profile.email === 'string' ? profile.email.toLowerCase() : null,
+        emailVerified: profile.email_verified === true || profile.email_verified === 'true',
+        name: typeof profile.name === 'string' ? profile.name : null,
+        preferredUsername: typeof profile.preferred_username === 'string' ? profile.preferred_username : null,
+      };
+    } catch (error) {
+      logger.error('[OidcService] Login callback failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Find the user of a provider identity - linked before, or an account with the
+   * same verified email (linked now). Returns null if there is none.
+   */
+  async findUser(claims: OidcClaims): Promise<{ user: OidcUser; linked: boolean } | null> {
+    const identity = await prisma.userIdentity.findUnique({
+      where: { issuer_subject: { issuer: claims.issuer, subject: claims.subject } },
+      include: { user: { select: { id: true, username: true, email: true } } },
+    });
+    if (identity) {
+      await prisma.userIdentity.update({
+        where: { id: identity.id },
+        data: { email: claims.email, lastLoginAt: new Date() },
+      });
+      return { user: identity.user, linked: false };
+    }
+
+    // Unverified emails could be set to anyone's address at the provider
+    if (!claims.email || !claims.emailVerified) {
+      return null;
+    }
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: claims.email, mode: 'insensitive' }, guestRoomId: null },
+      select: { id: true, username: true, email: true },
+    });
+    if (!user) {
+      return null;
+    }
+
+    await this.linkIdentity(user.id, claims);
+    logger.info(`[OidcService] Linked ${claims.issuer} identity to ${user.username} by email`);
+    return { user, linked: true };
+  }
+
+  /**
+   * Link a provider identity to a user
+   */
+  async linkIdentity(userId: string, claims: OidcClaims): Promise<void> {
+    await prisma.userIdentity.create({
+      data: {
+        userId,
+        issuer: claims.issuer,
+        subject: claims.subject,
+        email: claims.email,
+        lastLoginAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Username for a new user of a provider identity, made unique if taken
+   */
+  async getAvailableUsername(claims: OidcClaims): Promise<string> {
+    const base = (claims.preferredUsername || claims.email?.split('@')[0] || claims.name || 'user')
+      .replace(/[^A-Za-z0-9._-]/g, '')
+      .slice(0, 30) || 'user';
+    let username = base;
+    while (await prisma.user.findUnique({ where: { username }, select: { id: true } })) {
+      username = `${base}-${crypto.randomBytes(2).toString('hex')}`;
+    }
+    return username;
+  }
+
+  /**
+   * One-time code the client exchanges for session tokens
+   */
+  issueLoginCode(userId: string): string {
+    this.prune();
+    const code = randomToken();
+    this.loginCodes.set(code, { userId, expiresAt: Date.now() + LOGIN_CODE_MS });
+    return code;
+  }
+
+  /**
+   * Redeem a login code - returns its user ID, or null if unknown or expired
+   */
+  redeemLoginCode(code: string): string | null {
+    const entry = this.loginCodes.get(code);
+    this.loginCodes.delete(code);
+    if (!entry || entry.expiresAt < Date.now()) {
+      return null;
+    }
+    return entry.userId;
+  }
+
+  /**
+   * Client URL the browser returns to after the callback
+   */
+  getClientRedirect(result: { code: string } | { error: string }): string {
+    const url = new URL(CLIENT_URL);
+    if ('code' in result) {
+      url.searchParams.set(SSO_CODE_PARAM, result.code);
+    } else {
+      url.searchParams.set(SSO_ERROR_PARAM, result.error);
+    }
+    return url.toString();
+  }
+
+  private requireConfig(): OidcConfig {
+    if (!this.config) {
+      throw new Error('Single sign-on is not configured');
+    }
+    return this.config;
+  }
+
+  private async getMetadata(): Promise<ProviderMetadata> {
+    if (this.metadata && Date.now() - this.metadata.fetchedAt < METADATA_CACHE_MS) {
+      return this.metadata.value;
+    }
+    const config = this.requireConfig();
+    const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new Error(`Discovery failed with status ${response.status}`);
+    }
+    const value = await response.json() as ProviderMetadata;
+    if (value.issuer?.replace(/\/$/, '') !== config.issuer) {
+      throw new Error(`Discovery returned issuer ${value.issuer}, expected ${config.issuer}`);
+    }
+    this.metadata = { value, fetchedAt: Date.now() };
+    return value;
+  }
+
+  private async exchangeCode(metadata: ProviderMetadata, code: string, codeVerifier: string): Promise<Record<string, unknown>> {
+    const config = this.requireConfig();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri,
+      code_verifier: codeVerifier,
+      client_id: config.clientId,
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (config.clientSecret) {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(metadata.token_endpoint, { method: 'POST', headers, body });
+    const tokens = await response.json() as Record<string, unknown>;
+    if (!response.ok) {
+      throw new Error(`Token exchange failed: ${tokens.error ?? response.status}`);
+    }
+    return tokens;
+  }
+
+  private async verifyIdToken(idToken: string, metadata: ProviderMetadata): Promise<jwt.JwtPayload | null> {
+    const config = this.requireConfig();
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded) {
+      return null;
+    }
+    const key = await this.getSigningKey(metadata, decoded.header.kid);
+    if (!key) {
+      logger.warn(`[OidcService] No signing key ${decoded.header.kid ?? '(none)'} in JWKS`);
+      return null;
+    }
+    try {
+      return jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: metadata.issuer,
+        audience: config.clientId,
+        clockTolerance: 60,
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      logger.warn('[OidcService] ID token verification failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  // Keys are refetched when a token is signed with a key we haven't seen (key rotation)
+  private async getSigningKey(metadata: ProviderMetadata, kid: string | undefined): Promise<crypto.KeyObject | null> {
+    const cacheKey = kid ?? '';
+    if (!this.keys.has(cacheKey)) {
+      const response = await fetch(metadata.jwks_uri);
+      if (!response.ok) {
+        throw new Error(`JWKS request failed with status ${response.status}`);
+      }
+      const { keys } = await response.json() as { keys: crypto.JsonWebKey[] };
+      this.keys.clear();
+      for (const jwk of keys ?? []) {
+        if (jwk.use && jwk.use !== 'sig') continue;
+        this.keys.set(typeof jwk.kid === 'string' ? jwk.kid : '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+    // Providers with a single key may omit the key ID
+    return this.keys.get(cacheKey) ?? (kid === undefined && this.keys.size === 1 ? [...this.keys.values()][0] : null);
+  }
+
+  private async fetchUserinfo(endpoint: string, accessToken: string): Promise<Record<string, unknown> | null> {
+    const response = await fetch(endpoint, { headers: { Authorization: `Bearer ${accessToken}` } });
+    return response.ok ? await response.json() as Record<string, unknown> : null;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pendingLogins) {
+      if (pending.expiresAt < now) this.pendingLogins.delete(state);
+    }
+    for (const [code, entry] of this.loginCodes) {
+      if (entry.expiresAt < now) this.loginCodes.delete(code);
+    }
+  }
+}
+
+export const oidcService = new OidcService();
@@ -0,0 +1,278 @@
+/**
+ * Rate Limiter
+ * Brute-force protection for auth endpoints - per-IP and per-account sliding
+ * windows with temporary lockouts that grow exponentially on repeat offences
+ */
+
+import { Request } from 'express';
+
+/**
+ * Limits of one protected action. A subject (IP or account) that fails more than
+ * `max` times within `windowMs` is locked out.
+ */
+export interface RateLimitPolicy {
+  name: string;
+  ip: { max: number; windowMs: number };
+  account: { max: number; windowMs: number };
+  lockoutMs: number;     // First lockout; doubles with each further lockout
+  maxLockoutMs: number;
+}
+
+export type RateLimitScope = 'ip' | 'account';
+
+/**
+ * Who is attempting the action - an IP, an account (user ID or submitted identifier), or both
+ */
+export interface RateLimitSubject {
+  ip?: string;
+  accountId?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+  scope?: RateLimitScope;
+}
+
+export interface LockoutEvent {
+  policy: string;
+  scope: RateLimitScope;
+  subject: string;
+  lockouts: number;
+  lockedUntil: Date;
+}
+
+/**
+ * Stored state of one subject. Lockouts are shared by all policies, so an
+ * account locked by failed 2FA codes cannot log in either.
+ */
+export interface RateLimitEntry {
+  attempts: Record<string, number[]>; // Failure timestamps per policy
+  lockouts: number;
+  lockedUntil: number;
+  lastLockoutAt: number;
+}
+
+/**
+ * Storage backend for rate limit state (in-memory by default; e.g. Redis when
+ * running several server instances)
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  set(key: string, entry: RateLimitEntry, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const MINUTE = 60 * 1000;
+
+// Lockout count resets after a day without lockouts
+const LOCKOUT_DECAY_MS = 24 * 60 * MINUTE;
+
+export const RATE_LIMIT_POLICIES = {
+  login: {
+    name: 'login',
+    ip: { max: 20, windowMs: 15 * MINUTE },
+    account: { max: 5, windowMs: 15 * MINUTE },
+    lockoutMs: 5 * MINUTE,
+    maxLockoutMs: 60 * MINUTE,
+  },
+  twoFactor: {
+    name: 'two-factor',
+    ip: { max: 20, windowMs: 15 * MINUTE },
+    account: { max: 3, windowMs: 15 * MINUTE },
+    lockoutMs: 5 * MINUTE,
+    maxLockoutMs: 60 * MINUTE,
+  },
+  passwordReset: {
+    name: 'password-reset',
+    ip: { max: 10, windowMs: 60 * MINUTE },
+    account: { max: 3, windowMs: 60 * MINUTE },
+    lockoutMs: 15 * MINUTE,
+    maxLockoutMs: 24 * 60 * MINUTE,
+  },
+  guestInvite: {
+    name: 'guest-invite',
+    ip: { max: 10, windowMs: 15 * MINUTE },
+    account: { max: 10, windowMs: 15 * MINUTE },
+    lockoutMs: 5 * MINUTE,
+    maxLockoutMs: 60 * MINUTE,
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+// Entries hold attempts of every policy, so they are kept for the longest window
+const LONGEST_WINDOW_MS = Math.max(
+  ...Object.values(RATE_LIMIT_POLICIES).flatMap((policy) => [policy.ip.windowMs, policy.account.windowMs]),
+);
+
+/**
+ * In-memory store - state is lost on restart and not shared between instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { entry: RateLimitEntry; expiresAt: number }>();
+
+  constructor(sweepIntervalMs: number = 10 * MINUTE) {
+    setInterval(() => this.sweep(), sweepIntervalMs).unref();
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const stored = this.entries.get(key);
+    if (!stored || stored.expiresAt <= Date.now()) {
+      return null;
+    }
+    return stored.entry;
+  }
+
+  async set(key: string, entry: RateLimitEntry, ttlMs: number): Promise<void> {
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, stored] of this.entries) {
+      if (stored.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Rate Limiter - call `check` before an attempt, `recordFailure` when it fails
+ * and `recordSuccess` when it succeeds
+ */
+export class RateLimiter {
+  private lockoutListeners: Array<(event: LockoutEvent) => void> = [];
+
+  constructor(private store: RateLimitStore = new MemoryRateLimitStore()) {}
+
+  /**
+   * Replace the storage backend
+   */
+  setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Be notified of every lockout
+   */
+  onLockout(listener: (event: LockoutEvent) => void): void {
+    this.lockoutListeners.push(listener);
+  }
+
+  /**
+   * Check if a subject may attempt an action now (lockouts apply to every policy)
+   */
+  async check(subject: RateLimitSubject): Promise<RateLimitResult> {
+    const now = Date.now();
+    for (const [scope, id] of this.subjectKeys(subject)) {
+      const entry = await this.store.get(this.key(scope, id));
+      if (!entry) continue;
+
+      if (entry.lockedUntil > now) {
+        return { allowed: false, retryAfterMs: entry.lockedUntil - now, scope };
+      }
+    }
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /**
+   * Record a failed attempt; locks the subject out once a window is full
+   */
+  async recordFailure(policy: RateLimitPolicy, subject: RateLimitSubject): Promise<RateLimitResult> {
+    const now = Date.now();
+    let result: RateLimitResult = { allowed: true, retryAfterMs: 0 };
+
+    for (const [scope, id] of this.subjectKeys(subject)) {
+      const key = this.key(scope, id);
+      const entry = (await this.store.get(key)) ?? { attempts: {}, lockouts: 0, lockedUntil: 0, lastLockoutAt: 0 };
+
+      if (entry.lastLockoutAt && now - entry.lastLockoutAt > LOCKOUT_DECAY_MS) {
+        entry.lockouts = 0;
+      }
+
+      const attempts = [...this.recentAttempts(entry, policy, scope, now), now];
+      entry.attempts[policy.name] = attempts;
+
+      if (attempts.length >= policy[scope].max && entry.lockedUntil <= now) {
+        const duration = Math.min(policy.lockoutMs * 2 ** entry.lockouts, policy.maxLockoutMs);
+        entry.lockouts += 1;
+        entry.lockedUntil = now + duration;
+        entry.lastLockoutAt = now;
+        entry.attempts[policy.name] = [];
+        this.emitLockout({
+          policy: policy.name,
+          scope,
+          subject: id,
+          lockouts: entry.lockouts,
+          lockedUntil: new Date(entry.lockedUntil),
+        });
+      }
+
+      if (entry.lockedUntil > now && (result.allowed || entry.lockedUntil - now > result.retryAfterMs)) {
+        result = { allowed: false, retryAfterMs: entry.lockedUntil - now, scope };
+      }
+
+      await this.store.set(key, entry, this.entryTtl(entry, policy, now));
+    }
+    return result;
+  }
+
+  /**
+   * Clear an account's failed attempts after a successful attempt (IP counters are kept,
+   * so one good account does not reset an IP trying many others)
+   */
+  async recordSuccess(policy: RateLimitPolicy, subject: RateLimitSubject): Promise<void> {
+    if (!subject.accountId) return;
+    const key = this.key('account', subject.accountId);
+    const entry = await this.store.get(key);
+    if (!entry) return;
+
+    delete entry.attempts[policy.name];
+    if (Object.keys(entry.attempts).length === 0 && entry.lockedUntil <= Date.now()) {
+      await this.store.delete(key);
+      return;
+    }
+    await this.store.set(key, entry, this.entryTtl(entry, policy, Date.now()));
+  }
+
+  private subjectKeys(subject: RateLimitSubject): Array<[RateLimitScope, string]> {
+    const keys: Array<[RateLimitScope, string]> = [];
+    if (subject.ip) keys.push(['ip', subject.ip]);
+    if (subject.accountId) keys.push(['account', subject.accountId]);
+    return keys;
+  }
+
+  private key(scope: RateLimitScope, id: string): string {
+    return `${scope}:${id}`;
+  }
+
+  private recentAttempts(entry: RateLimitEntry, policy: RateLimitPolicy, scope: RateLimitScope, now: number): number[] {
+    return (entry.attempts[policy.name] ?? []).filter((time) => now - time < policy[scope].windowMs);
+  }
+
+  // Keep entries while they hold attempts, a lockout or a lockout count
+  private entryTtl(entry: RateLimitEntry, policy: RateLimitPolicy, now: number): number {
+    const windowEnd = now + Math.max(policy.ip.windowMs, policy.account.windowMs, LONGEST_WINDOW_MS);
+    const lockoutMemoryEnd = entry.lockouts > 0 ? entry.lastLockoutAt + LOCKOUT_DECAY_MS : 0;
+    return Math.max(windowEnd, entry.lockedUntil, lockoutMemoryEnd) - now;
+  }
+
+  private emitLockout(event: LockoutEvent): void {
+    for (const listener of this.lockoutListeners) {
+      listener(event);
+    }
+  }
+}
+
+/**
+ * Client IP of a request (honours X-Forwarded-For only if Express `trust proxy` is set)
+ */
+export function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,221 @@
+/**
+ * Role Service
+ * Global user roles and per-room roles (role-based access control)
+ */
+
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { roomRegistry } from '../world/roomRegistry';
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+export type Role = 'owner' | 'admin' | 'editor' | 'member' | 'guest';
+
+// Lowest to highest - each role can do everything the roles before it can
+export const ROLES: readonly Role[] = ['guest', 'member', 'editor', 'admin', 'owner'];
+
+const DEFAULT_ROLE: Role = 'member';
+
+/**
+ * Check if a value is a known role
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Check if a role grants at least the required role
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+function toRole(value: string | null | undefined): Role {
+  return isRole(value) ? value : DEFAULT_ROLE;
+}
+
+function highestRole(a: Role, b: Role): Role {
+  return hasRole(a, b) ? a : b;
+}
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * A user's global role and the rooms they have a role in
+ */
+export interface UserPermissions {
+  role: Role;
+  roomRoles: Record<string, Role>;
+}
+
+export interface UserRoleData extends UserPermissions {
+  id: string;
+  username: string;
+  email: string;
+}
+
+export interface RoomMemberData {
+  userId: string;
+  username: string;
+  role: Role;
+}
+
+// ============================================================================
+// ROLE SERVICE
+// ============================================================================
+
+/**
+ * RoleService - Reads and grants roles
+ *
+ * A user's role in a world room is the higher of their global role and their
+ * role in that room. Map routes are keyed by map room ID ('room_001'); those
+ * are resolved to their world room through the room registry.
+ */
+export class RoleService {
+  /**
+   * Give the first user the owner role if nobody has it yet (fresh install / upgrade)
+   */
+  async ensureOwner(): Promise<void> {
+    try {
+      const owner = await prisma.user.findFirst({ where: { role: 'owner' } });
+      if (owner) {
+        return;
+      }
+      const firstUser = await prisma.user.findFirst({ where: { guestRoomId: null }, orderBy: { createdAt: 'asc' } });
+      if (firstUser) {
+        await prisma.user.update({ where: { id: firstUser.id }, data: { role: 'owner' } });
+        logger.info(`[RoleService] No owner found, made ${firstUser.username} the owner`);
+      }
+    } catch (error) {
+      logger.error('[RoleService] Error ensuring an owner exists:', error);
+    }
+  }
+
+  /**
+   * Role for a newly registered user - the very first account becomes the owner
+   */
+  async getRoleForNewUser(): Promise<Role> {
+    const count = await prisma.user.count({ where: { guestRoomId: null } });
+    return count === 0 ? 'owner' : DEFAULT_ROLE;
+  }
+
+  /**
+   * Get a user's global role and room roles (guest if the user does not exist)
+   */
+  async getPermissions(userId: string): Promise<UserPermissions> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true, roomRoles: { select: { roomId: true, role: true } } },
+      });
+      if (!user) {
+        return { role: 'guest', roomRoles: {} };
+      }
+      return {
+        role: toRole(user.role),
+        roomRoles: Object.fromEntries(user.roomRoles.map((roomRole) => [roomRole.roomId, toRole(roomRole.role)])),
+      };
+    } catch (error) {
+      logger.error('[RoleService] Error getting permissions:', error);
+      return { role: 'guest', roomRoles: {} };
+    }
+  }
+
+  /**
+   * Get a user's effective role, in a room if given (world or map room ID)
+   */
+  async getEffectiveRole(userId: string, roomId?: string): Promise<Role> {
+    const { role, roomRoles } = await this.getPermissions(userId);
+    if (!roomId) {
+      return role;
+    }
+    const roomRole = roomRoles[roomRegistry.getWorldRoomId(roomId)];
+    return roomRole ? highestRole(role, roomRole) : role;
+  }
+
+  /**
+   * List all users with their roles
+   */
+  async listUsers(): Promise<UserRoleData[]> {
+    try {
+      const users = await prisma.user.findMany({
+        select: { id: true, username: true, email: true, role: true, roomRoles: { select: { roomId: true, role: true } } },
+        orderBy: { username: 'asc' },
+      });
+      return users.map((user) => ({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: toRole(user.role),
+        roomRoles: Object.fromEntries(user.roomRoles.map((roomRole) => [roomRole.roomId, toRole(roomRole.role)])),
+      }));
+    } catch (error) {
+      logger.error('[RoleService] Error listing users:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Set a user's global role
+   */
+  async setUserRole(userId: string, role: Role): Promise<UserPermissions | null> {
+    try {
+      await prisma.user.update({ where: { id: userId }, data: { role } });
+      logger.info(`[RoleService] Set role of user ${userId} to ${role}`);
+      return this.getPermissions(userId);
+    } catch (error) {
+      logger.error('[RoleService] Error setting user role:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List the users that have a role in a world room
+   */
+  async listRoomMembers(roomId: string): Promise<RoomMemberData[]> {
+    try {
+      const roomRoles = await prisma.roomRole.findMany({
+        where: { roomId },
+        include: { user: { select: { username: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
+      return roomRoles.map((roomRole) => ({
+        userId: roomRole.userId,
+        username: roomRole.user.username,
+        role: toRole(roomRole.role),
+      }));
+    } catch (error) {
+      logger.error('[RoleService] Error listing room members:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Grant a user a role in a world room, or remove it (role null)
+   */
+  async setRoomRole(userId: string, roomId: string, role: Role | null): Promise<boolean> {
+    try {
+      if (role === null) {
+        await prisma.roomRole.deleteMany({ where: { userId, roomId } });
+      } else {
+        await prisma.roomRole.upsert({
+          where: { userId_roomId: { userId, roomId } },
+          create: { userId, roomId, role },
+          update: { role },
+        });
+      }
+      logger.info(`[RoleService] Set role of user ${userId} in ${roomId} to ${role ?? 'none'}`);
+      return true;
+    } catch (error) {
+      logger.error('[RoleService] Error setting room role:', error);
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const roleService = new RoleService();
@@ -0,0 +1,241 @@
+/**
+ * Session Service
+ * Server-side record of logged-in devices - sessions can be listed and revoked
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { generateSessionTokens, getTokenExpiry, SessionTokens } from '../services/authService';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Device a session is started from
+ */
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionData {
+  id: string;
+  deviceName: string;
+  ip: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+export type SessionRevokedListener = (sessionIds: string[]) => void;
+
+// Session state is cached so authenticated requests don't hit the database each time;
+// revocations by this server take effect immediately
+const SESSION_CACHE_MS = 60 * 1000;
+
+/**
+ * Short description of a user agent, e.g. "Firefox on macOS"
+ */
+export function describeUserAgent(userAgent: string | undefined): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+      : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+          : /Chrome\//.test(userAgent) ? 'Chrome'
+            : /Safari\//.test(userAgent) ? 'Safari'
+              : null;
+  const os =
+    /Windows/.test(userAgent) ? 'Windows'
+      : /Android/.test(userAgent) ? 'Android'
+        : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+          : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+            : /Linux/.test(userAgent) ? 'Linux'
+              : null;
+  if (!browser && !os) {
+    return userAgent.slice(0, 60);
+  }
+  return [browser ?? 'Browser', os].filter(Boolean).join(' on ');
+}
+
+// Sessions last as long as their refresh token, capped at an optional end
+function sessionExpiry(tokens: SessionTokens, endsAt?: Date): Date {
+  const refreshExpiry = getTokenExpiry(tokens.refreshToken);
+  return endsAt && endsAt < refreshExpiry ? endsAt : refreshExpiry;
+}
+
+// ============================================================================
+// SESSION SERVICE
+// ============================================================================
+
+/**
+ * SessionService - Starts, validates and revokes sessions
+ *
+ * Access and refresh tokens carry their session ID (`sid`); a token is only
+ * accepted while its session exists, has not expired and was not revoked.
+ */
+export class SessionService {
+  private cache = new Map<string, { active: boolean; checkedAt: number }>();
+  private revokedListeners: SessionRevokedListener[] = [];
+
+  /**
+   * Be notified when sessions are revoked (e.g. to disconnect their sockets)
+   */
+  onRevoked(listener: SessionRevokedListener): void {
+    this.revokedListeners.push(listener);
+  }
+
+  /**
+   * Start a session for a user who completed login and issue its tokens.
+   * The session ends with its refresh token, or at `endsAt` if that is earlier (guests).
+   */
+  async startSession(user: { id: string; username: string; email: string }, client: SessionClient, endsAt?: Date): Promise<SessionTokens & { sessionId: string }> {
+    const sessionId = crypto.randomUUID();
+    const tokens = generateSessionTokens(user.id, user.username, user.email, sessionId);
+
+    await prisma.session.create({
+      data: {
+        id: sessionId,
+        userId: user.id,
+        userAgent: client.userAgent?.slice(0, 500),
+        deviceName: describeUserAgent(client.userAgent),
+        ip: client.ip,
+        expiresAt: sessionExpiry(tokens, endsAt),
+      },
+    });
+    this.cache.set(sessionId, { active: true, checkedAt: Date.now() });
+
+    return { ...tokens, sessionId };
+  }
+
+  /**
+   * Issue new tokens for an active session (token refresh). Returns null if the session is no longer active.
+   */
+  async refreshSession(sessionId: string, user: { id: string; username: string; email: string }, client: SessionClient, endsAt?: Date): Promise<SessionTokens | null> {
+    const session = await prisma.session.findUnique({ where: { id: sessionId } });
+    if (!session || session.userId !== user.id || session.revokedAt || session.expiresAt <= new Date()) {
+      return null;
+    }
+
+    const tokens = generateSessionTokens(user.id, user.username, user.email, sessionId);
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: {
+        lastSeenAt: new Date(),
+        expiresAt: sessionExpiry(tokens, endsAt),
+        ip: client.ip ?? session.ip,
+      },
+    });
+    return tokens;
+  }
+
+  /**
+   * Check if a session is active; also records when it was last seen
+   */
+  async isActive(sessionId: string, ip?: string): Promise<boolean> {
+    const cached = this.cache.get(sessionId);
+    if (cached && Date.now() - cached.checkedAt < SESSION_CACHE_MS) {
+      return cached.active;
+    }
+
+    try {
+      const session = await prisma.session.findUnique({ where: { id: sessionId } });
+      const active = !!session && !session.revokedAt && session.expiresAt > new Date();
+      if (active) {
+        await prisma.session.update({
+          where: { id: sessionId },
+          data: { lastSeenAt: new Date(), ip: ip ?? session.ip },
+        });
+      }
+      this.pruneCache();
+      this.cache.set(sessionId, { active, checkedAt: Date.now() });
+      return active;
+    } catch (error) {
+      logger.error('Error checking session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * List a user's active sessions, most recently seen first
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionData[]> {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName ?? describeUserAgent(session.userAgent ?? undefined),
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of a user's sessions. Returns false if it doesn't exist (or belongs to someone else).
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (result.count === 0) {
+      return false;
+    }
+    this.markRevoked([sessionId]);
+    return true;
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping one (e.g. the current device).
+   * Returns the number of sessions revoked.
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, id: exceptSessionId ? { not: exceptSessionId } : undefined },
+      select: { id: true },
+    });
+    if (sessions.length === 0) {
+      return 0;
+    }
+
+    const sessionIds = sessions.map((session) => session.id);
+    await prisma.session.updateMany({
+      where: { id: { in: sessionIds } },
+      data: { revokedAt: new Date() },
+    });
+    this.markRevoked(sessionIds);
+    return sessionIds.length;
+  }
+
+  private pruneCache(): void {
+    const now = Date.now();
+    for (const [sessionId, cached] of this.cache) {
+      if (now - cached.checkedAt >= SESSION_CACHE_MS) {
+        this.cache.delete(sessionId);
+      }
+    }
+  }
+
+  private markRevoked(sessionIds: string[]): void {
+    for (const sessionId of sessionIds) {
+      this.cache.set(sessionId, { active: false, checkedAt: Date.now() });
+    }
+    for (const listener of this.revokedListeners) {
+      try {
+        listener(sessionIds);
+      } catch (error) {
+        logger.error('Error in session revoked listener:', error);
+      }
+    }
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,471 @@
+/**
+ * Two-Factor Authentication
+ * Pluggable second-factor providers (ntfy codes, TOTP apps, WebAuthn passkeys,
+ * recovery codes) and enrollment of the methods that need it
+ */
+
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
+} from '@simplewebauthn/server';
+import { User, WebAuthnCredential } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import {
+  generate2FACode,
+  hash2FACode,
+  verify2FACode,
+  calculate2FAExpiration,
+  is2FACodeExpired,
+} from '../services/authService';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUrl,
+  generateQrCodeDataUrl,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from '../services/totpService';
+import { send2FANotification } from '../services/ntfyService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TwoFactorMethod = 'ntfy' | 'totp' | 'webauthn' | 'recovery';
+
+// Methods a user can pick as their preferred second factor (recovery codes are a fallback)
+export const PREFERRED_METHODS: readonly TwoFactorMethod[] = ['ntfy', 'totp', 'webauthn'];
+
+export type TwoFactorUser = User & { webAuthnCredentials: WebAuthnCredential[] };
+
+/**
+ * The user's answer to a challenge - a code, or a WebAuthn assertion
+ */
+export interface TwoFactorResponse {
+  code?: string;
+  credential?: AuthenticationResponseJSON;
+}
+
+/**
+ * A second-factor method. Providers are looked up by method name, so adding a
+ * method means implementing this interface and registering it in PROVIDERS.
+ */
+export interface TwoFactorProvider {
+  method: TwoFactorMethod;
+  // Whether the user can sign in with this method
+  isEnrolled(user: TwoFactorUser): boolean;
+  // Begin a login challenge - send a code, or return data the client needs (WebAuthn options)
+  startChallenge(user: TwoFactorUser): Promise<Record<string, unknown> | null>;
+  // Check the user's response; on success any one-time state is consumed
+  verify(user: TwoFactorUser, response: TwoFactorResponse): Promise<boolean>;
+}
+
+/**
+ * Second-factor status of an account, as shown on the account's security settings
+ */
+export interface TwoFactorStatus {
+  preferredMethod: TwoFactorMethod;
+  methods: TwoFactorMethod[];
+  ntfyTopicId: string | null;
+  totpEnabled: boolean;
+  passkeys: Array<{ id: string; name: string; createdAt: Date; lastUsedAt: Date | null }>;
+  recoveryCodesRemaining: number;
+}
+
+// WebAuthn relying party - the site passkeys are bound to
+const CLIENT_URL = (process.env.CLIENT_URL || 'http://localhost:3000').split(',')[0].trim();
+const WEBAUTHN_RP_NAME = process.env.WEBAUTHN_RP_NAME || 'Stargety Oasis';
+const WEBAUTHN_RP_ID = process.env.WEBAUTHN_RP_ID || new URL(CLIENT_URL).hostname;
+const WEBAUTHN_ORIGIN = process.env.WEBAUTHN_ORIGIN || new URL(CLIENT_URL).origin;
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * ntfy.sh - a one-time code pushed to the user's ntfy topic
+ */
+const ntfyProvider: TwoFactorProvider = {
+  method: 'ntfy',
+
+  isEnrolled(user) {
+    return !!user.ntfy_topic_id;
+  },
+
+  async startChallenge(user) {
+    const code = generate2FACode();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        two_fa_code_hash: await hash2FACode(code),
+        two_fa_code_expires_at: calculate2FAExpiration(),
+      },
+    });
+
+    if (user.ntfy_topic_id) {
+      await send2FANotification(user.ntfy_topic_id, code);
+    } else {
+      logger.warn('No ntfy topic ID for user', { userId: user.id });
+    }
+
+    // Log code for development (remove in production)
+    if (process.env.NODE_ENV === 'development') {
+      logger.debug('2FA code generated', { userId: user.id, code });
+    }
+    return { ntfyTopicId: user.ntfy_topic_id };
+  },
+
+  async verify(user, { code }) {
+    if (!code || !user.two_fa_code_hash || is2FACodeExpired(user.two_fa_code_expires_at)) {
+      return false;
+    }
+    if (!(await verify2FACode(code, user.two_fa_code_hash))) {
+      return false;
+    }
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { two_fa_code_hash: null, two_fa_code_expires_at: null },
+    });
+    return true;
+  },
+};
+
+/**
+ * TOTP - RFC 6238 codes from an authenticator app
+ */
+const totpProvider: TwoFactorProvider = {
+  method: 'totp',
+
+  isEnrolled(user) {
+    return !!user.totp_secret;
+  },
+
+  async startChallenge() {
+    return null; // The code comes from the user's app
+  },
+
+  async verify(user, { code }) {
+    if (!code || !user.totp_secret) {
+      return false;
+    }
+    const step = verifyTotp(user.totp_secret, code, user.totp_last_step);
+    if (step === null) {
+      return false;
+    }
+    await prisma.user.update({ where: { id: user.id }, data: { totp_last_step: step } });
+    return true;
+  },
+};
+
+/**
+ * WebAuthn - a registered passkey or security key
+ */
+const webAuthnProvider: TwoFactorProvider = {
+  method: 'webauthn',
+
+  isEnrolled(user) {
+    return user.webAuthnCredentials.length > 0;
+  },
+
+  async startChallenge(user) {
+    const options = await generateAuthenticationOptions({
+      rpID: WEBAUTHN_RP_ID,
+      allowCredentials: user.webAuthnCredentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      userVerification: 'preferred',
+    });
+    await prisma.user.update({ where: { id: user.id }, data: { webauthn_challenge: options.challenge } });
+    return { options };
+  },
+
+  async verify(user, { credential }) {
+    const stored = credential && user.webAuthnCredentials.find((candidate) => candidate.credentialId === credential.id);
+    if (!credential || !stored || !user.webauthn_challenge) {
+      return false;
+    }
+    try {
+      const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+        response: credential,
+        expectedChallenge: user.webauthn_challenge,
+        expectedOrigin: WEBAUTHN_ORIGIN,
+        expectedRPID: WEBAUTHN_RP_ID,
+        credential: {
+          id: stored.credentialId,
+          publicKey: new Uint8Array(stored.publicKey),
+          counter: stored.counter,
+          transports: stored.transports as AuthenticatorTransportFuture[],
+        },
+      });
+      if (!verified) {
+        return false;
+      }
+      await prisma.$transaction([
+        prisma.webAuthnCredential.update({
+          where: { id: stored.id },
+          data: { counter: authenticationInfo.newCounter, lastUsedAt: new Date() },
+        }),
+        prisma.user.update({ where: { id: user.id }, data: { webauthn_challenge: null } }),
+      ]);
+      return true;
+    } catch (error) {
+      logger.warn('WebAuthn authentication failed', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  },
+};
+
+/**
+ * Recovery codes - single-use fallback when the other methods are unavailable
+ */
+const recoveryProvider: TwoFactorProvider = {
+  method: 'recovery',
+
+  isEnrolled(user) {
+    return user.recovery_code_hashes.length > 0;
+  },
+
+  async startChallenge() {
+    return null;
+  },
+
+  async verify(user, { code }) {
+    if (!code) {
+      return false;
+    }
+    const normalized = normalizeRecoveryCode(code);
+    for (const hash of user.recovery_code_hashes) {
+      if (await verify2FACode(normalized, hash)) {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { recovery_code_hashes: user.recovery_code_hashes.filter((candidate) => candidate !== hash) },
+        });
+        logger.info('Recovery code used', { userId: user.id, remaining: user.recovery_code_hashes.length - 1 });
+        return true;
+      }
+    }
+    return false;
+  },
+};
+
+const PROVIDERS: Record<TwoFactorMethod, TwoFactorProvider> = {
+  ntfy: ntfyProvider,
+  totp: totpProvider,
+  webauthn: webAuthnProvider,
+  recovery: recoveryProvider,
+};
+
+/**
+ * Check if a value is a known second-factor method
+ */
+export function isTwoFactorMethod(value: unknown): value is TwoFactorMethod {
+  return typeof value === 'string' && value in PROVIDERS;
+}
+
+/**
+ * Get the provider for a method
+ */
+export function getTwoFactorProvider(method: TwoFactorMethod): TwoFactorProvider {
+  return PROVIDERS[method];
+}
+
+// ============================================================================
+// USER METHODS
+// ============================================================================
+
+/**
+ * Load a user with everything the providers need
+ */
+export async function findTwoFactorUser(userId: string): Promise<TwoFactorUser | null> {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    include: { webAuthnCredentials: true },
+  });
+}
+
+/**
+ * Methods the user can sign in with. Accounts with nothing enrolled fall back to ntfy.
+ */
+export function getAvailableMethods(user: TwoFactorUser): TwoFactorMethod[] {
+  const methods = (Object.keys(PROVIDERS) as TwoFactorMethod[]).filter((method) => PROVIDERS[method].isEnrolled(user));
+  return methods.some((method) => method !== 'recovery') ? methods : ['ntfy', ...methods];
+}
+
+/**
+ * The method a login starts with - the user's preferred method if still enrolled
+ */
+export function getDefaultMethod(user: TwoFactorUser): TwoFactorMethod {
+  const methods = getAvailableMethods(user);
+  return isTwoFactorMethod(user.two_fa_method) && methods.includes(user.two_fa_method)
+    ? user.two_fa_method
+    : methods[0];
+}
+
+/**
+ * Second-factor status of an account
+ */
+export function getTwoFactorStatus(user: TwoFactorUser): TwoFactorStatus {
+  return {
+    preferredMethod: getDefaultMethod(user),
+    methods: getAvailableMethods(user),
+    ntfyTopicId: user.ntfy_topic_id,
+    totpEnabled: !!user.totp_secret,
+    passkeys: user.webAuthnCredentials.map((credential) => ({
+      id: credential.id,
+      name: credential.name,
+      createdAt: credential.createdAt,
+      lastUsedAt: credential.lastUsedAt,
+    })),
+    recoveryCodesRemaining: user.recovery_code_hashes.length,
+  };
+}
+
+/**
+ * Check if removing a method would leave the account without a second factor
+ * other than recovery codes
+ */
+export function isLastMethod(user: TwoFactorUser, method: TwoFactorMethod): boolean {
+  return getAvailableMethods(user).filter((candidate) => candidate !== 'recovery' && candidate !== method).length === 0;
+}
+
+// ============================================================================
+// ENROLLMENT
+// ============================================================================
+
+/**
+ * Replace the user's recovery codes. Returns the new codes (shown to the user once).
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  const hashes = await Promise.all(codes.map((code) => hash2FACode(code)));
+  await prisma.user.update({ where: { id: userId }, data: { recovery_code_hashes: hashes } });
+  return codes;
+}
+
+/**
+ * Issue recovery codes if the user has none yet (first method enrolled)
+ */
+async function ensureRecoveryCodes(user: TwoFactorUser): Promise<string[] | null> {
+  return user.recovery_code_hashes.length > 0 ? null : regenerateRecoveryCodes(user.id);
+}
+
+/**
+ * Start TOTP enrollment - a new secret to scan; it is not active until confirmed
+ */
+export async function startTotpEnrollment(user: TwoFactorUser): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+  const secret = generateTotpSecret();
+  const otpauthUrl = buildOtpauthUrl(secret, user.username);
+  await prisma.user.update({ where: { id: user.id }, data: { totp_pending_secret: secret } });
+  return { secret, otpauthUrl, qrCode: await generateQrCodeDataUrl(otpauthUrl) };
+}
+
+/**
+ * Confirm TOTP enrollment with a code from the app. Returns null if the code is wrong,
+ * otherwise the new recovery codes (empty if the user already had some).
+ */
+export async function confirmTotpEnrollment(user: TwoFactorUser, code: string): Promise<string[] | null> {
+  const step = user.totp_pending_secret ? verifyTotp(user.totp_pending_secret, code) : null;
+  if (step === null) {
+    return null;
+  }
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totp_secret: user.totp_pending_secret, totp_pending_secret: null, totp_last_step: step },
+  });
+  return (await ensureRecoveryCodes(user)) ?? [];
+}
+
+/**
+ * Remove the authenticator app
+ */
+export async function disableTotp(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totp_secret: null, totp_pending_secret: null, totp_last_step: null },
+  });
+}
+
+/**
+ * Start passkey registration - options for navigator.credentials.create()
+ */
+export async function startWebAuthnRegistration(user: TwoFactorUser): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  const options = await generateRegistrationOptions({
+    rpName: WEBAUTHN_RP_NAME,
+    rpID: WEBAUTHN_RP_ID,
+    userName: user.username,
+    userDisplayName: user.username,
+    attestationType: 'none',
+    excludeCredentials: user.webAuthnCredentials.map((credential) => ({
+      id: credential.credentialId,
+      transports: credential.transports as AuthenticatorTransportFuture[],
+    })),
+    authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+  });
+  await prisma.user.update({ where: { id: user.id }, data: { webauthn_challenge: options.challenge } });
+  return options;
+}
+
+/**
+ * Finish passkey registration. Returns null if the response doesn't verify,
+ * otherwise the new recovery codes (empty if the user already had some).
+ */
+export async function finishWebAuthnRegistration(
+  user: TwoFactorUser,
+  response: RegistrationResponseJSON,
+  name: string
+): Promise<string[] | null> {
+  if (!user.webauthn_challenge) {
+    return null;
+  }
+  try {
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: user.webauthn_challenge,
+      expectedOrigin: WEBAUTHN_ORIGIN,
+      expectedRPID: WEBAUTHN_RP_ID,
+    });
+    if (!verified) {
+      return null;
+    }
+    const { credential } = registrationInfo;
+    await prisma.$transaction([
+      prisma.webAuthnCredential.create({
+        data: {
+          userId: user.id,
+          credentialId: credential.id,
+          publicKey: Buffer.from(credential.publicKey),
+          counter: credential.counter,
+          transports: credential.transports ?? [],
+          name: name.trim().slice(0, 60) || 'Passkey',
+        },
+      }),
+      prisma.user.update({ where: { id: user.id }, data: { webauthn_challenge: null } }),
+    ]);
+    return (await ensureRecoveryCodes(user)) ?? [];
+  } catch (error) {
+    logger.warn('WebAuthn registration failed', {
+      userId: user.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Remove a passkey. Returns false if the user has no such passkey.
+ */
+export async function removeWebAuthnCredential(userId: string, credentialId: string): Promise<boolean> {
+  const { count } = await prisma.webAuthnCredential.deleteMany({ where: { id: credentialId, userId } });
+  return count > 0;
+}
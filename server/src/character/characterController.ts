@@ -1,5 +1,7 @@
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { auditService, AuditActor } from '../services/auditService';
+import { AvatarAnimationSync, AvatarSyncData } from '../types';
 import fs from 'fs';
 
 // ============================================================================
@@ -160,9 +162,15 @@ export class CharacterController {
       spriteSheet: SpriteSheetDefinition;
       thumbnailPath?: string;
       texturePath?: string;
-    }
+    },
+    actor?: AuditActor
   ): Promise<CharacterSlotData | null> {
     try {
+      const previous = await prisma.character.findUnique({
+        where: { userId_slotNumber: { userId, slotNumber } },
+        select: { name: true, isEmpty: true },
+      });
+
       const character = await prisma.character.upsert({
         where: { userId_slotNumber: { userId, slotNumber } },
         update: {
@@ -186,6 +194,14 @@ export class CharacterController {
       });
 
       logger.info(`Character slot ${slotNumber} saved for user ${userId}`);
+      await auditService.record(actor, {
+        action: 'character.save',
+        targetType: 'character',
+        targetId: character.id,
+        before: previous,
+        after: { name: character.name, isEmpty: character.isEmpty },
+        metadata: { userId, slotNumber },
+      });
 
       return {
         id: character.id,
@@ -213,7 +229,7 @@ export class CharacterController {
   /**
    * Delete/clear a character slot (resets to empty)
    */
-  async deleteCharacterSlot(userId: string, slotNumber: number): Promise<boolean> {
+  async deleteCharacterSlot(userId: string, slotNumber: number, actor?: AuditActor): Promise<boolean> {
     try {
       const character = await prisma.character.findUnique({
         where: { userId_slotNumber: { userId, slotNumber } },
@@ -247,6 +263,13 @@ export class CharacterController {
       });
 
       logger.info(`Character slot ${slotNumber} cleared for user ${userId}`);
+      await auditService.record(actor, {
+        action: 'character.delete',
+        targetType: 'character',
+        targetId: character.id,
+        before: { name: character.name, isEmpty: character.isEmpty },
+        metadata: { userId, slotNumber },
+      });
       return true;
     } catch (error) {
       logger.error(`Error deleting character slot ${slotNumber}:`, error);
@@ -360,7 +383,7 @@ export class CharacterController {
    * Get avatar sync data for a player's active character (for multiplayer sync)
    * Returns base64 sprite sheet or null if no active character
    */
-  async getActiveCharacterAvatarSync(userId: string): Promise<{ spriteSheetImageData: string; frameWidth: number; frameHeight: number; characterName: string } | null> {
+  async getActiveCharacterAvatarSync(userId: string): Promise<AvatarSyncData | null> {
     try {
       // Get active character slot for this user
       const activeChar = await prisma.activeCharacter.findUnique({
@@ -397,12 +420,31 @@ export class CharacterController {
         frameWidth,
         frameHeight,
         characterName: character.name,
+        animations: this.toAnimationSync(spriteSheet),
       };
     } catch (error) {
       logger.error(`[CharacterController] Error loading avatar sync data for user ${userId}:`, error);
       return null;
     }
   }
+
+  /**
+   * Convert sprite sheet animation mappings (frame IDs) to grid frame indices for remote rendering
+   */
+  private toAnimationSync(spriteSheet: any): AvatarAnimationSync[] {
+    const frames: Array<{ id: string }> = Array.isArray(spriteSheet?.frames) ? spriteSheet.frames : [];
+    const animations: any[] = Array.isArray(spriteSheet?.animations) ? spriteSheet.animations : [];
+    const defaultFrameRate = spriteSheet?.defaultSettings?.frameRate || 8;
+
+    return animations
+      .filter((animation) => animation?.category && Array.isArray(animation?.sequence?.frameIds))
+      .map((animation) => ({
+        category: animation.category,
+        frames: animation.sequence.frameIds.map((frameId: string) => Math.max(0, frames.findIndex((f) => f.id === frameId))),
+        frameRate: animation.sequence.frameRate || defaultFrameRate,
+        loop: !!animation.sequence.loop,
+      }));
+  }
 }
 
 // Export singleton instance
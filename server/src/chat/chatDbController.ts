@@ -1,6 +1,8 @@
 import { Socket, Server } from 'socket.io';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { auditService, AuditActor } from '../services/auditService';
+import { getSocketUser } from '../auth/authMiddleware';
 
 // ============================================================================
 // INTERFACES
@@ -288,20 +290,26 @@ export class ChatDbController {
   }
 
   /**
-   * Handle sending messages (persists to DB + broadcasts)
+   * Handle sending messages (persists to DB + broadcasts).
+   * The author is the socket's authenticated user - names / IDs in the payload are ignored.
    */
   async handleSendMessage(
     socket: Socket,
-    data: { roomId: string; message: string; user: string; userId?: string }
+    data: { roomId: string; message: string }
   ) {
-    const { roomId, message, user, userId } = data;
+    const { roomId, message } = data;
+    const author = getSocketUser(socket);
+    if (!author) {
+      socket.emit('error', { message: 'Authentication required' });
+      return;
+    }
 
     try {
       // Persist to database
       const savedMessage = await this.createMessage(roomId, {
         text: message.trim(),
-        authorName: user,
-        authorId: userId,
+        authorName: author.username,
+        authorId: author.id,
       });
 
       if (!savedMessage) {
@@ -328,7 +336,7 @@ export class ChatDbController {
 
       this.io.to(roomId).emit('chat-message', broadcastData);
 
-      logger.debug(`Message sent to room ${roomId} by ${user}`);
+      logger.debug(`Message sent to room ${roomId} by ${author.username}`);
     } catch (error) {
       logger.error('Error handling send message:', error);
       socket.emit('error', { message: 'Failed to send message' });
@@ -349,7 +357,7 @@ export class ChatDbController {
   /**
    * Edit an existing message
    */
-  async editMessage(messageId: string, newContent: string): Promise<ChatMessageData | null> {
+  async editMessage(messageId: string, newContent: string, actor?: AuditActor): Promise<ChatMessageData | null> {
     try {
       const message = await prisma.message.findUnique({
         where: { id: messageId },
@@ -374,6 +382,16 @@ export class ChatDbController {
         },
       });
 
+      await auditService.record(actor, {
+        action: 'chat.message.edit',
+        targetType: 'message',
+        targetId: messageId,
+        roomId: message.room.roomId,
+        before: { text: (message.content as unknown as MessageContent).text },
+        after: { text: newContent },
+        metadata: { authorId: message.authorId },
+      });
+
       // Broadcast edit event to room
       this.io.to(message.room.roomId).emit('message:edited', {
         messageId: updatedMessage.id,
@@ -398,7 +416,7 @@ export class ChatDbController {
   /**
    * Delete a message (soft delete with tombstone)
    */
-  async deleteMessage(messageId: string): Promise<boolean> {
+  async deleteMessage(messageId: string, actor?: AuditActor): Promise<boolean> {
     try {
       const message = await prisma.message.findUnique({
         where: { id: messageId },
@@ -421,6 +439,15 @@ export class ChatDbController {
         },
       });
 
+      await auditService.record(actor, {
+        action: 'chat.message.delete',
+        targetType: 'message',
+        targetId: messageId,
+        roomId: message.room.roomId,
+        before: { text: (message.content as unknown as MessageContent).text },
+        metadata: { authorId: message.authorId },
+      });
+
       // Broadcast delete event to room
       this.io.to(message.room.roomId).emit('message:deleted', {
         messageId,
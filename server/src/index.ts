@@ -1,6 +1,6 @@
 import express from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
@@ -8,16 +8,26 @@ import { initChatDbController, ChatDbController } from './chat/chatDbController'
 import { WorldController } from './world/worldController';
 import { VideoCallController } from './video-call/videoCallController';
 import { MapController } from './map/mapController';
+import { MapSessionController } from './map/mapSessionController';
 import { characterController } from './character/characterController';
 import { settingsController } from './settings/settingsController';
 import { authRouter } from './auth/authController';
+import { requireAuth, requireOwner, requireRole, isOwner, socketAuthMiddleware, socketHasRole, getSocketUser } from './auth/authMiddleware';
+import { roleService, hasRole, isRole, Role } from './auth/roleService';
+import { sessionService } from './auth/sessionService';
+import { guestService, validateRoomInviteInput, RoomInviteInput } from './auth/guestService';
+import { roomRegistry, validateWorldRoomInput, RoomVisibility } from './world/roomRegistry';
 import { initializeDatabase, prisma } from './utils/prisma';
 import { logger } from './utils/logger';
+import { auditService, auditActorFromRequest, AuditEventFilters } from './services/auditService';
+import { mapRevisionService, normalizeRevisionMessage } from './map/mapRevisionService';
+import { mapTemplateService, validateMapTemplateInput } from './map/mapTemplateService';
 import {
   ensureUploadDirs,
   uploadMapAsset,
   uploadCharacterAsset,
   uploadGenericAsset,
+  validateUploadedImage,
   UPLOAD_BASE_DIR,
   getRelativePath,
   getFileUrl
@@ -157,6 +167,231 @@ app.get('/debug/socket-io', (req, res) => {
 // ============================================================================
 app.use('/api/auth', authRouter);
 
+// Every other API route requires a valid access token
+app.use('/api', requireAuth);
+
+// ============================================================================
+// ROLE API ROUTES
+// ============================================================================
+
+// Get the caller's global role and room roles
+app.get('/api/me/permissions', async (req, res) => {
+  const permissions = await roleService.getPermissions(req.user!.id);
+  res.json({ success: true, data: permissions });
+});
+
+// List users with their roles
+app.get('/api/admin/users', requireRole('admin'), async (_req, res) => {
+  const users = await roleService.listUsers();
+  res.json({ success: true, data: users });
+});
+
+// Change a user's global role (nobody can grant or revoke a role above their own)
+app.put('/api/admin/users/:userId/role', requireRole('admin'), async (req, res) => {
+  const { userId } = req.params;
+  const { role } = req.body;
+  if (!isRole(role)) {
+    return res.status(400).json({ success: false, error: 'Invalid role' });
+  }
+  if (userId === req.user!.id) {
+    return res.status(400).json({ success: false, error: 'You cannot change your own role' });
+  }
+  try {
+    const callerRole = await roleService.getEffectiveRole(req.user!.id);
+    const currentRole = (await roleService.getPermissions(userId)).role;
+    if (!hasRole(callerRole, role) || !hasRole(callerRole, currentRole)) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    const permissions = await roleService.setUserRole(userId, role);
+    if (!permissions) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    await auditService.record(auditActorFromRequest(req), {
+      action: 'role.change',
+      targetType: 'user',
+      targetId: userId,
+      before: { role: currentRole },
+      after: { role },
+    });
+    res.json({ success: true, data: permissions });
+  } catch (error) {
+    logger.error('Error changing user role:', error);
+    res.status(500).json({ success: false, error: 'Failed to change user role' });
+  }
+});
+
+// List users with a role in a world room
+app.get('/api/world-rooms/:roomId/members', requireRole('admin', 'roomId'), async (req, res) => {
+  const members = await roleService.listRoomMembers(req.params.roomId as string);
+  res.json({ success: true, data: members });
+});
+
+// Grant a user a role in a world room
+app.put('/api/world-rooms/:roomId/members/:userId', requireRole('admin', 'roomId'), async (req, res) => {
+  const { roomId, userId } = req.params;
+  const { role } = req.body;
+  if (!isRole(role)) {
+    return res.status(400).json({ success: false, error: 'Invalid role' });
+  }
+  await setRoomMemberRole(req, res, roomId, userId, role);
+});
+
+// Remove a user's role in a world room
+app.delete('/api/world-rooms/:roomId/members/:userId', requireRole('admin', 'roomId'), async (req, res) => {
+  const { roomId, userId } = req.params;
+  await setRoomMemberRole(req, res, roomId, userId, null);
+});
+
+async function setRoomMemberRole(req: express.Request, res: express.Response, roomId: string, userId: string, role: Role | null) {
+  try {
+    if (!(await roomRegistry.getRoom(roomId))) {
+      return res.status(404).json({ success: false, error: 'World room not found' });
+    }
+    const callerRole = await roleService.getEffectiveRole(req.user!.id, roomId);
+    const currentRole = (await roleService.getPermissions(userId)).roomRoles[roomId];
+    if ((role && !hasRole(callerRole, role)) || (currentRole && !hasRole(callerRole, currentRole))) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    const updated = await roleService.setRoomRole(userId, roomId, role);
+    if (!updated) {
+      return res.status(500).json({ success: false, error: 'Failed to update room role' });
+    }
+    await auditService.record(auditActorFromRequest(req), {
+      action: 'role.room.change',
+      targetType: 'user',
+      targetId: userId,
+      roomId,
+      before: { role: currentRole ?? null },
+      after: { role },
+    });
+    res.json({ success: true, data: await roleService.listRoomMembers(roomId) });
+  } catch (error) {
+    logger.error('Error updating room role:', error);
+    res.status(500).json({ success: false, error: 'Failed to update room role' });
+  }
+}
+
+// List a world room's guest invites
+app.get('/api/world-rooms/:roomId/invites', requireRole('admin', 'roomId'), async (req, res) => {
+  try {
+    const invites = await guestService.listInvites(req.params.roomId as string);
+    res.json({ success: true, data: invites });
+  } catch (error) {
+    logger.error('Error listing invites:', error);
+    res.status(500).json({ success: false, error: 'Failed to list invites' });
+  }
+});
+
+// Create a guest invite link to a world room (expiresInHours, maxUses)
+app.post('/api/world-rooms/:roomId/invites', requireRole('admin', 'roomId'), async (req, res) => {
+  const roomId = req.params.roomId as string;
+  const validationError = validateRoomInviteInput(req.body);
+  if (validationError) {
+    return res.status(400).json({ success: false, error: validationError });
+  }
+  try {
+    if (!roomRegistry.isJoinable(roomId)) {
+      return res.status(404).json({ success: false, error: 'World room not found or archived' });
+    }
+    const { expiresInHours, maxUses } = req.body as RoomInviteInput;
+    const invite = await guestService.createInvite(roomId, { expiresInHours, maxUses }, req.user!);
+    await auditService.record(auditActorFromRequest(req), {
+      action: 'invite.create',
+      targetType: 'invite',
+      targetId: invite.id,
+      roomId,
+      after: { maxUses: invite.maxUses, expiresAt: invite.expiresAt.toISOString() },
+    });
+    res.status(201).json({ success: true, data: invite });
+  } catch (error) {
+    logger.error('Error creating invite:', error);
+    res.status(500).json({ success: false, error: 'Failed to create invite' });
+  }
+});
+
+// Revoke a guest invite (guests that already joined keep their access until it expires)
+app.delete('/api/world-rooms/:roomId/invites/:inviteId', requireRole('admin', 'roomId'), async (req, res) => {
+  const { roomId, inviteId } = req.params;
+  try {
+    if (!(await guestService.revokeInvite(roomId, inviteId))) {
+      return res.status(404).json({ success: false, error: 'Invite not found' });
+    }
+    await auditService.record(auditActorFromRequest(req), {
+      action: 'invite.revoke',
+      targetType: 'invite',
+      targetId: inviteId,
+      roomId,
+    });
+    res.json({ success: true, data: await guestService.listInvites(roomId) });
+  } catch (error) {
+    logger.error('Error revoking invite:', error);
+    res.status(500).json({ success: false, error: 'Failed to revoke invite' });
+  }
+});
+
+// ============================================================================
+// AUDIT API ROUTES
+// ============================================================================
+
+// Read audit filters from the query string (?action=map.&actorName=&roomId=&from=&to=...)
+function parseAuditFilters(query: express.Request['query']): AuditEventFilters | null {
+  const text = (key: string) => (typeof query[key] === 'string' && query[key] ? query[key] as string : undefined);
+  const date = (key: string) => (text(key) ? new Date(text(key)!) : undefined);
+  const filters: AuditEventFilters = {
+    action: text('action'),
+    actorId: text('actorId'),
+    actorName: text('actorName'),
+    targetType: text('targetType'),
+    targetId: text('targetId'),
+    roomId: text('roomId'),
+    from: date('from'),
+    to: date('to'),
+  };
+  if ((filters.from && isNaN(filters.from.getTime())) || (filters.to && isNaN(filters.to.getTime()))) {
+    return null;
+  }
+  return filters;
+}
+
+// List audit events (paginated, newest first)
+app.get('/api/admin/audit-events', requireRole('admin'), async (req, res) => {
+  const filters = parseAuditFilters(req.query);
+  if (!filters) {
+    return res.status(400).json({ success: false, error: 'Invalid date filter' });
+  }
+  try {
+    const page = parseInt(req.query.page as string, 10) || 1;
+    const pageSize = parseInt(req.query.pageSize as string, 10) || 50;
+    const result = await auditService.list(filters, page, pageSize);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    logger.error('Error listing audit events:', error);
+    res.status(500).json({ success: false, error: 'Failed to list audit events' });
+  }
+});
+
+// Export audit events as CSV or JSON (same filters as the list)
+app.get('/api/admin/audit-events/export', requireRole('admin'), async (req, res) => {
+  const filters = parseAuditFilters(req.query);
+  if (!filters) {
+    return res.status(400).json({ success: false, error: 'Invalid date filter' });
+  }
+  const format = req.query.format === 'json' ? 'json' : 'csv';
+  try {
+    const events = await auditService.export(filters);
+    const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'json') {
+      res.json(events);
+    } else {
+      res.type('text/csv').send(auditService.toCsv(events));
+    }
+  } catch (error) {
+    logger.error('Error exporting audit events:', error);
+    res.status(500).json({ success: false, error: 'Failed to export audit events' });
+  }
+});
+
 // ============================================================================
 // API Routes
 // ============================================================================
@@ -169,6 +404,105 @@ app.get('/api/world/rooms/:roomId', (req, res) => {
   res.json({ success: true, data: worldState });
 });
 
+// World Room Registry Routes
+// List world rooms (?includePrivate=true&includeArchived=true for room management, admins only)
+app.get('/api/world-rooms', async (req, res) => {
+  try {
+    const isAdmin = hasRole(await roleService.getEffectiveRole(req.user!.id), 'admin');
+    const rooms = await roomRegistry.listRooms({
+      includePrivate: isAdmin && req.query.includePrivate === 'true',
+      includeArchived: isAdmin && req.query.includeArchived === 'true',
+    });
+    const data = rooms.map(room => ({
+      ...room,
+      playerCount: worldController.getWorldState(room.roomId)?.playerCount ?? 0,
+    }));
+    res.json({ success: true, data });
+  } catch (error) {
+    logger.error('Error listing world rooms:', error);
+    res.status(500).json({ success: false, error: 'Failed to list world rooms' });
+  }
+});
+
+// Get world room (also private / archived rooms, e.g. to resolve a portal target)
+app.get('/api/world-rooms/:roomId', async (req, res) => {
+  const { roomId } = req.params;
+  try {
+    const room = await roomRegistry.getRoom(roomId);
+    if (!room) {
+      return res.status(404).json({ success: false, error: 'World room not found' });
+    }
+    res.json({ success: true, data: { ...room, playerCount: worldController.getWorldState(roomId)?.playerCount ?? 0 } });
+  } catch (error) {
+    logger.error('Error fetching world room:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch world room' });
+  }
+});
+
+// Create world room
+app.post('/api/world-rooms', requireRole('admin'), async (req, res) => {
+  const validationError = validateWorldRoomInput(req.body, true);
+  if (validationError) {
+    return res.status(400).json({ success: false, error: validationError });
+  }
+  try {
+    const { name, description, capacity, visibility } = req.body as { name: string; description?: string; capacity?: number; visibility?: RoomVisibility };
+    const room = await roomRegistry.createRoom({ name, description, capacity, visibility });
+    if (!room) {
+      return res.status(500).json({ success: false, error: 'Failed to create world room' });
+    }
+    res.status(201).json({ success: true, data: room });
+  } catch (error) {
+    logger.error('Error creating world room:', error);
+    res.status(500).json({ success: false, error: 'Failed to create world room' });
+  }
+});
+
+// Update world room (rename, capacity, visibility)
+app.patch('/api/world-rooms/:roomId', requireRole('admin', 'roomId'), async (req, res) => {
+  const { roomId } = req.params;
+  const validationError = validateWorldRoomInput(req.body, false);
+  if (validationError) {
+    return res.status(400).json({ success: false, error: validationError });
+  }
+  try {
+    if (!(await roomRegistry.getRoom(roomId))) {
+      return res.status(404).json({ success: false, error: 'World room not found' });
+    }
+    const { name, description, capacity, visibility } = req.body as { name?: string; description?: string; capacity?: number; visibility?: RoomVisibility };
+    const room = await roomRegistry.updateRoom(roomId, { name, description, capacity, visibility });
+    if (!room) {
+      return res.status(500).json({ success: false, error: 'Failed to update world room' });
+    }
+    res.json({ success: true, data: room });
+  } catch (error) {
+    logger.error('Error updating world room:', error);
+    res.status(500).json({ success: false, error: 'Failed to update world room' });
+  }
+});
+
+// Archive / restore world room
+async function setWorldRoomArchived(req: express.Request, res: express.Response, archived: boolean) {
+  const roomId = req.params.roomId as string;
+  const action = archived ? 'archive' : 'restore';
+  try {
+    if (!(await roomRegistry.getRoom(roomId))) {
+      return res.status(404).json({ success: false, error: 'World room not found' });
+    }
+    const room = await roomRegistry.setArchived(roomId, archived);
+    if (!room) {
+      return res.status(500).json({ success: false, error: `Failed to ${action} world room` });
+    }
+    res.json({ success: true, data: room });
+  } catch (error) {
+    logger.error(`Error during world room ${action}:`, error);
+    res.status(500).json({ success: false, error: `Failed to ${action} world room` });
+  }
+}
+
+app.post('/api/world-rooms/:roomId/archive', requireRole('admin', 'roomId'), (req, res) => setWorldRoomArchived(req, res, true));
+app.post('/api/world-rooms/:roomId/restore', requireRole('admin', 'roomId'), (req, res) => setWorldRoomArchived(req, res, false));
+
 app.get('/api/video/rooms/:roomId', (req, res) => {
   const { roomId } = req.params;
   const room = videoCallController.getVideoCallRoom(roomId);
@@ -220,31 +554,60 @@ app.get('/api/maps/:roomId', async (req, res) => {
 });
 
 // Create map
-app.post('/api/maps/:roomId', async (req, res) => {
+app.post('/api/maps/:roomId', requireRole('editor', 'roomId'), async (req, res) => {
   const { roomId } = req.params;
   const mapData = req.body;
+  const baseVersion = req.query.baseVersion !== undefined ? Number(req.query.baseVersion) : undefined;
+  if (baseVersion !== undefined && !Number.isInteger(baseVersion)) {
+    return res.status(400).json({ success: false, error: 'baseVersion must be an integer' });
+  }
   try {
-    const savedMap = await mapController.saveMap(roomId, mapData);
-    if (!savedMap) {
+    const result = await mapController.saveMap(roomId, mapData, auditActorFromRequest(req), {
+      message: normalizeRevisionMessage(req.query.message),
+      baseVersion,
+    });
+    if (!result) {
       return res.status(500).json({ success: false, error: 'Failed to save map' });
     }
-    res.json({ success: true, data: savedMap });
+    if (!result.saved) {
+      return res.status(409).json({
+        success: false,
+        error: 'The map was changed by someone else since you loaded it',
+        conflict: result.conflict,
+      });
+    }
+    res.json({ success: true, data: result.mapData });
   } catch (error) {
     logger.error('Error saving map:', error);
     res.status(500).json({ success: false, error: 'Failed to save map' });
   }
 });
 
-// Update map
-app.put('/api/maps/:roomId', async (req, res) => {
+// Update map (optional ?message= describes the change in the version history;
+// ?baseVersion= is the version the editor loaded - stale saves get a 409 with a merge proposal)
+app.put('/api/maps/:roomId', requireRole('editor', 'roomId'), async (req, res) => {
   const { roomId } = req.params;
   const mapData = req.body;
+  const baseVersion = req.query.baseVersion !== undefined ? Number(req.query.baseVersion) : undefined;
+  if (baseVersion !== undefined && !Number.isInteger(baseVersion)) {
+    return res.status(400).json({ success: false, error: 'baseVersion must be an integer' });
+  }
   try {
-    const savedMap = await mapController.saveMap(roomId, mapData);
-    if (!savedMap) {
+    const result = await mapController.saveMap(roomId, mapData, auditActorFromRequest(req), {
+      message: normalizeRevisionMessage(req.query.message),
+      baseVersion,
+    });
+    if (!result) {
       return res.status(500).json({ success: false, error: 'Failed to update map' });
     }
-    res.json({ success: true, data: savedMap });
+    if (!result.saved) {
+      return res.status(409).json({
+        success: false,
+        error: 'The map was changed by someone else since you loaded it',
+        conflict: result.conflict,
+      });
+    }
+    res.json({ success: true, data: result.mapData });
   } catch (error) {
     logger.error('Error updating map:', error);
     res.status(500).json({ success: false, error: 'Failed to update map' });
@@ -252,10 +615,10 @@ app.put('/api/maps/:roomId', async (req, res) => {
 });
 
 // Delete map
-app.delete('/api/maps/:roomId', async (req, res) => {
+app.delete('/api/maps/:roomId', requireRole('admin', 'roomId'), async (req, res) => {
   const { roomId } = req.params;
   try {
-    const deleted = await mapController.deleteMap(roomId);
+    const deleted = await mapController.deleteMap(roomId, auditActorFromRequest(req));
     if (!deleted) {
       return res.status(404).json({ success: false, error: 'Map not found' });
     }
@@ -279,10 +642,10 @@ app.get('/api/maps/:roomId/assets', async (req, res) => {
 });
 
 // Delete map asset
-app.delete('/api/maps/:roomId/assets/:assetId', async (req, res) => {
+app.delete('/api/maps/:roomId/assets/:assetId', requireRole('editor', 'roomId'), async (req, res) => {
   const { roomId, assetId } = req.params;
   try {
-    const deleted = await mapController.deleteMapAsset(roomId, assetId);
+    const deleted = await mapController.deleteMapAsset(roomId, assetId, auditActorFromRequest(req));
     if (!deleted) {
       return res.status(404).json({ success: false, error: 'Asset not found' });
     }
@@ -325,12 +688,201 @@ app.get('/api/maps/:roomId/package', async (req, res) => {
   }
 });
 
+// Map version history
+// List revisions, newest first (?limit=, ?before=<version> for the next page)
+app.get('/api/maps/:roomId/revisions', async (req, res) => {
+  const { roomId } = req.params;
+  try {
+    const revisions = await mapRevisionService.listRevisions(roomId, {
+      limit: req.query.limit ? Number(req.query.limit) || undefined : undefined,
+      before: req.query.before ? Number(req.query.before) || undefined : undefined,
+    });
+    if (!revisions) {
+      return res.status(404).json({ success: false, error: 'Map not found' });
+    }
+    res.json({ success: true, data: revisions });
+  } catch (error) {
+    logger.error('Error listing map revisions:', error);
+    res.status(500).json({ success: false, error: 'Failed to list map revisions' });
+  }
+});
+
+// Get one revision with its map data
+app.get('/api/maps/:roomId/revisions/:version', async (req, res) => {
+  const { roomId } = req.params;
+  const version = Number(req.params.version);
+  try {
+    const revision = Number.isInteger(version) ? await mapRevisionService.getRevision(roomId, version) : null;
+    if (!revision) {
+      return res.status(404).json({ success: false, error: 'Revision not found' });
+    }
+    res.json({ success: true, data: revision });
+  } catch (error) {
+    logger.error('Error fetching map revision:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch map revision' });
+  }
+});
+
+// Diff a revision against another (?from=<version>, defaults to the version before)
+app.get('/api/maps/:roomId/revisions/:version/diff', async (req, res) => {
+  const { roomId } = req.params;
+  const version = Number(req.params.version);
+  const from = req.query.from !== undefined ? Number(req.query.from) : version - 1;
+  try {
+    const diff = Number.isInteger(version) && Number.isInteger(from)
+      ? await mapRevisionService.diffRevisions(roomId, from, version)
+      : null;
+    if (!diff) {
+      return res.status(404).json({ success: false, error: 'Revision not found' });
+    }
+    res.json({ success: true, data: diff });
+  } catch (error) {
+    logger.error('Error diffing map revisions:', error);
+    res.status(500).json({ success: false, error: 'Failed to diff map revisions' });
+  }
+});
+
+// Restore a revision (saved as a new version)
+app.post('/api/maps/:roomId/revisions/:version/restore', requireRole('editor', 'roomId'), async (req, res) => {
+  const { roomId } = req.params;
+  const version = Number(req.params.version);
+  try {
+    const restored = Number.isInteger(version)
+      ? await mapController.restoreRevision(roomId, version, auditActorFromRequest(req))
+      : null;
+    if (!restored) {
+      return res.status(404).json({ success: false, error: 'Revision not found' });
+    }
+    res.json({ success: true, data: restored });
+  } catch (error) {
+    logger.error('Error restoring map revision:', error);
+    res.status(500).json({ success: false, error: 'Failed to restore map revision' });
+  }
+});
+
+// Put a template into a room's map (replace it, or append the template's shapes)
+app.post('/api/maps/:roomId/from-template', requireRole('editor', 'roomId'), async (req, res) => {
+  const { roomId } = req.params;
+  const { templateId, mode } = req.body ?? {};
+  if (typeof templateId !== 'string' || (mode !== undefined && mode !== 'replace' && mode !== 'append')) {
+    return res.status(400).json({ success: false, error: "templateId is required, mode must be 'replace' or 'append'" });
+  }
+  try {
+    const template = await mapTemplateService.getTemplate(templateId);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+    // Selections are added to the map unless asked otherwise
+    const mapData = await mapController.applyTemplate(
+      roomId,
+      template,
+      mode ?? (template.kind === 'selection' ? 'append' : 'replace'),
+      auditActorFromRequest(req)
+    );
+    if (!mapData) {
+      return res.status(500).json({ success: false, error: 'Failed to apply map template' });
+    }
+    res.json({ success: true, data: mapData });
+  } catch (error) {
+    logger.error('Error applying map template:', error);
+    res.status(500).json({ success: false, error: 'Failed to apply map template' });
+  }
+});
+
+// Copy another room's map, with its assets, to this room
+app.post('/api/maps/:roomId/clone', requireRole('editor', 'roomId'), async (req, res) => {
+  const { roomId } = req.params;
+  const { sourceRoomId } = req.body ?? {};
+  if (typeof sourceRoomId !== 'string' || !sourceRoomId || sourceRoomId === roomId) {
+    return res.status(400).json({ success: false, error: 'sourceRoomId must be another room' });
+  }
+  try {
+    const mapData = await mapController.cloneMap(sourceRoomId, roomId, auditActorFromRequest(req));
+    if (!mapData) {
+      return res.status(404).json({ success: false, error: 'Source map not found' });
+    }
+    res.json({ success: true, data: mapData });
+  } catch (error) {
+    logger.error('Error cloning map:', error);
+    res.status(500).json({ success: false, error: 'Failed to clone map' });
+  }
+});
+
+// ============================================================================
+// MAP TEMPLATE API ROUTES
+// ============================================================================
+
+// List map templates
+app.get('/api/map-templates', async (_req, res) => {
+  try {
+    const templates = await mapTemplateService.listTemplates();
+    res.json({ success: true, data: templates });
+  } catch (error) {
+    logger.error('Error listing map templates:', error);
+    res.status(500).json({ success: false, error: 'Failed to list map templates' });
+  }
+});
+
+// Get a map template with its map data
+app.get('/api/map-templates/:templateId', async (req, res) => {
+  try {
+    const template = await mapTemplateService.getTemplate(req.params.templateId);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+    res.json({ success: true, data: template });
+  } catch (error) {
+    logger.error('Error fetching map template:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch map template' });
+  }
+});
+
+// Save a map (the given data, or a room's current map) or some of its shapes as a template
+app.post('/api/map-templates', requireRole('editor'), async (req, res) => {
+  const validationError = validateMapTemplateInput(req.body);
+  if (validationError) {
+    return res.status(400).json({ success: false, error: validationError });
+  }
+  const { name, description, data, shapeIds, sourceRoomId } = req.body;
+  try {
+    const mapData = data ?? await mapController.getMap(sourceRoomId);
+    if (!mapData) {
+      return res.status(404).json({ success: false, error: 'Map not found' });
+    }
+    const template = await mapTemplateService.createTemplate(
+      { name, description, data: mapData, shapeIds, sourceRoomId },
+      auditActorFromRequest(req)
+    );
+    if (!template) {
+      return res.status(500).json({ success: false, error: 'Failed to create map template' });
+    }
+    res.status(201).json({ success: true, data: template });
+  } catch (error) {
+    logger.error('Error creating map template:', error);
+    res.status(500).json({ success: false, error: 'Failed to create map template' });
+  }
+});
+
+// Delete a map template
+app.delete('/api/map-templates/:templateId', requireRole('editor'), async (req, res) => {
+  try {
+    const deleted = await mapTemplateService.deleteTemplate(req.params.templateId, auditActorFromRequest(req));
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+    res.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    logger.error('Error deleting map template:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete map template' });
+  }
+});
+
 // ============================================================================
 // CHARACTER API ROUTES
 // ============================================================================
 
 // List all character slots for a user
-app.get('/api/characters/:userId/slots', async (req, res) => {
+app.get('/api/characters/:userId/slots', requireOwner(), async (req, res) => {
   const { userId } = req.params;
   try {
     const slots = await characterController.listCharacterSlots(userId);
@@ -342,7 +894,7 @@ app.get('/api/characters/:userId/slots', async (req, res) => {
 });
 
 // Get a specific character slot
-app.get('/api/characters/:userId/slots/:slotNumber', async (req, res) => {
+app.get('/api/characters/:userId/slots/:slotNumber', requireOwner(), async (req, res) => {
   const { userId, slotNumber } = req.params;
   try {
     const slot = await characterController.getCharacterSlot(userId, parseInt(slotNumber, 10));
@@ -357,14 +909,15 @@ app.get('/api/characters/:userId/slots/:slotNumber', async (req, res) => {
 });
 
 // Save/update a character slot
-app.put('/api/characters/:userId/slots/:slotNumber', async (req, res) => {
+app.put('/api/characters/:userId/slots/:slotNumber', requireOwner(), async (req, res) => {
   const { userId, slotNumber } = req.params;
   const { name, spriteSheet, thumbnailPath, texturePath } = req.body;
   try {
     const slot = await characterController.saveCharacterSlot(
       userId,
       parseInt(slotNumber, 10),
-      { name, spriteSheet, thumbnailPath, texturePath }
+      { name, spriteSheet, thumbnailPath, texturePath },
+      auditActorFromRequest(req)
     );
     if (!slot) {
       return res.status(500).json({ success: false, error: 'Failed to save character slot' });
@@ -377,10 +930,10 @@ app.put('/api/characters/:userId/slots/:slotNumber', async (req, res) => {
 });
 
 // Delete/clear a character slot
-app.delete('/api/characters/:userId/slots/:slotNumber', async (req, res) => {
+app.delete('/api/characters/:userId/slots/:slotNumber', requireOwner(), async (req, res) => {
   const { userId, slotNumber } = req.params;
   try {
-    const deleted = await characterController.deleteCharacterSlot(userId, parseInt(slotNumber, 10));
+    const deleted = await characterController.deleteCharacterSlot(userId, parseInt(slotNumber, 10), auditActorFromRequest(req));
     if (!deleted) {
       return res.status(500).json({ success: false, error: 'Failed to delete character slot' });
     }
@@ -392,7 +945,7 @@ app.delete('/api/characters/:userId/slots/:slotNumber', async (req, res) => {
 });
 
 // Get active character for a user
-app.get('/api/characters/:userId/active', async (req, res) => {
+app.get('/api/characters/:userId/active', requireOwner(), async (req, res) => {
   const { userId } = req.params;
   try {
     const active = await characterController.getActiveCharacter(userId);
@@ -404,7 +957,7 @@ app.get('/api/characters/:userId/active', async (req, res) => {
 });
 
 // Set active character for a user
-app.put('/api/characters/:userId/active', async (req, res) => {
+app.put('/api/characters/:userId/active', requireOwner(), async (req, res) => {
   const { userId } = req.params;
   const { slotNumber } = req.body;
   try {
@@ -424,7 +977,7 @@ app.put('/api/characters/:userId/active', async (req, res) => {
 // ============================================================================
 
 // Get user settings
-app.get('/api/settings/:userId', async (req, res) => {
+app.get('/api/settings/:userId', requireOwner(), async (req, res) => {
   const { userId } = req.params;
   try {
     const settings = await settingsController.getUserSettings(userId);
@@ -436,7 +989,7 @@ app.get('/api/settings/:userId', async (req, res) => {
 });
 
 // Update user settings
-app.put('/api/settings/:userId', async (req, res) => {
+app.put('/api/settings/:userId', requireOwner(), async (req, res) => {
   const { userId } = req.params;
   const { theme, jitsiServerUrl, editorPrefs } = req.body;
   try {
@@ -475,6 +1028,9 @@ app.get('/api/position/:sessionId', async (req, res) => {
 app.put('/api/position/:sessionId', async (req, res) => {
   const { sessionId } = req.params;
   const { userId, roomId, x, y, direction } = req.body;
+  if (userId && !isOwner(req.user, userId)) {
+    return res.status(403).json({ success: false, error: 'Access denied' });
+  }
   try {
     const position = await settingsController.updatePlayerPosition(sessionId, {
       userId,
@@ -563,7 +1119,7 @@ app.get('/api/chat/:roomId/messages', async (req, res) => {
 app.post('/api/chat/:roomId/messages', async (req, res) => {
   const { roomId } = req.params;
   // Support both 'text' and 'content' field names for flexibility
-  const { text, content, authorName, authorId } = req.body;
+  const { text, content } = req.body;
   const messageText = text || content;
 
   try {
@@ -573,11 +1129,11 @@ app.post('/api/chat/:roomId/messages', async (req, res) => {
     if (!messageText) {
       return res.status(400).json({ success: false, error: 'text or content is required' });
     }
-    // authorName is optional - use 'Anonymous' as fallback
+    // Posted as the authenticated user - authorName / authorId in the body are ignored
     const message = await chatDbController.createMessage(roomId, {
       text: messageText,
-      authorName: authorName || 'Anonymous',
-      authorId,
+      authorName: req.user!.username,
+      authorId: req.user!.id,
     });
     if (!message) {
       return res.status(500).json({ success: false, error: 'Failed to create message' });
@@ -609,6 +1165,15 @@ app.post('/api/chat/:roomId/messages', async (req, res) => {
   }
 });
 
+// Messages can be edited / deleted by their author and moderated by admins
+async function canModerateMessage(req: express.Request, messageId: string): Promise<boolean> {
+  const message = await chatDbController.getMessage(messageId);
+  if (!message || message.authorId === req.user!.id) {
+    return true; // Missing messages are reported as 404 by the route
+  }
+  return hasRole(await roleService.getEffectiveRole(req.user!.id), 'admin');
+}
+
 // Edit a message
 app.put('/api/chat/messages/:messageId', async (req, res) => {
   const { messageId } = req.params;
@@ -622,7 +1187,10 @@ app.put('/api/chat/messages/:messageId', async (req, res) => {
     if (!newContent) {
       return res.status(400).json({ success: false, error: 'content is required' });
     }
-    const message = await chatDbController.editMessage(messageId, newContent);
+    if (!(await canModerateMessage(req, messageId))) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    const message = await chatDbController.editMessage(messageId, newContent, auditActorFromRequest(req));
     if (!message) {
       return res.status(404).json({ success: false, error: 'Message not found' });
     }
@@ -641,7 +1209,10 @@ app.delete('/api/chat/messages/:messageId', async (req, res) => {
     if (!chatDbController) {
       return res.status(503).json({ success: false, error: 'Chat service not initialized' });
     }
-    const success = await chatDbController.deleteMessage(messageId);
+    if (!(await canModerateMessage(req, messageId))) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    const success = await chatDbController.deleteMessage(messageId, auditActorFromRequest(req));
     if (!success) {
       return res.status(404).json({ success: false, error: 'Message not found' });
     }
@@ -672,7 +1243,7 @@ app.get('/api/chat/messages/:messageId', async (req, res) => {
 });
 
 // Manually trigger TTL cleanup (for testing/admin)
-app.post('/api/chat/cleanup', async (_req, res) => {
+app.post('/api/chat/cleanup', requireRole('admin'), async (_req, res) => {
   try {
     if (!chatDbController) {
       return res.status(503).json({ success: false, error: 'Chat service not initialized' });
@@ -690,7 +1261,7 @@ app.post('/api/chat/cleanup', async (_req, res) => {
 // ============================================================================
 
 // Generic file upload
-app.post('/api/uploads', uploadGenericAsset.single('file'), (req, res) => {
+app.post('/api/uploads', requireRole('member'), uploadGenericAsset.single('file'), validateUploadedImage, (req, res) => {
   if (!req.file) {
     return res.status(400).json({ success: false, error: 'No file uploaded' });
   }
@@ -709,29 +1280,24 @@ app.post('/api/uploads', uploadGenericAsset.single('file'), (req, res) => {
   });
 });
 
-// Map asset upload - saves to filesystem AND database
-app.post('/api/maps/:roomId/assets', uploadMapAsset.single('file'), async (req, res) => {
+// Map asset upload - saves the image and its variants to filesystem AND database (an image the map already has is reused)
+app.post('/api/maps/:roomId/assets', requireRole('editor', 'roomId'), uploadMapAsset.single('file'), validateUploadedImage, async (req, res) => {
   if (!req.file) {
     return res.status(400).json({ success: false, error: 'No file uploaded' });
   }
 
   const { roomId } = req.params;
-  const { width, height } = req.body; // Optional dimensions from client
 
   try {
-    // Create database record for the asset
+    // Store the file under its content hash and create the database record
     const asset = await mapController.createMapAsset(roomId, {
       name: req.file.originalname,
-      filePath: req.file.path,
-      fileSize: req.file.size,
-      mimeType: req.file.mimetype,
-      width: width ? parseInt(width, 10) : undefined,
-      height: height ? parseInt(height, 10) : undefined,
+      buffer: req.file.buffer,
       metadata: {
         originalFilename: req.file.originalname,
         uploadedAt: new Date().toISOString(),
       },
-    });
+    }, auditActorFromRequest(req));
 
     if (!asset) {
       return res.status(500).json({ success: false, error: 'Failed to save asset to database' });
@@ -745,7 +1311,7 @@ app.post('/api/maps/:roomId/assets', uploadMapAsset.single('file'), async (req,
 });
 
 // Character asset upload (thumbnail, texture) with optional slot update
-app.post('/api/characters/:userId/upload', uploadCharacterAsset.single('file'), async (req, res) => {
+app.post('/api/characters/:userId/upload', requireOwner(), uploadCharacterAsset.single('file'), validateUploadedImage, async (req, res) => {
   if (!req.file) {
     return res.status(400).json({ success: false, error: 'No file uploaded' });
   }
@@ -787,9 +1353,30 @@ app.post('/api/characters/:userId/upload', uploadCharacterAsset.single('file'),
 
 // Initialize controllers
 chatDbController = initChatDbController(io);
-const worldController = new WorldController(io);
-const videoCallController = new VideoCallController(io);
 const mapController = new MapController(io);
+const worldController = new WorldController(io, mapController);
+const mapSessionController = new MapSessionController(io, mapController);
+const videoCallController = new VideoCallController(io);
+
+// Sockets must present a valid access token in the handshake
+io.use(socketAuthMiddleware);
+
+// Disconnect the sockets of revoked sessions (logout, revoked device, password reset)
+sessionService.onRevoked((sessionIds) => {
+  for (const sessionId of sessionIds) {
+    io.in(`session:${sessionId}`).disconnectSockets(true);
+  }
+});
+
+// Map edits over the socket need the editor role in the map's room
+async function authorizeMapEdit(socket: Socket, roomId: unknown): Promise<boolean> {
+  const allowed = typeof roomId === 'string' && await socketHasRole(socket, 'editor', roomId);
+  if (!allowed) {
+    logger.warn(`Rejected map edit from ${getSocketUser(socket)?.username ?? socket.id}`, { roomId });
+    socket.emit('map:error', { error: 'Insufficient permissions' });
+  }
+  return allowed;
+}
 
 // Socket.IO error handling with detailed logging
 io.on('connect_error', (error) => {
@@ -806,11 +1393,8 @@ io.on('connection', (socket) => {
   logger.info(`✅ User connected: ${socket.id}`, {
     transport: socket.conn.transport.name,
     remoteAddress: socket.conn.remoteAddress,
-    handshakeData: {
-      headers: socket.handshake.headers,
-      auth: socket.handshake.auth,
-      url: socket.handshake.url
-    }
+    // Headers and auth carry the access token - never log them
+    url: socket.handshake.url
   });
   logger.debug(`Socket transport: ${socket.conn.transport.name}`);
 
@@ -839,22 +1423,33 @@ io.on('connection', (socket) => {
   socket.on('chat:message', (data) => chatDbController.handleSendMessage(socket, data));
   socket.on('chat:typing', (data) => chatDbController.handleTyping(socket, data));
   // Reaction events
+  // The reacting user is the authenticated one, never a client-supplied ID
   socket.on('chat:reaction:add', (data) => {
-    const { messageId, emoji, userId } = data;
-    if (messageId && emoji && userId) {
-      chatDbController.addReaction(messageId, emoji, userId);
+    const { messageId, emoji } = data;
+    const user = getSocketUser(socket);
+    if (messageId && emoji && user) {
+      chatDbController.addReaction(messageId, emoji, user.id);
     }
   });
   socket.on('chat:reaction:remove', (data) => {
-    const { messageId, emoji, userId } = data;
-    if (messageId && emoji && userId) {
-      chatDbController.removeReaction(messageId, emoji, userId);
+    const { messageId, emoji } = data;
+    const user = getSocketUser(socket);
+    if (messageId && emoji && user) {
+      chatDbController.removeReaction(messageId, emoji, user.id);
     }
   });
 
   // World events
   socket.on('player-joined-world', (data) => worldController.handlePlayerJoinedWorld(socket, data).catch((error) => logger.error('Error in player-joined-world handler:', error)));
   socket.on('player-moved', (data) => worldController.handlePlayerMoved(socket, data));
+  socket.on('player-teleport', (data) => worldController.handlePlayerTeleport(socket, data));
+  socket.on('player-portal', (data) => worldController.handlePlayerPortal(socket, data).catch((error) => logger.error('Error in player-portal handler:', error)));
+  socket.on('player-teleport-destination', (data) => worldController.handlePlayerTeleportToDestination(socket, data).catch((error) => logger.error('Error in player-teleport-destination handler:', error)));
+  socket.on('player-switch', (data) => worldController.handlePlayerSwitch(socket, data));
+  socket.on('player-collect', (data) => worldController.handlePlayerCollect(socket, data));
+  socket.on('player-action', (data) => worldController.handlePlayerAction(socket, data));
+  socket.on('player-avatar-updated', (data) => worldController.handlePlayerAvatarUpdated(socket, data).catch((error) => logger.error('Error in player-avatar-updated handler:', error)));
+  socket.on('player-viewport', (data) => worldController.handlePlayerViewport(socket, data));
 
   // Video call events
   socket.on('join-video-call', (data) => videoCallController.handleJoinVideoCall(socket, data));
@@ -863,8 +1458,21 @@ io.on('connection', (socket) => {
   // Map events
   socket.on('join-map', (roomId: string) => mapController.handleJoinMapRoom(socket, roomId));
   socket.on('leave-map', (roomId: string) => mapController.handleLeaveMapRoom(socket, roomId));
-  socket.on('map:update', (data) => mapController.handleMapUpdate(socket, data));
-  socket.on('map:partial:update', (data) => mapController.handlePartialUpdate(socket, data));
+  socket.on('map:update', async (data) => {
+    if (await authorizeMapEdit(socket, data?.roomId)) {
+      await mapController.handleMapUpdate(socket, data);
+    }
+  });
+
+  // Live map editing session (shape operations, cursors, selections and locks)
+  socket.on('map:session:join', async (data) => {
+    if (await authorizeMapEdit(socket, data?.roomId)) {
+      await mapSessionController.handleJoin(socket, data.roomId);
+    }
+  });
+  socket.on('map:session:leave', () => mapSessionController.handleLeave(socket));
+  socket.on('map:session:ops', (data) => mapSessionController.handleOperations(socket, data));
+  socket.on('map:session:presence', (data) => mapSessionController.handlePresence(socket, data));
 
   // Handle disconnection
   socket.on('disconnect', () => {
@@ -872,6 +1480,7 @@ io.on('connection', (socket) => {
     chatDbController.handleDisconnect(socket);
     worldController.handleDisconnect(socket);
     videoCallController.handleDisconnect(socket);
+    mapSessionController.handleDisconnect(socket);
   });
 });
 
@@ -886,6 +1495,8 @@ function startCleanupScheduler() {
       await chatDbController.cleanupExpiredContent();
       // Cleanup stale player positions
       await settingsController.cleanupStalePositions();
+      // Remove guests whose access has expired
+      await guestService.cleanupExpiredGuests();
     } catch (error) {
       logger.error('Error during scheduled cleanup:', error);
     }
@@ -906,6 +1517,9 @@ async function startServer() {
     // Start TTL cleanup scheduler
     if (dbConnected) {
       startCleanupScheduler();
+      // Load world rooms (built-in rooms are used until then / without a database)
+      await roomRegistry.initialize();
+      await roleService.ensureOwner();
     }
 
     server.listen(PORT, () => {
@@ -924,6 +1538,7 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully...');
+  await worldController.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
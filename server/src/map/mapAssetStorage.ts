@@ -0,0 +1,377 @@
+/**
+ * Map Asset Storage
+ * Images of maps (backgrounds, placed assets) are stored as files named by
+ * their content hash, one MapAsset record per image and map. Map data refers
+ * to them by URL instead of embedding base64 data URLs.
+ *
+ * Every image goes through the image pipeline: next to the image, its
+ * variants are stored as `<hash>.<variant>.webp` and animations get a
+ * `<hash>.sheet.png` spritesheet with a `<hash>.sheet.json` manifest, which
+ * renderers find from the image URL alone.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { MapAsset } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { UPLOAD_DIRS, ALLOWED_MIME_TYPES, getRelativePath, getFileUrl, resolveUploadUrl } from '../utils/uploadMiddleware';
+import { imagePipeline, ImageAnimation, ProcessedImage } from '../utils/imagePipeline';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface StoreMapImageInput {
+  buffer: Buffer;
+  fileName: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A generated variant of a stored image, as kept in the asset metadata
+ */
+export interface StoredImageVariant {
+  file: string;  // File name in the asset's directory
+  mimeType: string;
+  width: number;
+  height: number;
+  fileSize: number;
+}
+
+export interface StoredImageAnimation extends ImageAnimation {
+  spritesheet: string;  // File name in the asset's directory
+}
+
+export interface StoredMapImage {
+  asset: MapAsset;
+  url: string;
+  created: boolean;  // false if the map already had this image
+}
+
+export interface ExtractedImages<T> {
+  data: T;
+  extracted: number;  // Data URLs replaced by asset URLs
+  created: MapAsset[];  // Assets stored by this call (the map didn't have them yet)
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+const DATA_URL_PATTERN = /^data:(image\/[a-z0-9.+-]+);base64,/i;
+
+/**
+ * Decode an image data URL; null if it isn't one of the allowed image types
+ */
+export function parseImageDataUrl(value: string): { mimeType: string; buffer: Buffer } | null {
+  const match = DATA_URL_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const mimeType = match[1].toLowerCase();
+  if (!(ALLOWED_MIME_TYPES.image as readonly string[]).includes(mimeType)) {
+    return null;
+  }
+  return { mimeType, buffer: Buffer.from(value.slice(match[0].length), 'base64') };
+}
+
+/**
+ * Deep-copy data, replacing the strings `replace` returns a new value for (null
+ * keeps the string). Each distinct string is replaced once. `name` is the item
+ * the string belongs to (its file name or ID), else the field.
+ */
+export async function replaceImageStrings<T>(
+  data: T,
+  replace: (value: string, name: string) => Promise<string | null>
+): Promise<{ data: T; replaced: number }> {
+  let replaced = 0;
+  const replacements = new Map<string, string | null>();
+
+  const visit = async (value: unknown, name: string): Promise<unknown> => {
+    if (typeof value === 'string') {
+      if (!replacements.has(value)) {
+        replacements.set(value, await replace(value, name));
+      }
+      const replacement = replacements.get(value);
+      if (replacement === null || replacement === undefined) {
+        return value;
+      }
+      replaced++;
+      return replacement;
+    }
+    if (Array.isArray(value)) {
+      const result: unknown[] = [];
+      for (const item of value) {
+        result.push(await visit(item, name));
+      }
+      return result;
+    }
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const itemName = typeof record.fileName === 'string' ? record.fileName.replace(/\.[^.]+$/, '')
+        : typeof record.id === 'string' ? record.id : null;
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(record)) {
+        result[key] = await visit(item, itemName ?? key);
+      }
+      return result;
+    }
+    return value;
+  };
+
+  return { data: (await visit(data, 'image')) as T, replaced };
+}
+
+function storedImageMetadata(asset: { metadata: unknown }) {
+  return (asset.metadata || {}) as { variants?: Record<string, StoredImageVariant>; animation?: StoredImageAnimation };
+}
+
+// ============================================================================
+// MAP ASSET STORAGE
+// ============================================================================
+
+export class MapAssetStorage {
+  /**
+   * URL a stored asset is served from
+   */
+  getAssetUrl(asset: Pick<MapAsset, 'filePath'>): string {
+    return getFileUrl(getRelativePath(asset.filePath));
+  }
+
+  /**
+   * URLs of the generated files of an asset, by the file names in its metadata
+   */
+  getVariantUrls(asset: { filePath: string; metadata: unknown }): {
+    variants: Record<string, StoredImageVariant & { url: string }>;
+    animation: (StoredImageAnimation & { spritesheetUrl: string }) | null;
+  } {
+    const meta = storedImageMetadata(asset);
+    const urlOf = (file: string) => this.getAssetUrl({ filePath: path.join(path.dirname(asset.filePath), file) });
+    const variants: Record<string, StoredImageVariant & { url: string }> = {};
+    for (const [name, variant] of Object.entries(meta.variants || {})) {
+      variants[name] = { ...variant, url: urlOf(variant.file) };
+    }
+    return {
+      variants,
+      animation: meta.animation ? { ...meta.animation, spritesheetUrl: urlOf(meta.animation.spritesheet) } : null,
+    };
+  }
+
+  /**
+   * Store an image for a map. Identical images are stored once per map - the
+   * existing asset is returned for a duplicate. Throws if the file isn't a
+   * valid image (see imagePipeline.check).
+   */
+  async storeImage(mapId: string, roomId: string, input: StoreMapImageInput): Promise<StoredMapImage> {
+    const contentHash = crypto.createHash('sha256').update(input.buffer).digest('hex');
+    const existing = await prisma.mapAsset.findUnique({
+      where: { mapId_contentHash: { mapId, contentHash } },
+    });
+    if (existing) {
+      return { asset: existing, url: this.getAssetUrl(existing), created: false };
+    }
+
+    const image = await imagePipeline.process(input.buffer);
+    const mapDir = path.join(UPLOAD_DIRS.maps, roomId);
+    const filePath = path.join(mapDir, `${contentHash}.${image.original.extension}`);
+    await fs.promises.mkdir(mapDir, { recursive: true });
+    await fs.promises.writeFile(filePath, image.original.buffer);
+
+    const { variants, animation } = await this.writeGeneratedFiles(filePath, image);
+
+    try {
+      const asset = await prisma.mapAsset.create({
+        data: {
+          mapId,
+          fileName: input.fileName,
+          filePath,
+          fileSize: image.original.buffer.length,
+          mimeType: image.original.mimeType,
+          contentHash,
+          metadata: {
+            ...(input.metadata || {}),
+            width: image.original.width,
+            height: image.original.height,
+            variants,
+            ...(animation ? { animation } : {}),
+          } as object,
+        },
+      });
+      logger.debug(`Stored map image ${contentHash} for ${roomId} (${asset.fileSize} bytes, ${image.variants.length} variant(s))`);
+      return { asset, url: this.getAssetUrl(asset), created: true };
+    } catch (error) {
+      // Stored concurrently by another save - use that record (the file content is the same)
+      const concurrent = await prisma.mapAsset.findUnique({
+        where: { mapId_contentHash: { mapId, contentHash } },
+      });
+      if (concurrent) {
+        return { asset: concurrent, url: this.getAssetUrl(concurrent), created: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate the variants of an asset stored without them (uploaded before
+   * images were processed). Returns false if it already has them.
+   */
+  async generateMissingVariants(asset: MapAsset): Promise<boolean> {
+    if (storedImageMetadata(asset).variants) {
+      return false;
+    }
+    const image = await imagePipeline.process(await fs.promises.readFile(asset.filePath));
+    const generated = await this.writeGeneratedFiles(asset.filePath, image);
+    await prisma.mapAsset.update({
+      where: { id: asset.id },
+      data: {
+        metadata: {
+          ...((asset.metadata || {}) as Record<string, unknown>),
+          width: image.original.width,
+          height: image.original.height,
+          ...generated,
+        } as object,
+      },
+    });
+    return true;
+  }
+
+  /**
+   * Write the variants and spritesheet of an image next to its file
+   */
+  private async writeGeneratedFiles(filePath: string, image: ProcessedImage): Promise<{
+    variants: Record<string, StoredImageVariant>;
+    animation?: StoredImageAnimation;
+  }> {
+    const dir = path.dirname(filePath);
+    const baseName = path.basename(filePath, path.extname(filePath));
+
+    const variants: Record<string, StoredImageVariant> = {};
+    for (const variant of image.variants) {
+      const file = `${baseName}.${variant.name}.${variant.extension}`;
+      await fs.promises.writeFile(path.join(dir, file), variant.buffer);
+      variants[variant.name] = {
+        file,
+        mimeType: variant.mimeType,
+        width: variant.width,
+        height: variant.height,
+        fileSize: variant.buffer.length,
+      };
+    }
+
+    if (!image.spritesheet) {
+      return { variants };
+    }
+    const animation = { ...image.spritesheet.animation, spritesheet: `${baseName}.sheet.${image.spritesheet.image.extension}` };
+    await fs.promises.writeFile(path.join(dir, animation.spritesheet), image.spritesheet.image.buffer);
+    await fs.promises.writeFile(path.join(dir, `${baseName}.sheet.json`), JSON.stringify(animation));
+    return { variants, animation };
+  }
+
+  /**
+   * Delete the files of an asset: the image and everything generated from it
+   */
+  async deleteFiles(asset: { filePath: string; metadata: unknown }): Promise<void> {
+    const dir = path.dirname(asset.filePath);
+    const { variants, animation } = storedImageMetadata(asset);
+    const files = [
+      asset.filePath,
+      ...Object.values(variants || {}).map((variant) => path.join(dir, variant.file)),
+      ...(animation ? [path.join(dir, animation.spritesheet), asset.filePath.replace(/\.[^.]+$/, '.sheet.json')] : []),
+    ];
+    for (const file of files) {
+      try {
+        await fs.promises.rm(file, { force: true });
+      } catch (error) {
+        logger.warn(`Failed to delete asset file ${file}:`, error);
+      }
+    }
+    logger.debug(`Deleted asset files: ${asset.filePath} (+${files.length - 1})`);
+  }
+
+  /**
+   * Replace every embedded image data URL in map data (or a revision delta)
+   * with the URL of a stored asset. Images that can't be stored stay embedded.
+   */
+  async extractEmbeddedImages<T>(mapId: string, roomId: string, data: T): Promise<ExtractedImages<T>> {
+    // Cheap check first - most saves have nothing embedded
+    if (!JSON.stringify(data ?? null).includes(';base64,')) {
+      return { data, extracted: 0, created: [] };
+    }
+
+    const created: MapAsset[] = [];
+    const result = await replaceImageStrings(data, async (value, name) => {
+      const image = parseImageDataUrl(value);
+      if (!image) {
+        return null;
+      }
+      try {
+        const extension = EXTENSIONS[image.mimeType] || 'img';
+        const stored = await this.storeImage(mapId, roomId, { buffer: image.buffer, fileName: `${name}.${extension}` });
+        if (stored.created) {
+          created.push(stored.asset);
+        }
+        return stored.url;
+      } catch (error) {
+        logger.warn(`Failed to extract embedded image of map ${roomId}:`, error);
+        return null;
+      }
+    });
+    if (result.replaced > 0) {
+      logger.info(`Extracted ${result.replaced} embedded image(s) from map ${roomId}`);
+    }
+    return { data: result.data, extracted: result.replaced, created };
+  }
+
+  /**
+   * Store the uploaded files that map data refers to (images of another map or
+   * a template) as assets of this map, and point the data at them. Images the
+   * map already has and files that can't be read are left as they are.
+   */
+  async copyUploadedImages<T>(mapId: string, roomId: string, data: T): Promise<ExtractedImages<T>> {
+    const mapDir = path.resolve(UPLOAD_DIRS.maps, roomId);
+    const created: MapAsset[] = [];
+    const result = await replaceImageStrings(data, async (value) => {
+      const filePath = resolveUploadUrl(value);
+      if (!filePath || path.dirname(filePath) === mapDir) {
+        return null;
+      }
+      try {
+        const buffer = await fs.promises.readFile(filePath);
+        const stored = await this.storeImage(mapId, roomId, { buffer, fileName: path.basename(filePath) });
+        if (stored.created) {
+          created.push(stored.asset);
+        }
+        return stored.url;
+      } catch (error) {
+        logger.warn(`Failed to copy image ${value} to map ${roomId}:`, error);
+        return null;
+      }
+    });
+    return { data: result.data, extracted: result.replaced, created };
+  }
+
+  /**
+   * Delete assets stored for a save that didn't go through. Assets the map
+   * data refers to are kept - a concurrent save may have stored the same image.
+   */
+  async deleteUnusedAssets(assets: MapAsset[], mapData: unknown): Promise<number> {
+    const json = JSON.stringify(mapData ?? null);
+    const unused = assets.filter((asset) => !json.includes(this.getAssetUrl(asset)));
+    for (const asset of unused) {
+      await this.deleteFiles(asset);
+    }
+    if (unused.length > 0) {
+      await prisma.mapAsset.deleteMany({ where: { id: { in: unused.map((asset) => asset.id) } } });
+      logger.info(`Deleted ${unused.length} asset(s) of a rejected save`);
+    }
+    return unused.length;
+  }
+}
+
+// Export singleton instance
+export const mapAssetStorage = new MapAssetStorage();
@@ -1,8 +1,13 @@
+import fs from 'fs';
 import { Server, Socket } from 'socket.io';
 import { prisma } from '../utils/prisma';
 import { logger } from '../utils/logger';
-import fs from 'fs';
-import path from 'path';
+import { auditService, AuditActor, auditActorFromSocket } from '../services/auditService';
+import { roomRegistry } from '../world/roomRegistry';
+import { getSocketUser } from '../auth/authMiddleware';
+import { mapRevisionService, normalizeRevisionMessage, mergeMapData, MapMergeConflict } from './mapRevisionService';
+import { mapAssetStorage, StoredImageVariant, StoredImageAnimation } from './mapAssetStorage';
+import { appendTemplateShapes, MapTemplateDetail } from './mapTemplateService';
 
 // ============================================================================
 // INTERFACES
@@ -26,6 +31,7 @@ export interface MapData {
   layers: unknown[];
   resources: unknown[];
   assets?: unknown[];
+  spawnPoints?: unknown[];
 }
 
 export interface MapAssetData {
@@ -38,10 +44,36 @@ export interface MapAssetData {
   mimeType: string;
   width?: number;
   height?: number;
+  variants: Record<string, StoredImageVariant & { url: string }>;  // WebP full size, thumbnail, downscaled
+  animation: (StoredImageAnimation & { spritesheetUrl: string }) | null;
   metadata?: Record<string, unknown>;
   createdAt: Date;
 }
 
+export type MapChangeListener = (roomId: string, mapData: MapData | null) => void;
+
+export interface SaveMapOptions {
+  message?: string;       // Describes the change in the version history
+  restoredFrom?: number;  // Version whose data is being restored
+  baseVersion?: number;   // Version the editor loaded; the save is rejected if the map has changed since
+  copyImages?: boolean;   // Also copy uploaded images of other maps and templates into this map's assets
+}
+
+/**
+ * A save rejected because someone else saved the map after the editor loaded it.
+ * `merged` is null when the base version is no longer available to merge against.
+ */
+export interface MapSaveConflict {
+  baseVersion: number;
+  currentVersion: number;
+  merged: MapData | null;
+  conflicts: MapMergeConflict[];
+}
+
+export type SaveMapResult =
+  | { saved: true; mapData: MapData; version: number }
+  | { saved: false; conflict: MapSaveConflict };
+
 export interface MapListItem {
   id: string;
   roomId: string;
@@ -51,17 +83,98 @@ export interface MapListItem {
   updatedAt: Date;
 }
 
+/**
+ * Summary of a map for audit events - counts instead of the full map data
+ */
+function summarizeMap(mapData: MapData | null | undefined, version?: number): Record<string, unknown> | null {
+  if (!mapData) {
+    return null;
+  }
+  return {
+    name: mapData.metadata?.name,
+    version,
+    worldDimensions: mapData.worldDimensions,
+    interactiveAreas: mapData.interactiveAreas?.length ?? 0,
+    impassableAreas: mapData.impassableAreas?.length ?? 0,
+    layers: mapData.layers?.length ?? 0,
+    assets: mapData.assets?.length ?? 0,
+  };
+}
+
+/**
+ * IDs of interactive areas added and removed by a map save
+ */
+function diffAreaIds(before: MapData | null | undefined, after: MapData): { addedAreas: string[]; removedAreas: string[] } {
+  const ids = (mapData: MapData | null | undefined) => new Set(
+    (mapData?.interactiveAreas ?? []).map((area) => (area as { id?: string }).id).filter((id): id is string => !!id)
+  );
+  const beforeIds = ids(before);
+  const afterIds = ids(after);
+  return {
+    addedAreas: [...afterIds].filter((id) => !beforeIds.has(id)),
+    removedAreas: [...beforeIds].filter((id) => !afterIds.has(id)),
+  };
+}
+
+/**
+ * API shape of a stored map asset
+ */
+function toMapAssetData(asset: {
+  id: string;
+  mapId: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number;
+  mimeType: string;
+  metadata: unknown;
+  createdAt: Date;
+}): MapAssetData {
+  const meta = asset.metadata as Record<string, unknown> || {};
+  return {
+    id: asset.id,
+    mapId: asset.mapId,
+    name: asset.fileName,
+    filePath: asset.filePath,
+    fileUrl: mapAssetStorage.getAssetUrl(asset),
+    fileSize: asset.fileSize,
+    mimeType: asset.mimeType,
+    width: (meta.width as number) || undefined,
+    height: (meta.height as number) || undefined,
+    ...mapAssetStorage.getVariantUrls(asset),
+    metadata: meta,
+    createdAt: asset.createdAt,
+  };
+}
+
 // ============================================================================
 // MAP CONTROLLER
 // ============================================================================
 
 export class MapController {
   private io: Server;
+  private mapChangeListeners: MapChangeListener[] = [];
 
   constructor(io: Server) {
     this.io = io;
   }
 
+  /**
+   * Register a listener notified whenever a map is saved (mapData) or deleted (null)
+   */
+  onMapChanged(listener: MapChangeListener): void {
+    this.mapChangeListeners.push(listener);
+  }
+
+  private notifyMapChanged(roomId: string, mapData: MapData | null): void {
+    for (const listener of this.mapChangeListeners) {
+      try {
+        listener(roomId, mapData);
+      } catch (error) {
+        logger.error('Error in map change listener:', error);
+      }
+    }
+  }
+
   // --------------------------------------------------------------------------
   // MAP CRUD OPERATIONS
   // --------------------------------------------------------------------------
@@ -102,7 +215,8 @@ export class MapController {
         return null;
       }
 
-      return map.data as unknown as MapData;
+      // The column is authoritative - editors send it back as their base version
+      return { ...(map.data as unknown as MapData), version: map.version };
     } catch (error) {
       logger.error('Error getting map:', error);
       return null;
@@ -155,51 +269,228 @@ export class MapController {
   }
 
   /**
-   * Create or update map (upsert)
+   * Create or update map (upsert); every save is kept as a revision.
+   * With `options.baseVersion` the update only applies if nobody saved the map
+   * in the meantime - otherwise a conflict with a merge proposal is returned.
    */
-  async saveMap(roomId: string, mapData: MapData): Promise<MapData | null> {
+  async saveMap(roomId: string, mapData: MapData, actor?: AuditActor, options: SaveMapOptions = {}): Promise<SaveMapResult | null> {
     try {
+      const previous = await prisma.map.findUnique({
+        where: { roomId },
+        select: { id: true, data: true, version: true },
+      });
+      const { baseVersion } = options;
+      if (previous && baseVersion !== undefined && previous.version !== baseVersion) {
+        return { saved: false, conflict: await this.buildConflict(roomId, mapData, baseVersion) };
+      }
+
+      // Embedded images are moved to asset files - the map refers to them by URL.
+      // A new map gets its record first (version 0, the save below makes it 1).
+      const mapId = previous?.id ?? (await this.ensureMapRecord(roomId, 0)).id;
+      const extracted = await mapAssetStorage.extractEmbeddedImages(mapId, roomId, mapData);
+      let mapDataWithUrls = extracted.data;
+      const createdAssets = extracted.created;
+      if (options.copyImages) {
+        const copied = await mapAssetStorage.copyUploadedImages(mapId, roomId, mapDataWithUrls);
+        mapDataWithUrls = copied.data;
+        createdAssets.push(...copied.created);
+      }
+
       // Update lastModified timestamp
       const updatedMapData = {
-        ...mapData,
+        ...mapDataWithUrls,
         lastModified: new Date().toISOString(),
       };
+      const name = mapData.metadata?.name || 'Untitled Map';
+
+      const result = previous && baseVersion !== undefined
+        ? await prisma.$transaction(async (tx) => {
+          // Conditional update - another save may have landed since the check above
+          const { count } = await tx.map.updateMany({
+            where: { roomId, version: baseVersion },
+            data: { name, data: updatedMapData as object, version: { increment: 1 } },
+          });
+          return count > 0 ? tx.map.findUnique({ where: { roomId } }) : null;
+        })
+        : await prisma.map.upsert({
+          where: { roomId },
+          update: {
+            name,
+            data: updatedMapData as object,
+            version: { increment: 1 },
+          },
+          create: {
+            roomId,
+            name,
+            data: updatedMapData as object,
+            version: 1,
+          },
+        });
+      if (!result) {
+        // Nothing refers to the images this save stored - unless the save that won did too
+        const current = await prisma.map.findUnique({ where: { roomId }, select: { data: true } });
+        await mapAssetStorage.deleteUnusedAssets(createdAssets, current?.data);
+        return { saved: false, conflict: await this.buildConflict(roomId, mapData, baseVersion!) };
+      }
 
-      const result = await prisma.map.upsert({
-        where: { roomId },
-        update: {
-          name: mapData.metadata?.name || 'Untitled Map',
-          data: updatedMapData as object,
-          version: { increment: 1 },
-        },
-        create: {
-          roomId,
-          name: mapData.metadata?.name || 'Untitled Map',
-          data: updatedMapData as object,
-          version: 1,
-        },
-      });
+      await mapRevisionService.recordRevision(
+        result,
+        updatedMapData,
+        previous ? { data: previous.data as unknown as MapData, version: previous.version } : null,
+        actor,
+        options.message
+      );
+      const savedMapData = { ...(result.data as unknown as MapData), version: result.version };
 
       // Broadcast map update to all clients in the room
       this.io.to(`map:${roomId}`).emit('map:updated', {
         roomId,
-        mapData: result.data,
+        mapData: savedMapData,
         version: result.version,
         timestamp: new Date().toISOString(),
       });
 
       logger.info(`Map saved for room ${roomId}, version ${result.version}`);
-      return result.data as unknown as MapData;
+      const previousData = previous?.data as unknown as MapData | undefined;
+      await auditService.record(actor, {
+        action: options.restoredFrom !== undefined ? 'map.restore' : previous ? 'map.update' : 'map.create',
+        targetType: 'map',
+        targetId: roomId,
+        roomId: roomRegistry.getWorldRoomId(roomId),
+        before: summarizeMap(previousData, previous?.version),
+        after: summarizeMap(updatedMapData, result.version),
+        metadata: {
+          ...diffAreaIds(previousData, updatedMapData),
+          ...(options.restoredFrom !== undefined ? { restoredFrom: options.restoredFrom } : {}),
+        },
+      });
+      this.notifyMapChanged(roomId, savedMapData);
+      return { saved: true, mapData: savedMapData, version: result.version };
     } catch (error) {
       logger.error('Error saving map:', error);
       return null;
     }
   }
 
+  /**
+   * Conflict for a stale save: merges it into the current map using the
+   * revision the editor started from
+   */
+  private async buildConflict(roomId: string, mapData: MapData, baseVersion: number): Promise<MapSaveConflict> {
+    const current = await prisma.map.findUnique({ where: { roomId }, select: { data: true, version: true } });
+    const base = await mapRevisionService.getRevision(roomId, baseVersion);
+    const currentData = current?.data as unknown as MapData | undefined;
+    const proposal = base && currentData ? mergeMapData(base.data, mapData, currentData) : null;
+
+    logger.info(`Rejected stale save of map ${roomId} (base ${baseVersion}, current ${current?.version})`);
+    return {
+      baseVersion,
+      currentVersion: current?.version ?? 0,
+      merged: proposal ? { ...proposal.merged, version: current!.version } : null,
+      conflicts: proposal?.conflicts ?? [],
+    };
+  }
+
+  /**
+   * Restore an earlier version - saved as a new version, so the history is kept.
+   * Returns null if the map or version does not exist.
+   */
+  async restoreRevision(roomId: string, version: number, actor?: AuditActor): Promise<MapData | null> {
+    try {
+      const revision = await mapRevisionService.getRevision(roomId, version);
+      if (!revision) {
+        return null;
+      }
+      const result = await this.saveMap(roomId, revision.data, actor, {
+        message: `Restored version ${version}`,
+        restoredFrom: version,
+      });
+      return result?.saved ? result.mapData : null;
+    } catch (error) {
+      logger.error('Error restoring map revision:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Put a template into a room's map: `replace` makes the template the map (a
+   * room without a map gets one), `append` adds its shapes to the existing map.
+   * The template's images become assets of the map.
+   */
+  async applyTemplate(
+    roomId: string,
+    template: MapTemplateDetail,
+    mode: 'replace' | 'append',
+    actor?: AuditActor
+  ): Promise<MapData | null> {
+    try {
+      const current = await this.getMap(roomId);
+      const mapData: MapData = current && mode === 'append'
+        ? appendTemplateShapes(current, template.data)
+        : {
+          ...template.data,
+          metadata: current?.metadata ?? { ...template.data.metadata, name: template.name },
+        };
+      const result = await this.saveMap(roomId, mapData, actor, {
+        message: `Applied template "${template.name}"`,
+        copyImages: true,
+      });
+      return result?.saved ? result.mapData : null;
+    } catch (error) {
+      logger.error('Error applying map template:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Copy a room's map to another room, replacing its map. All assets of the
+   * source map are copied - also ones the map doesn't place (yet).
+   * Returns null if the source room has no map.
+   */
+  async cloneMap(sourceRoomId: string, targetRoomId: string, actor?: AuditActor): Promise<MapData | null> {
+    try {
+      const source = await prisma.map.findUnique({
+        where: { roomId: sourceRoomId },
+        include: { assets: true },
+      });
+      if (!source) {
+        return null;
+      }
+
+      const result = await this.saveMap(targetRoomId, source.data as unknown as MapData, actor, {
+        message: `Copied from room ${sourceRoomId}`,
+        copyImages: true,
+      });
+      if (!result?.saved) {
+        return null;
+      }
+
+      const target = await this.ensureMapRecord(targetRoomId, result.version);
+      for (const asset of source.assets) {
+        try {
+          const buffer = await fs.promises.readFile(asset.filePath);
+          await mapAssetStorage.storeImage(target.id, targetRoomId, {
+            buffer,
+            fileName: asset.fileName,
+            metadata: asset.metadata as Record<string, unknown>,
+          });
+        } catch (error) {
+          logger.warn(`Failed to copy asset ${asset.fileName} from map ${sourceRoomId}:`, error);
+        }
+      }
+
+      logger.info(`Map of room ${sourceRoomId} copied to room ${targetRoomId} (${source.assets.length} assets)`);
+      return result.mapData;
+    } catch (error) {
+      logger.error('Error cloning map:', error);
+      return null;
+    }
+  }
+
   /**
    * Delete map and its assets
    */
-  async deleteMap(roomId: string): Promise<boolean> {
+  async deleteMap(roomId: string, actor?: AuditActor): Promise<boolean> {
     try {
       // First, get all assets to delete files
       const map = await prisma.map.findUnique({
@@ -211,16 +502,9 @@ export class MapController {
         return false;
       }
 
-      // Delete asset files from filesystem
+      // Delete asset files (and their variants) from filesystem
       for (const asset of map.assets) {
-        try {
-          if (fs.existsSync(asset.filePath)) {
-            fs.unlinkSync(asset.filePath);
-            logger.debug(`Deleted asset file: ${asset.filePath}`);
-          }
-        } catch (fileError) {
-          logger.warn(`Failed to delete asset file ${asset.filePath}:`, fileError);
-        }
+        await mapAssetStorage.deleteFiles(asset);
       }
 
       // Delete map (cascades to assets via Prisma relation)
@@ -235,6 +519,15 @@ export class MapController {
       });
 
       logger.info(`Map deleted: ${roomId}`);
+      await auditService.record(actor, {
+        action: 'map.delete',
+        targetType: 'map',
+        targetId: roomId,
+        roomId: roomRegistry.getWorldRoomId(roomId),
+        before: summarizeMap(map.data as unknown as MapData, map.version),
+        metadata: { assetsDeleted: map.assets.length },
+      });
+      this.notifyMapChanged(roomId, null);
       return true;
     } catch (error) {
       logger.error('Error deleting map:', error);
@@ -264,22 +557,7 @@ export class MapController {
         orderBy: { createdAt: 'desc' },
       });
 
-      return assets.map((asset) => {
-        const meta = asset.metadata as Record<string, unknown> || {};
-        return {
-          id: asset.id,
-          mapId: asset.mapId,
-          name: asset.fileName,
-          filePath: asset.filePath,
-          fileUrl: `/uploads/${asset.filePath.split('/uploads/')[1] || asset.filePath}`,
-          fileSize: asset.fileSize,
-          mimeType: asset.mimeType,
-          width: (meta.width as number) || undefined,
-          height: (meta.height as number) || undefined,
-          metadata: meta,
-          createdAt: asset.createdAt,
-        };
-      });
+      return assets.map(toMapAssetData);
     } catch (error) {
       logger.error('Error getting map assets:', error);
       return [];
@@ -315,25 +593,10 @@ export class MapController {
       });
 
       // Transform assets to include URLs
-      const assets = map.assets.map((asset: any) => {
-        const meta = asset.metadata as Record<string, unknown> || {};
-        return {
-          id: asset.id,
-          mapId: asset.mapId,
-          name: asset.fileName,
-          filePath: asset.filePath,
-          fileUrl: `/uploads/${asset.filePath.split('/uploads/')[1] || asset.filePath}`,
-          fileSize: asset.fileSize,
-          mimeType: asset.mimeType,
-          width: (meta.width as number) || undefined,
-          height: (meta.height as number) || undefined,
-          metadata: meta,
-          createdAt: asset.createdAt,
-        };
-      });
+      const assets = map.assets.map(toMapAssetData);
 
       // Calculate total package size
-      const totalSize = assets.reduce((sum: number, asset: any) => sum + asset.fileSize, 0);
+      const totalSize = assets.reduce((sum, asset) => sum + asset.fileSize, 0);
 
       return {
         success: true,
@@ -356,78 +619,32 @@ export class MapController {
   }
 
   /**
-   * Create a map asset record (after file upload)
+   * Store an uploaded image as a map asset. An image the map already has is
+   * not stored again - the existing asset is returned. Dimensions come from the
+   * image itself; check it with imagePipeline.check first to reject bad files.
    */
   async createMapAsset(
     roomId: string,
     assetData: {
       name: string;
-      filePath: string;
-      fileSize: number;
-      mimeType: string;
-      width?: number;
-      height?: number;
+      buffer: Buffer;
       metadata?: Record<string, unknown>;
-    }
+    },
+    actor?: AuditActor
   ): Promise<MapAssetData | null> {
     try {
-      // Get or create map
-      let map = await prisma.map.findUnique({ where: { roomId } });
+      const map = await this.ensureMapRecord(roomId, 1);
 
-      if (!map) {
-        // Create a minimal map if it doesn't exist
-        map = await prisma.map.create({
-          data: {
-            roomId,
-            name: 'Untitled Map',
-            data: {
-              interactiveAreas: [],
-              impassableAreas: [],
-              worldDimensions: { width: 800, height: 600 },
-              version: 1,
-              lastModified: new Date().toISOString(),
-              createdBy: 'system',
-              metadata: { name: 'Untitled Map', description: '', tags: [], isPublic: false },
-              layers: [],
-              resources: [],
-            },
-            version: 1,
-          },
-        });
-      }
-
-      // Store width/height in metadata JSON
-      const metadataWithDimensions = {
-        ...(assetData.metadata || {}),
-        width: assetData.width,
-        height: assetData.height,
-      };
-
-      const asset = await prisma.mapAsset.create({
-        data: {
-          mapId: map.id,
-          fileName: assetData.name,
-          filePath: assetData.filePath,
-          fileSize: assetData.fileSize,
-          mimeType: assetData.mimeType,
-          metadata: metadataWithDimensions,
-        },
+      const { asset, created } = await mapAssetStorage.storeImage(map.id, roomId, {
+        buffer: assetData.buffer,
+        fileName: assetData.name,
+        metadata: assetData.metadata,
       });
-
-      const meta = asset.metadata as Record<string, unknown> || {};
-      const result: MapAssetData = {
-        id: asset.id,
-        mapId: asset.mapId,
-        name: asset.fileName,
-        filePath: asset.filePath,
-        fileUrl: `/uploads/${asset.filePath.split('/uploads/')[1] || asset.filePath}`,
-        fileSize: asset.fileSize,
-        mimeType: asset.mimeType,
-        width: (meta.width as number) || undefined,
-        height: (meta.height as number) || undefined,
-        metadata: meta,
-        createdAt: asset.createdAt,
-      };
+      const result = toMapAssetData(asset);
+      if (!created) {
+        logger.debug(`Asset for map ${roomId} already stored: ${asset.fileName}`);
+        return result;
+      }
 
       // Broadcast asset addition
       this.io.to(`map:${roomId}`).emit('map:asset:added', {
@@ -437,6 +654,14 @@ export class MapController {
       });
 
       logger.info(`Asset created for map ${roomId}: ${asset.fileName}`);
+      await auditService.record(actor, {
+        action: 'asset.upload',
+        targetType: 'asset',
+        targetId: asset.id,
+        roomId: roomRegistry.getWorldRoomId(roomId),
+        after: { name: asset.fileName, mimeType: asset.mimeType, fileSize: asset.fileSize },
+        metadata: { mapRoomId: roomId },
+      });
       return result;
     } catch (error) {
       logger.error('Error creating map asset:', error);
@@ -444,10 +669,38 @@ export class MapController {
     }
   }
 
+  /**
+   * The map record of a room, created empty (at the given version) if it doesn't exist yet
+   */
+  private async ensureMapRecord(roomId: string, version: number) {
+    const map = await prisma.map.findUnique({ where: { roomId } });
+    if (map) {
+      return map;
+    }
+    return prisma.map.create({
+      data: {
+        roomId,
+        name: 'Untitled Map',
+        data: {
+          interactiveAreas: [],
+          impassableAreas: [],
+          worldDimensions: { width: 800, height: 600 },
+          version,
+          lastModified: new Date().toISOString(),
+          createdBy: 'system',
+          metadata: { name: 'Untitled Map', description: '', tags: [], isPublic: false },
+          layers: [],
+          resources: [],
+        },
+        version,
+      },
+    });
+  }
+
   /**
    * Delete a map asset
    */
-  async deleteMapAsset(roomId: string, assetId: string): Promise<boolean> {
+  async deleteMapAsset(roomId: string, assetId: string, actor?: AuditActor): Promise<boolean> {
     try {
       const asset = await prisma.mapAsset.findUnique({
         where: { id: assetId },
@@ -458,15 +711,8 @@ export class MapController {
         return false;
       }
 
-      // Delete file from filesystem
-      try {
-        if (fs.existsSync(asset.filePath)) {
-          fs.unlinkSync(asset.filePath);
-          logger.debug(`Deleted asset file: ${asset.filePath}`);
-        }
-      } catch (fileError) {
-        logger.warn(`Failed to delete asset file ${asset.filePath}:`, fileError);
-      }
+      // Delete the file and its variants from filesystem
+      await mapAssetStorage.deleteFiles(asset);
 
       // Delete from database
       await prisma.mapAsset.delete({
@@ -481,6 +727,14 @@ export class MapController {
       });
 
       logger.info(`Asset deleted from map ${roomId}: ${assetId}`);
+      await auditService.record(actor, {
+        action: 'asset.delete',
+        targetType: 'asset',
+        targetId: assetId,
+        roomId: roomRegistry.getWorldRoomId(roomId),
+        before: { name: asset.fileName, mimeType: asset.mimeType, fileSize: asset.fileSize },
+        metadata: { mapRoomId: roomId },
+      });
       return true;
     } catch (error) {
       logger.error('Error deleting map asset:', error);
@@ -500,8 +754,11 @@ export class MapController {
     logger.debug(`Socket ${socket.id} joined map room ${roomId}`);
 
     // Notify others in the room
+    const user = getSocketUser(socket);
     socket.to(`map:${roomId}`).emit('map:user:joined', {
       socketId: socket.id,
+      userId: user?.id ?? null,
+      name: user?.username ?? null,
       roomId,
       timestamp: new Date().toISOString(),
     });
@@ -525,29 +782,19 @@ export class MapController {
   /**
    * Handle map update from socket
    */
-  async handleMapUpdate(socket: Socket, data: { roomId: string; mapData: MapData }): Promise<void> {
-    const savedMap = await this.saveMap(data.roomId, data.mapData);
-    if (!savedMap) {
-      socket.emit('map:error', { error: 'Failed to save map' });
-    }
-  }
-
-  /**
-   * Handle partial map update (e.g., single area change)
-   */
-  async handlePartialUpdate(
+  async handleMapUpdate(
     socket: Socket,
-    data: {
-      roomId: string;
-      changeType: 'area:add' | 'area:update' | 'area:remove' | 'collision:add' | 'collision:update' | 'collision:remove';
-      payload: unknown;
-    }
+    data: { roomId: string; mapData: MapData; message?: string; baseVersion?: number }
   ): Promise<void> {
-    // Broadcast partial update to other clients (optimistic UI)
-    socket.to(`map:${data.roomId}`).emit('map:partial:update', {
-      ...data,
-      timestamp: new Date().toISOString(),
+    const result = await this.saveMap(data.roomId, data.mapData, auditActorFromSocket(socket), {
+      message: normalizeRevisionMessage(data.message),
+      baseVersion: Number.isInteger(data.baseVersion) ? data.baseVersion : undefined,
     });
+    if (!result) {
+      socket.emit('map:error', { error: 'Failed to save map' });
+    } else if (!result.saved) {
+      socket.emit('map:conflict', { roomId: data.roomId, ...result.conflict });
+    }
   }
 }
 
@@ -0,0 +1,106 @@
+/**
+ * Map Operations
+ * Shape-level edits sent by map editors in a live editing session - add,
+ * update or remove one area, collision, asset or spawn point. The server
+ * orders them, applies them to the map and broadcasts them to the other editors.
+ */
+
+import type { MapData } from './mapController';
+
+export type MapOperationCollection = 'areas' | 'collisions' | 'assets' | 'spawnPoints';
+export type MapOperationType = 'add' | 'update' | 'remove';
+
+export interface MapOperation {
+  opId: string;                   // Chosen by the sending editor to match the echo
+  collection: MapOperationCollection;
+  type: MapOperationType;
+  id: string;                     // Shape ID
+  item?: Record<string, unknown>; // Full shape for add/update
+}
+
+// Map data field of each collection
+const COLLECTION_FIELDS: Record<MapOperationCollection, 'interactiveAreas' | 'impassableAreas' | 'assets' | 'spawnPoints'> = {
+  areas: 'interactiveAreas',
+  collisions: 'impassableAreas',
+  assets: 'assets',
+  spawnPoints: 'spawnPoints',
+};
+
+const OPERATION_TYPES: ReadonlySet<string> = new Set(['add', 'update', 'remove']);
+const MAX_ID_LENGTH = 200;
+// Shapes are small; anything larger is most likely an embedded image and belongs in an upload
+const MAX_ITEM_BYTES = 64 * 1024;
+
+/**
+ * Validate an operation from a client. Returns null if it is malformed.
+ */
+export function validateMapOperation(input: unknown): MapOperation | null {
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const { opId, collection, type, id, item } = input as Record<string, unknown>;
+  if (typeof opId !== 'string' || !opId || opId.length > MAX_ID_LENGTH) return null;
+  if (typeof collection !== 'string' || !(collection in COLLECTION_FIELDS)) return null;
+  if (typeof type !== 'string' || !OPERATION_TYPES.has(type)) return null;
+  if (typeof id !== 'string' || !id || id.length > MAX_ID_LENGTH) return null;
+
+  if (type === 'remove') {
+    return { opId, collection: collection as MapOperationCollection, type, id };
+  }
+  if (!item || typeof item !== 'object' || Array.isArray(item) || (item as { id?: unknown }).id !== id) {
+    return null;
+  }
+  if (JSON.stringify(item).length > MAX_ITEM_BYTES) {
+    return null;
+  }
+  return {
+    opId,
+    collection: collection as MapOperationCollection,
+    type: type as MapOperationType,
+    id,
+    item: item as Record<string, unknown>,
+  };
+}
+
+/**
+ * Current version of a shape, or undefined if the map doesn't have it
+ */
+export function findMapItem(mapData: MapData, collection: MapOperationCollection, id: string): Record<string, unknown> | undefined {
+  const items = (mapData[COLLECTION_FIELDS[collection]] ?? []) as Array<Record<string, unknown>>;
+  return items.find((item) => item?.id === id);
+}
+
+/**
+ * Apply an operation to map data in place. Returns false if it no longer applies
+ * (the shape was removed by someone else).
+ */
+export function applyMapOperation(mapData: MapData, op: MapOperation): boolean {
+  const field = COLLECTION_FIELDS[op.collection];
+  const items = (mapData[field] ?? []) as Array<Record<string, unknown>>;
+  const index = items.findIndex((item) => item?.id === op.id);
+
+  switch (op.type) {
+    case 'add':
+      // Adding an existing shape (e.g. a retried operation) replaces it
+      if (index >= 0) {
+        items[index] = op.item!;
+      } else {
+        items.push(op.item!);
+      }
+      break;
+    case 'update':
+      if (index < 0) {
+        return false;
+      }
+      items[index] = op.item!;
+      break;
+    case 'remove':
+      if (index < 0) {
+        return false;
+      }
+      items.splice(index, 1);
+      break;
+  }
+  mapData[field] = items;
+  return true;
+}
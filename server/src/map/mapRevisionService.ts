@@ -0,0 +1,515 @@
+/**
+ * Map Revision Service
+ * Version history of maps - every save is kept as a revision that can be
+ * browsed, compared with another revision and restored
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import type { AuditActor } from '../services/auditService';
+import type { MapData } from './mapController';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export type MapRevisionKind = 'full' | 'delta';
+
+export interface MapRevisionSummary {
+  version: number;
+  kind: MapRevisionKind;
+  authorId: string | null;
+  authorName: string | null;
+  message: string | null;
+  createdAt: Date;
+}
+
+export interface MapRevisionDetail extends MapRevisionSummary {
+  data: MapData;
+}
+
+/**
+ * Changes between two revisions' map data - top-level keys replaced or removed.
+ * Large unchanged parts (background image, areas) are not repeated.
+ */
+export interface MapDelta {
+  set: Record<string, unknown>;
+  unset: string[];
+}
+
+export interface MapItemRef {
+  id: string;
+  name?: string;
+}
+
+export interface MapItemChange extends MapItemRef {
+  fields: string[];
+}
+
+export interface MapCollectionDiff {
+  added: MapItemRef[];
+  removed: MapItemRef[];
+  changed: MapItemChange[];
+}
+
+/**
+ * Structured diff of two map versions
+ */
+export interface MapDiff {
+  fromVersion: number;
+  toVersion: number;
+  areas: MapCollectionDiff;
+  collisions: MapCollectionDiff;
+  assets: MapCollectionDiff;
+  spawnPoints: MapCollectionDiff;
+  properties: string[]; // Other changed map fields, e.g. worldDimensions, backgroundImage
+}
+
+export type MapMergeSection = 'areas' | 'collisions' | 'assets' | 'spawnPoints' | 'properties';
+
+/**
+ * An item (or map field, for `properties`) changed both in a stale save and in
+ * the current map. Reasons are from the saving editor's point of view.
+ */
+export interface MapMergeConflict extends MapItemRef {
+  section: MapMergeSection;
+  reason: 'both-changed' | 'removed-by-you' | 'removed-by-them';
+}
+
+/**
+ * Three-way merge of a stale save into the current map. `merged` is the current
+ * map plus the save's non-conflicting changes; conflicting items keep the current
+ * map's version.
+ */
+export interface MapMergeProposal {
+  merged: MapData;
+  conflicts: MapMergeConflict[];
+}
+
+// Every tenth revision stores the full map so restoring never replays long delta chains
+const FULL_REVISION_INTERVAL = 10;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const MAX_MESSAGE_LENGTH = 200;
+
+// Map fields compared item by item, and fields that change on every save
+const COLLECTIONS = {
+  areas: 'interactiveAreas',
+  collisions: 'impassableAreas',
+  assets: 'assets',
+  spawnPoints: 'spawnPoints',
+} as const;
+const VOLATILE_FIELDS = ['lastModified', 'version'];
+
+// ============================================================================
+// DELTAS AND DIFFS
+// ============================================================================
+
+// JSONB does not keep key order, so values are compared with sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function isEqualJson(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Delta that turns one version's map data into the next
+ */
+export function createMapDelta(before: MapData, after: MapData): MapDelta {
+  const previous = before as unknown as Record<string, unknown>;
+  const next = after as unknown as Record<string, unknown>;
+  const set: Record<string, unknown> = {};
+  for (const key of Object.keys(next)) {
+    if (next[key] !== undefined && !isEqualJson(previous[key], next[key])) {
+      set[key] = next[key];
+    }
+  }
+  const unset = Object.keys(previous).filter((key) => previous[key] !== undefined && next[key] === undefined);
+  return { set, unset };
+}
+
+/**
+ * Apply a delta to the previous version's map data
+ */
+export function applyMapDelta(base: MapData, delta: MapDelta): MapData {
+  const result: Record<string, unknown> = { ...(base as unknown as Record<string, unknown>), ...delta.set };
+  for (const key of delta.unset) {
+    delete result[key];
+  }
+  return result as unknown as MapData;
+}
+
+function itemRef(item: unknown, index: number): MapItemRef {
+  const { id, name } = (item ?? {}) as { id?: unknown; name?: unknown };
+  return {
+    id: typeof id === 'string' || typeof id === 'number' ? String(id) : `#${index}`,
+    ...(typeof name === 'string' ? { name } : {}),
+  };
+}
+
+function diffCollection(before: unknown, after: unknown): MapCollectionDiff {
+  const index = (items: unknown) => new Map(
+    (Array.isArray(items) ? items : []).map((item, i) => [itemRef(item, i).id, { item, ref: itemRef(item, i) }])
+  );
+  const previous = index(before);
+  const next = index(after);
+  const diff: MapCollectionDiff = { added: [], removed: [], changed: [] };
+
+  for (const [id, { item, ref }] of next) {
+    const old = previous.get(id);
+    if (!old) {
+      diff.added.push(ref);
+      continue;
+    }
+    const oldFields = (old.item ?? {}) as Record<string, unknown>;
+    const newFields = (item ?? {}) as Record<string, unknown>;
+    const fields = [...new Set([...Object.keys(oldFields), ...Object.keys(newFields)])]
+      .filter((field) => !isEqualJson(oldFields[field], newFields[field]));
+    if (fields.length > 0) {
+      diff.changed.push({ ...ref, fields });
+    }
+  }
+  for (const [id, { ref }] of previous) {
+    if (!next.has(id)) {
+      diff.removed.push(ref);
+    }
+  }
+  return diff;
+}
+
+/**
+ * Areas, collisions, assets and spawn points added, removed and changed between two versions
+ */
+export function diffMapData(before: MapData, after: MapData): Omit<MapDiff, 'fromVersion' | 'toVersion'> {
+  const previous = before as unknown as Record<string, unknown>;
+  const next = after as unknown as Record<string, unknown>;
+  const collectionFields: string[] = Object.values(COLLECTIONS);
+  const properties = [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+    .filter((key) => !collectionFields.includes(key) && !VOLATILE_FIELDS.includes(key))
+    .filter((key) => !isEqualJson(previous[key], next[key]));
+
+  return {
+    areas: diffCollection(previous[COLLECTIONS.areas], next[COLLECTIONS.areas]),
+    collisions: diffCollection(previous[COLLECTIONS.collisions], next[COLLECTIONS.collisions]),
+    assets: diffCollection(previous[COLLECTIONS.assets], next[COLLECTIONS.assets]),
+    spawnPoints: diffCollection(previous[COLLECTIONS.spawnPoints], next[COLLECTIONS.spawnPoints]),
+    properties,
+  };
+}
+
+// ============================================================================
+// THREE-WAY MERGE
+// ============================================================================
+
+// The current map's value wins whenever both sides changed the same thing
+function mergeValue(base: unknown, ours: unknown, theirs: unknown): { value: unknown; conflict: boolean } {
+  if (isEqualJson(ours, theirs) || isEqualJson(base, ours)) {
+    return { value: theirs, conflict: false };
+  }
+  if (isEqualJson(base, theirs)) {
+    return { value: ours, conflict: false };
+  }
+  return { value: theirs, conflict: true };
+}
+
+function conflictReason(ours: unknown, theirs: unknown): MapMergeConflict['reason'] {
+  if (ours === undefined) return 'removed-by-you';
+  if (theirs === undefined) return 'removed-by-them';
+  return 'both-changed';
+}
+
+function mergeCollection(
+  section: MapMergeSection,
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  conflicts: MapMergeConflict[]
+): unknown[] {
+  const index = (items: unknown) => new Map(
+    (Array.isArray(items) ? items : []).map((item, i) => [itemRef(item, i).id, { item, ref: itemRef(item, i) }])
+  );
+  const baseItems = index(base);
+  const ourItems = index(ours);
+  const theirItems = index(theirs);
+
+  // Keep the current map's order, then append items only this save added
+  const ids = [...theirItems.keys(), ...[...ourItems.keys()].filter((id) => !theirItems.has(id))];
+  const merged: unknown[] = [];
+  for (const id of ids) {
+    const ourItem = ourItems.get(id);
+    const theirItem = theirItems.get(id);
+    const { value, conflict } = mergeValue(baseItems.get(id)?.item, ourItem?.item, theirItem?.item);
+    if (conflict) {
+      conflicts.push({ ...(ourItem ?? theirItem)!.ref, section, reason: conflictReason(ourItem?.item, theirItem?.item) });
+    }
+    if (value !== undefined) {
+      merged.push(value);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merge a save based on an older version (`ours`) into the current map (`theirs`).
+ * Areas, collisions, assets and spawn points are merged item by item, other map
+ * fields as a whole.
+ */
+export function mergeMapData(base: MapData, ours: MapData, theirs: MapData): MapMergeProposal {
+  const baseFields = base as unknown as Record<string, unknown>;
+  const ourFields = ours as unknown as Record<string, unknown>;
+  const theirFields = theirs as unknown as Record<string, unknown>;
+  const conflicts: MapMergeConflict[] = [];
+  const merged: Record<string, unknown> = { ...theirFields };
+
+  const collectionFields: string[] = Object.values(COLLECTIONS);
+  const properties = [...new Set([...Object.keys(baseFields), ...Object.keys(ourFields), ...Object.keys(theirFields)])]
+    .filter((key) => !collectionFields.includes(key) && !VOLATILE_FIELDS.includes(key));
+  for (const key of properties) {
+    const { value, conflict } = mergeValue(baseFields[key], ourFields[key], theirFields[key]);
+    if (conflict) {
+      conflicts.push({ id: key, section: 'properties', reason: conflictReason(ourFields[key], theirFields[key]) });
+    }
+    if (value === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  for (const [section, field] of Object.entries(COLLECTIONS) as Array<[MapMergeSection, string]>) {
+    merged[field] = mergeCollection(section, baseFields[field], ourFields[field], theirFields[field], conflicts);
+  }
+
+  return { merged: merged as unknown as MapData, conflicts };
+}
+
+/**
+ * Clean up a revision message from a request. Returns undefined if there is none.
+ */
+export function normalizeRevisionMessage(message: unknown): string | undefined {
+  if (typeof message !== 'string') {
+    return undefined;
+  }
+  const normalized = message.replace(/\s+/g, ' ').trim().slice(0, MAX_MESSAGE_LENGTH);
+  return normalized || undefined;
+}
+
+function toSummary(revision: {
+  version: number;
+  kind: string;
+  authorId: string | null;
+  authorName: string | null;
+  message: string | null;
+  createdAt: Date;
+}): MapRevisionSummary {
+  return {
+    version: revision.version,
+    kind: revision.kind as MapRevisionKind,
+    authorId: revision.authorId,
+    authorName: revision.authorName,
+    message: revision.message,
+    createdAt: revision.createdAt,
+  };
+}
+
+// ============================================================================
+// MAP REVISION SERVICE
+// ============================================================================
+
+/**
+ * MapRevisionService - Records and rebuilds map revisions
+ *
+ * Revisions store either the full map data or a delta to the revision before
+ * (top-level fields that changed). A version is rebuilt from the nearest full
+ * revision at or below it plus the deltas after that.
+ */
+export class MapRevisionService {
+  /**
+   * Record a saved map version. `previous` is the map as it was before the save.
+   */
+  async recordRevision(
+    map: { id: string; version: number },
+    data: MapData,
+    previous: { data: MapData; version: number } | null,
+    actor?: AuditActor,
+    message?: string
+  ): Promise<void> {
+    try {
+      // Maps saved before history existed get their last version as the first revision
+      if (previous && !await this.hasRevision(map.id, previous.version)) {
+        await this.createRevision(map.id, previous.version, 'full', previous.data, null, 'Version before history was recorded');
+      }
+
+      const lastFull = await prisma.mapRevision.findFirst({
+        where: { mapId: map.id, kind: 'full', version: { lt: map.version } },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      // A delta needs the directly preceding version (concurrent saves may skip one)
+      const canUseDelta = previous !== null
+        && previous.version === map.version - 1
+        && lastFull !== null
+        && map.version - lastFull.version < FULL_REVISION_INTERVAL;
+
+      if (canUseDelta) {
+        await this.createRevision(map.id, map.version, 'delta', createMapDelta(previous.data, data), actor, message);
+      } else {
+        await this.createRevision(map.id, map.version, 'full', data, actor, message);
+      }
+    } catch (error) {
+      logger.error(`[MapRevisionService] Error recording revision ${map.version} of map ${map.id}:`, error);
+    }
+  }
+
+  /**
+   * List a map's revisions, newest first. Returns null if the map does not exist.
+   */
+  async listRevisions(roomId: string, options: { limit?: number; before?: number } = {}): Promise<MapRevisionSummary[] | null> {
+    const map = await prisma.map.findUnique({
+      where: { roomId },
+      select: { id: true, version: true, updatedAt: true },
+    });
+    if (!map) {
+      return null;
+    }
+
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const revisions = await prisma.mapRevision.findMany({
+      where: { mapId: map.id, ...(options.before ? { version: { lt: options.before } } : {}) },
+      orderBy: { version: 'desc' },
+      take: limit,
+      select: { version: true, kind: true, authorId: true, authorName: true, message: true, createdAt: true },
+    });
+
+    // The current version of a map not saved since history existed has no revision yet
+    const isFirstPage = !options.before || options.before > map.version;
+    if (isFirstPage && revisions[0]?.version !== map.version) {
+      revisions.unshift({ version: map.version, kind: 'full', authorId: null, authorName: null, message: null, createdAt: map.updatedAt });
+    }
+    return revisions.slice(0, limit).map(toSummary);
+  }
+
+  /**
+   * Get a revision with its full map data. Returns null if the map or version does not exist.
+   */
+  async getRevision(roomId: string, version: number): Promise<MapRevisionDetail | null> {
+    const map = await prisma.map.findUnique({
+      where: { roomId },
+      select: { id: true, version: true, data: true, updatedAt: true },
+    });
+    if (!map) {
+      return null;
+    }
+
+    const revision = await prisma.mapRevision.findUnique({
+      where: { mapId_version: { mapId: map.id, version } },
+      select: { version: true, kind: true, authorId: true, authorName: true, message: true, createdAt: true },
+    });
+    if (!revision) {
+      if (version !== map.version) {
+        return null;
+      }
+      return {
+        version,
+        kind: 'full',
+        authorId: null,
+        authorName: null,
+        message: null,
+        createdAt: map.updatedAt,
+        data: map.data as unknown as MapData,
+      };
+    }
+
+    const data = await this.rebuild(map.id, version);
+    return data ? { ...toSummary(revision), data } : null;
+  }
+
+  /**
+   * Diff two versions of a map. Returns null if either does not exist.
+   */
+  async diffRevisions(roomId: string, fromVersion: number, toVersion: number): Promise<MapDiff | null> {
+    const [from, to] = await Promise.all([
+      this.getRevision(roomId, fromVersion),
+      this.getRevision(roomId, toVersion),
+    ]);
+    if (!from || !to) {
+      return null;
+    }
+    return { fromVersion, toVersion, ...diffMapData(from.data, to.data) };
+  }
+
+  private async hasRevision(mapId: string, version: number): Promise<boolean> {
+    const revision = await prisma.mapRevision.findUnique({
+      where: { mapId_version: { mapId, version } },
+      select: { id: true },
+    });
+    return revision !== null;
+  }
+
+  private async createRevision(
+    mapId: string,
+    version: number,
+    kind: MapRevisionKind,
+    data: MapData | MapDelta,
+    actor: AuditActor | null | undefined,
+    message: string | undefined
+  ): Promise<void> {
+    await prisma.mapRevision.create({
+      data: {
+        mapId,
+        version,
+        kind,
+        data: data as unknown as Prisma.InputJsonValue,
+        authorId: actor?.userId ?? null,
+        authorName: actor?.username ?? null,
+        message: message ?? null,
+      },
+    });
+  }
+
+  // Nearest full revision plus the deltas after it, which must be consecutive
+  private async rebuild(mapId: string, version: number): Promise<MapData | null> {
+    const full = await prisma.mapRevision.findFirst({
+      where: { mapId, kind: 'full', version: { lte: version } },
+      orderBy: { version: 'desc' },
+      select: { version: true, data: true },
+    });
+    if (!full) {
+      logger.error(`[MapRevisionService] No full revision at or below ${version} of map ${mapId}`);
+      return null;
+    }
+
+    const deltas = await prisma.mapRevision.findMany({
+      where: { mapId, version: { gt: full.version, lte: version } },
+      orderBy: { version: 'asc' },
+      select: { version: true, data: true },
+    });
+
+    let data = full.data as unknown as MapData;
+    let current = full.version;
+    for (const revision of deltas) {
+      if (revision.version !== current + 1) {
+        logger.error(`[MapRevisionService] Revision ${current + 1} of map ${mapId} is missing`);
+        return null;
+      }
+      data = applyMapDelta(data, revision.data as unknown as MapDelta);
+      current = revision.version;
+    }
+    return data;
+  }
+}
+
+export const mapRevisionService = new MapRevisionService();
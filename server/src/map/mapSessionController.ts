@@ -0,0 +1,535 @@
+/**
+ * Map Session Controller
+ * Live multi-user map editing. Editors in a session send shape operations that
+ * the server numbers, applies to its copy of the map and broadcasts in order;
+ * the map is saved shortly after edits stop. Editors see each other's names,
+ * colours, cursors and selections, and selecting a shape soft-locks it so only
+ * one editor at a time can move or transform it.
+ */
+
+import { Server, Socket } from 'socket.io';
+import { logger } from '../utils/logger';
+import { getSocketUser } from '../auth/authMiddleware';
+import { AuditActor, auditActorFromSocket } from '../services/auditService';
+import { MapController, MapData } from './mapController';
+import { mergeMapData } from './mapRevisionService';
+import { MapOperation, applyMapOperation, findMapItem, validateMapOperation } from './mapOperations';
+
+// Save this long after the last operation, but at least this often while edits keep coming
+const SAVE_DELAY_MS = 2000;
+const MAX_SAVE_DELAY_MS = 10000;
+// Retry delay when the database is unavailable
+const SAVE_RETRY_MS = 15000;
+// A lock expires if its editor goes quiet (no cursor moves or edits) for this long
+const LOCK_TTL_MS = 60 * 1000;
+const MAX_OPERATIONS_PER_MESSAGE = 200;
+const MAX_SELECTION = 100;
+const EDITOR_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#9a6324'];
+
+export interface MapEditor {
+  socketId: string;
+  userId: string | null;
+  name: string;
+  color: string;
+  cursor: { x: number; y: number } | null;
+  selection: string[];
+}
+
+export interface MapShapeLock {
+  shapeId: string;
+  socketId: string;
+  name: string;
+  color: string;
+}
+
+// An operation as broadcast - numbered in the order the server applied it
+export interface SequencedMapOperation extends MapOperation {
+  seq: number;
+  authorSocketId: string;
+  authorName: string;
+}
+
+interface HeldLock extends MapShapeLock {
+  expiresAt: number;
+}
+
+interface MapSession {
+  roomId: string;
+  mapData: MapData;
+  version: number;              // Saved map version mapData is based on
+  seq: number;                  // Last operation number
+  editors: Map<string, MapEditor>;
+  locks: Map<string, HeldLock>;
+  pendingSince: number | null;  // Time of the first unsaved operation
+  authors: Set<string>;         // Editors with unsaved operations
+  lastActor: AuditActor | undefined;
+  saveTimer: NodeJS.Timeout | null;
+  isSaving: boolean;
+}
+
+// Socket.IO room of a session's editors
+function sessionRoom(roomId: string): string {
+  return `map-session:${roomId}`;
+}
+
+// Only the shape collections are sent - the client already has the rest of the map
+function sessionShapes(mapData: MapData) {
+  return {
+    interactiveAreas: mapData.interactiveAreas ?? [],
+    impassableAreas: mapData.impassableAreas ?? [],
+    assets: mapData.assets ?? [],
+    spawnPoints: mapData.spawnPoints ?? [],
+  };
+}
+
+function isPoint(value: unknown): value is { x: number; y: number } {
+  const { x, y } = (value ?? {}) as { x?: unknown; y?: unknown };
+  return typeof x === 'number' && typeof y === 'number' && Number.isFinite(x) && Number.isFinite(y);
+}
+
+export class MapSessionController {
+  private io: Server;
+  private mapController: MapController;
+  private sessions: Map<string, MapSession> = new Map();
+  private loadingSessions: Map<string, Promise<MapSession | null>> = new Map();
+  // Map room of the session each socket is editing in
+  private socketSessions: Map<string, string> = new Map();
+
+  constructor(io: Server, mapController: MapController) {
+    this.io = io;
+    this.mapController = mapController;
+
+    // Saves outside the session (whole-map saves, restores, deletes) replace the session's copy
+    this.mapController.onMapChanged((roomId, mapData) => this.handleMapChanged(roomId, mapData));
+  }
+
+  // --------------------------------------------------------------------------
+  // JOIN / LEAVE
+  // --------------------------------------------------------------------------
+
+  /**
+   * Join the editing session of a map (the caller checks the editor role)
+   */
+  async handleJoin(socket: Socket, roomId: string): Promise<void> {
+    const current = this.socketSessions.get(socket.id);
+    if (current && current !== roomId) {
+      this.handleLeave(socket);
+    }
+
+    const session = await this.getOrLoadSession(roomId);
+    if (!session) {
+      socket.emit('map:session:error', { roomId, error: 'Map not found' });
+      return;
+    }
+
+    // Disconnected while authorizing / loading - its disconnect has already been handled
+    if (!socket.connected) {
+      if (session.editors.size === 0) {
+        this.closeSession(session);
+      }
+      return;
+    }
+
+    const user = getSocketUser(socket);
+    const usedColors = new Set([...session.editors.values()].map((editor) => editor.color));
+    const editor: MapEditor = session.editors.get(socket.id) ?? {
+      socketId: socket.id,
+      userId: user?.id ?? null,
+      name: user?.username ?? 'Editor',
+      color: EDITOR_COLORS.find((color) => !usedColors.has(color)) ?? EDITOR_COLORS[session.editors.size % EDITOR_COLORS.length],
+      cursor: null,
+      selection: [],
+    };
+    session.editors.set(socket.id, editor);
+    this.socketSessions.set(socket.id, roomId);
+    socket.join(sessionRoom(roomId));
+
+    socket.emit('map:session:state', this.sessionState(session, socket.id));
+    socket.to(sessionRoom(roomId)).emit('map:session:editor-joined', { roomId, editor });
+    logger.info(`[MapSession] ${editor.name} joined editing ${roomId} (${session.editors.size} editors)`);
+  }
+
+  /**
+   * Leave the editing session (also called on disconnect)
+   */
+  handleLeave(socket: Socket): void {
+    const roomId = this.socketSessions.get(socket.id);
+    if (!roomId) {
+      return;
+    }
+    this.socketSessions.delete(socket.id);
+    socket.leave(sessionRoom(roomId));
+
+    const session = this.sessions.get(roomId);
+    if (!session) {
+      return;
+    }
+    const editor = session.editors.get(socket.id);
+    session.editors.delete(socket.id);
+    const releasedLocks = this.releaseLocks(session, socket.id, []);
+
+    this.io.to(sessionRoom(roomId)).emit('map:session:editor-left', { roomId, socketId: socket.id });
+    if (releasedLocks) {
+      this.broadcastLocks(session);
+    }
+    logger.info(`[MapSession] ${editor?.name ?? socket.id} left editing ${roomId} (${session.editors.size} editors)`);
+
+    // Last editor gone - save what's left and close the session
+    if (session.editors.size === 0) {
+      this.closeSession(session);
+    }
+  }
+
+  handleDisconnect(socket: Socket): void {
+    this.handleLeave(socket);
+  }
+
+  // --------------------------------------------------------------------------
+  // OPERATIONS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Apply shape operations from an editor and broadcast them in order.
+   * Operations on shapes another editor has locked, or that were removed in the
+   * meantime, are rejected with the shape's current state.
+   */
+  handleOperations(socket: Socket, data: { roomId?: unknown; ops?: unknown }): void {
+    const session = this.getSocketSession(socket, data?.roomId);
+    if (!session || !Array.isArray(data.ops)) {
+      return;
+    }
+    const editor = session.editors.get(socket.id)!;
+    this.renewLocks(session, socket.id);
+
+    const applied: SequencedMapOperation[] = [];
+    for (const input of data.ops.slice(0, MAX_OPERATIONS_PER_MESSAGE)) {
+      const op = validateMapOperation(input);
+      if (!op) {
+        logger.warn(`[MapSession] Dropped malformed operation from ${editor.name}`);
+        continue;
+      }
+
+      const lock = this.activeLock(session, op.id);
+      const lockedByOther = lock && lock.socketId !== socket.id;
+      if (lockedByOther || !applyMapOperation(session.mapData, op)) {
+        socket.emit('map:session:rejected', {
+          roomId: session.roomId,
+          opId: op.opId,
+          collection: op.collection,
+          id: op.id,
+          reason: lockedByOther ? 'locked' : 'missing',
+          lockedBy: lockedByOther ? lock.name : undefined,
+          item: findMapItem(session.mapData, op.collection, op.id) ?? null,
+        });
+        continue;
+      }
+
+      session.seq += 1;
+      applied.push({ ...op, seq: session.seq, authorSocketId: socket.id, authorName: editor.name });
+    }
+
+    if (applied.length === 0) {
+      return;
+    }
+    // Everyone gets the numbered operations - the sender uses them to confirm its own
+    this.io.to(sessionRoom(session.roomId)).emit('map:session:ops', { roomId: session.roomId, ops: applied });
+
+    session.authors.add(editor.name);
+    session.lastActor = auditActorFromSocket(socket);
+    session.pendingSince = session.pendingSince ?? Date.now();
+    this.scheduleSave(session);
+  }
+
+  // --------------------------------------------------------------------------
+  // PRESENCE AND LOCKS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Cursor position (world coordinates) and/or selection of an editor.
+   * Selecting shapes locks those no one else holds; deselecting releases them.
+   */
+  handlePresence(socket: Socket, data: { roomId?: unknown; cursor?: unknown; selection?: unknown }): void {
+    const session = this.getSocketSession(socket, data?.roomId);
+    if (!session) {
+      return;
+    }
+    const editor = session.editors.get(socket.id)!;
+    this.renewLocks(session, socket.id);
+
+    if (data.cursor === null || isPoint(data.cursor)) {
+      editor.cursor = data.cursor === null ? null : { x: Math.round(data.cursor.x), y: Math.round(data.cursor.y) };
+      socket.volatile.to(sessionRoom(session.roomId)).emit('map:session:cursor', {
+        roomId: session.roomId,
+        socketId: socket.id,
+        cursor: editor.cursor,
+      });
+    }
+
+    if (Array.isArray(data.selection)) {
+      const selection = data.selection
+        .filter((id): id is string => typeof id === 'string' && id.length > 0)
+        .slice(0, MAX_SELECTION);
+      editor.selection = selection;
+
+      let locksChanged = this.releaseLocks(session, socket.id, selection);
+      for (const shapeId of selection) {
+        const lock = this.activeLock(session, shapeId);
+        if (!lock) {
+          session.locks.set(shapeId, {
+            shapeId,
+            socketId: socket.id,
+            name: editor.name,
+            color: editor.color,
+            expiresAt: Date.now() + LOCK_TTL_MS,
+          });
+          locksChanged = true;
+        }
+      }
+
+      socket.to(sessionRoom(session.roomId)).emit('map:session:selection', {
+        roomId: session.roomId,
+        socketId: socket.id,
+        selection,
+      });
+      if (locksChanged) {
+        this.broadcastLocks(session);
+      }
+    }
+  }
+
+  private activeLock(session: MapSession, shapeId: string): HeldLock | undefined {
+    const lock = session.locks.get(shapeId);
+    if (lock && lock.expiresAt <= Date.now()) {
+      session.locks.delete(shapeId);
+      return undefined;
+    }
+    return lock;
+  }
+
+  private renewLocks(session: MapSession, socketId: string): void {
+    const expiresAt = Date.now() + LOCK_TTL_MS;
+    for (const lock of session.locks.values()) {
+      if (lock.socketId === socketId) {
+        lock.expiresAt = expiresAt;
+      }
+    }
+  }
+
+  /**
+   * Release an editor's locks on shapes outside `keep`. Returns whether any were released.
+   */
+  private releaseLocks(session: MapSession, socketId: string, keep: string[]): boolean {
+    let released = false;
+    for (const [shapeId, lock] of session.locks) {
+      if (lock.socketId === socketId && !keep.includes(shapeId)) {
+        session.locks.delete(shapeId);
+        released = true;
+      }
+    }
+    return released;
+  }
+
+  private lockList(session: MapSession): MapShapeLock[] {
+    const now = Date.now();
+    return [...session.locks.values()]
+      .filter((lock) => lock.expiresAt > now)
+      .map(({ shapeId, socketId, name, color }) => ({ shapeId, socketId, name, color }));
+  }
+
+  private broadcastLocks(session: MapSession): void {
+    this.io.to(sessionRoom(session.roomId)).emit('map:session:locks', {
+      roomId: session.roomId,
+      locks: this.lockList(session),
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // SESSION STATE
+  // --------------------------------------------------------------------------
+
+  private sessionState(session: MapSession, socketId: string) {
+    return {
+      roomId: session.roomId,
+      socketId,
+      seq: session.seq,
+      version: session.version,
+      shapes: sessionShapes(session.mapData),
+      editors: [...session.editors.values()],
+      locks: this.lockList(session),
+    };
+  }
+
+  // Everyone's copy may differ from the session's - send each editor the full state
+  private broadcastState(session: MapSession): void {
+    for (const socketId of session.editors.keys()) {
+      this.io.to(socketId).emit('map:session:state', this.sessionState(session, socketId));
+    }
+  }
+
+  private getSocketSession(socket: Socket, roomId: unknown): MapSession | null {
+    const joined = this.socketSessions.get(socket.id);
+    if (!joined || joined !== roomId) {
+      socket.emit('map:session:error', { roomId, error: 'Not in this editing session' });
+      return null;
+    }
+    return this.sessions.get(joined) ?? null;
+  }
+
+  private async getOrLoadSession(roomId: string): Promise<MapSession | null> {
+    const existing = this.sessions.get(roomId);
+    if (existing) {
+      return existing;
+    }
+
+    // Editors joining at the same time share one load
+    let loading = this.loadingSessions.get(roomId);
+    if (!loading) {
+      loading = this.mapController.getMap(roomId).then((mapData) => {
+        this.loadingSessions.delete(roomId);
+        if (!mapData) {
+          return null;
+        }
+        const session: MapSession = {
+          roomId,
+          mapData,
+          version: mapData.version,
+          seq: 0,
+          editors: new Map(),
+          locks: new Map(),
+          pendingSince: null,
+          authors: new Set(),
+          lastActor: undefined,
+          saveTimer: null,
+          isSaving: false,
+        };
+        this.sessions.set(roomId, session);
+        return session;
+      });
+      this.loadingSessions.set(roomId, loading);
+    }
+    return loading;
+  }
+
+  private closeSession(session: MapSession): void {
+    if (session.pendingSince === null) {
+      this.dropSession(session);
+      return;
+    }
+    void this.save(session).then(() => {
+      if (session.editors.size === 0 && session.pendingSince === null) {
+        this.dropSession(session);
+      }
+    });
+  }
+
+  private dropSession(session: MapSession): void {
+    if (session.saveTimer) {
+      clearTimeout(session.saveTimer);
+    }
+    if (this.sessions.get(session.roomId) === session) {
+      this.sessions.delete(session.roomId);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // SAVING
+  // --------------------------------------------------------------------------
+
+  private scheduleSave(session: MapSession, delay: number = SAVE_DELAY_MS): void {
+    if (session.saveTimer) {
+      clearTimeout(session.saveTimer);
+    }
+    const waited = session.pendingSince !== null ? Date.now() - session.pendingSince : 0;
+    session.saveTimer = setTimeout(() => {
+      session.saveTimer = null;
+      void this.save(session);
+    }, Math.max(0, Math.min(delay, MAX_SAVE_DELAY_MS - waited)));
+  }
+
+  /**
+   * Save the session's map as a new version. Based on the version the session
+   * started from, so a whole-map save made meanwhile is merged instead of lost.
+   */
+  private async save(session: MapSession): Promise<void> {
+    if (session.isSaving || session.pendingSince === null) {
+      return;
+    }
+    session.isSaving = true;
+    const snapshot = structuredClone(session.mapData);
+    const authors = [...session.authors];
+    session.pendingSince = null;
+    session.authors.clear();
+
+    try {
+      const result = await this.mapController.saveMap(session.roomId, snapshot, session.lastActor, {
+        baseVersion: session.version,
+        message: `Live edit by ${authors.join(', ')}`,
+      });
+
+      if (!result) {
+        // Database unavailable - keep the edits and try again later
+        session.pendingSince = Date.now();
+        authors.forEach((name) => session.authors.add(name));
+        this.scheduleSave(session, SAVE_RETRY_MS);
+        return;
+      }
+
+      if (result.saved) {
+        session.version = result.version;
+        this.io.to(sessionRoom(session.roomId)).emit('map:session:saved', { roomId: session.roomId, version: result.version });
+        logger.debug(`[MapSession] Saved ${session.roomId} as version ${result.version}`);
+      } else {
+        this.rebaseOnConflict(session, snapshot, result.conflict.merged, result.conflict.currentVersion);
+        authors.forEach((name) => session.authors.add(name));
+      }
+    } finally {
+      session.isSaving = false;
+    }
+
+    // Edits made while saving (or a rebased session) still need a save
+    if (session.pendingSince !== null) {
+      this.scheduleSave(session);
+    }
+  }
+
+  /**
+   * Someone saved the whole map while the session was editing: continue from
+   * their version with the session's edits merged in, and resync the editors
+   */
+  private rebaseOnConflict(session: MapSession, snapshot: MapData, merged: MapData | null, currentVersion: number): void {
+    // Edits applied after the snapshot go on top of the server's merge. Without a
+    // merge (the base revision is gone) the session's map is kept as it is.
+    if (merged) {
+      session.mapData = mergeMapData(snapshot, session.mapData, merged).merged;
+    }
+    session.version = currentVersion;
+    session.pendingSince = session.pendingSince ?? Date.now();
+    logger.info(`[MapSession] Rebased ${session.roomId} on version ${currentVersion} after a conflicting save`);
+    this.broadcastState(session);
+  }
+
+  private handleMapChanged(roomId: string, mapData: MapData | null): void {
+    const session = this.sessions.get(roomId);
+    // The session's own saves also land here (while isSaving)
+    if (!session || session.isSaving) {
+      return;
+    }
+
+    if (!mapData) {
+      this.io.to(sessionRoom(roomId)).emit('map:session:ended', { roomId, reason: 'Map deleted' });
+      this.io.in(sessionRoom(roomId)).socketsLeave(sessionRoom(roomId));
+      for (const socketId of session.editors.keys()) {
+        this.socketSessions.delete(socketId);
+      }
+      this.dropSession(session);
+      return;
+    }
+
+    // Unsaved session edits are merged when the session saves (its base version is now stale)
+    if (session.pendingSince === null && mapData.version !== session.version) {
+      session.mapData = structuredClone(mapData);
+      session.version = mapData.version;
+      this.broadcastState(session);
+    }
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * Map Template Service
+ * A library of templates new maps can start from: a whole map, or some of its
+ * shapes, saved under a name with a thumbnail rendered on the server.
+ * Templates keep their own copy of the images they use (uploads/templates/{id}/),
+ * so they outlive the map they were saved from.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import type { MapTemplate } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { auditService, AuditActor } from '../services/auditService';
+import { UPLOAD_DIRS, getRelativePath, getFileUrl, resolveUploadUrl } from '../utils/uploadMiddleware';
+import { imagePipeline } from '../utils/imagePipeline';
+import { parseImageDataUrl, replaceImageStrings } from './mapAssetStorage';
+import type { MapData } from './mapController';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export type MapTemplateKind = 'map' | 'selection';
+
+export interface MapTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  kind: MapTemplateKind;
+  thumbnailUrl: string | null;
+  sourceRoomId: string | null;
+  createdByName: string | null;
+  counts: { interactiveAreas: number; impassableAreas: number; assets: number; spawnPoints: number };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MapTemplateDetail extends MapTemplateSummary {
+  data: MapData;
+}
+
+export interface CreateMapTemplateInput {
+  name: string;
+  description?: string;
+  data: MapData;
+  shapeIds?: string[];  // Save only these shapes (areas, collisions, assets, spawn points)
+  sourceRoomId?: string;
+}
+
+// Map data collections that hold shapes
+const SHAPE_COLLECTIONS = ['interactiveAreas', 'impassableAreas', 'assets', 'spawnPoints'] as const;
+
+const THUMBNAIL_SIZE = 320;
+const MAX_THUMBNAIL_ASSETS = 100;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Validate the body of a template create request; returns an error message or null
+ */
+export function validateMapTemplateInput(input: unknown): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Request body must be an object';
+  }
+  const { name, description, shapeIds, data, sourceRoomId } = input as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    return `name must be 1-${MAX_NAME_LENGTH} characters`;
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (shapeIds !== undefined && (!Array.isArray(shapeIds) || shapeIds.length === 0 || !shapeIds.every((id) => typeof id === 'string'))) {
+    return 'shapeIds must be a non-empty array of shape IDs';
+  }
+  if (data === undefined && typeof sourceRoomId !== 'string') {
+    return 'Either data or sourceRoomId is required';
+  }
+  if (data !== undefined && (!data || typeof data !== 'object' || !(data as MapData).worldDimensions)) {
+    return 'data must be map data';
+  }
+  return null;
+}
+
+/**
+ * Add the shapes of a template to a map. Shapes get new IDs (references between
+ * them, e.g. switch targets, follow) and spawn point names are kept unique.
+ */
+export function appendTemplateShapes(mapData: MapData, template: MapData): MapData {
+  const suffix = crypto.randomBytes(3).toString('hex');
+  const idMap = new Map<string, string>();
+  for (const collection of SHAPE_COLLECTIONS) {
+    for (const shape of (template[collection] ?? []) as Array<{ id?: unknown }>) {
+      if (typeof shape.id === 'string') {
+        idMap.set(shape.id, `${shape.id}-${suffix}`);
+      }
+    }
+  }
+  const remap = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return idMap.get(value) ?? value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(remap);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, remap(item)]));
+    }
+    return value;
+  };
+
+  const spawnNames = new Set(((mapData.spawnPoints ?? []) as Array<{ name?: string }>).map((spawn) => spawn.name));
+  const spawnPoints = ((template.spawnPoints ?? []) as Array<Record<string, unknown>>).map((spawn) => {
+    let name = String(spawn.name ?? 'Spawn');
+    for (let copy = 2; spawnNames.has(name); copy++) {
+      name = `${spawn.name} ${copy}`;
+    }
+    spawnNames.add(name);
+    return { ...(remap(spawn) as Record<string, unknown>), name };
+  });
+
+  return {
+    ...mapData,
+    interactiveAreas: [...mapData.interactiveAreas, ...(remap(template.interactiveAreas ?? []) as unknown[])],
+    impassableAreas: [...mapData.impassableAreas, ...(remap(template.impassableAreas ?? []) as unknown[])],
+    assets: [...(mapData.assets ?? []), ...(remap(template.assets ?? []) as unknown[])],
+    spawnPoints: [...(mapData.spawnPoints ?? []), ...spawnPoints],
+  };
+}
+
+/**
+ * Only the given shapes of a map - the background is not part of a selection
+ */
+function selectShapes(mapData: MapData, shapeIds: string[]): MapData {
+  const ids = new Set(shapeIds);
+  const keep = (shapes: unknown[] | undefined) => (shapes ?? []).filter((shape) => ids.has((shape as { id?: string }).id ?? ''));
+  const { backgroundImage: _backgroundImage, backgroundImageDimensions: _backgroundImageDimensions, ...rest } = mapData;
+  return {
+    ...rest,
+    interactiveAreas: keep(mapData.interactiveAreas),
+    impassableAreas: keep(mapData.impassableAreas),
+    assets: keep(mapData.assets),
+    spawnPoints: keep(mapData.spawnPoints),
+  };
+}
+
+function toSummary(template: MapTemplate): MapTemplateSummary {
+  const data = template.data as unknown as MapData;
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    kind: template.kind as MapTemplateKind,
+    thumbnailUrl: template.thumbnailPath ? getFileUrl(getRelativePath(template.thumbnailPath)) : null,
+    sourceRoomId: template.sourceRoomId,
+    createdByName: template.createdByName,
+    counts: {
+      interactiveAreas: data.interactiveAreas?.length ?? 0,
+      impassableAreas: data.impassableAreas?.length ?? 0,
+      assets: data.assets?.length ?? 0,
+      spawnPoints: data.spawnPoints?.length ?? 0,
+    },
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+/**
+ * Image content of a data URL or an uploaded file's URL; null for anything else
+ */
+async function readImage(src: unknown): Promise<Buffer | null> {
+  if (typeof src !== 'string') {
+    return null;
+  }
+  const embedded = parseImageDataUrl(src);
+  if (embedded) {
+    return embedded.buffer;
+  }
+  const filePath = resolveUploadUrl(src);
+  if (!filePath) {
+    return null;
+  }
+  try {
+    return await fs.promises.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// MAP TEMPLATE SERVICE
+// ============================================================================
+
+export class MapTemplateService {
+  /**
+   * All templates, newest first
+   */
+  async listTemplates(): Promise<MapTemplateSummary[]> {
+    const templates = await prisma.mapTemplate.findMany({ orderBy: { createdAt: 'desc' } });
+    return templates.map(toSummary);
+  }
+
+  /**
+   * A template with its map data
+   */
+  async getTemplate(templateId: string): Promise<MapTemplateDetail | null> {
+    const template = await prisma.mapTemplate.findUnique({ where: { id: templateId } });
+    return template ? { ...toSummary(template), data: template.data as unknown as MapData } : null;
+  }
+
+  /**
+   * Save map data (or the given shapes of it) as a template
+   */
+  async createTemplate(input: CreateMapTemplateInput, actor?: AuditActor): Promise<MapTemplateDetail | null> {
+    try {
+      const kind: MapTemplateKind = input.shapeIds ? 'selection' : 'map';
+      const content = input.shapeIds ? selectShapes(input.data, input.shapeIds) : input.data;
+
+      const created = await prisma.mapTemplate.create({
+        data: {
+          name: input.name.trim(),
+          description: input.description?.trim() ?? '',
+          kind,
+          data: {},
+          sourceRoomId: input.sourceRoomId ?? null,
+          createdById: actor?.userId ?? null,
+          createdByName: actor?.username ?? null,
+        },
+      });
+
+      // The template's own copy of its images, and its thumbnail
+      const templateDir = path.join(UPLOAD_DIRS.templates, created.id);
+      await fs.promises.mkdir(templateDir, { recursive: true });
+      const data = await this.copyImages(templateDir, content);
+      const thumbnailPath = path.join(templateDir, 'thumbnail.webp');
+      const thumbnail = await this.renderThumbnail(data);
+      if (thumbnail) {
+        await fs.promises.writeFile(thumbnailPath, thumbnail);
+      }
+
+      const template = await prisma.mapTemplate.update({
+        where: { id: created.id },
+        data: { data: data as object, thumbnailPath: thumbnail ? thumbnailPath : null },
+      });
+
+      logger.info(`Map template created: ${template.name} (${template.id})`);
+      await auditService.record(actor, {
+        action: 'template.create',
+        targetType: 'template',
+        targetId: template.id,
+        after: { name: template.name, kind },
+        metadata: input.sourceRoomId ? { mapRoomId: input.sourceRoomId } : undefined,
+      });
+      return { ...toSummary(template), data: template.data as unknown as MapData };
+    } catch (error) {
+      logger.error('Error creating map template:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a template and its files
+   */
+  async deleteTemplate(templateId: string, actor?: AuditActor): Promise<boolean> {
+    try {
+      const template = await prisma.mapTemplate.findUnique({ where: { id: templateId } });
+      if (!template) {
+        return false;
+      }
+      await prisma.mapTemplate.delete({ where: { id: templateId } });
+      await fs.promises.rm(path.join(UPLOAD_DIRS.templates, templateId), { recursive: true, force: true });
+
+      logger.info(`Map template deleted: ${template.name} (${templateId})`);
+      await auditService.record(actor, {
+        action: 'template.delete',
+        targetType: 'template',
+        targetId: templateId,
+        before: { name: template.name, kind: template.kind },
+      });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting map template:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Copy the images map data uses (embedded or uploaded) into the template's
+   * directory and point the data at the copies. Images that can't be read stay.
+   */
+  private async copyImages(templateDir: string, data: MapData): Promise<MapData> {
+    const result = await replaceImageStrings(data, async (value) => {
+      if (!parseImageDataUrl(value) && !resolveUploadUrl(value)) {
+        return null;
+      }
+      const buffer = await readImage(value);
+      const check = buffer ? await imagePipeline.check(buffer) : null;
+      if (!buffer || !check?.valid) {
+        logger.warn(`Template image not copied: ${value.slice(0, 80)}`);
+        return null;
+      }
+      const extension = check.mimeType.split('/')[1].replace('jpeg', 'jpg');
+      const filePath = path.join(templateDir, `${crypto.createHash('sha256').update(buffer).digest('hex')}.${extension}`);
+      await fs.promises.writeFile(filePath, buffer);
+      return getFileUrl(getRelativePath(filePath));
+    });
+    return result.data;
+  }
+
+  /**
+   * Thumbnail of map data: background and assets scaled down, with the areas,
+   * collisions and spawn points drawn over them
+   */
+  private async renderThumbnail(data: MapData): Promise<Buffer | null> {
+    try {
+      const { width, height } = data.worldDimensions;
+      const scale = THUMBNAIL_SIZE / Math.max(width, height, 1);
+      const canvasWidth = Math.max(1, Math.round(width * scale));
+      const canvasHeight = Math.max(1, Math.round(height * scale));
+      const layers: sharp.OverlayOptions[] = [];
+
+      // Scaled image placed at (x, y) - clipped to the canvas
+      const addImage = async (src: unknown, x: number, y: number, w: number, h: number) => {
+        const left = Math.round(x * scale);
+        const top = Math.round(y * scale);
+        const imageWidth = Math.min(Math.round(w * scale), canvasWidth - left);
+        const imageHeight = Math.min(Math.round(h * scale), canvasHeight - top);
+        const buffer = imageWidth > 0 && imageHeight > 0 && left >= 0 && top >= 0 ? await readImage(src) : null;
+        if (!buffer || !(await imagePipeline.check(buffer)).valid) {
+          return;
+        }
+        const input = await sharp(buffer).resize(imageWidth, imageHeight, { fit: 'fill' }).png().toBuffer();
+        layers.push({ input, left, top });
+      };
+
+      if (data.backgroundImage) {
+        const background = data.backgroundImageDimensions ?? data.worldDimensions;
+        await addImage(data.backgroundImage, 0, 0, background.width, background.height);
+      }
+      type Box = { x: number; y: number; width: number; height: number; scaleX?: number; scaleY?: number; imageData?: string };
+      for (const asset of ((data.assets ?? []) as Box[]).slice(0, MAX_THUMBNAIL_ASSETS)) {
+        await addImage(asset.imageData, asset.x, asset.y, asset.width * (asset.scaleX ?? 1), asset.height * (asset.scaleY ?? 1));
+      }
+
+      // Shapes as an SVG overlay
+      type Outline = Box & { points?: Array<{ x: number; y: number }>; color?: string };
+      const outline = (shape: Outline, color: string) => {
+        const attributes = `fill="${color}" fill-opacity="0.35" stroke="${color}" stroke-width="1"`;
+        if (shape.points && shape.points.length > 2) {
+          const points = shape.points.map((point) => `${point.x * scale},${point.y * scale}`).join(' ');
+          return `<polygon points="${points}" ${attributes}/>`;
+        }
+        return `<rect x="${shape.x * scale}" y="${shape.y * scale}" width="${shape.width * scale}" height="${shape.height * scale}" ${attributes}/>`;
+      };
+      const safeColor = (color: unknown) => (typeof color === 'string' && /^#[0-9a-f]{3,8}$/i.test(color) ? color : '#4A90E2');
+      const shapes = [
+        ...((data.impassableAreas ?? []) as Outline[]).map((area) => outline(area, '#ff4d4f')),
+        ...((data.interactiveAreas ?? []) as Outline[]).map((area) => outline(area, safeColor(area.color))),
+        ...((data.spawnPoints ?? []) as Outline[]).map((spawn) => outline(spawn, '#52c41a')),
+      ];
+      layers.push({
+        input: Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${canvasWidth}" height="${canvasHeight}">${shapes.join('')}</svg>`),
+        left: 0,
+        top: 0,
+      });
+
+      return await sharp({
+        create: { width: canvasWidth, height: canvasHeight, channels: 4, background: '#f0f2f5' },
+      }).composite(layers).webp({ quality: 80 }).toBuffer();
+    } catch (error) {
+      logger.warn('Failed to render map template thumbnail:', error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const mapTemplateService = new MapTemplateService();
@@ -0,0 +1,195 @@
+/**
+ * Audit Service
+ * Persistent record of security-relevant actions: logins, map edits, asset,
+ * character and chat moderation changes
+ */
+
+import { Request } from 'express';
+import { Socket } from 'socket.io';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { getClientIp } from '../auth/rateLimiter';
+import { getSocketUser } from '../auth/authMiddleware';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Who performed an action (anonymous for e.g. failed logins)
+ */
+export interface AuditActor {
+  userId?: string;
+  username?: string;
+  ip?: string;
+}
+
+export interface AuditEventInput {
+  action: string;
+  targetType: string;
+  targetId?: string;
+  roomId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventFilters {
+  action?: string;      // Exact action, or a prefix ending in "." (e.g. "map.")
+  actorId?: string;
+  actorName?: string;
+  targetType?: string;
+  targetId?: string;
+  roomId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditEventData {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  roomId: string | null;
+  ip: string | null;
+  before: unknown;
+  after: unknown;
+  metadata: unknown;
+  createdAt: Date;
+}
+
+export interface AuditEventPage {
+  events: AuditEventData[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const MAX_AUDIT_PAGE_SIZE = 200;
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS: Array<keyof AuditEventData> = [
+  'createdAt', 'actorName', 'actorId', 'action', 'targetType', 'targetId', 'roomId', 'ip', 'before', 'after', 'metadata',
+];
+
+/**
+ * Actor of an authenticated REST request
+ */
+export function auditActorFromRequest(req: Request): AuditActor {
+  return { userId: req.user?.id, username: req.user?.username, ip: getClientIp(req) };
+}
+
+/**
+ * Actor of an authenticated socket
+ */
+export function auditActorFromSocket(socket: Socket): AuditActor {
+  const user = getSocketUser(socket);
+  return { userId: user?.id, username: user?.username, ip: socket.handshake.address };
+}
+
+function toJson(value: Record<string, unknown> | null | undefined) {
+  return value ? (value as Prisma.InputJsonValue) : undefined;
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const raw = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Spreadsheets run cells starting with these as formulas (names are user-chosen)
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================================================
+// AUDIT SERVICE
+// ============================================================================
+
+/**
+ * AuditService - Writes and queries audit events
+ *
+ * Recording never throws: a failed audit write is logged and must not fail
+ * the action being audited.
+ */
+export class AuditService {
+  /**
+   * Record an audit event
+   */
+  async record(actor: AuditActor | undefined, event: AuditEventInput): Promise<void> {
+    try {
+      await prisma.auditEvent.create({
+        data: {
+          actorId: actor?.userId,
+          actorName: actor?.username,
+          ip: actor?.ip,
+          action: event.action,
+          targetType: event.targetType,
+          targetId: event.targetId,
+          roomId: event.roomId,
+          before: toJson(event.before),
+          after: toJson(event.after),
+          metadata: toJson(event.metadata),
+        },
+      });
+    } catch (error) {
+      logger.error('Error recording audit event:', { action: event.action, error });
+    }
+  }
+
+  /**
+   * List audit events, newest first
+   */
+  async list(filters: AuditEventFilters, page: number = 1, pageSize: number = 50): Promise<AuditEventPage> {
+    const take = Math.min(Math.max(pageSize, 1), MAX_AUDIT_PAGE_SIZE);
+    const currentPage = Math.max(page, 1);
+    const where = this.buildWhere(filters);
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (currentPage - 1) * take,
+        take,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return { events, total, page: currentPage, pageSize: take };
+  }
+
+  /**
+   * All matching events (up to MAX_AUDIT_EXPORT_ROWS), newest first
+   */
+  async export(filters: AuditEventFilters): Promise<AuditEventData[]> {
+    return prisma.auditEvent.findMany({
+      where: this.buildWhere(filters),
+      orderBy: { createdAt: 'desc' },
+      take: MAX_AUDIT_EXPORT_ROWS,
+    });
+  }
+
+  /**
+   * Format events as CSV (JSON columns are embedded as JSON text)
+   */
+  toCsv(events: AuditEventData[]): string {
+    const rows = events.map((event) => CSV_COLUMNS.map((column) => toCsvField(event[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  private buildWhere(filters: AuditEventFilters): Prisma.AuditEventWhereInput {
+    return {
+      action: filters.action
+        ? (filters.action.endsWith('.') ? { startsWith: filters.action } : filters.action)
+        : undefined,
+      actorId: filters.actorId,
+      actorName: filters.actorName ? { equals: filters.actorName, mode: 'insensitive' } : undefined,
+      targetType: filters.targetType,
+      targetId: filters.targetId,
+      roomId: filters.roomId,
+      createdAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+    };
+  }
+}
+
+export const auditService = new AuditService();
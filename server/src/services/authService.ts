@@ -1,15 +1,17 @@
 /**
  * Authentication Service
- * Handles password hashing, token generation, and 2FA code management
+ * Handles password hashing, session tokens, and 2FA code management
  */
 
 import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
 import { logger } from '../utils/logger';
 
 const SALT_ROUNDS = 10;
 const TWO_FA_CODE_LENGTH = 6;
 const TWO_FA_EXPIRY_MINUTES = parseInt(process.env.TWO_FA_CODE_EXPIRY_MINUTES || '5', 10);
+const TWO_FA_LOGIN_EXPIRY_MINUTES = 10;
 
 /**
  * Hash a password using bcryptjs
@@ -101,6 +103,13 @@ export function calculate2FAExpiration(): Date {
   return new Date(Date.now() + TWO_FA_EXPIRY_MINUTES * 60 * 1000);
 }
 
+/**
+ * Calculate how long a login has to complete its second factor (after the password was checked)
+ */
+export function calculate2FALoginExpiration(): Date {
+  return new Date(Date.now() + TWO_FA_LOGIN_EXPIRY_MINUTES * 60 * 1000);
+}
+
 /**
  * Calculate password reset token expiration (1 hour)
  */
@@ -124,12 +133,94 @@ export function isPasswordResetTokenExpired(expiresAt: Date | null): boolean {
   return new Date() > expiresAt;
 }
 
+// ============================================================================
+// SESSION TOKENS
+// ============================================================================
+
+export type TokenType = 'access' | 'refresh';
+
+/**
+ * Verified contents of an access / refresh token
+ */
+export interface TokenPayload {
+  userId: string;
+  username: string;
+  email: string;
+  sessionId: string;
+  type: TokenType;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+}
+
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+const TOKEN_ISSUER = 'stargety-oasis';
+
+// Without a configured secret tokens only stay valid until the server restarts
+const TOKEN_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.JWT_SECRET) {
+  logger.warn('JWT_SECRET is not set - using a random secret, sessions will not survive a restart');
+}
+
+function signToken(userId: string, username: string, email: string, sessionId: string, type: TokenType): string {
+  return jwt.sign({ username, email, sid: sessionId, type }, TOKEN_SECRET, {
+    algorithm: 'HS256',
+    subject: userId,
+    issuer: TOKEN_ISSUER,
+    expiresIn: (type === 'access' ? ACCESS_TOKEN_EXPIRES_IN : REFRESH_TOKEN_EXPIRES_IN) as jwt.SignOptions['expiresIn'],
+  });
+}
+
+/**
+ * Generate a signed, expiring access token and a longer-lived refresh token for a session
+ */
+export function generateSessionTokens(userId: string, username: string, email: string, sessionId: string): SessionTokens {
+  const accessToken = signToken(userId, username, email, sessionId, 'access');
+  const { exp, iat } = jwt.decode(accessToken) as jwt.JwtPayload;
+  return {
+    accessToken,
+    refreshToken: signToken(userId, username, email, sessionId, 'refresh'),
+    expiresIn: (exp ?? 0) - (iat ?? 0),
+  };
+}
+
 /**
- * Generate session token (simple base64 encoded user data)
- * TODO: Replace with proper JWT implementation
+ * Expiry of a signed token (its exp claim)
  */
-export function generateSessionToken(userId: string, username: string, email: string): string {
-  const tokenData = JSON.stringify({ userId, username, email, iat: Date.now() });
-  return Buffer.from(tokenData).toString('base64');
+export function getTokenExpiry(token: string): Date {
+  const { exp } = jwt.decode(token) as jwt.JwtPayload;
+  return new Date((exp ?? 0) * 1000);
 }
 
+/**
+ * Verify a token's signature, expiry and type. Returns null if it is not valid.
+ */
+export function verifySessionToken(token: string, type: TokenType): TokenPayload | null {
+  try {
+    const payload = jwt.verify(token, TOKEN_SECRET, {
+      algorithms: ['HS256'],
+      issuer: TOKEN_ISSUER,
+    }) as jwt.JwtPayload;
+
+    // Tokens without a session were issued before sessions existed
+    if (payload.type !== type || typeof payload.sub !== 'string' || typeof payload.sid !== 'string') {
+      return null;
+    }
+    return {
+      userId: payload.sub,
+      username: String(payload.username),
+      email: String(payload.email),
+      sessionId: payload.sid,
+      type,
+    };
+  } catch (error) {
+    logger.debug('Rejected session token', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * TOTP Service
+ * RFC 6238 time-based one-time passwords (authenticator apps) and recovery codes
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Stargety Oasis';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Accept codes one step either side of the current one (clock drift)
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as base32 (RFC 4648, no padding) - the format authenticator apps expect
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(secret: string): Buffer {
+  const clean = secret.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * HOTP value for a counter (RFC 4226 dynamic truncation)
+ */
+function generateHotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Current TOTP time step
+ */
+export function getTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Generate a new random base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Generate the TOTP code for a secret at a time step
+ */
+export function generateTotp(secret: string, step: number = getTotpStep()): string {
+  return generateHotp(base32Decode(secret), step);
+}
+
+/**
+ * Verify a TOTP code. Returns the matching time step, or null if the code is invalid.
+ * Codes at or before `lastStep` are rejected so a code can only be used once.
+ */
+export function verifyTotp(secret: string, code: string, lastStep: number | null = null): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+  let key: Buffer;
+  try {
+    key = base32Decode(secret);
+  } catch {
+    return null;
+  }
+  const currentStep = getTotpStep();
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastStep !== null && step <= lastStep) {
+      continue;
+    }
+    const expected = Buffer.from(generateHotp(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the otpauth:// URL authenticator apps scan to enroll a secret
+ */
+export function buildOtpauthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Render an otpauth:// URL as a QR code image (data URL)
+ */
+export async function generateQrCodeDataUrl(otpauthUrl: string): Promise<string> {
+  return QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240 });
+}
+
+/**
+ * Generate a set of one-time recovery codes (format: xxxxx-xxxxx)
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Normalize a recovery code as typed by the user
+ */
+export function normalizeRecoveryCode(code: string): string {
+  const clean = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  return clean.length === 10 ? `${clean.slice(0, 5)}-${clean.slice(5)}` : clean;
+}
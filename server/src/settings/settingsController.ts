@@ -35,6 +35,16 @@ export interface PlayerPositionData {
   updatedAt: Date;
 }
 
+export interface UserRoomPositionData {
+  id: string;
+  userId: string;
+  roomId: string;
+  x: number;
+  y: number;
+  direction: string;
+  updatedAt: Date;
+}
+
 // ============================================================================
 // SETTINGS CONTROLLER
 // ============================================================================
@@ -274,6 +284,50 @@ export class SettingsController {
     }
   }
 
+  /**
+   * Get a user's last world position in a room (null if none saved)
+   */
+  async getUserRoomPosition(userId: string, roomId: string): Promise<UserRoomPositionData | null> {
+    try {
+      return await prisma.userRoomPosition.findUnique({
+        where: { userId_roomId: { userId, roomId } },
+      });
+    } catch (error) {
+      logger.error('Error getting user room position:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save world positions per user per room (batched upsert)
+   */
+  async saveUserRoomPositions(
+    positions: Array<{ userId: string; roomId: string; x: number; y: number; direction: string }>
+  ): Promise<number> {
+    if (positions.length === 0) return 0;
+
+    try {
+      await prisma.$transaction(
+        positions.map((position) => {
+          const data = {
+            x: Math.round(position.x),
+            y: Math.round(position.y),
+            direction: position.direction,
+          };
+          return prisma.userRoomPosition.upsert({
+            where: { userId_roomId: { userId: position.userId, roomId: position.roomId } },
+            update: data,
+            create: { userId: position.userId, roomId: position.roomId, ...data },
+          });
+        })
+      );
+      return positions.length;
+    } catch (error) {
+      logger.error('Error saving user room positions:', error);
+      return 0;
+    }
+  }
+
   /**
    * Cleanup stale positions (older than 1 hour)
    */
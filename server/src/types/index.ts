@@ -29,14 +29,33 @@ export interface ChatMessage {
   editedAt?: Date;
 }
 
+// Spritesheet animation for multiplayer synchronization (frame indices into the grid)
+export interface AvatarAnimationSync {
+  category: string;
+  frames: number[];
+  frameRate: number;
+  loop: boolean;
+}
+
 // Avatar data for multiplayer synchronization
 export interface AvatarSyncData {
   spriteSheetImageData: string;  // Base64 of the composed sprite sheet
   frameWidth: number;
   frameHeight: number;
   characterName: string;
+  animations?: AvatarAnimationSync[];
 }
 
+// World player facing direction and basic movement animation (AnimationCategory values)
+export type FacingDirection = 'up' | 'down' | 'left' | 'right';
+export type MotionAnimation = 'idle' | 'walk_up' | 'walk_down' | 'walk_left' | 'walk_right';
+
+// Discrete world player actions (Space / X / O)
+export type PlayerAction =
+  | { type: 'jump'; direction: 'left' | 'right' | 'none' }
+  | { type: 'fire'; facing: 1 | -1 }
+  | { type: 'rotate'; active: boolean };
+
 export interface WorldPlayer {
   id: string;
   name: string;
@@ -45,6 +64,10 @@ export interface WorldPlayer {
   roomId: string;
   lastMoved: Date;
   avatarData?: AvatarSyncData;  // Optional avatar data for V2 characters
+  direction: FacingDirection;
+  animation: MotionAnimation;
+  rotating: boolean;
+  isGuest?: boolean;            // Invited visitor (shown with a guest badge)
 }
 
 export interface ApiResponse<T = any> {
@@ -60,6 +83,14 @@ export interface SocketEventData {
   'join-room': { roomId: string; user: string };
   'send-message': ChatMessage;
   'typing': { user: string; isTyping: boolean; roomId: string };
-  'player-moved': { playerId: string; x: number; y: number; roomId: string };
-  'player-joined-world': { playerId: string; x: number; y: number; roomId: string };
+  'player-moved': { playerId: string; x: number; y: number; roomId: string; direction?: FacingDirection; animation?: MotionAnimation };
+  'player-action': { playerId: string; roomId: string; action: PlayerAction };
+  'player-avatar-updated': { playerId: string; roomId: string; avatarData?: AvatarSyncData };
+  'player-teleport': { playerId: string; x: number; y: number; roomId: string };
+  'player-teleport-destination': { playerId: string; roomId: string; areaId: string };
+  'player-portal': { playerId: string; roomId: string; areaId: string };
+  'player-switch': { playerId: string; roomId: string; areaId: string };
+  'player-collect': { playerId: string; roomId: string; areaId: string };
+  'player-viewport': { playerId: string; roomId: string; width: number; height: number };
+  'player-joined-world': { playerId: string; x: number; y: number; roomId: string; viewport?: { width: number; height: number } };
 }
@@ -0,0 +1,288 @@
+/**
+ * Image Pipeline
+ * Server-side processing of uploaded images: the content is checked (magic
+ * bytes, pixel dimensions), EXIF data is stripped, and WebP variants - a
+ * thumbnail and downscaled copies - are generated. Animated images get a
+ * spritesheet with their frame timings so clients don't decode GIFs.
+ */
+
+import sharp from 'sharp';
+import { logger } from './logger';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export type ImageCheck =
+  | { valid: true; mimeType: string; width: number; height: number; frameCount: number }
+  | { valid: false; error: string };
+
+export interface ImageOutput {
+  buffer: Buffer;
+  mimeType: string;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageVariant extends ImageOutput {
+  name: string;  // 'full', 'thumbnail' or 'scaled-<size>'
+}
+
+/**
+ * Frame layout of a spritesheet: frames left to right, top to bottom
+ */
+export interface ImageAnimation {
+  frameCount: number;
+  frameWidth: number;
+  frameHeight: number;
+  columns: number;
+  delays: number[];  // Milliseconds per frame
+  loop: number;      // 0 = forever
+}
+
+export interface ProcessedImage {
+  original: ImageOutput;  // Auto-oriented, metadata stripped (GIFs are kept as uploaded)
+  variants: ImageVariant[];
+  spritesheet: { image: ImageOutput; animation: ImageAnimation } | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const IMAGE_LIMITS = {
+  maxDimension: 8192,              // Per side, per frame
+  maxTotalPixels: 128 * 1024 * 1024,  // All frames together
+  thumbnailSize: 256,
+  scaledSizes: [1024, 2048],
+  maxSpritesheetSize: 4096,
+  maxSpritesheetFrames: 256,
+} as const;
+
+const FORMATS: Record<string, { mimeType: string; extension: string }> = {
+  png: { mimeType: 'image/png', extension: 'png' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  gif: { mimeType: 'image/gif', extension: 'gif' },
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+};
+
+// Browsers play GIF frames of 10ms or less at 100ms
+const DEFAULT_FRAME_DELAY = 100;
+
+/**
+ * Image type from the file's magic bytes; null if it isn't PNG, JPEG, GIF or WebP
+ */
+export function detectImageType(buffer: Buffer): string | null {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) {
+    return 'image/gif';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+// ============================================================================
+// IMAGE PIPELINE
+// ============================================================================
+
+export class ImagePipeline {
+  /**
+   * Check that a file really is a supported image within the pixel limits
+   * (only the header is read - nothing is decoded)
+   */
+  async check(buffer: Buffer): Promise<ImageCheck> {
+    const mimeType = detectImageType(buffer);
+    if (!mimeType) {
+      return { valid: false, error: 'File content is not a PNG, JPEG, GIF or WebP image' };
+    }
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(buffer, { animated: true }).metadata();
+    } catch {
+      return { valid: false, error: 'Image could not be read' };
+    }
+
+    const width = metadata.width ?? 0;
+    const height = metadata.pageHeight ?? metadata.height ?? 0;
+    const frameCount = metadata.pages ?? 1;
+    if (width <= 0 || height <= 0) {
+      return { valid: false, error: 'Image has no dimensions' };
+    }
+    const { maxDimension, maxTotalPixels } = IMAGE_LIMITS;
+    if (width > maxDimension || height > maxDimension) {
+      return { valid: false, error: `Image is ${width}x${height} pixels - the maximum is ${maxDimension}x${maxDimension}` };
+    }
+    if (width * height * frameCount > maxTotalPixels) {
+      return { valid: false, error: `Animation is too large (${frameCount} frames of ${width}x${height} pixels)` };
+    }
+    return { valid: true, mimeType, width, height, frameCount };
+  }
+
+  /**
+   * Normalize an image and generate its variants. Throws if the image doesn't
+   * pass the check.
+   */
+  async process(buffer: Buffer): Promise<ProcessedImage> {
+    const check = await this.check(buffer);
+    if (!check.valid) {
+      throw new Error(check.error);
+    }
+    const animated = check.frameCount > 1;
+
+    const original = await this.normalize(buffer, check.mimeType, animated);
+    const variants: ImageVariant[] = [];
+
+    // Full-size WebP, with the original as the fallback for clients without WebP
+    if (original.mimeType !== 'image/webp') {
+      variants.push({ name: 'full', ...await this.encodeWebp(sharp(buffer, { animated }).rotate(), original.mimeType) });
+    }
+
+    // Thumbnail and downscaled copies (first frame of animations - they have spritesheets)
+    const longestSide = Math.max(original.width, original.height);
+    const sizes = [IMAGE_LIMITS.thumbnailSize, ...(animated ? [] : IMAGE_LIMITS.scaledSizes)];
+    for (const size of sizes) {
+      if (size !== IMAGE_LIMITS.thumbnailSize && longestSide <= size) {
+        continue;
+      }
+      const resized = sharp(buffer).rotate().resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true });
+      const name = size === IMAGE_LIMITS.thumbnailSize ? 'thumbnail' : `scaled-${size}`;
+      variants.push({ name, ...await this.encodeWebp(resized, original.mimeType) });
+    }
+
+    let spritesheet: ProcessedImage['spritesheet'] = null;
+    if (animated) {
+      try {
+        spritesheet = await this.createSpritesheet(buffer, check.width, check.height, check.frameCount);
+      } catch (error) {
+        logger.warn('Failed to create spritesheet, animation is played from the original:', error);
+      }
+    }
+
+    return { original, variants, spritesheet };
+  }
+
+  /**
+   * Re-encode in the original format: rotated by its EXIF orientation, with
+   * all metadata dropped. GIFs have no EXIF and are kept byte for byte.
+   */
+  async normalize(buffer: Buffer, mimeType: string, animated: boolean): Promise<ImageOutput> {
+    if (mimeType === 'image/gif') {
+      const metadata = await sharp(buffer, { animated: true }).metadata();
+      return {
+        buffer,
+        ...FORMATS.gif,
+        width: metadata.width ?? 0,
+        height: metadata.pageHeight ?? metadata.height ?? 0,
+      };
+    }
+
+    const image = sharp(buffer, { animated }).rotate();
+    if (mimeType === 'image/jpeg') {
+      image.jpeg({ quality: 90, mozjpeg: true });
+    } else if (mimeType === 'image/webp') {
+      image.webp({ quality: 90 });
+    } else {
+      image.png({ compressionLevel: 9 });
+    }
+    return this.toOutput(image);
+  }
+
+  /**
+   * Encode as WebP, falling back to PNG (JPEG for photos) if that fails
+   */
+  private async encodeWebp(image: sharp.Sharp, originalMimeType: string): Promise<ImageOutput> {
+    try {
+      return await this.toOutput(image.clone().webp({ quality: 85 }));
+    } catch (error) {
+      logger.warn('WebP encoding failed, using the fallback format:', error);
+      return this.toOutput(originalMimeType === 'image/jpeg' ? image.jpeg({ quality: 85 }) : image.png());
+    }
+  }
+
+  /**
+   * Lay the frames of an animation out in a grid - scaled down if the sheet
+   * would exceed the maximum texture size
+   */
+  private async createSpritesheet(
+    buffer: Buffer,
+    width: number,
+    height: number,
+    frameCount: number
+  ): Promise<ProcessedImage['spritesheet']> {
+    const { maxSpritesheetSize, maxSpritesheetFrames } = IMAGE_LIMITS;
+    if (frameCount > maxSpritesheetFrames) {
+      logger.debug(`No spritesheet for an animation of ${frameCount} frames`);
+      return null;
+    }
+
+    const columns = Math.ceil(Math.sqrt(frameCount));
+    const rows = Math.ceil(frameCount / columns);
+    const scale = Math.min(1, maxSpritesheetSize / (columns * width), maxSpritesheetSize / (rows * height));
+    const frameWidth = Math.max(1, Math.floor(width * scale));
+    const frameHeight = Math.max(1, Math.floor(height * scale));
+
+    // All frames stacked vertically as raw RGBA (animations are resized per frame)
+    let frames = sharp(buffer, { animated: true });
+    if (scale < 1) {
+      frames = frames.resize({ width: frameWidth, height: frameHeight, fit: 'fill' });
+    }
+    const { data, info } = await frames.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    const frameHeightOut = Math.floor(info.height / frameCount);
+    const frameBytes = info.width * frameHeightOut * info.channels;
+
+    const sheet = sharp({
+      create: {
+        width: columns * info.width,
+        height: rows * frameHeightOut,
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      },
+    }).composite(Array.from({ length: frameCount }, (_, index) => ({
+      input: data.subarray(index * frameBytes, (index + 1) * frameBytes),
+      raw: { width: info.width, height: frameHeightOut, channels: info.channels },
+      left: (index % columns) * info.width,
+      top: Math.floor(index / columns) * frameHeightOut,
+    })));
+
+    const metadata = await sharp(buffer, { animated: true }).metadata();
+    const delays = Array.from({ length: frameCount }, (_, index) => {
+      const delay = metadata.delay?.[index] ?? DEFAULT_FRAME_DELAY;
+      return delay > 10 ? delay : DEFAULT_FRAME_DELAY;
+    });
+
+    return {
+      image: await this.toOutput(sheet.png({ compressionLevel: 9 })),
+      animation: {
+        frameCount,
+        frameWidth: info.width,
+        frameHeight: frameHeightOut,
+        columns,
+        delays,
+        loop: metadata.loop ?? 0,
+      },
+    };
+  }
+
+  private async toOutput(image: sharp.Sharp): Promise<ImageOutput> {
+    const { data, info } = await image.toBuffer({ resolveWithObject: true });
+    const format = FORMATS[info.format] ?? FORMATS.png;
+    return {
+      buffer: data,
+      ...format,
+      width: info.width,
+      height: info.pageHeight ?? info.height,
+    };
+  }
+}
+
+// Export singleton instance
+export const imagePipeline = new ImagePipeline();
@@ -1,8 +1,9 @@
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { Request } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { logger } from './logger';
+import { imagePipeline } from './imagePipeline';
 
 // Upload directories
 const UPLOAD_BASE_DIR = process.env.UPLOAD_DIR || '/tmp/uploads';
@@ -10,6 +11,7 @@ const UPLOAD_DIRS = {
   maps: path.join(UPLOAD_BASE_DIR, 'maps'),
   characters: path.join(UPLOAD_BASE_DIR, 'characters'),
   assets: path.join(UPLOAD_BASE_DIR, 'assets'),
+  templates: path.join(UPLOAD_BASE_DIR, 'templates'),
 } as const;
 
 // Ensure upload directories exist
@@ -39,16 +41,8 @@ const ALLOWED_MIME_TYPES = {
 const createStorage = (uploadType: keyof typeof UPLOAD_DIRS) => {
   return multer.diskStorage({
     destination: (req: Request, file, cb) => {
-      // For map assets, create subdirectory per map
-      if (uploadType === 'maps' && req.params.roomId) {
-        const mapDir = path.join(UPLOAD_DIRS.maps, req.params.roomId);
-        if (!fs.existsSync(mapDir)) {
-          fs.mkdirSync(mapDir, { recursive: true });
-        }
-        cb(null, mapDir);
-      } 
       // For character uploads, create subdirectory per user
-      else if (uploadType === 'characters' && req.params.userId) {
+      if (uploadType === 'characters' && req.params.userId) {
         const userDir = path.join(UPLOAD_DIRS.characters, req.params.userId);
         if (!fs.existsSync(userDir)) {
           fs.mkdirSync(userDir, { recursive: true });
@@ -79,8 +73,9 @@ const createFileFilter = (allowedTypes: readonly string[]) => {
 };
 
 // Pre-configured upload middlewares
+// Map images are kept in memory - mapAssetStorage writes them under their content hash
 export const uploadMapAsset = multer({
-  storage: createStorage('maps'),
+  storage: multer.memoryStorage(),
   limits: { fileSize: FILE_SIZE_LIMITS.image },
   fileFilter: createFileFilter(ALLOWED_MIME_TYPES.image),
 });
@@ -97,6 +92,38 @@ export const uploadGenericAsset = multer({
   fileFilter: createFileFilter(ALLOWED_MIME_TYPES.all),
 });
 
+/**
+ * Check the content of an uploaded image - the MIME type is only what the client
+ * claims. Invalid files are rejected (and removed from disk); images stored on
+ * disk are rewritten without their EXIF data. Map images are processed fully by
+ * mapAssetStorage.
+ */
+export async function validateUploadedImage(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const file = req.file;
+  if (!file || !file.mimetype.startsWith('image/')) {
+    return next();
+  }
+
+  const buffer = file.buffer ?? await fs.promises.readFile(file.path);
+  const check = await imagePipeline.check(buffer);
+  if (!check.valid || check.mimeType !== file.mimetype) {
+    const error = check.valid ? `File content (${check.mimeType}) does not match its type ${file.mimetype}` : check.error;
+    logger.warn(`Rejected upload ${file.originalname}: ${error}`);
+    if (file.path) {
+      await fs.promises.rm(file.path, { force: true });
+    }
+    res.status(400).json({ success: false, error });
+    return;
+  }
+
+  if (file.path) {
+    const normalized = await imagePipeline.normalize(buffer, check.mimeType, check.frameCount > 1);
+    await fs.promises.writeFile(file.path, normalized.buffer);
+    file.size = normalized.buffer.length;
+  }
+  next();
+}
+
 // Helper to get relative path for database storage
 export function getRelativePath(absolutePath: string): string {
   return absolutePath.replace(UPLOAD_BASE_DIR, '').replace(/^\//, '');
@@ -108,6 +135,25 @@ export function getFileUrl(relativePath: string): string {
   return `${baseUrl}/uploads/${relativePath}`;
 }
 
+/**
+ * File path of an uploaded file from its URL (any host - the path starts with
+ * /uploads/); null for other URLs and paths outside the upload directory
+ */
+export function resolveUploadUrl(url: string): string | null {
+  const match = /^(?:https?:\/\/[^/]+)?\/uploads\/([^?#]+)/i.exec(url);
+  if (!match) {
+    return null;
+  }
+  let relativePath: string;
+  try {
+    relativePath = decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+  const filePath = path.resolve(UPLOAD_BASE_DIR, relativePath);
+  return filePath.startsWith(path.resolve(UPLOAD_BASE_DIR) + path.sep) ? filePath : null;
+}
+
 // Export constants
 export { UPLOAD_BASE_DIR, UPLOAD_DIRS, FILE_SIZE_LIMITS, ALLOWED_MIME_TYPES };
 
@@ -0,0 +1,273 @@
+import { MapData } from '../map/mapController';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export type SwitchToggleMode = 'visibility' | 'collision' | 'both';
+
+/**
+ * Interactive area with actionType 'switch' and the areas / assets it toggles
+ */
+export interface SwitchArea {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  targetIds: string[];
+  initialState: boolean;
+  toggleMode: SwitchToggleMode;
+}
+
+/**
+ * Interactive area with actionType 'collectible' and its effect
+ */
+export interface CollectibleArea {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  effectType: string;
+  effectValue: number;
+  effectDuration: number;
+  consumable: boolean;
+  respawnTime: number; // seconds, 0 = never respawns
+}
+
+/**
+ * State of an area / asset targeted by switches
+ */
+export interface TargetState {
+  visible: boolean;
+  collidable: boolean;
+}
+
+/**
+ * A consumable collectible that has been picked up
+ */
+export interface CollectedState {
+  collectedBy: string;
+  collectedAt: number;
+  respawnAt: number | null; // null = gone until the room state is reset
+}
+
+/**
+ * Switch / collectible state of a world room, as sent to clients
+ */
+export interface RoomAreaState {
+  roomId: string;
+  targets: Record<string, TargetState>;
+  collectibles: Record<string, CollectedState>;
+}
+
+const TOGGLE_MODES: ReadonlySet<string> = new Set(['visibility', 'collision', 'both']);
+
+// ============================================================================
+// MAP QUERIES
+// ============================================================================
+
+type AreaShape = { id?: string; x?: unknown; y?: unknown; width?: unknown; height?: unknown; actionType?: string; actionConfig?: unknown };
+
+function findArea(mapData: MapData | null, areaId: string, actionType: string): { area: AreaShape; config: Record<string, unknown> } | null {
+  const areas = (mapData?.interactiveAreas || []) as AreaShape[];
+  const area = areas.find((candidate) => candidate && candidate.id === areaId);
+  if (!area || area.actionType !== actionType || !area.actionConfig || typeof area.actionConfig !== 'object') {
+    return null;
+  }
+  return { area, config: area.actionConfig as Record<string, unknown> };
+}
+
+function toSwitchArea(area: AreaShape, config: Record<string, unknown>): SwitchArea | null {
+  const targetIds = Array.isArray(config.targetIds)
+    ? config.targetIds.filter((id): id is string => typeof id === 'string' && id.length > 0)
+    : [];
+  if (targetIds.length === 0) {
+    return null;
+  }
+  return {
+    id: String(area.id),
+    x: Number(area.x) || 0,
+    y: Number(area.y) || 0,
+    width: Number(area.width) || 0,
+    height: Number(area.height) || 0,
+    targetIds,
+    initialState: config.initialState !== false,
+    toggleMode: typeof config.toggleMode === 'string' && TOGGLE_MODES.has(config.toggleMode)
+      ? config.toggleMode as SwitchToggleMode
+      : 'visibility',
+  };
+}
+
+/**
+ * Find a switch area of the map by ID, or null if it does not exist or has no targets
+ */
+export function getSwitchArea(mapData: MapData | null, areaId: string): SwitchArea | null {
+  const found = findArea(mapData, areaId, 'switch');
+  return found ? toSwitchArea(found.area, found.config) : null;
+}
+
+/**
+ * Find a collectible area of the map by ID, or null if it does not exist
+ */
+export function getCollectibleArea(mapData: MapData | null, areaId: string): CollectibleArea | null {
+  const found = findArea(mapData, areaId, 'collectible');
+  if (!found) {
+    return null;
+  }
+  const { area, config } = found;
+  return {
+    id: areaId,
+    x: Number(area.x) || 0,
+    y: Number(area.y) || 0,
+    width: Number(area.width) || 0,
+    height: Number(area.height) || 0,
+    effectType: typeof config.effectType === 'string' ? config.effectType : 'custom',
+    effectValue: Number(config.effectValue) || 0,
+    effectDuration: Math.max(0, Number(config.effectDuration) || 0),
+    consumable: config.consumable !== false,
+    respawnTime: Math.max(0, Number(config.respawnTime) || 0),
+  };
+}
+
+/**
+ * Apply a switch toggle to a target state
+ */
+function toggleTarget(state: TargetState, mode: SwitchToggleMode): TargetState {
+  return {
+    visible: mode === 'collision' ? state.visible : !state.visible,
+    collidable: mode === 'visibility' ? state.collidable : !state.collidable,
+  };
+}
+
+// ============================================================================
+// AREA STATE MANAGER
+// ============================================================================
+
+/**
+ * AreaStateManager - Shared switch and collectible state per world room
+ *
+ * Switch targets start in the state given by their switch's initialState and are
+ * flipped (visibility and/or collision, per toggleMode) each time a player uses
+ * the switch. Consumable collectibles disappear for everyone once collected and
+ * come back after their respawnTime; onRespawn is called so the room can be told.
+ */
+export class AreaStateManager {
+  private rooms: Map<string, RoomAreaState> = new Map();
+  // `${roomId}:${areaId}` -> pending respawn
+  private respawnTimers: Map<string, NodeJS.Timeout> = new Map();
+  private onRespawn: (roomId: string, areaId: string) => void;
+
+  constructor(onRespawn: (roomId: string, areaId: string) => void) {
+    this.onRespawn = onRespawn;
+  }
+
+  /**
+   * Get the state of a room, creating it from the map's switch settings on first use
+   */
+  getState(roomId: string, mapData: MapData | null): RoomAreaState {
+    let state = this.rooms.get(roomId);
+    if (!state) {
+      state = { roomId, targets: this.getInitialTargets(mapData), collectibles: {} };
+      this.rooms.set(roomId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Flip the targets of a switch. Returns the new state of the toggled targets.
+   */
+  toggleSwitch(roomId: string, mapData: MapData | null, area: SwitchArea): Record<string, TargetState> {
+    const state = this.getState(roomId, mapData);
+    const changed: Record<string, TargetState> = {};
+    area.targetIds.forEach((targetId) => {
+      const current = state.targets[targetId] ?? { visible: true, collidable: true };
+      state.targets[targetId] = changed[targetId] = toggleTarget(current, area.toggleMode);
+    });
+    return changed;
+  }
+
+  /**
+   * Check if a collectible can currently be picked up in a room
+   */
+  isAvailable(roomId: string, areaId: string): boolean {
+    return !this.rooms.get(roomId)?.collectibles[areaId];
+  }
+
+  /**
+   * Mark a consumable collectible as collected and schedule its respawn
+   */
+  collect(roomId: string, mapData: MapData | null, area: CollectibleArea, playerId: string): CollectedState {
+    const state = this.getState(roomId, mapData);
+    const now = Date.now();
+    const collected: CollectedState = {
+      collectedBy: playerId,
+      collectedAt: now,
+      respawnAt: area.respawnTime > 0 ? now + area.respawnTime * 1000 : null,
+    };
+    state.collectibles[area.id] = collected;
+
+    if (collected.respawnAt !== null) {
+      const key = `${roomId}:${area.id}`;
+      clearTimeout(this.respawnTimers.get(key));
+      this.respawnTimers.set(key, setTimeout(() => {
+        this.respawnTimers.delete(key);
+        const current = this.rooms.get(roomId);
+        if (current?.collectibles[area.id] === collected) {
+          delete current.collectibles[area.id];
+          this.onRespawn(roomId, area.id);
+        }
+      }, area.respawnTime * 1000));
+    }
+    return collected;
+  }
+
+  /**
+   * Forget the state of a room (e.g. after its map was edited)
+   */
+  reset(roomId: string): void {
+    this.rooms.delete(roomId);
+    this.respawnTimers.forEach((timer, key) => {
+      if (key.startsWith(`${roomId}:`)) {
+        clearTimeout(timer);
+        this.respawnTimers.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Check if a room has state
+   */
+  hasRoom(roomId: string): boolean {
+    return this.rooms.has(roomId);
+  }
+
+  /**
+   * Cancel all pending respawns
+   */
+  clear(): void {
+    this.respawnTimers.forEach((timer) => clearTimeout(timer));
+    this.respawnTimers.clear();
+    this.rooms.clear();
+  }
+
+  private getInitialTargets(mapData: MapData | null): Record<string, TargetState> {
+    const targets: Record<string, TargetState> = {};
+    const areas = (mapData?.interactiveAreas || []) as AreaShape[];
+    areas.forEach((area) => {
+      if (!area || area.actionType !== 'switch' || !area.actionConfig || typeof area.actionConfig !== 'object') {
+        return;
+      }
+      const switchArea = toSwitchArea(area, area.actionConfig as Record<string, unknown>);
+      if (!switchArea || switchArea.initialState) {
+        return;
+      }
+      // Targets of a switch that starts "off" begin hidden / passable
+      switchArea.targetIds.forEach((targetId) => {
+        targets[targetId] = toggleTarget(targets[targetId] ?? { visible: true, collidable: true }, switchArea.toggleMode);
+      });
+    });
+    return targets;
+  }
+}
@@ -0,0 +1,243 @@
+import { MapData } from '../map/mapController';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Minimal shape of an area as stored in Map.data.
+ * Interactive areas use `shapeType`, legacy impassable areas use `type`.
+ */
+interface AreaShape {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  actionType?: string;
+  shapeType?: 'rectangle' | 'polygon';
+  type?: 'rectangle' | 'polygon';
+  points?: Point[];
+}
+
+/**
+ * Collision state of switch targets in a room, by area ID (see AreaStateManager).
+ * Areas a switch made passable don't block players.
+ */
+export type AreaCollisionStates = Record<string, { collidable: boolean }>;
+
+// Player bounding box size used by the client for collision (PlayerManager.playerSize)
+export const PLAYER_SIZE = 32;
+
+// Used when a room has no map stored yet (matches the client default map)
+export const DEFAULT_WORLD_DIMENSIONS = { width: 800, height: 600 };
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+/**
+ * Check if a point is inside a polygon using ray casting algorithm
+ */
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i].x;
+    const yi = polygon[i].y;
+    const xj = polygon[j].x;
+    const yj = polygon[j].y;
+
+    const intersect = ((yi > point.y) !== (yj > point.y)) &&
+      (point.x < (xj - xi) * (point.y - yi) / (yj - yi) + xi);
+    if (intersect) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Check if a bounding box collides with a polygon (corners + center test).
+ * Mirrors CollisionSystem.checkPolygonCollision on the client so both sides agree.
+ */
+function boxIntersectsPolygon(polygon: Point[], left: number, right: number, top: number, bottom: number): boolean {
+  const probes: Point[] = [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: left, y: bottom },
+    { x: right, y: bottom },
+    { x: (left + right) / 2, y: (top + bottom) / 2 },
+  ];
+  return probes.some((probe) => isPointInPolygon(probe, polygon));
+}
+
+function boxIntersectsArea(area: AreaShape, isPolygon: boolean, left: number, right: number, top: number, bottom: number): boolean {
+  const overlapsBounds = left < area.x + area.width && right > area.x &&
+    top < area.y + area.height && bottom > area.y;
+  if (!overlapsBounds) {
+    return false;
+  }
+  if (isPolygon && area.points && area.points.length > 0) {
+    return boxIntersectsPolygon(area.points, left, right, top, bottom);
+  }
+  return true;
+}
+
+// ============================================================================
+// MAP QUERIES
+// ============================================================================
+
+/**
+ * Get the world dimensions of a map, falling back to the default map size
+ */
+export function getWorldDimensions(mapData: MapData | null): { width: number; height: number } {
+  const dimensions = mapData?.worldDimensions;
+  if (!dimensions || !(dimensions.width > 0) || !(dimensions.height > 0)) {
+    return DEFAULT_WORLD_DIMENSIONS;
+  }
+  return dimensions;
+}
+
+/**
+ * Clamp a position so the player box stays inside the world
+ */
+export function clampToWorld(mapData: MapData | null, x: number, y: number, playerSize: number = PLAYER_SIZE): Point {
+  const { width, height } = getWorldDimensions(mapData);
+  const padding = playerSize / 2;
+  return {
+    x: Math.max(padding, Math.min(width - padding, x)),
+    y: Math.max(padding, Math.min(height - padding, y)),
+  };
+}
+
+/**
+ * Check if a player centered at (x, y) would collide with any impassable area.
+ * Checks BOTH legacy impassableAreas AND interactiveAreas with actionType: 'impassable',
+ * skipping areas a switch has turned off in `targets`.
+ */
+export function collidesWithImpassableAreas(
+  mapData: MapData | null,
+  x: number,
+  y: number,
+  playerSize: number = PLAYER_SIZE,
+  targets: AreaCollisionStates = {}
+): boolean {
+  if (!mapData) {
+    return false;
+  }
+
+  const left = x - playerSize / 2;
+  const right = x + playerSize / 2;
+  const top = y - playerSize / 2;
+  const bottom = y + playerSize / 2;
+
+  const interactiveAreas = (mapData.interactiveAreas || []) as AreaShape[];
+  for (const area of interactiveAreas) {
+    if (area.actionType === 'impassable' && targets[area.id]?.collidable !== false &&
+        boxIntersectsArea(area, area.shapeType === 'polygon', left, right, top, bottom)) {
+      return true;
+    }
+  }
+
+  const legacyAreas = (mapData.impassableAreas || []) as AreaShape[];
+  for (const area of legacyAreas) {
+    if (targets[area.id]?.collidable !== false &&
+        boxIntersectsArea(area, area.type === 'polygon', left, right, top, bottom)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Find the closest position to (x, y) where the player fits inside the world without
+ * touching an impassable area. Searches rings of increasing radius around the clamped
+ * point; returns the clamped point if the whole map is blocked.
+ */
+export function findNearestWalkablePosition(
+  mapData: MapData | null,
+  x: number,
+  y: number,
+  playerSize: number = PLAYER_SIZE,
+  targets: AreaCollisionStates = {}
+): Point {
+  const start = clampToWorld(mapData, x, y, playerSize);
+  if (!collidesWithImpassableAreas(mapData, start.x, start.y, playerSize, targets)) {
+    return start;
+  }
+
+  const { width, height } = getWorldDimensions(mapData);
+  const step = playerSize / 2;
+  const maxRadius = Math.hypot(width, height);
+
+  for (let radius = step; radius <= maxRadius; radius += step) {
+    const samples = Math.max(8, Math.ceil((2 * Math.PI * radius) / step));
+    for (let i = 0; i < samples; i++) {
+      const angle = (i / samples) * Math.PI * 2;
+      const candidate = clampToWorld(mapData, start.x + Math.cos(angle) * radius, start.y + Math.sin(angle) * radius, playerSize);
+      if (!collidesWithImpassableAreas(mapData, candidate.x, candidate.y, playerSize, targets)) {
+        return candidate;
+      }
+    }
+  }
+
+  return start;
+}
+
+/**
+ * Check if a player can walk from `from` to `to` without crossing impassable areas,
+ * staying within `maxDistance` of the start. Flood fills a grid of half the player's
+ * size outward from `from`; the target must be walkable itself.
+ */
+export function isReachable(
+  mapData: MapData | null,
+  from: Point,
+  to: Point,
+  maxDistance: number,
+  playerSize: number = PLAYER_SIZE,
+  targets: AreaCollisionStates = {}
+): boolean {
+  if (Math.hypot(to.x - from.x, to.y - from.y) > maxDistance ||
+      collidesWithImpassableAreas(mapData, to.x, to.y, playerSize, targets)) {
+    return false;
+  }
+
+  const step = playerSize / 2;
+  const { width, height } = getWorldDimensions(mapData);
+  const padding = playerSize / 2;
+  const visited = new Set<string>(['0,0']);
+  const queue: Array<[number, number]> = [[0, 0]];
+
+  for (let index = 0; index < queue.length; index++) {
+    const [i, j] = queue[index];
+    const x = from.x + i * step;
+    const y = from.y + j * step;
+    if (Math.abs(to.x - x) <= step && Math.abs(to.y - y) <= step) {
+      return true;
+    }
+
+    for (const [di, dj] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const ni = i + di;
+      const nj = j + dj;
+      const key = `${ni},${nj}`;
+      if (visited.has(key)) {
+        continue;
+      }
+      visited.add(key);
+      const nx = from.x + ni * step;
+      const ny = from.y + nj * step;
+      if (Math.hypot(nx - from.x, ny - from.y) > maxDistance + step ||
+          nx < padding || nx > width - padding || ny < padding || ny > height - padding ||
+          collidesWithImpassableAreas(mapData, nx, ny, playerSize, targets)) {
+        continue;
+      }
+      queue.push([ni, nj]);
+    }
+  }
+
+  return false;
+}
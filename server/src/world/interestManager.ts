@@ -0,0 +1,237 @@
+import { SpatialGrid } from './spatialGrid';
+
+// Extra distance around a player's viewport that still counts as "in view" (configurable)
+export const INTEREST_MARGIN = Number(process.env.WORLD_INTEREST_MARGIN) || 256;
+// Players already in view only leave once they are this much further out (prevents edge flicker)
+const INTEREST_HYSTERESIS = 64;
+// Used until the client reports its camera viewport
+const DEFAULT_VIEWPORT = { width: 1280, height: 720 };
+// Upper bound on reported viewports so a zoomed-out client cannot subscribe to a whole floor
+const MAX_VIEWPORT = { width: 4096, height: 4096 };
+const GRID_CELL_SIZE = 256;
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+interface ObserverState {
+  roomId: string;
+  viewport: Viewport;
+  interest: Set<string>;
+}
+
+/**
+ * Result of a position/viewport update. All entries are player IDs.
+ */
+export interface InterestUpdate {
+  // Players that came into / went out of this player's view
+  entered: string[];
+  left: string[];
+  // Observers that can now see / can no longer see this player
+  observersEntered: string[];
+  observersLeft: string[];
+  // All observers that currently see this player (including observersEntered)
+  observers: string[];
+}
+
+/**
+ * InterestManager - Area-of-interest tracking for world rooms
+ *
+ * Keeps a spatial grid per room and, for each player, the set of other players
+ * inside their viewport (plus INTEREST_MARGIN). WorldController uses the
+ * resulting diffs to send movement, join and leave events only to players that
+ * can actually see each other.
+ */
+export class InterestManager {
+  private grids: Map<string, SpatialGrid> = new Map();
+  private observers: Map<string, ObserverState> = new Map();
+  // Reverse index: playerId -> observers that currently have that player in view
+  private watchers: Map<string, Set<string>> = new Map();
+
+  /**
+   * Add a player to a room (re-adding moves them and resets their interest)
+   */
+  addPlayer(roomId: string, playerId: string, x: number, y: number, viewport?: Viewport): InterestUpdate {
+    if (this.observers.has(playerId)) {
+      this.removePlayer(playerId);
+    }
+
+    if (!this.grids.has(roomId)) {
+      this.grids.set(roomId, new SpatialGrid(GRID_CELL_SIZE));
+    }
+    this.grids.get(roomId)!.upsert(playerId, x, y);
+    this.observers.set(playerId, {
+      roomId,
+      viewport: this.normalizeViewport(viewport),
+      interest: new Set(),
+    });
+    this.watchers.set(playerId, new Set());
+
+    return this.refresh(playerId);
+  }
+
+  /**
+   * Remove a player; returns the observers that could see them
+   */
+  removePlayer(playerId: string): string[] {
+    const state = this.observers.get(playerId);
+    if (!state) return [];
+
+    const grid = this.grids.get(state.roomId);
+    grid?.remove(playerId);
+    if (grid && grid.size === 0) {
+      this.grids.delete(state.roomId);
+    }
+
+    // Stop watching everyone this player could see
+    for (const visibleId of state.interest) {
+      this.watchers.get(visibleId)?.delete(playerId);
+    }
+
+    // Everyone who could see this player loses it
+    const observersOfPlayer = Array.from(this.watchers.get(playerId) ?? []);
+    for (const observerId of observersOfPlayer) {
+      this.observers.get(observerId)?.interest.delete(playerId);
+    }
+
+    this.watchers.delete(playerId);
+    this.observers.delete(playerId);
+    return observersOfPlayer;
+  }
+
+  /**
+   * Update a player's position
+   */
+  updatePosition(playerId: string, x: number, y: number): InterestUpdate {
+    const state = this.observers.get(playerId);
+    if (!state) return this.emptyUpdate();
+    this.grids.get(state.roomId)?.upsert(playerId, x, y);
+    return this.refresh(playerId);
+  }
+
+  /**
+   * Update the camera viewport a player reported (only affects what they see)
+   */
+  setViewport(playerId: string, viewport: Viewport): InterestUpdate {
+    const state = this.observers.get(playerId);
+    if (!state) return this.emptyUpdate();
+    state.viewport = this.normalizeViewport(viewport);
+    return this.refresh(playerId);
+  }
+
+  /**
+   * Get the observers that currently see a player
+   */
+  getObservers(playerId: string): string[] {
+    return Array.from(this.watchers.get(playerId) ?? []);
+  }
+
+  /**
+   * Get the viewport a player reported (undefined if the player is not tracked)
+   */
+  getViewport(playerId: string): Viewport | undefined {
+    return this.observers.get(playerId)?.viewport;
+  }
+
+  /**
+   * Get the players a player currently sees
+   */
+  getInterest(playerId: string): string[] {
+    return Array.from(this.observers.get(playerId)?.interest ?? []);
+  }
+
+  /**
+   * Recompute both directions of visibility for a player
+   */
+  private refresh(playerId: string): InterestUpdate {
+    const state = this.observers.get(playerId)!;
+    const grid = this.grids.get(state.roomId)!;
+    const position = grid.getPosition(playerId)!;
+
+    // 1. What this player sees
+    const extent = this.getExtent(state.viewport, true);
+    const nextInterest = new Set(
+      grid.queryRect(position.x, position.y, extent.halfWidth, extent.halfHeight)
+        .filter((id) => id !== playerId && this.isInView(state, position, id, state.interest.has(id)))
+    );
+
+    const entered = Array.from(nextInterest).filter((id) => !state.interest.has(id));
+    const left = Array.from(state.interest).filter((id) => !nextInterest.has(id));
+    entered.forEach((id) => this.watchers.get(id)?.add(playerId));
+    left.forEach((id) => this.watchers.get(id)?.delete(playerId));
+    state.interest = nextInterest;
+
+    // 2. Who sees this player: anyone close enough for the largest viewport, plus current watchers
+    const maxExtent = this.getExtent(MAX_VIEWPORT, true);
+    const candidates = new Set(grid.queryRect(position.x, position.y, maxExtent.halfWidth, maxExtent.halfHeight));
+    const currentWatchers = this.watchers.get(playerId)!;
+    currentWatchers.forEach((id) => candidates.add(id));
+    candidates.delete(playerId);
+
+    const observersEntered: string[] = [];
+    const observersLeft: string[] = [];
+    for (const observerId of candidates) {
+      const observer = this.observers.get(observerId);
+      const observerPosition = grid.getPosition(observerId);
+      if (!observer || !observerPosition) continue;
+
+      const wasVisible = observer.interest.has(playerId);
+      const isVisible = this.isInView(observer, observerPosition, playerId, wasVisible);
+      if (isVisible && !wasVisible) {
+        observer.interest.add(playerId);
+        currentWatchers.add(observerId);
+        observersEntered.push(observerId);
+      } else if (!isVisible && wasVisible) {
+        observer.interest.delete(playerId);
+        currentWatchers.delete(observerId);
+        observersLeft.push(observerId);
+      }
+    }
+
+    return {
+      entered,
+      left,
+      observersEntered,
+      observersLeft,
+      observers: Array.from(currentWatchers),
+    };
+  }
+
+  private isInView(
+    observer: ObserverState,
+    observerPosition: { x: number; y: number },
+    targetId: string,
+    currentlyVisible: boolean
+  ): boolean {
+    const target = this.grids.get(observer.roomId)?.getPosition(targetId);
+    if (!target) return false;
+    const extent = this.getExtent(observer.viewport, currentlyVisible);
+    return Math.abs(target.x - observerPosition.x) <= extent.halfWidth &&
+      Math.abs(target.y - observerPosition.y) <= extent.halfHeight;
+  }
+
+  private getExtent(viewport: Viewport, withHysteresis: boolean): { halfWidth: number; halfHeight: number } {
+    const padding = INTEREST_MARGIN + (withHysteresis ? INTEREST_HYSTERESIS : 0);
+    return {
+      halfWidth: viewport.width / 2 + padding,
+      halfHeight: viewport.height / 2 + padding,
+    };
+  }
+
+  private normalizeViewport(viewport?: Viewport): Viewport {
+    const width = Number(viewport?.width);
+    const height = Number(viewport?.height);
+    if (!(width > 0) || !(height > 0)) {
+      return { ...DEFAULT_VIEWPORT };
+    }
+    return {
+      width: Math.min(width, MAX_VIEWPORT.width),
+      height: Math.min(height, MAX_VIEWPORT.height),
+    };
+  }
+
+  private emptyUpdate(): InterestUpdate {
+    return { entered: [], left: [], observersEntered: [], observersLeft: [], observers: [] };
+  }
+}
@@ -0,0 +1,306 @@
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export type RoomVisibility = 'public' | 'private';
+
+export interface WorldRoomData {
+  id: string;
+  roomId: string;
+  mapRoomId: string;
+  name: string;
+  description: string;
+  capacity: number;
+  visibility: RoomVisibility;
+  sortOrder: number;
+  archivedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// WorldRoom row as stored by Prisma (visibility is a plain string column)
+type WorldRoomRecord = Omit<WorldRoomData, 'visibility'> & { visibility: string };
+
+export interface WorldRoomInput {
+  name?: string;
+  description?: string;
+  capacity?: number;
+  visibility?: RoomVisibility;
+}
+
+export interface ListWorldRoomsOptions {
+  includePrivate?: boolean;
+  includeArchived?: boolean;
+}
+
+// World room IDs are 'Stargety-Oasis-N', their maps are stored under 'room_00N'
+const WORLD_ROOM_ID_PREFIX = 'Stargety-Oasis-';
+const MAP_ROOM_ID_PREFIX = 'room_';
+const DEFAULT_CAPACITY = 100;
+const MAX_CAPACITY = 1000;
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+const VISIBILITIES: ReadonlySet<string> = new Set(['public', 'private']);
+
+// Built-in rooms - seeded into an empty registry and used until the registry has loaded
+const DEFAULT_ROOMS: Array<Pick<WorldRoomData, 'roomId' | 'mapRoomId' | 'name' | 'description'>> = [
+  { roomId: 'Stargety-Oasis-1', mapRoomId: 'room_001', name: 'Stargety Oasis 1', description: 'Main gathering space with meeting rooms and lounges' },
+  { roomId: 'Stargety-Oasis-2', mapRoomId: 'room_002', name: 'Stargety Oasis 2', description: 'Secondary world space for collaborative work' },
+  { roomId: 'Stargety-Oasis-3', mapRoomId: 'room_003', name: 'Stargety Oasis 3', description: 'Tertiary world space for events and gatherings' },
+];
+
+/**
+ * Validate room settings from a request body. Returns an error message, or null if valid.
+ * With `requireName` the name must be present (creating a room).
+ */
+export function validateWorldRoomInput(input: unknown, requireName: boolean): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Invalid room settings';
+  }
+  const { name, description, capacity, visibility } = input as Record<string, unknown>;
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'Room name is required';
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return `Room name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return `Description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (capacity !== undefined && (!Number.isInteger(capacity) || (capacity as number) < 1 || (capacity as number) > MAX_CAPACITY)) {
+    return `Capacity must be a whole number between 1 and ${MAX_CAPACITY}`;
+  }
+  if (visibility !== undefined && (typeof visibility !== 'string' || !VISIBILITIES.has(visibility))) {
+    return 'Visibility must be "public" or "private"';
+  }
+  return null;
+}
+
+// ============================================================================
+// ROOM REGISTRY
+// ============================================================================
+
+/**
+ * RoomRegistry - World rooms (office floors) stored in the database
+ *
+ * Keeps an in-memory copy of every room so the world socket handlers can map
+ * room IDs and check capacity synchronously. The copy starts with the built-in
+ * rooms and is replaced by the database contents once initialize() has run.
+ */
+export class RoomRegistry {
+  private rooms: Map<string, WorldRoomData> = new Map();
+
+  constructor() {
+    const now = new Date();
+    DEFAULT_ROOMS.forEach((room, index) => {
+      this.rooms.set(room.roomId, {
+        ...room,
+        id: room.roomId,
+        capacity: DEFAULT_CAPACITY,
+        visibility: 'public',
+        sortOrder: index,
+        archivedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+  }
+
+  /**
+   * Load rooms from the database, seeding the built-in rooms into an empty registry
+   */
+  async initialize(): Promise<void> {
+    try {
+      const count = await prisma.worldRoom.count();
+      if (count === 0) {
+        await prisma.worldRoom.createMany({
+          data: DEFAULT_ROOMS.map((room, index) => ({ ...room, sortOrder: index })),
+          skipDuplicates: true,
+        });
+        logger.info(`[RoomRegistry] Seeded ${DEFAULT_ROOMS.length} default world rooms`);
+      }
+
+      const rooms = await prisma.worldRoom.findMany();
+      this.rooms = new Map(rooms.map((room) => [room.roomId, this.toRoomData(room)]));
+      logger.info(`[RoomRegistry] Loaded ${rooms.length} world rooms`);
+    } catch (error) {
+      logger.error('[RoomRegistry] Failed to load world rooms, using built-in rooms:', error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // LOOKUPS (in-memory)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get a room from the in-memory registry
+   */
+  getCachedRoom(roomId: string): WorldRoomData | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Get the map room ID for a world room (unknown IDs are assumed to already be map room IDs)
+   */
+  getMapRoomId(roomId: string): string {
+    return this.rooms.get(roomId)?.mapRoomId ?? roomId;
+  }
+
+  /**
+   * Get the world room ID for a world room or map room ID (unknown IDs are returned unchanged)
+   */
+  getWorldRoomId(roomId: string): string {
+    if (this.rooms.has(roomId)) {
+      return roomId;
+    }
+    for (const room of this.rooms.values()) {
+      if (room.mapRoomId === roomId) {
+        return room.roomId;
+      }
+    }
+    return roomId;
+  }
+
+  /**
+   * Check if a world room exists and is not archived
+   */
+  isJoinable(roomId: string): boolean {
+    const room = this.rooms.get(roomId);
+    return !!room && !room.archivedAt;
+  }
+
+  // --------------------------------------------------------------------------
+  // ROOM MANAGEMENT
+  // --------------------------------------------------------------------------
+
+  /**
+   * List world rooms, by default only public rooms that are not archived
+   */
+  async listRooms(options: ListWorldRoomsOptions = {}): Promise<WorldRoomData[]> {
+    let rooms: WorldRoomData[];
+    try {
+      const records = await prisma.worldRoom.findMany({
+        orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+      });
+      rooms = records.map((record) => this.cache(record));
+    } catch (error) {
+      logger.error('[RoomRegistry] Error listing world rooms, using cached rooms:', error);
+      rooms = Array.from(this.rooms.values()).sort((a, b) => a.sortOrder - b.sortOrder);
+    }
+
+    return rooms.filter((room) =>
+      (options.includeArchived || !room.archivedAt) &&
+      (options.includePrivate || room.visibility === 'public')
+    );
+  }
+
+  /**
+   * Get a world room by ID (including private and archived rooms)
+   */
+  async getRoom(roomId: string): Promise<WorldRoomData | null> {
+    try {
+      const record = await prisma.worldRoom.findUnique({ where: { roomId } });
+      return record ? this.cache(record) : null;
+    } catch (error) {
+      logger.error('[RoomRegistry] Error getting world room:', error);
+      return this.rooms.get(roomId) ?? null;
+    }
+  }
+
+  /**
+   * Create a world room with the next free room / map room ID
+   */
+  async createRoom(input: WorldRoomInput): Promise<WorldRoomData | null> {
+    try {
+      const existing = await prisma.worldRoom.findMany({ select: { roomId: true, mapRoomId: true, sortOrder: true } });
+      const nextNumber = existing.reduce((max, room) => {
+        const number = Number(room.roomId.startsWith(WORLD_ROOM_ID_PREFIX) ? room.roomId.slice(WORLD_ROOM_ID_PREFIX.length) : NaN);
+        return Number.isInteger(number) ? Math.max(max, number) : max;
+      }, 0) + 1;
+      const nextSortOrder = existing.reduce((max, room) => Math.max(max, room.sortOrder), -1) + 1;
+
+      const record = await prisma.worldRoom.create({
+        data: {
+          roomId: `${WORLD_ROOM_ID_PREFIX}${nextNumber}`,
+          mapRoomId: `${MAP_ROOM_ID_PREFIX}${String(nextNumber).padStart(3, '0')}`,
+          name: input.name!.trim(),
+          description: input.description?.trim() ?? '',
+          capacity: input.capacity ?? DEFAULT_CAPACITY,
+          visibility: input.visibility ?? 'public',
+          sortOrder: nextSortOrder,
+        },
+      });
+
+      logger.info(`[RoomRegistry] Created world room ${record.roomId} (${record.name})`);
+      return this.cache(record);
+    } catch (error) {
+      logger.error('[RoomRegistry] Error creating world room:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update (rename, resize, change visibility of) a world room
+   */
+  async updateRoom(roomId: string, input: WorldRoomInput): Promise<WorldRoomData | null> {
+    try {
+      const record = await prisma.worldRoom.update({
+        where: { roomId },
+        data: {
+          ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+          ...(input.description !== undefined ? { description: input.description.trim() } : {}),
+          ...(input.capacity !== undefined ? { capacity: input.capacity } : {}),
+          ...(input.visibility !== undefined ? { visibility: input.visibility } : {}),
+        },
+      });
+      return this.cache(record);
+    } catch (error) {
+      logger.error('[RoomRegistry] Error updating world room:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Archive (or restore) a world room. Archived rooms can't be joined; players
+   * already inside stay until they leave.
+   */
+  async setArchived(roomId: string, archived: boolean): Promise<WorldRoomData | null> {
+    try {
+      const record = await prisma.worldRoom.update({
+        where: { roomId },
+        data: { archivedAt: archived ? new Date() : null },
+      });
+      logger.info(`[RoomRegistry] ${archived ? 'Archived' : 'Restored'} world room ${roomId}`);
+      return this.cache(record);
+    } catch (error) {
+      logger.error('[RoomRegistry] Error archiving world room:', error);
+      return null;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // HELPERS
+  // --------------------------------------------------------------------------
+
+  private cache(record: WorldRoomRecord): WorldRoomData {
+    const room = this.toRoomData(record);
+    this.rooms.set(room.roomId, room);
+    return room;
+  }
+
+  private toRoomData(record: WorldRoomRecord): WorldRoomData {
+    return {
+      ...record,
+      visibility: record.visibility === 'private' ? 'private' : 'public',
+    };
+  }
+}
+
+// Export singleton instance
+export const roomRegistry = new RoomRegistry();
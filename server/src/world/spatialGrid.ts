@@ -0,0 +1,97 @@
+/**
+ * SpatialGrid - Uniform grid index of entity positions for fast range queries
+ *
+ * Entities are bucketed by cell so a rectangle query only touches the cells it
+ * overlaps instead of every entity in the room.
+ */
+export class SpatialGrid {
+  private cellSize: number;
+  private cells: Map<string, Set<string>> = new Map();
+  private positions: Map<string, { x: number; y: number; cellKey: string }> = new Map();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  private getCellKey(cellX: number, cellY: number): string {
+    return `${cellX}:${cellY}`;
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  /**
+   * Insert or move an entity
+   */
+  upsert(id: string, x: number, y: number): void {
+    const cellKey = this.getCellKey(this.toCell(x), this.toCell(y));
+    const existing = this.positions.get(id);
+
+    if (existing && existing.cellKey !== cellKey) {
+      this.removeFromCell(existing.cellKey, id);
+    }
+    if (!existing || existing.cellKey !== cellKey) {
+      if (!this.cells.has(cellKey)) {
+        this.cells.set(cellKey, new Set());
+      }
+      this.cells.get(cellKey)!.add(id);
+    }
+
+    this.positions.set(id, { x, y, cellKey });
+  }
+
+  /**
+   * Remove an entity
+   */
+  remove(id: string): void {
+    const existing = this.positions.get(id);
+    if (!existing) return;
+    this.removeFromCell(existing.cellKey, id);
+    this.positions.delete(id);
+  }
+
+  private removeFromCell(cellKey: string, id: string): void {
+    const cell = this.cells.get(cellKey);
+    if (!cell) return;
+    cell.delete(id);
+    if (cell.size === 0) {
+      this.cells.delete(cellKey);
+    }
+  }
+
+  getPosition(id: string): { x: number; y: number } | undefined {
+    const position = this.positions.get(id);
+    return position ? { x: position.x, y: position.y } : undefined;
+  }
+
+  /**
+   * Get all entity IDs whose position lies inside the rectangle centered on (x, y)
+   */
+  queryRect(x: number, y: number, halfWidth: number, halfHeight: number): string[] {
+    const minCellX = this.toCell(x - halfWidth);
+    const maxCellX = this.toCell(x + halfWidth);
+    const minCellY = this.toCell(y - halfHeight);
+    const maxCellY = this.toCell(y + halfHeight);
+    const result: string[] = [];
+
+    for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+      for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+        const cell = this.cells.get(this.getCellKey(cellX, cellY));
+        if (!cell) continue;
+        for (const id of cell) {
+          const position = this.positions.get(id)!;
+          if (Math.abs(position.x - x) <= halfWidth && Math.abs(position.y - y) <= halfHeight) {
+            result.push(id);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  get size(): number {
+    return this.positions.size;
+  }
+}
@@ -0,0 +1,184 @@
+import { MapData } from '../map/mapController';
+import { Point, PLAYER_SIZE, collidesWithImpassableAreas, findNearestWalkablePosition } from './collision';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * Spawn point / named destination as stored in Map.data.spawnPoints by the map editor
+ */
+interface SpawnPointShape {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isSpawn?: boolean;
+}
+
+/**
+ * Interactive area with actionType 'teleport' and its resolved destination
+ */
+export interface TeleportArea {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  destinationName: string;
+  targetRoomId?: string;
+}
+
+/**
+ * Interactive area with actionType 'portal' and its target room / position
+ */
+export interface PortalArea {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  targetRoomId: string;
+  targetX: number;
+  targetY: number;
+}
+
+// Candidate positions sampled inside a spawn area before giving up on a free one
+const SPAWN_SAMPLES = 24;
+
+// ============================================================================
+// MAP QUERIES
+// ============================================================================
+
+/**
+ * Get the valid spawn points / destinations of a map
+ */
+export function getSpawnPoints(mapData: MapData | null): SpawnPointShape[] {
+  const spawnPoints = (mapData?.spawnPoints || []) as SpawnPointShape[];
+  return spawnPoints.filter((point) =>
+    point && typeof point.name === 'string' &&
+    Number.isFinite(point.x) && Number.isFinite(point.y) &&
+    point.width > 0 && point.height > 0
+  );
+}
+
+/**
+ * Find a teleport area of the map by ID, or null if it does not exist or has no destination
+ */
+export function getTeleportArea(mapData: MapData | null, areaId: string): TeleportArea | null {
+  const areas = (mapData?.interactiveAreas || []) as Array<Partial<TeleportArea> & { actionType?: string; actionConfig?: unknown }>;
+  const area = areas.find((candidate) => candidate && candidate.id === areaId);
+  if (!area || area.actionType !== 'teleport' || !area.actionConfig || typeof area.actionConfig !== 'object') {
+    return null;
+  }
+
+  const config = area.actionConfig as { destinationName?: unknown; targetRoomId?: unknown };
+  if (typeof config.destinationName !== 'string' || !config.destinationName.trim()) {
+    return null;
+  }
+  return {
+    id: areaId,
+    x: Number(area.x) || 0,
+    y: Number(area.y) || 0,
+    width: Number(area.width) || 0,
+    height: Number(area.height) || 0,
+    destinationName: config.destinationName.trim(),
+    targetRoomId: typeof config.targetRoomId === 'string' && config.targetRoomId ? config.targetRoomId : undefined,
+  };
+}
+
+/**
+ * Find a portal area of the map by ID, or null if it does not exist or has no valid target
+ */
+export function getPortalArea(mapData: MapData | null, areaId: string): PortalArea | null {
+  const areas = (mapData?.interactiveAreas || []) as Array<Partial<PortalArea> & { actionType?: string; actionConfig?: unknown }>;
+  const area = areas.find((candidate) => candidate && candidate.id === areaId);
+  if (!area || area.actionType !== 'portal' || !area.actionConfig || typeof area.actionConfig !== 'object') {
+    return null;
+  }
+
+  const config = area.actionConfig as { targetRoomId?: unknown; targetX?: unknown; targetY?: unknown };
+  const targetX = Number(config.targetX);
+  const targetY = Number(config.targetY);
+  if (typeof config.targetRoomId !== 'string' || !config.targetRoomId || !Number.isFinite(targetX) || !Number.isFinite(targetY)) {
+    return null;
+  }
+  return {
+    id: areaId,
+    x: Number(area.x) || 0,
+    y: Number(area.y) || 0,
+    width: Number(area.width) || 0,
+    height: Number(area.height) || 0,
+    targetRoomId: config.targetRoomId,
+    targetX,
+    targetY,
+  };
+}
+
+/**
+ * Pick a walkable position inside a spawn area that does not overlap another player.
+ * Falls back to the nearest walkable position to the area center when it is full.
+ */
+function findFreePositionInArea(
+  mapData: MapData | null,
+  area: SpawnPointShape,
+  occupied: Point[],
+  playerSize: number
+): Point {
+  const padding = playerSize / 2;
+  const isFree = (candidate: Point) =>
+    !collidesWithImpassableAreas(mapData, candidate.x, candidate.y, playerSize) &&
+    occupied.every((other) => Math.abs(other.x - candidate.x) >= playerSize || Math.abs(other.y - candidate.y) >= playerSize);
+
+  const center = { x: area.x + area.width / 2, y: area.y + area.height / 2 };
+  if (isFree(center)) {
+    return center;
+  }
+
+  const spanX = Math.max(0, area.width - playerSize);
+  const spanY = Math.max(0, area.height - playerSize);
+  for (let i = 0; i < SPAWN_SAMPLES; i++) {
+    const candidate = {
+      x: area.x + padding + Math.random() * spanX,
+      y: area.y + padding + Math.random() * spanY,
+    };
+    if (isFree(candidate)) {
+      return candidate;
+    }
+  }
+
+  return findNearestWalkablePosition(mapData, center.x, center.y, playerSize);
+}
+
+/**
+ * Choose where a new player spawns: a random spawn point of the map (isSpawn),
+ * avoiding other players. Returns null when the map defines no spawn points.
+ */
+export function findSpawnPosition(mapData: MapData | null, occupied: Point[], playerSize: number = PLAYER_SIZE): Point | null {
+  const spawns = getSpawnPoints(mapData).filter((point) => point.isSpawn !== false);
+  if (spawns.length === 0) {
+    return null;
+  }
+  const area = spawns[Math.floor(Math.random() * spawns.length)];
+  return findFreePositionInArea(mapData, area, occupied, playerSize);
+}
+
+/**
+ * Resolve a named destination of the map to a free position. Returns null when no
+ * spawn point / destination with that name exists.
+ */
+export function findDestinationPosition(
+  mapData: MapData | null,
+  destinationName: string,
+  occupied: Point[],
+  playerSize: number = PLAYER_SIZE
+): Point | null {
+  const name = destinationName.trim().toLowerCase();
+  const area = getSpawnPoints(mapData).find((point) => point.name.trim().toLowerCase() === name);
+  if (!area) {
+    return null;
+  }
+  return findFreePositionInArea(mapData, area, occupied, playerSize);
+}
@@ -1,7 +1,94 @@
 import { Socket, Server } from 'socket.io';
-import { WorldPlayer, Room, AvatarSyncData } from '../types';
+import { WorldPlayer, Room, AvatarSyncData, FacingDirection, MotionAnimation, PlayerAction } from '../types';
 import { logger } from '../utils/logger';
 import { characterController } from '../character/characterController';
+import { settingsController } from '../settings/settingsController';
+import { MapController, MapData } from '../map/mapController';
+import { Point, PLAYER_SIZE, AreaCollisionStates, clampToWorld, collidesWithImpassableAreas, findNearestWalkablePosition, isReachable } from './collision';
+import { roomRegistry } from './roomRegistry';
+import { getSocketUser } from '../auth/authMiddleware';
+import { guestService } from '../auth/guestService';
+import { findDestinationPosition, findSpawnPosition, getPortalArea, getTeleportArea, PortalArea, TeleportArea } from './spawnPoints';
+import { InterestManager, InterestUpdate, Viewport } from './interestManager';
+import { AreaStateManager, getCollectibleArea, getSwitchArea } from './areaState';
+
+// Movement validation limits
+// Walking is 4px/frame at 60fps (240px/s); directional jumps cover 120px in 300ms,
+// so allow twice the walking speed before a move is considered a speed hack.
+const MAX_MOVE_SPEED = 480; // px per second
+// Budget cap absorbs bunched packets from network jitter without allowing teleports
+const MAX_MOVE_BURST = 240; // px
+// Minimum time between explicit (double-click) teleports
+const TELEPORT_COOLDOWN_MS = 1000;
+// How far a double-click teleport may go - only to points walkable from the current position
+const MAX_TELEPORT_DISTANCE = 960; // px
+// Clients send moves at 15 Hz; anything well above that is dropped
+const MAX_MOVE_MESSAGES_PER_SECOND = 30;
+// How far outside a teleport / portal area a player may be when stepping into it (client/server drift)
+const TELEPORT_AREA_TOLERANCE = 64; // px
+// Minimum time between player actions (local fire cooldown is 200ms)
+const ACTION_COOLDOWN_MS = 150;
+// Minimum time between switch / collectible uses per player (entering an area fires once per entry)
+const AREA_USE_COOLDOWN_MS = 500;
+
+const FACING_DIRECTIONS: ReadonlySet<string> = new Set(['up', 'down', 'left', 'right']);
+const MOTION_ANIMATIONS: ReadonlySet<string> = new Set(['idle', 'walk_up', 'walk_down', 'walk_left', 'walk_right']);
+const JUMP_DIRECTIONS: ReadonlySet<string> = new Set(['left', 'right', 'none']);
+
+// World state sync - dirty players are batched into one snapshot per observer per tick
+const TICK_RATE = Number(process.env.WORLD_TICK_RATE) || 15; // ticks per second
+// How often moved players' positions are saved for registered users (also saved on disconnect)
+const POSITION_FLUSH_INTERVAL_MS = Number(process.env.WORLD_POSITION_FLUSH_MS) || 10000;
+const POSITION_FLUSH_EVERY_TICKS = Math.max(1, Math.round((POSITION_FLUSH_INTERVAL_MS * TICK_RATE) / 1000));
+
+// Per-player movement budget (token bucket refilled at MAX_MOVE_SPEED) and message rate window
+interface MovementState {
+  budget: number;
+  lastRefill: number;
+  lastTeleport: number;
+  messageWindowStart: number;
+  messageCount: number;
+  lastAction: number;
+  lastAreaUse: number;
+}
+
+// Replicated player fields, as last sent to an observer
+interface PlayerNetState {
+  x: number;
+  y: number;
+  direction: FacingDirection;
+  animation: MotionAnimation;
+  rotating: boolean;
+}
+
+// Snapshot stream to one observer: sequence counter and per-player baselines for delta compression
+interface SnapshotStream {
+  seq: number;
+  baselines: Map<string, PlayerNetState>;
+}
+
+// One player's entry in a world:snapshot - only fields that changed since the observer's baseline
+export interface SnapshotEntry {
+  id: string;
+  x?: number;
+  y?: number;
+  direction?: FacingDirection;
+  animation?: MotionAnimation;
+  rotating?: boolean;
+  teleport?: true;
+  // Discrete actions since the last tick (not delta-compressed)
+  actions?: PlayerAction[];
+}
+
+export interface WorldSnapshot {
+  roomId: string;
+  seq: number;
+  tick: number;
+  serverTime: number;
+  players: SnapshotEntry[];
+}
+
+export type PositionCorrectionReason = 'out_of_bounds' | 'collision' | 'speed' | 'teleport_cooldown' | 'unreachable' | 'restored' | 'spawn' | 'teleport';
 
 // In-memory storage for world state
 const worldRooms: Map<string, Room> = new Map();
@@ -9,34 +96,122 @@ const players: Map<string, WorldPlayer> = new Map();
 const roomPlayers: Map<string, Set<string>> = new Map();
 // Socket-to-player mapping for proper disconnect handling
 const socketPlayerMap: Map<string, string> = new Map();
+// Player-to-socket mapping for targeted (area-of-interest) emits
+const playerSocketMap: Map<string, string> = new Map();
+// Map data per map room ID (null = no map stored, use defaults)
+const roomMaps: Map<string, MapData | null> = new Map();
+const movementStates: Map<string, MovementState> = new Map();
+// Spatial interest management - who can see whom
+const interestManager = new InterestManager();
+// Players whose state changed since the last tick, per room
+const dirtyPlayers: Map<string, Set<string>> = new Map();
+// Players that teleported since the last tick (observers snap instead of interpolating)
+const teleportedPlayers: Set<string> = new Set();
+// Actions performed since the last tick, per player
+const pendingActions: Map<string, PlayerAction[]> = new Map();
+const snapshotStreams: Map<string, SnapshotStream> = new Map();
+// Registered users' account IDs (players without one are guests and not persisted)
+const playerAccounts: Map<string, string> = new Map();
+// World room each invited guest is limited to
+const guestRooms: Map<string, string> = new Map();
+// Players whose position changed since the last save
+const unsavedPositions: Set<string> = new Set();
 
 export class WorldController {
   private io: Server;
+  private mapController: MapController;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private tickCount: number = 0;
+  private isFlushingPositions: boolean = false;
+  private areaStates: AreaStateManager;
 
-  constructor(io: Server) {
+  constructor(io: Server, mapController: MapController) {
     this.io = io;
+    this.mapController = mapController;
+    this.areaStates = new AreaStateManager((roomId) => this.broadcastAreaState(roomId));
+
+    // Keep collision data in sync with map editor saves
+    this.mapController.onMapChanged((mapRoomId, mapData) => {
+      if (roomMaps.has(mapRoomId)) {
+        roomMaps.set(mapRoomId, mapData);
+        logger.info(`[WorldController] Refreshed collision data for map ${mapRoomId}`);
+      }
+
+      // Switches and collectibles may have changed - start the rooms on this map over
+      worldRooms.forEach((_room, roomId) => {
+        if (roomRegistry.getMapRoomId(roomId) === mapRoomId && this.areaStates.hasRoom(roomId)) {
+          this.areaStates.reset(roomId);
+          this.broadcastAreaState(roomId);
+        }
+      });
+    });
+
+    this.start();
+  }
+
+  /**
+   * Start the world tick loop (idempotent)
+   */
+  start(): void {
+    if (this.tickTimer) return;
+    this.tickTimer = setInterval(() => this.tick(), 1000 / TICK_RATE);
+    logger.info(`[WorldController] World tick loop started at ${TICK_RATE} Hz`);
+  }
+
+  /**
+   * Stop the world tick loop and save unsaved positions
+   */
+  async stop(): Promise<void> {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.areaStates.clear();
+    await this.flushPositions();
   }
 
   // Handle player joining world
-  async handlePlayerJoinedWorld(socket: Socket, data: { playerId: string; x: number; y: number; roomId: string; name?: string; avatarData?: AvatarSyncData }) {
-    const { playerId, x, y, roomId, name, avatarData } = data;
+  async handlePlayerJoinedWorld(socket: Socket, data: { playerId: string; x: number; y: number; roomId: string; name?: string; avatarData?: AvatarSyncData; viewport?: Viewport }) {
+    const { playerId, x, y, roomId, name, avatarData, viewport } = data;
+
+    // Players join as the account their socket authenticated as
+    const user = getSocketUser(socket);
+    if (!user || playerId !== user.username) {
+      logger.warn(`[WorldController] Socket ${socket.id} tried to join as ${playerId} (authenticated as ${user?.username})`);
+      socket.emit('error', { message: 'Player does not match the authenticated user' });
+      return;
+    }
+
+    // Guests stay in the room they were invited to
+    const guest = await guestService.getGuest(user.id);
+    if (guest) {
+      guestRooms.set(playerId, guest.roomId);
+    } else {
+      guestRooms.delete(playerId);
+    }
+
+    // Archived or full rooms can't be joined (reconnecting players keep their spot)
+    const entryError = this.getRoomEntryError(roomId, playerId);
+    if (entryError) {
+      logger.warn(`[WorldController] Player ${playerId} could not join ${roomId}: ${entryError}`);
+      socket.emit('error', { message: entryError });
+      return;
+    }
 
     // Track socket-to-player mapping for disconnect handling
+    const previousSocketId = playerSocketMap.get(playerId);
     socketPlayerMap.set(socket.id, playerId);
+    playerSocketMap.set(playerId, socket.id);
     logger.info(`[WorldController] Socket ${socket.id} mapped to player ${playerId}`);
 
+    // Reconnecting before the old socket timed out - keep the position the client reports
+    const isResuming = players.get(playerId)?.roomId === roomId;
+
     // Create world room if it doesn't exist
-    if (!worldRooms.has(roomId)) {
-      worldRooms.set(roomId, {
-        id: roomId,
-        name: `World ${roomId}`,
-        type: 'world',
-        participants: [],
-        createdAt: new Date(),
-        isPrivate: false
-      });
-      roomPlayers.set(roomId, new Set());
-    }
+    this.ensureRoom(roomId);
+
+    // Load the room's map so moves can be validated against real collision data
+    const mapData = await this.loadRoomMap(roomId);
 
     // Determine avatar data: use provided or fall back to DB
     let finalAvatarData: AvatarSyncData | undefined = avatarData;
@@ -51,79 +226,383 @@ export class WorldController {
       }
     }
 
+    // Users resume where they left this room
+    const savedPosition = await settingsController.getUserRoomPosition(user.id, roomId);
+
+    // Disconnected while loading - handleDisconnect found no player to remove, so don't add one
+    if (!socket.connected) {
+      socketPlayerMap.delete(socket.id);
+      if (playerSocketMap.get(playerId) === socket.id) {
+        playerSocketMap.delete(playerId);
+        guestRooms.delete(playerId);
+      }
+      return;
+    }
+    // Everyone else starts at one of the map's spawn points (if it defines any)
+    const spawnPosition = savedPosition || isResuming ? null : findSpawnPosition(mapData, this.getOccupiedPositions(roomId, playerId));
+    const requested = savedPosition ?? spawnPosition ?? { x: Number(x) || 0, y: Number(y) || 0 };
+
+    // The map may have changed since - never spawn inside a wall or outside the world
+    const position = findNearestWalkablePosition(mapData, requested.x, requested.y, PLAYER_SIZE, this.getCollisionStates(roomId, mapData));
+    const direction = savedPosition && FACING_DIRECTIONS.has(savedPosition.direction)
+      ? savedPosition.direction as FacingDirection
+      : 'down';
+
     // Create or update player with avatar data
     // Use provided display name, or fall back to playerId
     const displayName = name || playerId;
     const player: WorldPlayer = {
       id: playerId,
       name: displayName,
-      x: this.clampPosition(x, 'x'),
-      y: this.clampPosition(y, 'y'),
+      x: position.x,
+      y: position.y,
       roomId,
       lastMoved: new Date(),
-      avatarData: finalAvatarData
+      avatarData: finalAvatarData,
+      direction,
+      animation: 'idle',
+      rotating: false,
+      isGuest: !!guest
     };
 
+    // Joining another room while still in one - leave it, or the player stays behind in it
+    const previous = players.get(playerId);
+    if (previous && previous.roomId !== roomId) {
+      this.savePositions([previous]);
+      this.removeFromRoom(playerId, previous.roomId);
+      socket.leave(previous.roomId);
+      if (previousSocketId && previousSocketId !== socket.id) {
+        this.io.sockets.sockets.get(previousSocketId)?.leave(previous.roomId);
+      }
+      dirtyPlayers.get(previous.roomId)?.delete(playerId);
+    }
+
     players.set(playerId, player);
+    if (!guest) {
+      playerAccounts.set(playerId, user.id);
+    }
+    movementStates.set(playerId, this.createMovementState());
+    // Fresh connection - the client starts a new snapshot stream
+    snapshotStreams.set(playerId, { seq: 0, baselines: new Map() });
 
     // Add player to room
-    const room = worldRooms.get(roomId)!;
-    if (!room.participants.includes(playerId)) {
-      room.participants.push(playerId);
-    }
-    roomPlayers.get(roomId)!.add(playerId);
+    this.addToRoom(playerId, roomId);
 
     // Join socket room
     socket.join(roomId);
 
-    // Notify other players with avatar data
-    socket.to(roomId).emit('player-joined', {
-      playerId,
-      x: player.x,
-      y: player.y,
-      name: player.name,
-      avatarData: player.avatarData
-    });
+    // Re-joining (reconnect) - drop the stale entry from whoever could see it
+    this.emitPlayerLeft(interestManager.removePlayer(playerId), playerId, 'player-left');
+    const interest = interestManager.addPlayer(roomId, playerId, player.x, player.y, viewport);
 
-    // Send current players to new player (with their avatar data)
-    const currentPlayers = Array.from(roomPlayers.get(roomId)!)
-      .filter(id => id !== playerId)
-      .map(id => players.get(id))
-      .filter(p => p !== undefined);
+    // Notify nearby players with avatar data
+    this.emitPlayerState(interest.observersEntered, player, 'player-joined');
 
-    socket.emit('world-state', {
-      players: currentPlayers,
-      roomId
-    });
+    // Send players within view to new player (with their avatar data)
+    this.sendWorldState(socket, playerId, roomId, interest.entered);
+
+    // Tell the client if its requested spawn was replaced or adjusted
+    if (player.x !== x || player.y !== y || savedPosition) {
+      const reason: PositionCorrectionReason = savedPosition ? 'restored' : spawnPosition ? 'spawn' : 'out_of_bounds';
+      this.sendPositionCorrection(socket, player, reason);
+    }
 
-    console.log(`Player ${playerId} joined world room: ${roomId} at (${x}, ${y})`);
+    console.log(`Player ${playerId} joined world room: ${roomId} at (${player.x}, ${player.y})`);
   }
 
   // Handle player movement
-  handlePlayerMoved(socket: Socket, data: { playerId: string; x: number; y: number; roomId: string }) {
+  handlePlayerMoved(socket: Socket, data: { playerId: string; x: number; y: number; roomId: string; direction?: FacingDirection; animation?: MotionAnimation }) {
+    const { playerId, x, y, roomId, direction, animation } = data;
+
+    const player = this.getOwnedPlayer(socket, playerId, roomId);
+    if (!player) {
+      return;
+    }
+
+    // Drop floods silently - the next accepted move still carries the latest position
+    if (!this.allowMoveMessage(playerId)) {
+      logger.debug(`[WorldController] Dropped move for ${playerId}: message rate exceeded`);
+      return;
+    }
+
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      this.sendPositionCorrection(socket, player, 'out_of_bounds');
+      return;
+    }
+
+    const mapData = this.getRoomMap(roomId);
+
+    // Clamp to the room's real world dimensions
+    const target = clampToWorld(mapData, x, y);
+    const wasClamped = target.x !== x || target.y !== y;
+
+    // Reject moves that end inside walls (switches may have opened some)
+    if (collidesWithImpassableAreas(mapData, target.x, target.y, PLAYER_SIZE, this.getCollisionStates(roomId, mapData))) {
+      this.sendPositionCorrection(socket, player, 'collision');
+      return;
+    }
+
+    // Reject moves faster than the movement budget allows
+    const distance = Math.hypot(target.x - player.x, target.y - player.y);
+    if (!this.consumeMovementBudget(playerId, distance)) {
+      logger.warn(`[WorldController] Rejected move for ${playerId}: ${distance.toFixed(1)}px exceeds speed limit`);
+      this.sendPositionCorrection(socket, player, 'speed');
+      return;
+    }
+
+    // Facing and animation are cosmetic - ignore unknown values instead of rejecting the move
+    if (direction && FACING_DIRECTIONS.has(direction)) {
+      player.direction = direction;
+    }
+    if (animation && MOTION_ANIMATIONS.has(animation)) {
+      player.animation = animation;
+    }
+
+    this.applyMove(player, target.x, target.y);
+
+    if (wasClamped) {
+      this.sendPositionCorrection(socket, player, 'out_of_bounds');
+    }
+  }
+
+  // Handle explicit teleport (double-click) - validated for walkability and reach, not speed
+  handlePlayerTeleport(socket: Socket, data: { playerId: string; x: number; y: number; roomId: string }) {
     const { playerId, x, y, roomId } = data;
 
-    const player = players.get(playerId);
-    if (!player || player.roomId !== roomId) {
-      socket.emit('error', { message: 'Player not found in room' });
+    const player = this.getOwnedPlayer(socket, playerId, roomId);
+    if (!player) {
+      return;
+    }
+
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      this.sendPositionCorrection(socket, player, 'out_of_bounds');
       return;
     }
 
-    // Validate and clamp position
-    const newX = this.clampPosition(x, 'x');
-    const newY = this.clampPosition(y, 'y');
+    const state = movementStates.get(playerId);
+    const now = Date.now();
+    if (state && now - state.lastTeleport < TELEPORT_COOLDOWN_MS) {
+      this.sendPositionCorrection(socket, player, 'teleport_cooldown');
+      return;
+    }
 
-    // Update player position
-    player.x = newX;
-    player.y = newY;
-    player.lastMoved = new Date();
+    const mapData = this.getRoomMap(roomId);
+    const target = clampToWorld(mapData, x, y);
+    const collisionStates = this.getCollisionStates(roomId, mapData);
+    if (collidesWithImpassableAreas(mapData, target.x, target.y, PLAYER_SIZE, collisionStates)) {
+      this.sendPositionCorrection(socket, player, 'collision');
+      return;
+    }
+
+    // Only to places the player could walk to from here - never through walls
+    if (!isReachable(mapData, player, target, MAX_TELEPORT_DISTANCE, PLAYER_SIZE, collisionStates)) {
+      logger.warn(`[WorldController] Rejected teleport for ${playerId}: (${Math.round(target.x)}, ${Math.round(target.y)}) is not reachable`);
+      this.sendPositionCorrection(socket, player, 'unreachable');
+      return;
+    }
+
+    if (state) {
+      state.lastTeleport = now;
+    }
+    this.applyMove(player, target.x, target.y, true);
+
+    if (target.x !== x || target.y !== y) {
+      this.sendPositionCorrection(socket, player, 'out_of_bounds');
+    }
+  }
+
+  // Handle a player stepping into a teleport area - the destination comes from the server's copy of the map
+  async handlePlayerTeleportToDestination(socket: Socket, data: { playerId: string; roomId: string; areaId: string }) {
+    const player = this.getOwnedPlayer(socket, data.playerId, data.roomId);
+    if (!player) {
+      return;
+    }
+
+    const area = typeof data.areaId === 'string' ? getTeleportArea(this.getRoomMap(player.roomId), data.areaId) : null;
+    if (!area) {
+      logger.warn(`[WorldController] Rejected teleport for ${player.id}: ${data.areaId} is not a teleport area`);
+      return;
+    }
+
+    const targetRoomId = area.targetRoomId ?? player.roomId;
+    await this.moveThroughArea(socket, player, area, targetRoomId, (mapData) => {
+      const destination = findDestinationPosition(mapData, area.destinationName, this.getOccupiedPositions(targetRoomId, player.id));
+      if (!destination) {
+        logger.warn(`[WorldController] Teleport area ${area.id} points to missing destination "${area.destinationName}" in ${targetRoomId}`);
+      }
+      return destination;
+    }, area.destinationName);
+  }
+
+  // Handle a player walking into a portal area - moves them to the portal's target room and position
+  async handlePlayerPortal(socket: Socket, data: { playerId: string; roomId: string; areaId: string }) {
+    const player = this.getOwnedPlayer(socket, data.playerId, data.roomId);
+    if (!player) {
+      return;
+    }
+
+    const area = typeof data.areaId === 'string' ? getPortalArea(this.getRoomMap(player.roomId), data.areaId) : null;
+    if (!area) {
+      logger.warn(`[WorldController] Rejected portal for ${player.id}: ${data.areaId} is not a portal area`);
+      return;
+    }
+
+    // The target map may have changed since the portal was placed - never arrive inside a wall
+    await this.moveThroughArea(socket, player, area, area.targetRoomId, (mapData) =>
+      findNearestWalkablePosition(mapData, area.targetX, area.targetY, PLAYER_SIZE, this.getCollisionStates(area.targetRoomId, mapData))
+    );
+  }
+
+  // Handle a player walking onto a switch - toggles its targets for everyone in the room
+  handlePlayerSwitch(socket: Socket, data: { playerId: string; roomId: string; areaId: string }) {
+    const player = this.getOwnedPlayer(socket, data.playerId, data.roomId);
+    if (!player) {
+      return;
+    }
+
+    const mapData = this.getRoomMap(player.roomId);
+    const area = typeof data.areaId === 'string' ? getSwitchArea(mapData, data.areaId) : null;
+    if (!area) {
+      logger.warn(`[WorldController] Rejected switch for ${player.id}: ${data.areaId} is not a switch area`);
+      return;
+    }
+    if (!this.isNearArea(player, area)) {
+      logger.warn(`[WorldController] Rejected switch for ${player.id}: not inside area ${area.id}`);
+      return;
+    }
+    if (!this.allowAreaUse(player.id)) {
+      return;
+    }
+
+    const targets = this.areaStates.toggleSwitch(player.roomId, mapData, area);
+    this.emitToPlayers(Array.from(roomPlayers.get(player.roomId) ?? []), 'switch-toggled', {
+      roomId: player.roomId,
+      areaId: area.id,
+      playerId: player.id,
+      targets,
+    });
+    this.broadcastAreaState(player.roomId);
+
+    logger.info(`[WorldController] Player ${player.id} toggled switch ${area.id} in ${player.roomId}`);
+  }
+
+  // Handle a player walking onto a collectible - consumables disappear for everyone until they respawn
+  handlePlayerCollect(socket: Socket, data: { playerId: string; roomId: string; areaId: string }) {
+    const player = this.getOwnedPlayer(socket, data.playerId, data.roomId);
+    if (!player) {
+      return;
+    }
+
+    const mapData = this.getRoomMap(player.roomId);
+    const area = typeof data.areaId === 'string' ? getCollectibleArea(mapData, data.areaId) : null;
+    if (!area) {
+      logger.warn(`[WorldController] Rejected collect for ${player.id}: ${data.areaId} is not a collectible area`);
+      return;
+    }
+    if (!this.isNearArea(player, area)) {
+      logger.warn(`[WorldController] Rejected collect for ${player.id}: not inside area ${area.id}`);
+      return;
+    }
+    if (!this.areaStates.isAvailable(player.roomId, area.id)) {
+      logger.debug(`[WorldController] Collectible ${area.id} in ${player.roomId} was already collected`);
+      return;
+    }
+    if (!this.allowAreaUse(player.id)) {
+      return;
+    }
+
+    if (area.consumable) {
+      this.areaStates.collect(player.roomId, mapData, area, player.id);
+      this.broadcastAreaState(player.roomId);
+    }
 
-    // Broadcast movement to other players in the room
-    socket.to(roomId).emit('player-moved', {
-      playerId,
-      x: newX,
-      y: newY
+    // Only the collector gets the effect
+    socket.emit('collectible-collected', {
+      roomId: player.roomId,
+      areaId: area.id,
+      effectType: area.effectType,
+      effectValue: area.effectValue,
+      effectDuration: area.effectDuration,
+      consumable: area.consumable,
     });
+
+    logger.info(`[WorldController] Player ${player.id} collected ${area.id} in ${player.roomId}`);
+  }
+
+  // Handle a player action (jump / fire / rotation toggle) - relayed to observers with the next snapshot
+  handlePlayerAction(socket: Socket, data: { playerId: string; roomId: string; action: PlayerAction }) {
+    const player = this.getOwnedPlayer(socket, data.playerId, data.roomId);
+    if (!player) {
+      return;
+    }
+
+    const action = this.parseAction(data.action);
+    if (!action) {
+      logger.debug(`[WorldController] Ignored invalid action from ${player.id}`);
+      return;
+    }
+
+    const state = movementStates.get(player.id) ?? this.createMovementState();
+    movementStates.set(player.id, state);
+    const now = Date.now();
+    if (now - state.lastAction < ACTION_COOLDOWN_MS) {
+      return;
+    }
+    state.lastAction = now;
+
+    if (action.type === 'rotate') {
+      // Rotation is ongoing state so players that come into view later still see it
+      player.rotating = action.active;
+    } else {
+      if (!pendingActions.has(player.id)) {
+        pendingActions.set(player.id, []);
+      }
+      pendingActions.get(player.id)!.push(action);
+    }
+    this.markDirty(player, false);
+  }
+
+  // Handle avatar change (character switch) - update the player and show it to everyone who can see them
+  async handlePlayerAvatarUpdated(socket: Socket, data: { playerId: string; roomId: string; avatarData?: AvatarSyncData }) {
+    const player = this.getOwnedPlayer(socket, data.playerId, data.roomId);
+    if (!player) {
+      return;
+    }
+
+    // Fall back to the stored active character when the client sent nothing usable
+    let avatarData = this.parseAvatarData(data.avatarData);
+    if (!avatarData) {
+      logger.debug(`[WorldController] No usable avatarData from ${player.id}, loading active character from DB`);
+      avatarData = await characterController.getActiveCharacterAvatarSync(player.id);
+    }
+    if (!avatarData) {
+      logger.warn(`[WorldController] Avatar update for ${player.id} ignored: no avatar data available`);
+      return;
+    }
+
+    // The player may have left while the avatar was loading
+    if (players.get(player.id) !== player) {
+      return;
+    }
+
+    player.avatarData = avatarData;
+    this.emitToPlayers(interestManager.getObservers(player.id), 'player-avatar-updated', {
+      playerId: player.id,
+      avatarData
+    });
+
+    logger.info(`[WorldController] Player ${player.id} switched avatar to ${avatarData.characterName}`);
+  }
+
+  // Handle viewport (camera) size reported by the client - drives its area of interest
+  handlePlayerViewport(socket: Socket, data: { playerId: string; roomId: string; width: number; height: number }) {
+    const player = this.getOwnedPlayer(socket, data.playerId, data.roomId);
+    if (!player) {
+      return;
+    }
+
+    const interest = interestManager.setViewport(player.id, { width: data.width, height: data.height });
+    this.emitOwnInterestChanges(player.id, interest);
   }
 
   // Handle player disconnect - looks up playerId from socket mapping
@@ -135,46 +614,644 @@ export class WorldController {
       return;
     }
 
+    socketPlayerMap.delete(socket.id);
+
+    // A newer socket already took over this player (reconnect) - keep the player
+    if (playerSocketMap.get(playerId) !== socket.id) {
+      logger.debug(`[WorldController] Stale socket ${socket.id} disconnected for player ${playerId}`);
+      return;
+    }
+
     const player = players.get(playerId);
     if (player) {
       const { roomId } = player;
 
-      // Remove player from room
-      if (roomPlayers.has(roomId)) {
-        roomPlayers.get(roomId)!.delete(playerId);
-      }
+      // Save where a registered user left off
+      this.savePositions([player]);
 
-      if (worldRooms.has(roomId)) {
-        const room = worldRooms.get(roomId)!;
-        room.participants = room.participants.filter(p => p !== playerId);
-      }
+      // Remove player from room
+      this.removeFromRoom(playerId, roomId);
 
       // Remove player
       players.delete(playerId);
+      movementStates.delete(playerId);
+      playerSocketMap.delete(playerId);
+      snapshotStreams.delete(playerId);
+      dirtyPlayers.get(roomId)?.delete(playerId);
+      teleportedPlayers.delete(playerId);
+      pendingActions.delete(playerId);
+      playerAccounts.delete(playerId);
+      guestRooms.delete(playerId);
+      unsavedPositions.delete(playerId);
 
-      // Clean up socket-to-player mapping
-      socketPlayerMap.delete(socket.id);
-
-      // Notify other players
-      socket.to(roomId).emit('player-left', { playerId });
+      // Notify players that could see them
+      this.emitPlayerLeft(interestManager.removePlayer(playerId), playerId, 'player-left');
 
       logger.info(`[WorldController] Player ${playerId} left world room: ${roomId}`);
     }
   }
 
-  // Clamp position to world boundaries
-  private clampPosition(value: number, axis: 'x' | 'y'): number {
-    const worldWidth = 800;
-    const worldHeight = 600;
-    const padding = 16;
+  /**
+   * Move a player that stepped into a teleport / portal area, within its room or into another one.
+   * Checks the player is actually at the area and respects the teleport cooldown.
+   */
+  private async moveThroughArea(
+    socket: Socket,
+    player: WorldPlayer,
+    area: TeleportArea | PortalArea,
+    targetRoomId: string,
+    resolveTarget: (mapData: MapData | null) => Point | null,
+    destinationName?: string
+  ): Promise<void> {
+    if (!this.isNearArea(player, area)) {
+      logger.warn(`[WorldController] Rejected area move for ${player.id}: not inside area ${area.id}`);
+      return;
+    }
+    if (targetRoomId !== player.roomId) {
+      if (!roomRegistry.isJoinable(targetRoomId)) {
+        logger.warn(`[WorldController] Rejected area move for ${player.id}: unknown or archived room ${targetRoomId}`);
+        return;
+      }
+      const entryError = this.getRoomEntryError(targetRoomId, player.id);
+      if (entryError) {
+        socket.emit('error', { message: entryError });
+        return;
+      }
+    }
+
+    const state = movementStates.get(player.id);
+    const now = Date.now();
+    if (state && now - state.lastTeleport < TELEPORT_COOLDOWN_MS) {
+      this.sendPositionCorrection(socket, player, 'teleport_cooldown');
+      return;
+    }
+
+    const sourceRoomId = player.roomId;
+    const mapData = await this.loadRoomMap(targetRoomId);
+    // The player may have left (or already moved rooms) while the map was loading
+    if (players.get(player.id) !== player || player.roomId !== sourceRoomId) {
+      return;
+    }
+
+    const target = resolveTarget(mapData);
+    if (!target) {
+      return;
+    }
 
-    if (axis === 'x') {
-      return Math.max(padding, Math.min(worldWidth - padding, value));
+    if (state) {
+      state.lastTeleport = now;
+    }
+
+    if (targetRoomId === sourceRoomId) {
+      this.applyMove(player, target.x, target.y, true);
     } else {
-      return Math.max(padding, Math.min(worldHeight - padding, value));
+      this.transferPlayer(socket, player, targetRoomId, target.x, target.y, destinationName);
+    }
+    this.sendPositionCorrection(socket, player, 'teleport');
+
+    logger.info(`[WorldController] Player ${player.id} moved through area ${area.id} to ${targetRoomId} (${Math.round(target.x)}, ${Math.round(target.y)})`);
+  }
+
+  /**
+   * Switch targets of a room that are passable or walls right now
+   */
+  private getCollisionStates(roomId: string, mapData: MapData | null): AreaCollisionStates {
+    return this.areaStates.getState(roomId, mapData).targets;
+  }
+
+  /**
+   * Check if a player may enter a world room - returns the reason if not
+   */
+  private getRoomEntryError(roomId: string, playerId: string): string | null {
+    const guestRoomId = guestRooms.get(playerId);
+    if (guestRoomId && guestRoomId !== roomId) {
+      return 'Guests can only visit the room they were invited to';
+    }
+    const room = roomRegistry.getCachedRoom(roomId);
+    if (!room) {
+      // Rooms outside the registry (e.g. map room IDs) are not limited
+      return null;
+    }
+    if (room.archivedAt) {
+      return 'World room is archived';
+    }
+    const occupants = roomPlayers.get(roomId);
+    if (occupants && !occupants.has(playerId) && occupants.size >= room.capacity) {
+      return 'World room is full';
+    }
+    return null;
+  }
+
+  /**
+   * Create a world room if it doesn't exist
+   */
+  private ensureRoom(roomId: string): void {
+    if (worldRooms.has(roomId)) return;
+
+    worldRooms.set(roomId, {
+      id: roomId,
+      name: `World ${roomId}`,
+      type: 'world',
+      participants: [],
+      createdAt: new Date(),
+      isPrivate: false
+    });
+    roomPlayers.set(roomId, new Set());
+  }
+
+  private addToRoom(playerId: string, roomId: string): void {
+    const room = worldRooms.get(roomId)!;
+    if (!room.participants.includes(playerId)) {
+      room.participants.push(playerId);
+    }
+    roomPlayers.get(roomId)!.add(playerId);
+  }
+
+  private removeFromRoom(playerId: string, roomId: string): void {
+    roomPlayers.get(roomId)?.delete(playerId);
+
+    const room = worldRooms.get(roomId);
+    if (room) {
+      room.participants = room.participants.filter(p => p !== playerId);
     }
   }
 
+  /**
+   * Move a player into another world room at the given position. Observers in the old room
+   * see them leave, the player gets a fresh world state and snapshot stream for the new room.
+   * Runs synchronously so no tick ever sees the player in both rooms (or in neither).
+   */
+  private transferPlayer(socket: Socket, player: WorldPlayer, roomId: string, x: number, y: number, destinationName?: string): void {
+    const previousRoomId = player.roomId;
+
+    // Save where a registered user left the previous room
+    this.savePositions([player]);
+
+    this.removeFromRoom(player.id, previousRoomId);
+    socket.leave(previousRoomId);
+    dirtyPlayers.get(previousRoomId)?.delete(player.id);
+    teleportedPlayers.delete(player.id);
+    pendingActions.delete(player.id);
+    const viewport = interestManager.getViewport(player.id);
+    this.emitPlayerLeft(interestManager.removePlayer(player.id), player.id, 'player-left');
+
+    player.roomId = roomId;
+    player.x = x;
+    player.y = y;
+    player.lastMoved = new Date();
+    player.animation = 'idle';
+    player.rotating = false;
+    unsavedPositions.add(player.id);
+
+    this.ensureRoom(roomId);
+    this.addToRoom(player.id, roomId);
+    socket.join(roomId);
+    snapshotStreams.set(player.id, { seq: 0, baselines: new Map() });
+
+    const interest = interestManager.addPlayer(roomId, player.id, x, y, viewport);
+    this.emitPlayerState(interest.observersEntered, player, 'player-joined');
+
+    socket.emit('world:room-transfer', { roomId, destinationName });
+    this.sendWorldState(socket, player.id, roomId, interest.entered);
+
+    logger.info(`[WorldController] Player ${player.id} moved from ${previousRoomId} to ${roomId}`);
+  }
+
+  /**
+   * Send a player the players it can see after joining (or changing) a room
+   */
+  private sendWorldState(socket: Socket, playerId: string, roomId: string, visibleIds: string[]): void {
+    const currentPlayers = visibleIds
+      .map(id => players.get(id))
+      .filter((p): p is WorldPlayer => p !== undefined);
+    currentPlayers.forEach(p => this.rememberSent(playerId, p));
+
+    socket.emit('world-state', {
+      players: currentPlayers,
+      roomId
+    });
+    socket.emit('area-state', this.areaStates.getState(roomId, this.getRoomMap(roomId)));
+  }
+
+  /**
+   * Send the switch / collectible state of a room to everyone in it
+   */
+  private broadcastAreaState(roomId: string): void {
+    const state = this.areaStates.getState(roomId, this.getRoomMap(roomId));
+    this.emitToPlayers(Array.from(roomPlayers.get(roomId) ?? []), 'area-state', state);
+  }
+
+  /**
+   * Positions of the other players in a room (used to avoid stacking players on spawn)
+   */
+  private getOccupiedPositions(roomId: string, excludePlayerId: string): Point[] {
+    return Array.from(roomPlayers.get(roomId) ?? [])
+      .filter(id => id !== excludePlayerId)
+      .map(id => players.get(id))
+      .filter((p): p is WorldPlayer => p !== undefined)
+      .map(p => ({ x: p.x, y: p.y }));
+  }
+
+  /**
+   * Check if a player is inside an area (with some tolerance for client/server drift)
+   */
+  private isNearArea(player: WorldPlayer, area: Pick<TeleportArea, 'x' | 'y' | 'width' | 'height'>): boolean {
+    return player.x >= area.x - TELEPORT_AREA_TOLERANCE &&
+      player.x <= area.x + area.width + TELEPORT_AREA_TOLERANCE &&
+      player.y >= area.y - TELEPORT_AREA_TOLERANCE &&
+      player.y <= area.y + area.height + TELEPORT_AREA_TOLERANCE;
+  }
+
+  /**
+   * Look up a player and verify the socket owns it and it is in the given room
+   */
+  private getOwnedPlayer(socket: Socket, playerId: string, roomId: string): WorldPlayer | null {
+    const player = players.get(playerId);
+    if (!player || player.roomId !== roomId || socketPlayerMap.get(socket.id) !== playerId) {
+      socket.emit('error', { message: 'Player not found in room' });
+      return null;
+    }
+    return player;
+  }
+
+  private createMovementState(): MovementState {
+    const now = Date.now();
+    return { budget: MAX_MOVE_BURST, lastRefill: now, lastTeleport: 0, messageWindowStart: now, messageCount: 0, lastAction: 0, lastAreaUse: 0 };
+  }
+
+  /**
+   * Rate limit switch / collectible use per player
+   */
+  private allowAreaUse(playerId: string): boolean {
+    const state = movementStates.get(playerId);
+    const now = Date.now();
+    if (!state || now - state.lastAreaUse < AREA_USE_COOLDOWN_MS) {
+      logger.debug(`[WorldController] Area use from ${playerId} ignored (cooldown)`);
+      return false;
+    }
+    state.lastAreaUse = now;
+    return true;
+  }
+
+  /**
+   * Validate avatar data sent by a client, returning a clean copy (null if unusable)
+   */
+  private parseAvatarData(avatarData: AvatarSyncData | undefined): AvatarSyncData | null {
+    if (!avatarData || typeof avatarData.spriteSheetImageData !== 'string' ||
+        !avatarData.spriteSheetImageData.startsWith('data:image/')) {
+      return null;
+    }
+
+    const frameWidth = Number(avatarData.frameWidth);
+    const frameHeight = Number(avatarData.frameHeight);
+    if (!(frameWidth > 0) || !(frameHeight > 0)) {
+      return null;
+    }
+
+    return {
+      spriteSheetImageData: avatarData.spriteSheetImageData,
+      frameWidth,
+      frameHeight,
+      characterName: typeof avatarData.characterName === 'string' ? avatarData.characterName : '',
+      animations: Array.isArray(avatarData.animations)
+        ? avatarData.animations
+          .filter((animation) => typeof animation?.category === 'string' && Array.isArray(animation.frames))
+          .map((animation) => ({
+            category: animation.category,
+            frames: animation.frames.map((frame) => Math.max(0, Math.floor(Number(frame)) || 0)),
+            frameRate: Number(animation.frameRate) > 0 ? Number(animation.frameRate) : 8,
+            loop: animation.loop === true
+          }))
+        : undefined
+    };
+  }
+
+  /**
+   * Validate an action payload, returning a clean copy (null if invalid)
+   */
+  private parseAction(action: PlayerAction | undefined): PlayerAction | null {
+    switch (action?.type) {
+      case 'jump':
+        return JUMP_DIRECTIONS.has(action.direction) ? { type: 'jump', direction: action.direction } : null;
+      case 'fire':
+        return { type: 'fire', facing: action.facing === -1 ? -1 : 1 };
+      case 'rotate':
+        return { type: 'rotate', active: action.active === true };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Count a move message against the player's per-second message limit
+   */
+  private allowMoveMessage(playerId: string): boolean {
+    const now = Date.now();
+    const state = movementStates.get(playerId) ?? this.createMovementState();
+    movementStates.set(playerId, state);
+
+    if (now - state.messageWindowStart >= 1000) {
+      state.messageWindowStart = now;
+      state.messageCount = 0;
+    }
+    state.messageCount++;
+    return state.messageCount <= MAX_MOVE_MESSAGES_PER_SECOND;
+  }
+
+  /**
+   * Refill the player's movement budget for elapsed time and try to spend `distance`
+   */
+  private consumeMovementBudget(playerId: string, distance: number): boolean {
+    const now = Date.now();
+    const state = movementStates.get(playerId) ?? this.createMovementState();
+    const elapsedSeconds = (now - state.lastRefill) / 1000;
+    state.budget = Math.min(MAX_MOVE_BURST, state.budget + elapsedSeconds * MAX_MOVE_SPEED);
+    state.lastRefill = now;
+    movementStates.set(playerId, state);
+
+    if (distance > state.budget) {
+      return false;
+    }
+    state.budget -= distance;
+    return true;
+  }
+
+  /**
+   * Commit an accepted position; existing observers receive it with the next snapshot
+   */
+  private applyMove(player: WorldPlayer, x: number, y: number, teleport: boolean = false): void {
+    player.x = x;
+    player.y = y;
+    player.lastMoved = new Date();
+    this.markDirty(player, teleport);
+    unsavedPositions.add(player.id);
+
+    const interest = interestManager.updatePosition(player.id, x, y);
+
+    // Observers: newly in range get the full player right away, out of range a leave
+    this.emitPlayerState(interest.observersEntered, player, 'player-entered-interest');
+    this.emitPlayerLeft(interest.observersLeft, player.id, 'player-left-interest');
+
+    // The mover: players that came into or went out of its own view
+    this.emitOwnInterestChanges(player.id, interest);
+  }
+
+  /**
+   * Tell a player which players entered or left its own area of interest
+   */
+  private emitOwnInterestChanges(playerId: string, interest: InterestUpdate): void {
+    interest.entered.forEach((id) => {
+      const visiblePlayer = players.get(id);
+      if (visiblePlayer) {
+        this.emitPlayerState([playerId], visiblePlayer, 'player-entered-interest');
+      }
+    });
+    interest.left.forEach((id) => {
+      this.emitPlayerLeft([playerId], id, 'player-left-interest');
+    });
+  }
+
+  // ============================================================================
+  // SNAPSHOTS
+  // ============================================================================
+
+  private markDirty(player: WorldPlayer, teleport: boolean): void {
+    if (!dirtyPlayers.has(player.roomId)) {
+      dirtyPlayers.set(player.roomId, new Set());
+    }
+    dirtyPlayers.get(player.roomId)!.add(player.id);
+    if (teleport) {
+      teleportedPlayers.add(player.id);
+    }
+  }
+
+  /**
+   * One world tick: send each observer a single snapshot with the changes it can see
+   */
+  private tick(): void {
+    this.tickCount++;
+    const serverTime = Date.now();
+
+    for (const [roomId, dirty] of dirtyPlayers) {
+      const outgoing: Map<string, SnapshotEntry[]> = new Map();
+
+      for (const playerId of dirty) {
+        const player = players.get(playerId);
+        if (!player || player.roomId !== roomId) continue;
+
+        const teleported = teleportedPlayers.has(playerId);
+        for (const observerId of interestManager.getObservers(playerId)) {
+          const entry = this.diffForObserver(observerId, player, teleported);
+          if (!entry) continue;
+          if (!outgoing.has(observerId)) {
+            outgoing.set(observerId, []);
+          }
+          outgoing.get(observerId)!.push(entry);
+        }
+      }
+
+      for (const [observerId, entries] of outgoing) {
+        const stream = snapshotStreams.get(observerId);
+        if (!stream) continue;
+        stream.seq++;
+        const snapshot: WorldSnapshot = {
+          roomId,
+          seq: stream.seq,
+          tick: this.tickCount,
+          serverTime,
+          players: entries
+        };
+        this.emitToPlayers([observerId], 'world:snapshot', snapshot);
+      }
+    }
+
+    dirtyPlayers.clear();
+    teleportedPlayers.clear();
+    pendingActions.clear();
+
+    if (this.tickCount % POSITION_FLUSH_EVERY_TICKS === 0) {
+      this.flushPositions();
+    }
+  }
+
+  // ============================================================================
+  // POSITION PERSISTENCE
+  // ============================================================================
+
+  /**
+   * Save positions of all players that moved since the last flush
+   */
+  private async flushPositions(): Promise<void> {
+    if (this.isFlushingPositions || unsavedPositions.size === 0) return;
+
+    const moved = Array.from(unsavedPositions)
+      .map(id => players.get(id))
+      .filter((p): p is WorldPlayer => p !== undefined);
+    unsavedPositions.clear();
+
+    this.isFlushingPositions = true;
+    try {
+      await this.savePositions(moved);
+    } finally {
+      this.isFlushingPositions = false;
+    }
+  }
+
+  /**
+   * Save positions of registered users (guests are skipped)
+   */
+  private async savePositions(toSave: WorldPlayer[]): Promise<void> {
+    const entries = toSave
+      .filter(player => playerAccounts.has(player.id))
+      .map(player => ({
+        userId: playerAccounts.get(player.id)!,
+        roomId: player.roomId,
+        x: player.x,
+        y: player.y,
+        direction: player.direction
+      }));
+    if (entries.length === 0) return;
+
+    const saved = await settingsController.saveUserRoomPositions(entries);
+    logger.debug(`[WorldController] Saved ${saved}/${entries.length} player positions`);
+  }
+
+  /**
+   * Build the delta of a player's state against what an observer last received (null if unchanged)
+   */
+  private diffForObserver(observerId: string, player: WorldPlayer, teleported: boolean): SnapshotEntry | null {
+    const stream = snapshotStreams.get(observerId);
+    if (!stream) return null;
+
+    const baseline = stream.baselines.get(player.id);
+    const entry: SnapshotEntry = { id: player.id };
+    let changed = false;
+
+    if (!baseline || baseline.x !== player.x) {
+      entry.x = player.x;
+      changed = true;
+    }
+    if (!baseline || baseline.y !== player.y) {
+      entry.y = player.y;
+      changed = true;
+    }
+    if (!baseline || baseline.direction !== player.direction) {
+      entry.direction = player.direction;
+      changed = true;
+    }
+    if (!baseline || baseline.animation !== player.animation) {
+      entry.animation = player.animation;
+      changed = true;
+    }
+    if (!baseline || baseline.rotating !== player.rotating) {
+      entry.rotating = player.rotating;
+      changed = true;
+    }
+    const actions = pendingActions.get(player.id);
+    if (actions && actions.length > 0) {
+      entry.actions = actions;
+      changed = true;
+    }
+    if (teleported) {
+      entry.teleport = true;
+      changed = true;
+    }
+    if (!changed) return null;
+
+    this.rememberSent(observerId, player);
+    return entry;
+  }
+
+  /**
+   * Record the state an observer now holds for a player (baseline for later deltas)
+   */
+  private rememberSent(observerId: string, player: WorldPlayer): void {
+    snapshotStreams.get(observerId)?.baselines.set(player.id, {
+      x: player.x,
+      y: player.y,
+      direction: player.direction,
+      animation: player.animation,
+      rotating: player.rotating
+    });
+  }
+
+  /**
+   * Send a player's full state to observers and record it as their baseline
+   */
+  private emitPlayerState(observerIds: string[], player: WorldPlayer, event: 'player-joined' | 'player-entered-interest'): void {
+    observerIds.forEach((id) => this.rememberSent(id, player));
+    this.emitToPlayers(observerIds, event, this.toPlayerPayload(player));
+  }
+
+  /**
+   * Tell observers a player is gone (left the room or their view) and drop its baseline
+   */
+  private emitPlayerLeft(observerIds: string[], playerId: string, event: 'player-left' | 'player-left-interest'): void {
+    observerIds.forEach((id) => snapshotStreams.get(id)?.baselines.delete(playerId));
+    this.emitToPlayers(observerIds, event, { playerId });
+  }
+
+  /**
+   * Emit an event to the sockets of the given players
+   */
+  private emitToPlayers(playerIds: string[], event: string, payload: unknown): void {
+    for (const id of playerIds) {
+      const socketId = playerSocketMap.get(id);
+      if (socketId) {
+        this.io.to(socketId).emit(event, payload);
+      }
+    }
+  }
+
+  private toPlayerPayload(player: WorldPlayer) {
+    return {
+      playerId: player.id,
+      x: player.x,
+      y: player.y,
+      name: player.name,
+      avatarData: player.avatarData,
+      direction: player.direction,
+      animation: player.animation,
+      rotating: player.rotating,
+      isGuest: player.isGuest
+    };
+  }
+
+  /**
+   * Send the authoritative position back to the client that sent an invalid move
+   */
+  private sendPositionCorrection(socket: Socket, player: WorldPlayer, reason: PositionCorrectionReason): void {
+    socket.emit('player-position-corrected', {
+      playerId: player.id,
+      x: player.x,
+      y: player.y,
+      direction: player.direction,
+      reason
+    });
+  }
+
+  /**
+   * Load (and cache) the map backing a world room
+   */
+  private async loadRoomMap(roomId: string): Promise<MapData | null> {
+    const mapRoomId = roomRegistry.getMapRoomId(roomId);
+    if (roomMaps.has(mapRoomId)) {
+      return roomMaps.get(mapRoomId) ?? null;
+    }
+
+    const mapData = await this.mapController.getMap(mapRoomId);
+    roomMaps.set(mapRoomId, mapData);
+    logger.debug(`[WorldController] Loaded map ${mapRoomId} for world room ${roomId}: ${mapData ? 'found' : 'using defaults'}`);
+    return mapData;
+  }
+
+  /**
+   * Get cached map data for a world room (null until loaded or when no map exists)
+   */
+  private getRoomMap(roomId: string): MapData | null {
+    return roomMaps.get(roomRegistry.getMapRoomId(roomId)) ?? null;
+  }
+
   // Get world state (API endpoint)
   getWorldState(roomId: string) {
     const room = worldRooms.get(roomId);